@@ -0,0 +1,195 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import { authService } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  BROADCAST_PATH,
+  BROADCAST_SECRET_HEADER,
+  BroadcastRequest,
+  LEAVE_PROJECT_PATH,
+  LeaveProjectRequest,
+  projectRoom,
+  userRoom,
+} from '@/lib/realtime';
+
+// Standalone Socket.IO server for src/hooks/useSocket.ts.
+// Run with `npm run dev:socket` alongside `npm run dev`.
+const PORT = parseInt(process.env.SOCKET_PORT || '3001');
+const CLIENT_ORIGIN = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const SERVER_SECRET = process.env.SOCKET_SERVER_SECRET;
+
+interface SocketData {
+  userId: string;
+}
+
+type AuthedSocket = Socket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+
+function getCookie(cookieHeader: string | undefined, name: string): string | undefined {
+  if (!cookieHeader) return undefined;
+
+  for (const part of cookieHeader.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return undefined;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+const httpServer = createServer();
+
+const io = new Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>(httpServer, {
+  cors: {
+    origin: CLIENT_ORIGIN,
+    credentials: true,
+  },
+});
+
+function isInternalRequest(req: IncomingMessage) {
+  return !!SERVER_SECRET && req.headers[BROADCAST_SECRET_HEADER] === SERVER_SECRET;
+}
+
+// Internal endpoint used by src/lib/realtime.ts to fan out events from API routes
+async function handleBroadcast(req: IncomingMessage, res: ServerResponse) {
+  if (!isInternalRequest(req)) {
+    return sendJson(res, 403, { error: 'Forbidden' });
+  }
+
+  try {
+    const { room, event, payload } = JSON.parse(await readBody(req)) as BroadcastRequest;
+
+    if (!event || !room || !(room.startsWith('project:') || room.startsWith('user:'))) {
+      return sendJson(res, 400, { error: 'Invalid broadcast' });
+    }
+
+    io.to(room).emit(event, payload);
+    return sendJson(res, 200, { success: true });
+  } catch (error) {
+    console.error('Broadcast error:', error);
+    return sendJson(res, 400, { error: 'Invalid broadcast' });
+  }
+}
+
+// Internal endpoint used by src/lib/realtime.ts when a user loses access to a project:
+// sockets joined the room while the user was a member, so they have to be taken out
+async function handleLeaveProject(req: IncomingMessage, res: ServerResponse) {
+  if (!isInternalRequest(req)) {
+    return sendJson(res, 403, { error: 'Forbidden' });
+  }
+
+  try {
+    const { projectId, userId } = JSON.parse(await readBody(req)) as LeaveProjectRequest;
+
+    if (!projectId || !userId) {
+      return sendJson(res, 400, { error: 'Invalid request' });
+    }
+
+    // Each of the user's sockets is in their user room
+    io.in(userRoom(userId)).socketsLeave(projectRoom(projectId));
+    return sendJson(res, 200, { success: true });
+  } catch (error) {
+    console.error('Leave project error:', error);
+    return sendJson(res, 400, { error: 'Invalid request' });
+  }
+}
+
+// Socket.IO attaches its own request listener for /socket.io/; everything else lands here
+httpServer.on('request', (req: IncomingMessage, res: ServerResponse) => {
+  if (req.url?.startsWith('/socket.io/')) {
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === BROADCAST_PATH) {
+    handleBroadcast(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === LEAVE_PROJECT_PATH) {
+    handleLeaveProject(req, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+// Authenticate the handshake with the same auth-token JWT the API routes use
+io.use((socket: AuthedSocket, next) => {
+  const token =
+    (socket.handshake.auth?.token as string | undefined) ||
+    getCookie(socket.handshake.headers.cookie, 'auth-token');
+
+  if (!token) {
+    return next(new Error('Unauthorized'));
+  }
+
+  try {
+    const payload = authService.verifyToken(token);
+    socket.data.userId = payload.userId;
+    next();
+  } catch {
+    next(new Error('Invalid token'));
+  }
+});
+
+io.on('connection', (socket: AuthedSocket) => {
+  const { userId } = socket.data;
+
+  // Every socket receives its own user's notifications
+  socket.join(userRoom(userId));
+
+  // Only project members may join a project room
+  socket.on('join-project', async (projectId: string, ack?: (result: { success: boolean }) => void) => {
+    try {
+      const membership = await prisma.membership.findUnique({
+        where: {
+          projectId_userId: {
+            projectId,
+            userId,
+          },
+        },
+      });
+
+      if (!membership) {
+        ack?.({ success: false });
+        return;
+      }
+
+      socket.join(projectRoom(projectId));
+      ack?.({ success: true });
+    } catch (error) {
+      console.error('Join project error:', error);
+      ack?.({ success: false });
+    }
+  });
+
+  // Task and message events reach project rooms only through the broadcast endpoint, after
+  // an API route has saved the change; clients can't emit them to each other
+
+  // Keep the user's other tabs in sync when one of them updates a notification
+  socket.on('notification:update', (data) => {
+    if (!data?.notificationId) return;
+
+    socket.to(userRoom(userId)).emit('notification:updated', { ...data.updates, id: data.notificationId });
+  });
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`Socket.IO server listening on port ${PORT}`);
+});
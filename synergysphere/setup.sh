@@ -13,6 +13,9 @@ DATABASE_URL="file:./dev.db"
 JWT_SECRET="$(openssl rand -base64 32)"
 NEXTAUTH_URL="http://localhost:3000"
 NEXTAUTH_SECRET="$(openssl rand -base64 32)"
+NEXT_PUBLIC_SOCKET_URL="http://localhost:3001"
+SOCKET_SERVER_URL="http://localhost:3001"
+SOCKET_SERVER_SECRET="$(openssl rand -base64 32)"
 EOF
   echo "✅ Created .env.local with secure secrets"
 else
@@ -26,4 +29,5 @@ npx prisma db push
 
 echo "🎉 Setup complete!"
 echo "👉 Run 'npm run dev' to start the development server"
+echo "👉 Run 'npm run dev:socket' in a second terminal for real-time updates"
 echo "🌐 Then visit http://localhost:3000"
\ No newline at end of file
@@ -1,6 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+
+async function getReactions(messageId: string) {
+  const reactions = await prisma.messageReaction.findMany({
+    where: { messageId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return reactions.map((reaction) => ({
+    id: reaction.id,
+    emoji: reaction.emoji,
+    userId: reaction.userId,
+    userName: reaction.user.name,
+    createdAt: reaction.createdAt,
+  }));
+}
+
+// Push the message's current reactions to everyone viewing the project
+async function broadcastReactions(messageId: string, projectId: string) {
+  const reactions = await getReactions(messageId);
+  await broadcastToProject(projectId, 'message:updated', { id: messageId, reactions });
+}
 
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -69,6 +99,8 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       await prisma.messageReaction.delete({
         where: { id: existingReaction.id },
       });
+
+      await broadcastReactions(messageId, message.projectId);
       
       return NextResponse.json({ removed: true });
     } else {
@@ -97,6 +129,8 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         createdAt: reaction.createdAt,
       };
 
+      await broadcastReactions(messageId, message.projectId);
+
       return NextResponse.json({ reaction: transformedReaction });
     }
   } catch (error) {
@@ -149,26 +183,7 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
     }
 
     // Get all reactions for this message
-    const reactions = await prisma.messageReaction.findMany({
-      where: { messageId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
-
-    const transformedReactions = reactions.map((reaction) => ({
-      id: reaction.id,
-      emoji: reaction.emoji,
-      userId: reaction.userId,
-      userName: reaction.user.name,
-      createdAt: reaction.createdAt,
-    }));
+    const transformedReactions = await getReactions(messageId);
 
     return NextResponse.json({ reactions: transformedReactions });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { broadcastToProject } from '@/lib/realtime';
 
 async function getMessageById(messageId: string) {
   const message = await prisma.message.findUnique({
@@ -130,26 +132,22 @@ async function updateMessage(messageId: string, updates: {
     const originalMentions = message.mentions as string[] || [];
     const newMentions = uniqueMentions.filter(id => !originalMentions.includes(id));
     
-    if (newMentions.length > 0) {
-      const mentionNotifications = newMentions
-        .filter(userId => userId !== message.authorId) // Don't notify yourself
-        .map(userId => ({
-          userId,
-          fromUserId: message.authorId,
-          projectId: message.projectId,
-          type: 'mention',
-          title: 'You were mentioned',
-          message: `${message.author.name} mentioned you in an edited message`,
-          data: {
-            messageId: message.id,
-            messageContent: updates.content!.slice(0, 100),
-            threadId: message.threadId,
-            url: `/dashboard/projects/${message.projectId}/messages?thread=${message.threadId}`,
-          },
-        }));
+    const mentionedUserIds = newMentions.filter(userId => userId !== message.authorId); // Don't notify yourself
 
-      await prisma.notification.createMany({
-        data: mentionNotifications,
+    if (mentionedUserIds.length > 0) {
+      await createNotifications({
+        userIds: mentionedUserIds,
+        fromUserId: message.authorId,
+        projectId: message.projectId,
+        type: 'mention',
+        title: 'You were mentioned',
+        message: `${message.author.name} mentioned you in an edited message`,
+        data: {
+          messageId: message.id,
+          messageContent: updates.content!.slice(0, 100),
+          threadId: message.threadId ?? undefined,
+          url: `/dashboard/projects/${message.projectId}/messages?thread=${message.threadId}`,
+        },
       });
     }
   }
@@ -246,6 +244,8 @@ async function deleteMessage(messageId: string, userId: string): Promise<boolean
     },
   });
 
+  await broadcastToProject(message.projectId, 'message:deleted', messageId);
+
   return true;
 }
 
@@ -345,6 +345,8 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       );
     }
 
+    await broadcastToProject(updatedMessage.projectId, 'message:updated', updatedMessage);
+
     return NextResponse.json(updatedMessage);
   } catch (error) {
     console.error('Failed to update message:', error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { broadcastToUser } from '@/lib/realtime';
 import { NotificationType } from '@/types/notifications';
 
 async function markNotificationAsRead(notificationId: string, userId: string) {
@@ -213,6 +214,8 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       );
     }
 
+    await broadcastToUser(updatedNotification.userId, 'notification:updated', updatedNotification);
+
     return NextResponse.json(updatedNotification);
   } catch (error) {
     console.error('Failed to update notification:', error);
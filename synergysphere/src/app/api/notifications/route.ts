@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
 import { NotificationFilters, CreateNotificationRequest, NotificationType } from '@/types/notifications';
 
 async function getUserNotifications(
@@ -100,66 +101,6 @@ async function getUserNotifications(
   };
 }
 
-async function createNotifications(request: CreateNotificationRequest) {
-  const notifications = [];
-
-  for (const userId of request.userIds) {
-    const notification = await prisma.notification.create({
-      data: {
-        type: request.type,
-        title: request.title,
-        message: request.message,
-        data: request.data,
-        userId,
-        fromUserId: request.fromUserId,
-        projectId: request.projectId,
-      },
-      include: {
-        fromUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    // Transform to match our interface
-    notifications.push({
-      id: notification.id,
-      type: notification.type as NotificationType,
-      title: notification.title,
-      message: notification.message,
-      data: notification.data,
-      userId: notification.userId,
-      fromUserId: notification.fromUserId,
-      projectId: notification.projectId,
-      isRead: notification.isRead,
-      readAt: notification.readAt,
-      createdAt: notification.createdAt,
-      fromUser: notification.fromUser,
-      project: notification.project ? {
-        id: notification.project.id,
-        name: notification.project.name,
-        color: undefined,
-      } : undefined,
-    });
-  }
-
-  // TODO: Send real-time updates to connected clients
-  // TODO: Send email/push notifications based on user preferences
-
-  return notifications;
-}
-
 async function getUnreadCount(userId: string, projectId?: string): Promise<number> {
   const where: any = {
     userId,
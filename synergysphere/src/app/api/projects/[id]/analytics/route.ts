@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getProjectAnalytics } from '@/lib/projectAnalytics';
+import { AnalyticsTimeRange } from '@/types/analytics';
+
+const TIME_RANGES: AnalyticsTimeRange[] = ['week', 'month', 'quarter'];
+
+// GET /api/projects/[id]/analytics?timeRange=week|month|quarter - Completion, velocity
+// and per-member metrics computed from the project's tasks and their status history
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const timeRange = (req.nextUrl.searchParams.get('timeRange') || 'month') as AnalyticsTimeRange;
+
+    if (!TIME_RANGES.includes(timeRange)) {
+      return NextResponse.json(
+        { error: 'timeRange must be week, month or quarter' },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const analytics = await getProjectAnalytics(project, timeRange);
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error('Get project analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project analytics' },
+      { status: 500 }
+    );
+  }
+}
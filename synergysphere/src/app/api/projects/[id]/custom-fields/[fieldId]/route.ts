@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { getCustomField } from '@/lib/customFieldValues';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+
+// The type is deliberately not editable: stored values are typed
+const updateFieldSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').optional(),
+  options: z.array(z.string().trim().min(1).max(50)).min(1, 'Select fields need at least one option').max(50, 'Too many options').optional(),
+});
+
+// PATCH /api/projects/[id]/custom-fields/[fieldId] - Rename a field or change a select field's options
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, fieldId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit custom fields' },
+        { status: 404 }
+      );
+    }
+
+    const existingField = await getCustomField(projectId, fieldId);
+    if (!existingField) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = updateFieldSchema.parse(body);
+
+    if (data.options && existingField.type !== 'select') {
+      return NextResponse.json(
+        { error: 'Only select fields have options' },
+        { status: 400 }
+      );
+    }
+
+    if (data.name && data.name !== existingField.name) {
+      const duplicate = await prisma.customField.findFirst({
+        where: { projectId, name: data.name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A field with this name already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const options = data.options && [...new Set(data.options)];
+
+    await prisma.$transaction(async (tx) => {
+      await tx.customField.update({
+        where: { id: fieldId },
+        data: { name: data.name, options },
+      });
+
+      // Tasks set to a removed option lose the value
+      if (options) {
+        await tx.customFieldValue.deleteMany({
+          where: { fieldId, textValue: { notIn: options } },
+        });
+      }
+    });
+
+    return NextResponse.json({ field: await getCustomField(projectId, fieldId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update custom field error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update custom field' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/custom-fields/[fieldId] - Delete a field along with every task's value for it
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, fieldId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit custom fields' },
+        { status: 404 }
+      );
+    }
+
+    const existingField = await getCustomField(projectId, fieldId);
+    if (!existingField) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    await prisma.customField.delete({
+      where: { id: fieldId },
+    });
+
+    return NextResponse.json({ message: 'Custom field deleted successfully' });
+  } catch (error) {
+    console.error('Delete custom field error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete custom field' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { getCustomField, getCustomFields } from '@/lib/customFieldValues';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+
+const optionsSchema = z.array(z.string().trim().min(1).max(50)).max(50, 'Too many options');
+
+const createFieldSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long'),
+  type: z.enum(['text', 'number', 'date', 'select', 'user']),
+  options: optionsSchema.optional(),
+}).refine(
+  data => data.type !== 'select' || (data.options && data.options.length > 0),
+  { message: 'Select fields need at least one option', path: ['options'] }
+);
+
+// GET /api/projects/[id]/custom-fields - List the project's custom fields in display order
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const fields = await getCustomFields(projectId);
+
+    return NextResponse.json({ fields });
+  } catch (error) {
+    console.error('Get custom fields error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custom fields' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/custom-fields - Add a field after the existing ones
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit custom fields' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createFieldSchema.parse(body);
+
+    const fields = await getCustomFields(projectId);
+    if (fields.some(field => field.name === data.name)) {
+      return NextResponse.json(
+        { error: 'A field with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const created = await prisma.customField.create({
+      data: {
+        projectId,
+        name: data.name,
+        type: data.type,
+        options: data.type === 'select' ? [...new Set(data.options)] : [],
+        position: fields.length > 0 ? fields[fields.length - 1].position + 1 : 0,
+      },
+    });
+
+    return NextResponse.json({ field: await getCustomField(projectId, created.id) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create custom field error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create custom field' },
+      { status: 500 }
+    );
+  }
+}
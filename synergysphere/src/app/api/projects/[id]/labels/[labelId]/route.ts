@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { labelSelect } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+
+const updateLabelSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(30, 'Name too long').optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value').optional(),
+});
+
+// PATCH /api/projects/[id]/labels/[labelId] - Rename or recolor a label
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; labelId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, labelId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit labels' },
+        { status: 404 }
+      );
+    }
+
+    const existingLabel = await prisma.label.findFirst({
+      where: { id: labelId, projectId },
+    });
+
+    if (!existingLabel) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = updateLabelSchema.parse(body);
+
+    if (data.name && data.name !== existingLabel.name) {
+      const duplicate = await prisma.label.findFirst({
+        where: { projectId, name: data.name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A label with this name already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const label = await prisma.label.update({
+      where: { id: labelId },
+      data,
+      select: labelSelect,
+    });
+
+    return NextResponse.json({ label });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update label error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update label' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/labels/[labelId] - Delete a label and remove it from every task
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; labelId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, labelId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit labels' },
+        { status: 404 }
+      );
+    }
+
+    const existingLabel = await prisma.label.findFirst({
+      where: { id: labelId, projectId },
+    });
+
+    if (!existingLabel) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    await prisma.label.delete({
+      where: { id: labelId },
+    });
+
+    return NextResponse.json({ message: 'Label deleted successfully' });
+  } catch (error) {
+    console.error('Delete label error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete label' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { getLabels, labelSelect } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+
+const createLabelSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(30, 'Name too long'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value'),
+});
+
+// GET /api/projects/[id]/labels - List the project's labels by name
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const labels = await getLabels(projectId);
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    console.error('Get labels error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch labels' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/labels - Add a label
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit labels' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createLabelSchema.parse(body);
+
+    const existingLabel = await prisma.label.findFirst({
+      where: { projectId, name: data.name },
+    });
+
+    if (existingLabel) {
+      return NextResponse.json(
+        { error: 'A label with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const label = await prisma.label.create({
+      data: {
+        projectId,
+        name: data.name,
+        color: data.color,
+      },
+      select: labelSelect,
+    });
+
+    return NextResponse.json({ label }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create label error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create label' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { removeUserFromProject } from '@/lib/realtime';
 
 // DELETE /api/projects/[id]/members/[memberId] - Remove member from project
 export async function DELETE(
@@ -81,6 +82,7 @@ export async function DELETE(
         id: membership.id,
       },
     });
+    await removeUserFromProject(projectId, memberId);
 
     return NextResponse.json({ 
       message: `${membership.user.name} has been removed from the project` 
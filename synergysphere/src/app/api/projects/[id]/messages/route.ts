@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { broadcastToProject } from '@/lib/realtime';
 import { MessageFilters } from '@/types/messages';
 
 async function getProjectMessages(
@@ -202,29 +204,22 @@ async function createMessage(projectId: string, messageData: {
   });
 
   // Create notifications for mentioned users
-  if (uniqueMentions.length > 0) {
-    const mentionNotifications = uniqueMentions
-      .filter(userId => userId !== authorId) // Don't notify yourself
-      .map(userId => ({
-        userId,
-        fromUserId: authorId,
-        projectId,
-        type: 'mention',
-        title: 'You were mentioned',
-        message: `${newMessage.author.name} mentioned you in a message`,
-        data: {
-          messageId: newMessage.id,
-          messageContent: newMessage.content.slice(0, 100),
-          threadId: finalThreadId,
-          url: `/dashboard/projects/${projectId}/messages?thread=${finalThreadId}`,
-        },
-      }));
-    
-    if (mentionNotifications.length > 0) {
-      await prisma.notification.createMany({
-        data: mentionNotifications,
-      });
-    }
+  const mentionedUserIds = uniqueMentions.filter(userId => userId !== authorId); // Don't notify yourself
+  if (mentionedUserIds.length > 0) {
+    await createNotifications({
+      userIds: mentionedUserIds,
+      fromUserId: authorId,
+      projectId,
+      type: 'mention',
+      title: 'You were mentioned',
+      message: `${newMessage.author.name} mentioned you in a message`,
+      data: {
+        messageId: newMessage.id,
+        messageContent: newMessage.content.slice(0, 100),
+        threadId: finalThreadId,
+        url: `/dashboard/projects/${projectId}/messages?thread=${finalThreadId}`,
+      },
+    });
   }
 
   // Create reply notification if this is a reply
@@ -235,20 +230,18 @@ async function createMessage(projectId: string, messageData: {
     });
 
     if (parentMessage && parentMessage.authorId !== authorId) {
-      await prisma.notification.create({
+      await createNotifications({
+        userIds: [parentMessage.authorId],
+        fromUserId: authorId,
+        projectId,
+        type: 'reply',
+        title: 'New reply to your message',
+        message: `${newMessage.author.name} replied to your message`,
         data: {
-          userId: parentMessage.authorId,
-          fromUserId: authorId,
-          projectId,
-          type: 'reply',
-          title: 'New reply to your message',
-          message: `${newMessage.author.name} replied to your message`,
-          data: {
-            messageId: newMessage.id,
-            messageContent: newMessage.content.slice(0, 100),
-            threadId: finalThreadId,
-            url: `/dashboard/projects/${projectId}/messages?thread=${finalThreadId}`,
-          },
+          messageId: newMessage.id,
+          messageContent: newMessage.content.slice(0, 100),
+          threadId: finalThreadId,
+          url: `/dashboard/projects/${projectId}/messages?thread=${finalThreadId}`,
         },
       });
     }
@@ -413,6 +406,8 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
 
     const message = await createMessage(projectId, messageData, authResult.userId);
 
+    await broadcastToProject(projectId, 'message:created', message);
+
     return NextResponse.json(message, { status: 201 });
   } catch (error) {
     console.error('Failed to create message:', error);
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { getMilestoneById } from '@/lib/projectMilestones';
+
+const updateMilestoneSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(100, 'Title too long').optional(),
+  description: z.string().trim().max(1000, 'Description too long').nullable().optional(),
+  targetDate: z.string().datetime().optional(),
+});
+
+// PATCH /api/projects/[id]/milestones/[milestoneId] - Edit a milestone
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; milestoneId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, milestoneId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage milestones' },
+        { status: 404 }
+      );
+    }
+
+    const existingMilestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId },
+    });
+
+    if (!existingMilestone) {
+      return NextResponse.json({ error: 'Milestone not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = updateMilestoneSchema.parse(body);
+
+    await prisma.milestone.update({
+      where: { id: milestoneId },
+      data: {
+        title: data.title,
+        description: data.description,
+        targetDate: data.targetDate ? new Date(data.targetDate) : undefined,
+      },
+    });
+
+    return NextResponse.json({ milestone: await getMilestoneById(milestoneId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update milestone error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update milestone' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/milestones/[milestoneId] - Delete a milestone; its tasks are kept
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; milestoneId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, milestoneId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage milestones' },
+        { status: 404 }
+      );
+    }
+
+    const existingMilestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId },
+    });
+
+    if (!existingMilestone) {
+      return NextResponse.json({ error: 'Milestone not found' }, { status: 404 });
+    }
+
+    await prisma.milestone.delete({
+      where: { id: milestoneId },
+    });
+
+    return NextResponse.json({ message: 'Milestone deleted successfully' });
+  } catch (error) {
+    console.error('Delete milestone error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete milestone' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { getMilestoneById, getMilestones } from '@/lib/projectMilestones';
+
+const createMilestoneSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(100, 'Title too long'),
+  description: z.string().trim().max(1000, 'Description too long').optional(),
+  targetDate: z.string().datetime(),
+});
+
+// GET /api/projects/[id]/milestones - List the project's milestones with their progress
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const milestones = await getMilestones(projectId);
+
+    return NextResponse.json({ milestones });
+  } catch (error) {
+    console.error('Get milestones error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch milestones' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/milestones - Add a milestone
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage milestones' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createMilestoneSchema.parse(body);
+
+    const { id } = await prisma.milestone.create({
+      data: {
+        projectId,
+        title: data.title,
+        description: data.description || null,
+        targetDate: new Date(data.targetDate),
+      },
+    });
+
+    return NextResponse.json({ milestone: await getMilestoneById(id) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create milestone error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create milestone' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { isProjectKeyConflict, isProjectKeyTaken, numberExistingTasks } from '@/lib/projectKeys';
+import { getMilestones } from '@/lib/projectMilestones';
+import { PROJECT_KEY_PATTERN } from '@/lib/taskKeys';
+import { completionSelect, summarizeCompletion } from '@/lib/taskProgress';
+import { isDoneStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { z } from 'zod';
+
+const updateProjectSchema = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(100, 'Project name too long').optional(),
+  description: z.string().max(500, 'Description too long').optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value').optional(),
+  status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']).optional(),
+  // What Task.estimate counts in this project
+  estimationUnit: z.enum(['points', 'hours']).optional(),
+  // Whether moves over a column's WIP limit are only warned about or rejected
+  wipLimitMode: z.enum(['soft', 'hard']).optional(),
+  // Prefix of the project's task keys; links using the old key stop resolving
+  key: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(PROJECT_KEY_PATTERN, 'Key must be 2-10 letters or digits, starting with a letter')
+    .optional(),
+});
 
 export async function GET(
   req: NextRequest,
@@ -99,10 +125,13 @@ export async function GET(
       );
     }
 
-    // Calculate progress
-    const completedTasks = project.tasks.filter(task => task.status === 'COMPLETED').length;
-    const totalTasks = project.tasks.length;
-    const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+    // Calculate progress over all of the project's tasks, not just the recent ones above
+    const projectTasks = await prisma.task.findMany({
+      where: { projectId },
+      select: completionSelect,
+    });
+    const workflowStates = await getWorkflowStates(projectId);
+    const { totalTasks, completedTasks, progress } = summarizeCompletion(projectTasks, workflowStates);
 
     // Transform members
     const members = project.memberships.map(membership => ({
@@ -116,7 +145,7 @@ export async function GET(
     // Create recent activity from tasks and messages
     const recentActivity = [
       ...project.tasks
-        .filter(task => task.status === 'COMPLETED')
+        .filter(task => isDoneStatus(workflowStates, task.status))
         .slice(0, 5)
         .map(task => ({
           id: `task-${task.id}`,
@@ -156,6 +185,9 @@ export async function GET(
         description: project.description || '',
         status: project.status,
         color: project.color || '#3b82f6',
+        key: project.key,
+        estimationUnit: project.estimationUnit,
+        wipLimitMode: project.wipLimitMode,
         progress,
         totalTasks,
         completedTasks,
@@ -165,6 +197,7 @@ export async function GET(
         userRole: currentUserRole, // Add current user's role
       },
       members,
+      milestones: await getMilestones(projectId),
       recentActivity,
     };
 
@@ -176,4 +209,73 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PUT /api/projects/[id] - Update project settings (owner and admins only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const { id: projectId } = await params;
+    const body = await req.json();
+    const validatedData = updateProjectSchema.parse(body);
+
+    const existingProject = await findManageableProject(projectId, authResult.userId);
+    if (!existingProject) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit it' },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.key && (await isProjectKeyTaken(validatedData.key, projectId))) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
+    // Giving a project from before task keys its key numbers its existing tasks
+    const project = await prisma.$transaction(async (tx) => {
+      const updated = await tx.project.update({
+        where: { id: projectId },
+        data: validatedData,
+      });
+      if (validatedData.key) {
+        await numberExistingTasks(projectId, tx);
+      }
+      return updated;
+    });
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (isProjectKeyConflict(error)) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Failed to update project:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
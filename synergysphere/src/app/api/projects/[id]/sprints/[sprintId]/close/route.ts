@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { closeSprint, isOpenProjectSprint } from '@/lib/projectSprints';
+import { broadcastToProject } from '@/lib/realtime';
+
+const closeSprintSchema = z.object({
+  // Sprint that receives the unfinished tasks; null sends them to the backlog
+  targetSprintId: z.string().nullable(),
+});
+
+// POST /api/projects/[id]/sprints/[sprintId]/close - Close the active sprint and carry over unfinished work
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, sprintId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage sprints' },
+        { status: 404 }
+      );
+    }
+
+    const existingSprint = await prisma.sprint.findFirst({
+      where: { id: sprintId, projectId },
+    });
+
+    if (!existingSprint) {
+      return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+    }
+
+    if (existingSprint.state !== 'active') {
+      return NextResponse.json(
+        { error: 'Only the active sprint can be closed' },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const { targetSprintId } = closeSprintSchema.parse(body);
+
+    if (targetSprintId && (targetSprintId === sprintId || !(await isOpenProjectSprint(projectId, targetSprintId)))) {
+      return NextResponse.json(
+        { error: 'Unfinished tasks can only move to another open sprint of this project' },
+        { status: 400 }
+      );
+    }
+
+    const { sprint, carriedOverTaskIds } = await closeSprint(existingSprint, targetSprintId, authResult.userId);
+
+    // Boards showing the sprint drop the carried-over tasks
+    await Promise.all(
+      carriedOverTaskIds.map((taskId) =>
+        broadcastToProject(projectId, 'task:updated', { id: taskId, sprintId: targetSprintId })
+      )
+    );
+
+    return NextResponse.json({ sprint });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Close sprint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to close sprint' },
+      { status: 500 }
+    );
+  }
+}
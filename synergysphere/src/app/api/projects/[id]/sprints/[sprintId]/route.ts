@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { sprintInclude, toSprint } from '@/lib/projectSprints';
+
+const updateSprintSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').optional(),
+  goal: z.string().trim().max(500, 'Goal too long').nullable().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  // Starts a planned sprint; sprints are closed through the close endpoint
+  state: z.literal('active').optional(),
+});
+
+// PATCH /api/projects/[id]/sprints/[sprintId] - Edit or start a sprint
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, sprintId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage sprints' },
+        { status: 404 }
+      );
+    }
+
+    const existingSprint = await prisma.sprint.findFirst({
+      where: { id: sprintId, projectId },
+    });
+
+    if (!existingSprint) {
+      return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+    }
+
+    if (existingSprint.state === 'closed') {
+      return NextResponse.json(
+        { error: 'Closed sprints cannot be changed' },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const data = updateSprintSchema.parse(body);
+
+    const startDate = data.startDate ? new Date(data.startDate) : existingSprint.startDate;
+    const endDate = data.endDate ? new Date(data.endDate) : existingSprint.endDate;
+    if (endDate < startDate) {
+      return NextResponse.json(
+        { error: 'End date must be on or after the start date' },
+        { status: 400 }
+      );
+    }
+
+    if (data.state === 'active' && existingSprint.state !== 'active') {
+      const activeSprint = await prisma.sprint.findFirst({
+        where: { projectId, state: 'active' },
+      });
+
+      if (activeSprint) {
+        return NextResponse.json(
+          { error: `Close ${activeSprint.name} before starting another sprint` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const sprint = await prisma.sprint.update({
+      where: { id: sprintId },
+      data: {
+        name: data.name,
+        goal: data.goal,
+        startDate,
+        endDate,
+        state: data.state,
+      },
+      include: sprintInclude,
+    });
+
+    return NextResponse.json({ sprint: toSprint(sprint) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update sprint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update sprint' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/sprints/[sprintId] - Delete a sprint; its tasks go back to the backlog
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, sprintId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage sprints' },
+        { status: 404 }
+      );
+    }
+
+    const existingSprint = await prisma.sprint.findFirst({
+      where: { id: sprintId, projectId },
+    });
+
+    if (!existingSprint) {
+      return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+    }
+
+    if (existingSprint.state === 'active') {
+      return NextResponse.json(
+        { error: 'Close the sprint before deleting it' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.sprint.delete({
+      where: { id: sprintId },
+    });
+
+    return NextResponse.json({ message: 'Sprint deleted successfully' });
+  } catch (error) {
+    console.error('Delete sprint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete sprint' },
+      { status: 500 }
+    );
+  }
+}
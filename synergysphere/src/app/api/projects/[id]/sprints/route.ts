@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { getSprints, sprintInclude, toSprint } from '@/lib/projectSprints';
+
+const createSprintSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long'),
+    goal: z.string().trim().max(500, 'Goal too long').optional(),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+  })
+  .refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  });
+
+// GET /api/projects/[id]/sprints - List the project's sprints
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const sprints = await getSprints(projectId);
+
+    return NextResponse.json({ sprints });
+  } catch (error) {
+    console.error('Get sprints error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sprints' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/sprints - Plan a sprint
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to manage sprints' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createSprintSchema.parse(body);
+
+    const sprint = await prisma.sprint.create({
+      data: {
+        projectId,
+        name: data.name,
+        goal: data.goal || null,
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+      },
+      include: sprintInclude,
+    });
+
+    return NextResponse.json({ sprint: toSprint(sprint) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create sprint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create sprint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { verifyAuth } from '@/lib/auth';
+import { toCsv } from '@/lib/csv';
+import { prisma } from '@/lib/prisma';
+import { TASK_EXPORT_HEADERS, joinLabelNames } from '@/lib/taskImport';
+import { formatTaskKey } from '@/lib/taskKeys';
+import { findWorkflowState } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+
+const EXPORT_FORMATS = ['csv', 'json'];
+
+const toDay = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+// GET /api/projects/[id]/tasks/export?format=csv|json - Download all of a project's tasks.
+// The CSV's columns are named so they map straight back on import.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const exportFormat = req.nextUrl.searchParams.get('format') || 'csv';
+
+    if (!EXPORT_FORMATS.includes(exportFormat)) {
+      return NextResponse.json({ error: "Format must be csv or json" }, { status: 400 });
+    }
+
+    // Check if user has access to this project
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+      select: { id: true, name: true, key: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const [states, tasks] = await Promise.all([
+      getWorkflowStates(projectId),
+      prisma.task.findMany({
+        where: { projectId },
+        select: {
+          number: true,
+          title: true,
+          description: true,
+          status: true,
+          priority: true,
+          startDate: true,
+          dueDate: true,
+          estimate: true,
+          createdAt: true,
+          assignee: { select: { email: true } },
+          parent: { select: { number: true } },
+          labels: { select: { label: { select: { name: true } } } },
+        },
+        orderBy: [{ number: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    const exported = tasks.map((task) => ({
+      key: formatTaskKey(project.key, task.number),
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      statusName: findWorkflowState(states, task.status)?.name ?? task.status,
+      priority: task.priority,
+      assigneeEmail: task.assignee?.email ?? null,
+      startDate: toDay(task.startDate),
+      dueDate: toDay(task.dueDate),
+      estimate: task.estimate,
+      labels: task.labels.map(({ label }) => label.name),
+      parentKey: task.parent ? formatTaskKey(project.key, task.parent.number) : null,
+      createdAt: task.createdAt.toISOString(),
+    }));
+
+    const fileName = `${project.key || project.name.replace(/[^A-Za-z0-9]+/g, '-')}-tasks`;
+
+    if (exportFormat === 'json') {
+      const body = JSON.stringify({
+        project,
+        exportedAt: new Date().toISOString(),
+        tasks: exported,
+      }, null, 2);
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        },
+      });
+    }
+
+    const csv = toCsv([
+      TASK_EXPORT_HEADERS,
+      ...exported.map((task) => [
+        task.key,
+        task.title,
+        task.description,
+        task.statusName,
+        task.priority,
+        task.assigneeEmail,
+        task.startDate,
+        task.dueDate,
+        task.estimate,
+        joinLabelNames(task.labels),
+        task.parentKey,
+        task.createdAt,
+      ]),
+    ]);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export tasks error:", error);
+    return NextResponse.json(
+      { error: "Failed to export tasks" },
+      { status: 500 }
+    );
+  }
+}
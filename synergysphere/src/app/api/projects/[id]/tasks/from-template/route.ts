@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { getTaskProgress, progressInclude } from '@/lib/taskProgress';
+import { createTemplateTasks, findOwnTemplate, recordTemplateTasks } from '@/lib/taskTemplates';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { TaskTemplateContent } from '@/types/templates';
+import { z } from 'zod';
+
+const createFromTemplateSchema = z.object({
+  templateId: z.string().min(1),
+  // Day the template's relative dates count from; defaults to today
+  startDate: z.string().datetime().optional().transform(val => val ? new Date(val) : new Date()),
+});
+
+// POST /api/projects/[id]/tasks/from-template - Create a task, with its subtasks and
+// checklist, from one of the user's task templates
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const body = await req.json();
+    const validatedData = createFromTemplateSchema.parse(body);
+
+    // Check if user has access to this project
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const template = await findOwnTemplate(validatedData.templateId, 'task', authResult.userId);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const { tasks: templateTasks } = template.content as unknown as TaskTemplateContent;
+    const workflowStates = await getWorkflowStates(projectId);
+
+    const created = await prisma.$transaction(
+      (tx) => createTemplateTasks(tx, templateTasks, {
+        projectId,
+        states: workflowStates,
+        startDate: validatedData.startDate,
+        userId: authResult.userId!,
+      }),
+      { timeout: 30000 }
+    );
+
+    await recordTemplateTasks(created, authResult.userId!);
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: created.map(task => task.id) } },
+      include: {
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
+        ...progressInclude,
+      },
+    });
+
+    // Transform tasks to ensure consistent status and priority values, in template order
+    const transformedTasks = created.flatMap(({ id }) => {
+      const task = tasks.find(t => t.id === id);
+      if (!task) return [];
+
+      const { subtasks, checklistItems, customFieldValues, ...taskData } = task;
+      return [{
+        ...taskData,
+        status: task.status.toUpperCase(),
+        priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+        labels: toTaskLabels(task.labels),
+        customFields: toCustomFieldValues(customFieldValues),
+        blockedBy: [],
+        progress: getTaskProgress({ subtasks, checklistItems }, workflowStates),
+      }];
+    });
+
+    // Subtasks go out first: parents already count them in their progress, and boards add
+    // each arriving subtask to its parent's progress if the parent is there
+    for (const task of [...transformedTasks].reverse()) {
+      await broadcastToProject(projectId, 'task:created', task);
+    }
+
+    return NextResponse.json({ tasks: transformedTasks }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create tasks from template error:", error);
+    return NextResponse.json(
+      { error: "Failed to create tasks from template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValid, parseISO } from 'date-fns';
+import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { getLabels, taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { broadcastToProject } from '@/lib/realtime';
+import { recordTaskHistory } from '@/lib/taskHistory';
+import { MAX_IMPORT_ROWS, splitLabelNames } from '@/lib/taskImport';
+import { createColumnAppender } from '@/lib/taskRanking';
+import { addTaskWatchers, notifyTaskWatchers } from '@/lib/taskWatchers';
+import { getInitialStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { TaskImportRow } from '@/types/taskImport';
+import { TaskLabel } from '@/types/labels';
+import { WorkflowState } from '@/types/workflow';
+import { z } from 'zod';
+
+const cell = z.string().max(10000).optional();
+
+const importTasksSchema = z.object({
+  rows: z
+    .array(
+      z.object({
+        title: cell,
+        description: cell,
+        status: cell,
+        priority: cell,
+        assigneeEmail: cell,
+        startDate: cell,
+        dueDate: cell,
+        estimate: cell,
+        labels: cell,
+      })
+    )
+    .min(1, 'Nothing to import')
+    .max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+  // Only check the rows and return what they would become
+  dryRun: z.boolean().default(true),
+});
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+interface ImportContext {
+  states: WorkflowState[];
+  members: Array<{ id: string; name: string; email: string }>;
+  labels: TaskLabel[];
+}
+
+// "2025-03-14", or anything else Date understands
+function parseImportDate(value: string) {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseISO(value) : new Date(value);
+  return isValid(date) ? date : null;
+}
+
+// Blank cells take the defaults a new task gets
+function validateRow(row: TaskImportRow, { states, members, labels }: ImportContext) {
+  const errors: string[] = [];
+  const byName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  const title = row.title || '';
+  if (!title) {
+    errors.push('Title is required');
+  } else if (title.length > 200) {
+    errors.push('Title is longer than 200 characters');
+  }
+
+  // By key ("IN_REVIEW") or name ("In Review")
+  const state = row.status
+    ? states.find((s) => byName(s.key, row.status!) || byName(s.name, row.status!))
+    : undefined;
+  if (row.status && !state) {
+    errors.push(`Unknown status "${row.status}"`);
+  }
+
+  const priority = PRIORITIES.find((p) => byName(p, row.priority || 'MEDIUM'));
+  if (!priority) {
+    errors.push(`Priority must be Low, Medium, High or Urgent, not "${row.priority}"`);
+  }
+
+  const assignee = row.assigneeEmail
+    ? members.find((member) => byName(member.email, row.assigneeEmail!))
+    : undefined;
+  if (row.assigneeEmail && !assignee) {
+    errors.push(`No project member has the email ${row.assigneeEmail}`);
+  }
+
+  const startDate = row.startDate ? parseImportDate(row.startDate) : null;
+  if (row.startDate && !startDate) {
+    errors.push(`Invalid start date "${row.startDate}"`);
+  }
+  const dueDate = row.dueDate ? parseImportDate(row.dueDate) : null;
+  if (row.dueDate && !dueDate) {
+    errors.push(`Invalid due date "${row.dueDate}"`);
+  }
+  if (startDate && dueDate && startDate > dueDate) {
+    errors.push('Start date is after the due date');
+  }
+
+  const estimate = row.estimate ? Number(row.estimate) : null;
+  if (estimate !== null && !(estimate > 0 && estimate <= 1000)) {
+    errors.push(`Estimate must be a number greater than 0 and at most 1000, not "${row.estimate}"`);
+  }
+
+  const labelNames = row.labels ? splitLabelNames(row.labels) : [];
+  const taskLabels = labels.filter((label) => labelNames.some((name) => byName(label.name, name)));
+  labelNames
+    .filter((name) => !taskLabels.some((label) => byName(label.name, name)))
+    .forEach((name) => errors.push(`Unknown label "${name}"`));
+
+  if (errors.length > 0 || !priority) {
+    return { errors, task: null };
+  }
+
+  return {
+    errors,
+    task: {
+      title,
+      description: row.description || null,
+      status: state?.key ?? getInitialStatus(states),
+      priority,
+      assignee: assignee ?? null,
+      startDate,
+      dueDate,
+      estimate,
+      labels: taskLabels,
+    },
+  };
+}
+
+// POST /api/projects/[id]/tasks/import - Check CSV rows (dryRun) or create a task from each,
+// all in one transaction. Assignees are matched by email against the project's members.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const body = await req.json();
+    const { rows, dryRun } = importTasksSchema.parse(body);
+
+    // Check if user has access to this project
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const [states, memberships, labels] = await Promise.all([
+      getWorkflowStates(projectId),
+      prisma.membership.findMany({
+        where: { projectId },
+        select: { user: { select: { id: true, name: true, email: true } } },
+      }),
+      getLabels(projectId),
+    ]);
+    const context = { states, members: memberships.map(({ user }) => user), labels };
+
+    const validated = rows.map((row) => validateRow(row, context));
+    const results = validated.map(({ errors, task }, index) => ({ row: index + 1, errors, task }));
+    const errorCount = results.filter((result) => result.errors.length > 0).length;
+
+    if (dryRun) {
+      return NextResponse.json({ results, errorCount });
+    }
+
+    if (errorCount > 0) {
+      return NextResponse.json(
+        { error: `${errorCount} ${errorCount === 1 ? 'row has' : 'rows have'} errors; nothing was imported`, results, errorCount },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const getPosition = createColumnAppender(tx, projectId);
+      const tasks = [];
+
+      for (const { task } of validated) {
+        if (!task) continue;
+
+        tasks.push(await tx.task.create({
+          data: {
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            position: await getPosition(task.status),
+            number: await allocateTaskNumber(projectId, tx),
+            priority: task.priority,
+            assigneeId: task.assignee?.id ?? null,
+            startDate: task.startDate,
+            dueDate: task.dueDate,
+            estimate: task.estimate,
+            projectId,
+            creatorId: authResult.userId!,
+            labels: {
+              create: task.labels.map(label => ({ labelId: label.id })),
+            },
+          },
+          include: {
+            assignee: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            creator: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            ...taskLabelsInclude,
+            ...customFieldValuesInclude,
+          },
+        }));
+      }
+
+      return tasks;
+    }, { timeout: 60000 });
+
+    await recordTaskHistory(
+      created.map(task => ({ taskId: task.id, field: 'status', oldValue: null, newValue: task.status })),
+      authResult.userId
+    );
+    for (const task of created) {
+      await addTaskWatchers(task.id, [task.creatorId, task.assigneeId]);
+    }
+    await notifyTaskWatchers(
+      created.map(task => ({ taskId: task.id, field: 'assigneeId', oldValue: null, newValue: task.assigneeId })),
+      authResult.userId
+    );
+
+    // Transform tasks to ensure consistent status and priority values
+    const transformedTasks = created.map(({ customFieldValues, ...task }) => ({
+      ...task,
+      status: task.status.toUpperCase(),
+      priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+      blockedBy: [],
+      progress: { completed: 0, total: 0 },
+    }));
+
+    for (const task of transformedTasks) {
+      await broadcastToProject(projectId, 'task:created', task);
+    }
+
+    return NextResponse.json({ tasks: transformedTasks, results }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Import tasks error:", error);
+    return NextResponse.json(
+      { error: "Failed to import tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
+import { buildCustomFieldValueRows, customFieldValuesInclude, parseCustomFieldValues, toCustomFieldValues } from '@/lib/customFieldValues';
 import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { isProjectMilestone } from '@/lib/projectMilestones';
+import { isOpenProjectSprint } from '@/lib/projectSprints';
+import { broadcastToProject } from '@/lib/realtime';
+import { areProjectLabels, buildLabelsWhere, taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { recordStatusChange } from '@/lib/statusHistory';
+import { blockerSelect } from '@/lib/taskDependencies';
+import { getEndOfColumnPosition } from '@/lib/taskRanking';
+import { getTaskProgress, progressInclude } from '@/lib/taskProgress';
+import { addTaskWatchers, notifyTaskWatchers } from '@/lib/taskWatchers';
+import { findWorkflowState, getInitialStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
 import { z } from 'zod';
 
 const createTaskSchema = z.object({
   title: z.string().min(1, 'Task title is required').max(200, 'Task title too long'),
   description: z.string().optional(),
   assigneeId: z.string().optional(),
-  status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).default('TODO'),
+  status: z.string().min(1).optional(),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  startDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   dueDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  parentTaskId: z.string().optional(),
+  // Sprint to plan the task into; tasks without one start in the backlog
+  sprintId: z.string().optional(),
+  // Milestone the task counts towards
+  milestoneId: z.string().optional(),
+  // Story points or hours, per the project's estimation unit
+  estimate: z.number().positive().max(1000).nullable().optional(),
+  // RRULE-style schedule, see src/lib/recurrence.ts
+  recurrenceRule: z.string().refine(isValidRecurrenceRule, 'Invalid recurrence rule').nullable().optional(),
+  labelIds: z.array(z.string()).optional(),
+  // Custom field values keyed by field id
+  customFields: z.record(z.string(), z.unknown()).optional(),
 });
 
+// Nest each task under its parent; tasks whose parent isn't in the list become roots
+function buildTaskTree<T extends { id: string; parentTaskId: string | null }>(tasks: T[]) {
+  type TaskNode = T & { subtasks: TaskNode[] };
+
+  const nodes = new Map<string, TaskNode>(
+    tasks.map(task => [task.id, { ...task, subtasks: [] }])
+  );
+  const roots: TaskNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentTaskId ? nodes.get(node.parentTaskId) : undefined;
+    if (parent) {
+      parent.subtasks.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -26,6 +74,10 @@ export async function GET(
     const { searchParams } = new URL(req.url);
     const status = searchParams.get("status");
     const assigneeId = searchParams.get("assigneeId");
+    // Comma-separated label ids or names; tasks with any of them match
+    const labels = searchParams.get("labels");
+    // "flat" (default) lists every task, "top-level" skips subtasks, "tree" nests subtasks under their parents
+    const structure = searchParams.get("structure") || "flat";
 
     // Check if user has access to this project
     const project = await prisma.project.findFirst({
@@ -55,6 +107,14 @@ export async function GET(
       whereClause.assigneeId = assigneeId;
     }
 
+    if (labels) {
+      whereClause.labels = buildLabelsWhere(labels);
+    }
+
+    if (structure === "top-level") {
+      whereClause.parentTaskId = null;
+    }
+
     const tasks = await prisma.task.findMany({
       where: whereClause,
       include: {
@@ -72,21 +132,39 @@ export async function GET(
             email: true,
           },
         },
+        blockedBy: {
+          select: {
+            blockedBy: { select: blockerSelect },
+          },
+        },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
+        ...progressInclude,
       },
       orderBy: [
         { status: "asc" },
-        { priority: "desc" },
-        { createdAt: "desc" },
+        { position: "asc" },
+        { createdAt: "asc" },
       ],
     });
 
+    const workflowStates = await getWorkflowStates(projectId);
+
     // Transform tasks to ensure consistent status and priority values
-    const transformedTasks = tasks.map(task => ({
+    const transformedTasks = tasks.map(({ subtasks, checklistItems, customFieldValues, ...task }) => ({
       ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
+      status: task.status.toUpperCase(),
       priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      blockedBy: task.blockedBy.map(dependency => dependency.blockedBy),
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+      progress: getTaskProgress({ subtasks, checklistItems }, workflowStates),
     }));
 
+    if (structure === "tree") {
+      return NextResponse.json({ tasks: buildTaskTree(transformedTasks) });
+    }
+
     return NextResponse.json({ tasks: transformedTasks });
   } catch (error) {
     console.error("Get tasks error:", error);
@@ -144,16 +222,89 @@ export async function POST(
       }
     }
 
+    const workflowStates = await getWorkflowStates(projectId);
+    const status = validatedData.status ?? getInitialStatus(workflowStates);
+
+    if (!findWorkflowState(workflowStates, status)) {
+      return NextResponse.json(
+        { error: "Invalid status for this project" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.startDate && validatedData.dueDate && validatedData.startDate > validatedData.dueDate) {
+      return NextResponse.json(
+        { error: "Start date must be on or before the due date" },
+        { status: 400 }
+      );
+    }
+
+    // Subtasks live in the same project as their parent
+    if (validatedData.parentTaskId) {
+      const parentTask = await prisma.task.findFirst({
+        where: {
+          id: validatedData.parentTaskId,
+          projectId,
+        },
+      });
+
+      if (!parentTask) {
+        return NextResponse.json(
+          { error: "Parent task not found in this project" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (validatedData.sprintId && !(await isOpenProjectSprint(projectId, validatedData.sprintId))) {
+      return NextResponse.json(
+        { error: "Sprint must be an open sprint of this project" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.milestoneId && !(await isProjectMilestone(projectId, validatedData.milestoneId))) {
+      return NextResponse.json(
+        { error: "Milestone must belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.labelIds && !(await areProjectLabels(projectId, validatedData.labelIds))) {
+      return NextResponse.json(
+        { error: "Labels must belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    const customFieldInput = validatedData.customFields
+      ? await parseCustomFieldValues(projectId, validatedData.customFields)
+      : null;
+
     const task = await prisma.task.create({
       data: {
         title: validatedData.title,
         description: validatedData.description,
-        status: validatedData.status,
+        status,
+        position: await getEndOfColumnPosition(projectId, status),
+        number: await allocateTaskNumber(projectId),
         priority: validatedData.priority,
         assigneeId: validatedData.assigneeId,
+        startDate: validatedData.startDate,
         dueDate: validatedData.dueDate,
+        estimate: validatedData.estimate,
+        parentTaskId: validatedData.parentTaskId,
+        sprintId: validatedData.sprintId,
+        milestoneId: validatedData.milestoneId,
+        recurrenceRule: validatedData.recurrenceRule,
         projectId,
-        creatorId: authResult.userId,
+        creatorId: authResult.userId!,
+        labels: validatedData.labelIds && {
+          create: [...new Set(validatedData.labelIds)].map(labelId => ({ labelId })),
+        },
+        customFieldValues: customFieldInput ? {
+          create: buildCustomFieldValueRows(customFieldInput.fields, customFieldInput.values),
+        } : undefined,
       },
       include: {
         assignee: {
@@ -170,21 +321,37 @@ export async function POST(
             email: true,
           },
         },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
       },
     });
 
+    await recordStatusChange({ taskId: task.id, fromStatus: null, toStatus: task.status }, authResult.userId);
+    await addTaskWatchers(task.id, [task.creatorId, task.assigneeId]);
+    await notifyTaskWatchers(
+      [{ taskId: task.id, field: 'assigneeId', oldValue: null, newValue: task.assigneeId }],
+      authResult.userId
+    );
+
     // Transform task to ensure consistent status and priority values
+    const { customFieldValues, ...taskData } = task;
     const transformedTask = {
-      ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
+      ...taskData,
+      status: task.status.toUpperCase(),
       priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+      blockedBy: [],
+      progress: { completed: 0, total: 0 },
     };
 
+    await broadcastToProject(projectId, 'task:created', transformedTask);
+
     return NextResponse.json({ task: transformedTask }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input", details: error.errors },
+        { error: "Invalid input", details: error.issues },
         { status: 400 }
       );
     }
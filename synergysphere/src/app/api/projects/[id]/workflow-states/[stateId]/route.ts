@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { recordTaskHistory } from '@/lib/taskHistory';
+import { findWorkflowState } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+
+// The key is deliberately not editable: tasks reference it, so renaming only changes the label
+const updateStateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value').optional(),
+  category: z.enum(['todo', 'active', 'done']).optional(),
+  // Most tasks the column should hold; null removes the limit
+  wipLimit: z.number().int().positive('WIP limit must be at least 1').max(999).nullable().optional(),
+});
+
+// PATCH /api/projects/[id]/workflow-states/[stateId] - Rename, recolor, recategorize or limit a state
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; stateId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, stateId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit the workflow' },
+        { status: 404 }
+      );
+    }
+
+    const existingState = await prisma.workflowState.findFirst({
+      where: { id: stateId, projectId },
+    });
+
+    if (!existingState) {
+      return NextResponse.json({ error: 'Workflow state not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = updateStateSchema.parse(body);
+
+    const state = await prisma.workflowState.update({
+      where: { id: stateId },
+      data,
+    });
+
+    return NextResponse.json({ state });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update workflow state error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workflow state' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/workflow-states/[stateId]?moveTo=KEY - Delete a state,
+// moving its tasks to the `moveTo` state first
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; stateId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId, stateId } = await params;
+    const moveTo = new URL(req.url).searchParams.get('moveTo');
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit the workflow' },
+        { status: 404 }
+      );
+    }
+
+    const states = await getWorkflowStates(projectId);
+    const state = states.find(s => s.id === stateId);
+
+    if (!state) {
+      return NextResponse.json({ error: 'Workflow state not found' }, { status: 404 });
+    }
+
+    if (states.length === 1) {
+      return NextResponse.json(
+        { error: 'A project needs at least one workflow state' },
+        { status: 400 }
+      );
+    }
+
+    const stateTasks = await prisma.task.findMany({
+      where: { projectId, status: state.key },
+      select: { id: true },
+    });
+    const taskCount = stateTasks.length;
+
+    if (taskCount > 0) {
+      if (!moveTo) {
+        return NextResponse.json(
+          { error: 'Choose a state to move this state\'s tasks to', taskCount },
+          { status: 409 }
+        );
+      }
+
+      if (moveTo === state.key || !findWorkflowState(states, moveTo)) {
+        return NextResponse.json(
+          { error: 'Invalid state to move tasks to' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (taskCount > 0 && moveTo) {
+        await tx.task.updateMany({
+          where: { projectId, status: state.key },
+          data: { status: moveTo },
+        });
+      }
+
+      await tx.workflowState.delete({
+        where: { id: stateId },
+      });
+    });
+
+    if (taskCount > 0 && moveTo) {
+      await recordTaskHistory(
+        stateTasks.map(task => ({ taskId: task.id, field: 'status', oldValue: state.key, newValue: moveTo })),
+        authResult.userId
+      );
+    }
+
+    return NextResponse.json({ message: 'Workflow state deleted successfully', movedTasks: taskCount });
+  } catch (error) {
+    console.error('Delete workflow state error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workflow state' },
+      { status: 500 }
+    );
+  }
+}
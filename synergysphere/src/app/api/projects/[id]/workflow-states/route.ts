@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { toStatusKey } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+
+const createStateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value'),
+  category: z.enum(['todo', 'active', 'done']),
+});
+
+const reorderStatesSchema = z.object({
+  order: z.array(z.string()).min(1),
+});
+
+// GET /api/projects/[id]/workflow-states - List the project's workflow states in board order
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        memberships: {
+          some: {
+            userId: authResult.userId,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const states = await getWorkflowStates(projectId);
+
+    return NextResponse.json({ states });
+  } catch (error) {
+    console.error('Get workflow states error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow states' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/workflow-states - Add a state at the end of the board
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit the workflow' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createStateSchema.parse(body);
+
+    const key = toStatusKey(data.name);
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Name must contain letters or numbers' },
+        { status: 400 }
+      );
+    }
+
+    const states = await getWorkflowStates(projectId);
+    if (states.some(state => state.key === key)) {
+      return NextResponse.json(
+        { error: 'A state with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const state = await prisma.workflowState.create({
+      data: {
+        projectId,
+        key,
+        name: data.name,
+        color: data.color,
+        category: data.category,
+        position: states.length > 0 ? states[states.length - 1].position + 1 : 0,
+      },
+    });
+
+    return NextResponse.json({ state }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create workflow state error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workflow state' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/workflow-states - Reorder states; `order` lists every state id
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const project = await findManageableProject(projectId, authResult.userId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found or no permission to edit the workflow' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const { order } = reorderStatesSchema.parse(body);
+
+    const states = await getWorkflowStates(projectId);
+    const stateIds = new Set(states.map(state => state.id));
+    if (order.length !== states.length || new Set(order).size !== order.length || !order.every(id => stateIds.has(id))) {
+      return NextResponse.json(
+        { error: 'Order must list every workflow state exactly once' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      order.map((id, position) =>
+        prisma.workflowState.update({
+          where: { id },
+          data: { position },
+        })
+      )
+    );
+
+    return NextResponse.json({ states: await getWorkflowStates(projectId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Reorder workflow states error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reorder workflow states' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { generateProjectKey, isProjectKeyConflict, isProjectKeyTaken } from '@/lib/projectKeys';
+import { PROJECT_KEY_PATTERN } from '@/lib/taskKeys';
+import { createTemplateTasks, findOwnTemplate, recordTemplateTasks } from '@/lib/taskTemplates';
+import { DEFAULT_WORKFLOW_STATES } from '@/lib/workflow';
+import { ProjectTemplateContent } from '@/types/templates';
+import { z } from 'zod';
+
+const createProjectFromTemplateSchema = z.object({
+  templateId: z.string().min(1),
+  name: z.string().min(1, 'Project name is required').max(100, 'Project name too long'),
+  // Default to the template's
+  description: z.string().optional(),
+  color: z.string().optional(),
+  key: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(PROJECT_KEY_PATTERN, 'Key must be 2-10 letters or digits, starting with a letter')
+    .optional(),
+  // Day the template's relative dates count from; defaults to today
+  startDate: z.string().datetime().optional().transform(val => val ? new Date(val) : new Date()),
+});
+
+// POST /api/projects/from-template - Create a project with the settings, workflow, labels,
+// custom fields, members and tasks of one of the user's project templates
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const projectData = createProjectFromTemplateSchema.parse(body);
+    const userId = authResult.userId!;
+
+    const template = await findOwnTemplate(projectData.templateId, 'project', userId);
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (projectData.key && (await isProjectKeyTaken(projectData.key))) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
+    const content = template.content as unknown as ProjectTemplateContent;
+
+    // The user creating the project owns it; the template's other members join with their
+    // roles, unless their accounts are gone
+    const existingUsers = await prisma.user.findMany({
+      where: { id: { in: content.members.map(member => member.userId) } },
+      select: { id: true },
+    });
+    const members = content.members
+      .filter(member => member.userId !== userId && existingUsers.some(user => user.id === member.userId))
+      .map(member => ({ userId: member.userId, role: member.role === 'OWNER' ? 'ADMIN' : member.role }));
+
+    const workflowStates = content.workflowStates.length > 0 ? content.workflowStates : DEFAULT_WORKFLOW_STATES;
+    const key = projectData.key || (await generateProjectKey(projectData.name));
+
+    const { project, tasks } = await prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          name: projectData.name,
+          description: projectData.description ?? content.description,
+          color: projectData.color || content.color || '#3b82f6',
+          key,
+          status: 'ACTIVE',
+          estimationUnit: content.estimationUnit,
+          wipLimitMode: content.wipLimitMode,
+          ownerId: userId,
+          memberships: {
+            create: [{ userId, role: 'OWNER' }, ...members],
+          },
+          workflowStates: {
+            create: workflowStates,
+          },
+          labels: {
+            create: content.labels,
+          },
+          customFields: {
+            create: content.customFields,
+          },
+        },
+        include: {
+          memberships: {
+            where: { userId },
+            select: {
+              id: true,
+              role: true,
+            },
+          },
+          _count: {
+            select: {
+              memberships: true,
+            },
+          },
+        },
+      });
+
+      const tasks = await createTemplateTasks(tx, content.tasks, {
+        projectId: project.id,
+        states: workflowStates,
+        startDate: projectData.startDate,
+        userId,
+      });
+
+      return { project, tasks };
+    }, { timeout: 30000 });
+
+    await recordTemplateTasks(tasks, userId);
+
+    // Transform project for response
+    const transformedProject = {
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      color: project.color,
+      key: project.key,
+      status: project.status,
+      createdAt: project.createdAt.toISOString(),
+      updatedAt: project.updatedAt.toISOString(),
+      memberCount: project._count.memberships,
+      taskCount: tasks.length,
+      completedTaskCount: 0,
+      userRole: project.memberships[0]?.role,
+    };
+
+    return NextResponse.json(transformedProject, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (isProjectKeyConflict(error)) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Failed to create project from template:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
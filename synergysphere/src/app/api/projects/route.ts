@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { generateProjectKey, isProjectKeyConflict, isProjectKeyTaken } from '@/lib/projectKeys';
+import { PROJECT_KEY_PATTERN } from '@/lib/taskKeys';
+import { completionSelect, summarizeCompletion } from '@/lib/taskProgress';
+import { DEFAULT_WORKFLOW_STATES } from '@/lib/workflow';
+import { getWorkflowStatesByProject } from '@/lib/workflowStates';
 import { z } from 'zod';
 
 const createProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required').max(100, 'Project name too long'),
   description: z.string().optional(),
   color: z.string().optional(),
+  key: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(PROJECT_KEY_PATTERN, 'Key must be 2-10 letters or digits, starting with a letter')
+    .optional(),
 });
 
 // GET /api/projects - List user's projects
@@ -44,15 +55,11 @@ export async function GET(req: NextRequest) {
           },
         },
         tasks: {
-          select: {
-            id: true,
-            status: true,
-          },
+          select: completionSelect,
         },
         _count: {
           select: {
             memberships: true,
-            tasks: true,
           },
         },
       },
@@ -69,19 +76,29 @@ export async function GET(req: NextRequest) {
     const nextCursor = hasMore ? projectsToReturn[projectsToReturn.length - 1].id : null;
 
     // Transform projects for frontend
-    const transformedProjects = projectsToReturn.map((project) => ({
-      id: project.id,
-      name: project.name,
-      description: project.description,
-      color: project.color,
-      status: project.status,
-      createdAt: project.createdAt.toISOString(),
-      updatedAt: project.updatedAt.toISOString(),
-      memberCount: project._count.memberships,
-      taskCount: project._count.tasks,
-      completedTaskCount: project.tasks.filter(task => task.status === 'COMPLETED').length,
-      userRole: project.memberships[0]?.role, // User's role in this project
-    }));
+    const statesByProject = await getWorkflowStatesByProject(projectsToReturn.map(project => project.id));
+
+    const transformedProjects = projectsToReturn.map((project) => {
+      const { totalTasks, completedTasks } = summarizeCompletion(
+        project.tasks,
+        statesByProject.get(project.id) || []
+      );
+
+      return {
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        key: project.key,
+        status: project.status,
+        createdAt: project.createdAt.toISOString(),
+        updatedAt: project.updatedAt.toISOString(),
+        memberCount: project._count.memberships,
+        taskCount: totalTasks,
+        completedTaskCount: completedTasks,
+        userRole: project.memberships[0]?.role, // User's role in this project
+      };
+    });
 
     return NextResponse.json({
       projects: transformedProjects,
@@ -111,12 +128,20 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const projectData = createProjectSchema.parse(body);
 
+    if (projectData.key && (await isProjectKeyTaken(projectData.key))) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
     // Create project with user as owner
     const project = await prisma.project.create({
       data: {
         name: projectData.name,
         description: projectData.description,
         color: projectData.color || '#3b82f6',
+        key: projectData.key || (await generateProjectKey(projectData.name)),
         status: 'ACTIVE',
         ownerId: authResult.userId,
         memberships: {
@@ -125,6 +150,9 @@ export async function POST(req: NextRequest) {
             role: 'OWNER',
           },
         },
+        workflowStates: {
+          create: DEFAULT_WORKFLOW_STATES,
+        },
       },
       include: {
         memberships: {
@@ -148,6 +176,7 @@ export async function POST(req: NextRequest) {
       name: project.name,
       description: project.description,
       color: project.color,
+      key: project.key,
       status: project.status,
       createdAt: project.createdAt.toISOString(),
       updatedAt: project.updatedAt.toISOString(),
@@ -168,6 +197,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (isProjectKeyConflict(error)) {
+      return NextResponse.json(
+        { error: 'Project key is already in use' },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { getTaskProgressById } from '@/lib/taskProgress';
+import { z } from 'zod';
+
+const updateChecklistItemSchema = z.object({
+  content: z.string().min(1, "Checklist item is required").max(500, "Checklist item too long").optional(),
+  isCompleted: z.boolean().optional(),
+});
+
+async function findChecklistItem(taskId: string, itemId: string, userId?: string) {
+  return prisma.checklistItem.findFirst({
+    where: {
+      id: itemId,
+      taskId,
+      task: {
+        project: {
+          memberships: {
+            some: {
+              userId,
+            },
+          },
+        },
+      },
+    },
+    include: {
+      task: {
+        select: {
+          projectId: true,
+        },
+      },
+    },
+  });
+}
+
+// PATCH /api/tasks/[id]/checklist/[itemId] - Rename or check off an item
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, itemId } = await params;
+    const body = await req.json();
+    const validatedData = updateChecklistItemSchema.parse(body);
+
+    const existingItem = await findChecklistItem(taskId, itemId, authResult.userId);
+    if (!existingItem) {
+      return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+    }
+
+    const item = await prisma.checklistItem.update({
+      where: { id: itemId },
+      data: validatedData,
+    });
+
+    const progress = await getTaskProgressById(taskId);
+    await broadcastToProject(existingItem.task.projectId, 'task:updated', { id: taskId, progress });
+
+    return NextResponse.json({ item, progress });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update checklist item error:", error);
+    return NextResponse.json(
+      { error: "Failed to update checklist item" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove an item
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, itemId } = await params;
+
+    const existingItem = await findChecklistItem(taskId, itemId, authResult.userId);
+    if (!existingItem) {
+      return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+    }
+
+    await prisma.checklistItem.delete({
+      where: { id: itemId },
+    });
+
+    const progress = await getTaskProgressById(taskId);
+    await broadcastToProject(existingItem.task.projectId, 'task:updated', { id: taskId, progress });
+
+    return NextResponse.json({ progress });
+  } catch (error) {
+    console.error("Delete checklist item error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete checklist item" },
+      { status: 500 }
+    );
+  }
+}
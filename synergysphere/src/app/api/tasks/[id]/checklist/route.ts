@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { getTaskProgressById } from '@/lib/taskProgress';
+import { z } from 'zod';
+
+const createChecklistItemSchema = z.object({
+  content: z.string().min(1, "Checklist item is required").max(500, "Checklist item too long"),
+});
+
+// GET /api/tasks/[id]/checklist - List checklist items for a task
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        checklistItems: {
+          orderBy: [
+            { position: 'asc' },
+            { createdAt: 'asc' },
+          ],
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ items: task.checklistItems });
+  } catch (error) {
+    console.error("Get checklist error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch checklist" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/checklist - Append a checklist item
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { content } = createChecklistItemSchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const lastItem = await prisma.checklistItem.findFirst({
+      where: { taskId },
+      orderBy: { position: 'desc' },
+    });
+
+    const item = await prisma.checklistItem.create({
+      data: {
+        taskId,
+        content,
+        position: lastItem ? lastItem.position + 1 : 0,
+      },
+    });
+
+    const progress = await getTaskProgressById(taskId);
+    await broadcastToProject(task.projectId, 'task:updated', { id: taskId, progress });
+
+    return NextResponse.json({ item, progress }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create checklist item error:", error);
+    return NextResponse.json(
+      { error: "Failed to create checklist item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { taskCommentReactionInclude, toTaskCommentReaction } from '@/lib/taskComments';
+import { z } from 'zod';
+
+const toggleReactionSchema = z.object({
+  emoji: z.string().min(1, "Emoji is required").max(16, "Emoji too long"),
+});
+
+// POST /api/tasks/[id]/comments/[commentId]/reactions - Toggle the user's reaction
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, commentId } = await params;
+    const body = await req.json();
+    const { emoji } = toggleReactionSchema.parse(body);
+
+    const comment = await prisma.taskComment.findFirst({
+      where: {
+        id: commentId,
+        taskId,
+        deletedAt: null,
+        task: {
+          project: {
+            memberships: {
+              some: {
+                userId: authResult.userId,
+              },
+            },
+          },
+        },
+      },
+      include: {
+        task: { select: { projectId: true } },
+      },
+    });
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    const existingReaction = await prisma.taskCommentReaction.findFirst({
+      where: {
+        commentId,
+        userId: authResult.userId,
+        emoji,
+      },
+    });
+
+    let reaction = null;
+    if (existingReaction) {
+      await prisma.taskCommentReaction.delete({
+        where: { id: existingReaction.id },
+      });
+    } else {
+      reaction = toTaskCommentReaction(
+        await prisma.taskCommentReaction.create({
+          data: {
+            commentId,
+            userId: authResult.userId!,
+            emoji,
+          },
+          include: taskCommentReactionInclude,
+        })
+      );
+    }
+
+    // Push the comment's current reactions to everyone viewing the project
+    const reactions = await prisma.taskCommentReaction.findMany({
+      where: { commentId },
+      include: taskCommentReactionInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+    await broadcastToProject(comment.task.projectId, 'comment:updated', {
+      id: commentId,
+      taskId,
+      reactions: reactions.map(toTaskCommentReaction),
+    });
+
+    return NextResponse.json(reaction ? { reaction } : { removed: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Toggle comment reaction error:", error);
+    return NextResponse.json(
+      { error: "Failed to toggle reaction" },
+      { status: 500 }
+    );
+  }
+}
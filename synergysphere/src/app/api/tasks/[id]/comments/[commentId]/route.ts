@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { COMMENT_EDIT_WINDOW_MS } from '@/lib/comments';
+import {
+  notifyTaskComment,
+  resolveCommentMentions,
+  taskCommentInclude,
+  toTaskComment,
+} from '@/lib/taskComments';
+import { z } from 'zod';
+
+const updateCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comment too long (max 2000 characters)"),
+  mentions: z.array(z.string()).optional(),
+});
+
+// A live comment on the task, visible to the user through a project membership
+async function findTaskComment(taskId: string, commentId: string, userId?: string) {
+  return prisma.taskComment.findFirst({
+    where: {
+      id: commentId,
+      taskId,
+      deletedAt: null,
+      task: {
+        project: {
+          memberships: {
+            some: {
+              userId,
+            },
+          },
+        },
+      },
+    },
+    include: {
+      task: true,
+      author: { select: { id: true, name: true } },
+    },
+  });
+}
+
+// PATCH /api/tasks/[id]/comments/[commentId] - Edit a comment (author only, shortly after posting)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, commentId } = await params;
+    const body = await req.json();
+    const { content, mentions } = updateCommentSchema.parse(body);
+
+    const existingComment = await findTaskComment(taskId, commentId, authResult.userId);
+    if (!existingComment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (existingComment.authorId !== authResult.userId) {
+      return NextResponse.json(
+        { error: "Only the comment author can edit this comment" },
+        { status: 403 }
+      );
+    }
+
+    if (Date.now() - existingComment.createdAt.getTime() > COMMENT_EDIT_WINDOW_MS) {
+      return NextResponse.json(
+        { error: "Comment is too old to edit" },
+        { status: 422 }
+      );
+    }
+
+    const { task } = existingComment;
+    const mentionedUserIds = await resolveCommentMentions(task.projectId, content, mentions);
+    const previousMentions = (existingComment.mentions as string[]) || [];
+
+    const comment = toTaskComment(
+      await prisma.taskComment.update({
+        where: { id: commentId },
+        data: {
+          content,
+          mentions: mentionedUserIds,
+          isEdited: true,
+          editedAt: new Date(),
+        },
+        include: taskCommentInclude,
+      })
+    );
+
+    await broadcastToProject(task.projectId, 'comment:updated', comment);
+    // Only users mentioned by the edit hear about it
+    await notifyTaskComment({
+      task,
+      comment: { content, authorId: comment.authorId, authorName: existingComment.author.name },
+      mentionedUserIds: mentionedUserIds.filter((userId) => !previousMentions.includes(userId)),
+      isEdit: true,
+    });
+
+    return NextResponse.json({ comment });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update task comment error:", error);
+    return NextResponse.json(
+      { error: "Failed to update comment" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/comments/[commentId] - Delete a comment (author or project owner/admin)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, commentId } = await params;
+
+    const existingComment = await findTaskComment(taskId, commentId, authResult.userId);
+    if (!existingComment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (existingComment.authorId !== authResult.userId) {
+      const membership = await prisma.membership.findFirst({
+        where: {
+          projectId: existingComment.task.projectId,
+          userId: authResult.userId,
+          role: { in: ['owner', 'admin'] },
+        },
+      });
+
+      if (!membership) {
+        return NextResponse.json(
+          { error: "Only the comment author or a project admin can delete this comment" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Soft delete - the thread keeps a placeholder where the comment was
+    const comment = toTaskComment(
+      await prisma.taskComment.update({
+        where: { id: commentId },
+        data: {
+          deletedAt: new Date(),
+          content: '[This comment was deleted]',
+          mentions: [],
+        },
+        include: taskCommentInclude,
+      })
+    );
+
+    await broadcastToProject(existingComment.task.projectId, 'comment:updated', comment);
+
+    return NextResponse.json({ comment });
+  } catch (error) {
+    console.error("Delete task comment error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import {
+  notifyTaskComment,
+  resolveCommentMentions,
+  taskCommentInclude,
+  toTaskComment,
+} from '@/lib/taskComments';
+import { addTaskWatchers } from '@/lib/taskWatchers';
+import { z } from 'zod';
+
+const createCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comment too long (max 2000 characters)"),
+  mentions: z.array(z.string()).optional(),
+});
+
+// GET /api/tasks/[id]/comments - List comments on a task, oldest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        comments: {
+          include: taskCommentInclude,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ comments: task.comments.map(toTaskComment) });
+  } catch (error) {
+    console.error("Get task comments error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/comments - Comment on a task
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { content, mentions } = createCommentSchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const mentionedUserIds = await resolveCommentMentions(task.projectId, content, mentions);
+
+    const comment = toTaskComment(
+      await prisma.taskComment.create({
+        data: {
+          taskId,
+          authorId: authResult.userId!,
+          content,
+          mentions: mentionedUserIds,
+        },
+        include: taskCommentInclude,
+      })
+    );
+
+    await broadcastToProject(task.projectId, 'comment:created', comment);
+    await addTaskWatchers(taskId, [comment.authorId]);
+    await notifyTaskComment({
+      task,
+      comment: { content, authorId: comment.authorId, authorName: comment.author.name },
+      mentionedUserIds,
+    });
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create task comment error:", error);
+    return NextResponse.json(
+      { error: "Failed to create comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { getBlockers } from '@/lib/taskDependencies';
+
+// DELETE /api/tasks/[id]/dependencies/[blockerId] - Remove a blocker from this task
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; blockerId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, blockerId } = await params;
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const dependency = await prisma.taskDependency.findUnique({
+      where: {
+        taskId_blockedById: {
+          taskId,
+          blockedById: blockerId,
+        },
+      },
+    });
+
+    if (!dependency) {
+      return NextResponse.json({ error: "Dependency not found" }, { status: 404 });
+    }
+
+    await prisma.taskDependency.delete({
+      where: { id: dependency.id },
+    });
+
+    const blockedBy = await getBlockers(taskId);
+
+    await broadcastToProject(task.projectId, 'task:updated', { id: taskId, blockedBy });
+
+    return NextResponse.json({ blockedBy });
+  } catch (error) {
+    console.error("Delete task dependency error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete task dependency" },
+      { status: 500 }
+    );
+  }
+}
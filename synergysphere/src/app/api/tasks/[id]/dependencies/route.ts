@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { blockerSelect, getBlockers, wouldCreateCycle } from '@/lib/taskDependencies';
+import { z } from 'zod';
+
+const createDependencySchema = z.object({
+  blockedById: z.string().min(1, "Blocking task is required"),
+});
+
+// GET /api/tasks/[id]/dependencies - Tasks blocking this task and tasks it blocks
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        blockedBy: {
+          include: {
+            blockedBy: { select: blockerSelect },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        blocking: {
+          include: {
+            task: { select: blockerSelect },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      blockedBy: task.blockedBy.map((dependency) => dependency.blockedBy),
+      blocking: task.blocking.map((dependency) => dependency.task),
+    });
+  } catch (error) {
+    console.error("Get task dependencies error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch task dependencies" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/dependencies - Mark this task as blocked by another task
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { blockedById } = createDependencySchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const blocker = await prisma.task.findFirst({
+      where: {
+        id: blockedById,
+        projectId: task.projectId,
+      },
+    });
+
+    if (!blocker) {
+      return NextResponse.json(
+        { error: "Blocking task must belong to the same project" },
+        { status: 400 }
+      );
+    }
+
+    const existingDependency = await prisma.taskDependency.findUnique({
+      where: {
+        taskId_blockedById: {
+          taskId,
+          blockedById,
+        },
+      },
+    });
+
+    if (existingDependency) {
+      return NextResponse.json(
+        { error: "Dependency already exists" },
+        { status: 409 }
+      );
+    }
+
+    if (await wouldCreateCycle(task.projectId, taskId, blockedById)) {
+      return NextResponse.json(
+        { error: "This dependency would create a cycle" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.taskDependency.create({
+      data: {
+        taskId,
+        blockedById,
+      },
+    });
+
+    const blockedBy = await getBlockers(taskId);
+
+    await broadcastToProject(task.projectId, 'task:updated', { id: taskId, blockedBy });
+
+    return NextResponse.json({ blockedBy }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create task dependency error:", error);
+    return NextResponse.json(
+      { error: "Failed to create task dependency" },
+      { status: 500 }
+    );
+  }
+}
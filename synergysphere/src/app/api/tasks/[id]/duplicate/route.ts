@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { isProjectMilestone } from '@/lib/projectMilestones';
+import { isOpenProjectSprint } from '@/lib/projectSprints';
+import { broadcastToProject } from '@/lib/realtime';
+import { recordStatusChange } from '@/lib/statusHistory';
+import { getCarriedOverMetadata, getProjectMoveDefaults, getProjectMoveTarget } from '@/lib/taskMoves';
+import { getTaskProgress, progressInclude } from '@/lib/taskProgress';
+import { getEndOfColumnPosition } from '@/lib/taskRanking';
+import { addTaskWatchers, notifyTaskWatchers } from '@/lib/taskWatchers';
+import { checkWipLimits } from '@/lib/wipLimits';
+import { describeWipLimitViolations } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { z } from 'zod';
+
+const duplicateTaskSchema = z.object({
+  // Defaults to the task's own project
+  projectId: z.string().min(1).optional(),
+});
+
+// POST /api/tasks/[id]/duplicate - Copy a task, with its checklist, into its own or another
+// project. Comments, time entries, subtasks and history stay with the original.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const validatedData = duplicateTaskSchema.parse(body);
+
+    // Check if user has access to this task
+    const original = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        checklistItems: {
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!original) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const projectId = validatedData.projectId ?? original.projectId;
+    const isSameProject = projectId === original.projectId;
+
+    const target = await getProjectMoveTarget(projectId, authResult.userId!, []);
+    if (!target) {
+      return NextResponse.json(
+        { error: "You are not a member of the target project" },
+        { status: 403 }
+      );
+    }
+
+    const { status, assigneeId } = getProjectMoveDefaults(
+      original,
+      await getWorkflowStates(original.projectId),
+      target
+    );
+
+    const wipLimits = await checkWipLimits(projectId, target.states, [{ from: '', to: status }]);
+    if (wipLimits.mode === "hard" && wipLimits.violations.length > 0) {
+      return NextResponse.json(
+        { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+        { status: 409 }
+      );
+    }
+
+    // The sprint, milestone and parent only mean something in the original's project
+    const keepSprint = isSameProject && !!original.sprintId && (await isOpenProjectSprint(projectId, original.sprintId));
+    const keepMilestone = isSameProject && !!original.milestoneId && (await isProjectMilestone(projectId, original.milestoneId));
+    const metadata = await getCarriedOverMetadata(taskId, projectId, target.memberIds);
+
+    const task = await prisma.task.create({
+      data: {
+        title: original.title,
+        description: original.description,
+        status,
+        position: await getEndOfColumnPosition(projectId, status),
+        number: await allocateTaskNumber(projectId),
+        priority: original.priority,
+        assigneeId,
+        startDate: original.startDate,
+        dueDate: original.dueDate,
+        estimate: original.estimate,
+        recurrenceRule: original.recurrenceRule,
+        parentTaskId: isSameProject ? original.parentTaskId : null,
+        sprintId: keepSprint ? original.sprintId : null,
+        milestoneId: keepMilestone ? original.milestoneId : null,
+        projectId,
+        creatorId: authResult.userId!,
+        labels: {
+          create: metadata.labelIds.map(labelId => ({ labelId })),
+        },
+        customFieldValues: {
+          create: metadata.customFieldValues,
+        },
+        checklistItems: {
+          create: original.checklistItems.map(({ content, isCompleted, position }) => ({ content, isCompleted, position })),
+        },
+      },
+      include: {
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+            key: true,
+          },
+        },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
+        ...progressInclude,
+      },
+    });
+
+    await recordStatusChange({ taskId: task.id, fromStatus: null, toStatus: task.status }, authResult.userId);
+    await addTaskWatchers(task.id, [task.creatorId, task.assigneeId]);
+    await notifyTaskWatchers(
+      [{ taskId: task.id, field: 'assigneeId', oldValue: null, newValue: task.assigneeId }],
+      authResult.userId
+    );
+
+    // Transform task to ensure consistent status and priority values
+    const { subtasks, checklistItems, customFieldValues, ...taskData } = task;
+    const transformedTask = {
+      ...taskData,
+      status: task.status.toUpperCase(),
+      priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+      blockedBy: [],
+      progress: getTaskProgress({ subtasks, checklistItems }, target.states),
+    };
+
+    await broadcastToProject(projectId, 'task:created', transformedTask);
+
+    return NextResponse.json(
+      {
+        task: transformedTask,
+        assigneeCleared: !!original.assigneeId && !assigneeId,
+        wipLimitWarnings: wipLimits.violations,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Duplicate task error:", error);
+    return NextResponse.json(
+      { error: "Failed to duplicate task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { broadcastToProject } from '@/lib/realtime';
+import { diffTaskFields, diffTaskProject, recordTaskHistory } from '@/lib/taskHistory';
+import { detachTaskForMove, getProjectMoveDefaults, getProjectMoveTarget } from '@/lib/taskMoves';
+import { getEndOfColumnPosition } from '@/lib/taskRanking';
+import { notifyTaskWatchers } from '@/lib/taskWatchers';
+import { checkWipLimits } from '@/lib/wipLimits';
+import { describeWipLimitViolations } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { z } from 'zod';
+
+const moveToProjectSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// POST /api/tasks/[id]/move-to-project - Move a task to another project. It keeps its id, so
+// comments, checklist, time entries and history go along; its old key redirects to it.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { projectId } = moveToProjectSchema.parse(body);
+
+    // Check if user has access to this task
+    const existingTask = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        project: { select: { name: true } },
+      },
+    });
+
+    if (!existingTask) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (existingTask.projectId === projectId) {
+      return NextResponse.json(
+        { error: "Task is already in this project" },
+        { status: 400 }
+      );
+    }
+
+    const target = await getProjectMoveTarget(projectId, authResult.userId!, [taskId]);
+    if (!target) {
+      return NextResponse.json(
+        { error: "You are not a member of the target project" },
+        { status: 403 }
+      );
+    }
+
+    const { status, assigneeId } = getProjectMoveDefaults(
+      existingTask,
+      await getWorkflowStates(existingTask.projectId),
+      target
+    );
+
+    // The task comes from no column of the target project
+    const wipLimits = await checkWipLimits(projectId, target.states, [{ from: '', to: status }]);
+    if (wipLimits.mode === "hard" && wipLimits.violations.length > 0) {
+      return NextResponse.json(
+        { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+        { status: 409 }
+      );
+    }
+
+    const position = await getEndOfColumnPosition(projectId, status);
+
+    const task = await prisma.$transaction(async (tx) => {
+      const moveData = await detachTaskForMove(tx, existingTask, target);
+
+      return tx.task.update({
+        where: { id: taskId },
+        data: { ...moveData, status, position, assigneeId },
+        include: {
+          assignee: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          project: {
+            select: {
+              id: true,
+              name: true,
+              key: true,
+            },
+          },
+          ...taskLabelsInclude,
+          ...customFieldValuesInclude,
+        },
+      });
+    });
+
+    const changes = [
+      ...diffTaskFields(taskId, existingTask, task),
+      ...diffTaskProject(taskId, existingTask.project, task.project),
+    ];
+    await recordTaskHistory(changes, authResult.userId);
+    await notifyTaskWatchers(changes, authResult.userId);
+
+    // Transform task to ensure consistent status and priority values
+    const { customFieldValues, ...taskData } = task;
+    const transformedTask = {
+      ...taskData,
+      status: task.status.toUpperCase(),
+      priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+    };
+
+    await broadcastToProject(existingTask.projectId, 'task:deleted', taskId);
+    await broadcastToProject(projectId, 'task:created', transformedTask);
+
+    return NextResponse.json({
+      task: transformedTask,
+      assigneeCleared: !!existingTask.assigneeId && !assigneeId,
+      wipLimitWarnings: wipLimits.violations,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Move task to project error:", error);
+    return NextResponse.json(
+      { error: "Failed to move task" },
+      { status: 500 }
+    );
+  }
+}
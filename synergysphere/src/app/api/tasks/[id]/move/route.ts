@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { broadcastToProject } from "@/lib/realtime";
+import { getBlockersForStatusChange } from "@/lib/taskDependencies";
+import { diffTaskFields } from "@/lib/taskHistory";
+import { getPositionAtIndex } from "@/lib/taskRanking";
+import { finishTaskStatusChange } from "@/lib/taskStatusChanges";
+import { checkWipLimits } from "@/lib/wipLimits";
+import { describeWipLimitViolations, findWorkflowState } from "@/lib/workflow";
+import { getWorkflowStates } from "@/lib/workflowStates";
+
+const moveTaskSchema = z.object({
+  status: z.string().min(1, "Status is required"),
+  // Index within the target column, counted without the moved task
+  index: z.number().int().min(0),
+  // Move the task even if it still has open blockers
+  override: z.boolean().optional(),
+  // Set when the card lands in another swimlane: the lane's assignee (null for
+  // unassigned) or priority
+  assigneeId: z.string().nullable().optional(),
+  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
+});
+
+// PATCH /api/tasks/[id]/move - Move a card to an index in a column, saving status and position
+// together with any swimlane field change
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { status, index, override, assigneeId, priority } = moveTaskSchema.parse(body);
+
+    // Check if user has access to this task
+    const existingTask = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!existingTask) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const states = await getWorkflowStates(existingTask.projectId);
+    if (!findWorkflowState(states, status)) {
+      return NextResponse.json(
+        { error: "Invalid status for this project" },
+        { status: 400 }
+      );
+    }
+
+    if (assigneeId) {
+      const assigneeMember = await prisma.membership.findFirst({
+        where: {
+          projectId: existingTask.projectId,
+          userId: assigneeId,
+        },
+      });
+
+      if (!assigneeMember) {
+        return NextResponse.json(
+          { error: "Assignee is not a member of this project" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (status !== existingTask.status && !override) {
+      const blockers = await getBlockersForStatusChange(existingTask, status);
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          { error: "Task is blocked by open tasks", blockers },
+          { status: 409 }
+        );
+      }
+    }
+
+    const wipLimits = await checkWipLimits(existingTask.projectId, states, [{ from: existingTask.status, to: status }]);
+    if (wipLimits.mode === "hard" && wipLimits.violations.length > 0) {
+      return NextResponse.json(
+        { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+        { status: 409 }
+      );
+    }
+
+    const position = await getPositionAtIndex(existingTask.projectId, status, index, taskId);
+
+    const task = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status,
+        position,
+        ...(assigneeId !== undefined && { assigneeId }),
+        ...(priority && { priority }),
+        updatedAt: new Date(),
+      },
+      include: {
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    await broadcastToProject(task.projectId, "task:moved", {
+      taskId,
+      newStatus: task.status,
+      position: task.position,
+    });
+    if (task.assigneeId !== existingTask.assigneeId || task.priority !== existingTask.priority) {
+      await broadcastToProject(task.projectId, "task:updated", {
+        id: taskId,
+        assigneeId: task.assigneeId,
+        assignee: task.assignee,
+        priority: task.priority,
+      });
+    }
+
+    const nextOccurrence = await finishTaskStatusChange(
+      existingTask.status,
+      task,
+      diffTaskFields(taskId, existingTask, task),
+      states,
+      authResult.userId
+    );
+
+    // Soft WIP limits let the move through but tell the client which columns are over
+    return NextResponse.json({ task, nextOccurrence, wipLimitWarnings: wipLimits.violations });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Move task error:", error);
+    return NextResponse.json(
+      { error: "Failed to move task" },
+      { status: 500 }
+    );
+  }
+}
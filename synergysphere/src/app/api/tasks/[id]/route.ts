@@ -1,15 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, parseCustomFieldValues, saveCustomFieldValues, toCustomFieldValues } from '@/lib/customFieldValues';
+import { areProjectLabels, taskLabelsInclude, toTaskLabels } from '@/lib/labels';
 import { prisma } from '@/lib/prisma';
+import { isProjectMilestone } from '@/lib/projectMilestones';
+import { isOpenProjectSprint } from '@/lib/projectSprints';
+import { broadcastToProject } from '@/lib/realtime';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { getBlockersForStatusChange } from '@/lib/taskDependencies';
+import { diffCustomFieldValues, diffTaskFields, diffTaskLabels } from '@/lib/taskHistory';
+import { getEndOfColumnPosition } from '@/lib/taskRanking';
+import { getTaskProgress, progressInclude } from '@/lib/taskProgress';
+import { finishTaskStatusChange } from '@/lib/taskStatusChanges';
+import { checkWipLimits } from '@/lib/wipLimits';
+import { describeWipLimitViolations, findWorkflowState } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
 import { z } from 'zod';
 
 const updateTaskSchema = z.object({
   title: z.string().min(1, "Task title is required").optional(),
   description: z.string().optional(),
   assigneeId: z.string().optional(),
-  status: z.enum(["TODO", "IN_PROGRESS", "DONE"]).optional(),
+  status: z.string().min(1).optional(),
   priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
+  // Start of the task on the timeline; null clears it
+  startDate: z.string().datetime().nullable().optional(),
   dueDate: z.string().optional(),
+  // Story points or hours, per the project's estimation unit; null clears it
+  estimate: z.number().positive().max(1000).nullable().optional(),
+  // RRULE-style schedule; null stops the task from repeating
+  recurrenceRule: z.string().refine(isValidRecurrenceRule, "Invalid recurrence rule").nullable().optional(),
+  // Sprint the task is planned into; null moves it to the backlog
+  sprintId: z.string().nullable().optional(),
+  // Milestone the task counts towards; null detaches it
+  milestoneId: z.string().nullable().optional(),
+  // Replaces the task's labels
+  labelIds: z.array(z.string()).optional(),
+  // Custom field values keyed by field id; null clears a value, omitted fields are unchanged
+  customFields: z.record(z.string(), z.unknown()).optional(),
+  // Change status even if the task still has open blockers
+  override: z.boolean().optional(),
 });
 
 export async function GET(
@@ -56,6 +86,9 @@ export async function GET(
             name: true,
           },
         },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
+        ...progressInclude,
       },
     });
 
@@ -64,10 +97,14 @@ export async function GET(
     }
 
     // Transform task to ensure consistent status and priority values
+    const { subtasks, checklistItems, customFieldValues, ...taskData } = task;
     const transformedTask = {
-      ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
+      ...taskData,
+      status: task.status.toUpperCase(),
       priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
+      progress: getTaskProgress({ subtasks, checklistItems }, await getWorkflowStates(task.projectId)),
     };
 
     return NextResponse.json({ task: transformedTask });
@@ -92,7 +129,7 @@ export async function PATCH(
 
     const { id: taskId } = await params;
     const body = await req.json();
-    const validatedData = updateTaskSchema.parse(body);
+    const { override, labelIds, customFields, ...validatedData } = updateTaskSchema.parse(body);
 
     // Check if user has access to this task
     const existingTask = await prisma.task.findFirst({
@@ -108,6 +145,9 @@ export async function PATCH(
       },
       include: {
         project: true,
+        // Previous values for the history
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
       },
     });
 
@@ -115,6 +155,47 @@ export async function PATCH(
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
+    const states = await getWorkflowStates(existingTask.projectId);
+    if (validatedData.status) {
+      if (!findWorkflowState(states, validatedData.status)) {
+        return NextResponse.json(
+          { error: "Invalid status for this project" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (validatedData.status && validatedData.status !== existingTask.status && !override) {
+      const blockers = await getBlockersForStatusChange(existingTask, validatedData.status);
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          { error: "Task is blocked by open tasks", blockers },
+          { status: 409 }
+        );
+      }
+    }
+
+    const wipLimits = validatedData.status
+      ? await checkWipLimits(existingTask.projectId, states, [{ from: existingTask.status, to: validatedData.status }])
+      : null;
+    if (wipLimits?.mode === "hard" && wipLimits.violations.length > 0) {
+      return NextResponse.json(
+        { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+        { status: 409 }
+      );
+    }
+
+    const startDate = validatedData.startDate === undefined
+      ? existingTask.startDate
+      : validatedData.startDate ? new Date(validatedData.startDate) : null;
+    const dueDate = validatedData.dueDate ? new Date(validatedData.dueDate) : existingTask.dueDate;
+    if (startDate && dueDate && startDate > dueDate) {
+      return NextResponse.json(
+        { error: "Start date must be on or before the due date" },
+        { status: 400 }
+      );
+    }
+
     // If assigneeId is provided, verify they are a member of the project
     if (validatedData.assigneeId) {
       const assigneeMember = await prisma.membership.findFirst({
@@ -132,50 +213,118 @@ export async function PATCH(
       }
     }
 
+    if (validatedData.sprintId && !(await isOpenProjectSprint(existingTask.projectId, validatedData.sprintId))) {
+      return NextResponse.json(
+        { error: "Sprint must be an open sprint of this project" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.milestoneId && !(await isProjectMilestone(existingTask.projectId, validatedData.milestoneId))) {
+      return NextResponse.json(
+        { error: "Milestone must belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    if (labelIds && !(await areProjectLabels(existingTask.projectId, labelIds))) {
+      return NextResponse.json(
+        { error: "Labels must belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    // Values are validated against the field definitions of the task's project
+    const parsedCustomFields = customFields
+      ? await parseCustomFieldValues(existingTask.projectId, customFields)
+      : null;
+
     const updateData: any = { ...validatedData };
+    if (labelIds) {
+      updateData.labels = {
+        deleteMany: {},
+        create: [...new Set(labelIds)].map(labelId => ({ labelId })),
+      };
+    }
+    if (validatedData.startDate !== undefined) {
+      updateData.startDate = startDate;
+    }
     if (validatedData.dueDate) {
-      updateData.dueDate = new Date(validatedData.dueDate);
+      updateData.dueDate = dueDate;
+      // A rescheduled occurrence starts the series over from its new day
+      if (dueDate?.getTime() !== existingTask.dueDate?.getTime()) {
+        updateData.recurrenceMonthDay = null;
+      }
+    }
+    // A task that changes column goes to the bottom of its new column
+    if (validatedData.status && validatedData.status !== existingTask.status) {
+      updateData.position = await getEndOfColumnPosition(existingTask.projectId, validatedData.status);
     }
 
-    const task = await prisma.task.update({
-      where: { id: taskId },
-      data: updateData,
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+    // Custom values are saved together with the task, so a failed update leaves neither
+    const task = await prisma.$transaction(async (tx) => {
+      if (parsedCustomFields) {
+        await saveCustomFieldValues(taskId, parsedCustomFields.fields, parsedCustomFields.values, tx);
+      }
+
+      return tx.task.update({
+        where: { id: taskId },
+        data: updateData,
+        include: {
+          assignee: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
+          ...taskLabelsInclude,
+          ...customFieldValuesInclude,
         },
-      },
+      });
     });
 
+    const { customFieldValues, ...taskData } = task;
+    const changes = [
+      ...diffTaskFields(taskId, existingTask, task),
+      ...diffTaskLabels(taskId, toTaskLabels(existingTask.labels), toTaskLabels(task.labels)),
+      ...diffCustomFieldValues(
+        taskId,
+        toCustomFieldValues(existingTask.customFieldValues),
+        toCustomFieldValues(customFieldValues)
+      ),
+    ];
     // Transform task to ensure consistent status and priority values
     const transformedTask = {
-      ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
+      ...taskData,
+      status: task.status.toUpperCase(),
       priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+      labels: toTaskLabels(task.labels),
+      customFields: toCustomFieldValues(customFieldValues),
     };
 
-    return NextResponse.json({ task: transformedTask });
+    await broadcastToProject(task.projectId, 'task:updated', transformedTask);
+
+    const nextOccurrence = await finishTaskStatusChange(existingTask.status, task, changes, states, authResult.userId);
+
+    return NextResponse.json({ task: transformedTask, nextOccurrence, wipLimitWarnings: wipLimits?.violations ?? [] });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input", details: error.errors },
+        { error: "Invalid input", details: error.issues },
         { status: 400 }
       );
     }
@@ -222,6 +371,8 @@ export async function DELETE(
       where: { id: taskId },
     });
 
+    await broadcastToProject(existingTask.projectId, 'task:deleted', taskId);
+
     return NextResponse.json({ message: "Task deleted successfully" });
   } catch (error) {
     console.error("Delete task error:", error);
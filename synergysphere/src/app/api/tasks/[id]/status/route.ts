@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PrismaClient } from "@prisma/client";
 import { z } from "zod";
-import { verifyAuth } from "@/lib/middleware/auth";
-
-const prisma = new PrismaClient();
+import { verifyAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { broadcastToProject } from "@/lib/realtime";
+import { getBlockersForStatusChange } from "@/lib/taskDependencies";
+import { diffTaskFields } from "@/lib/taskHistory";
+import { getEndOfColumnPosition } from "@/lib/taskRanking";
+import { finishTaskStatusChange } from "@/lib/taskStatusChanges";
+import { checkWipLimits } from "@/lib/wipLimits";
+import { describeWipLimitViolations, findWorkflowState } from "@/lib/workflow";
+import { getWorkflowStates } from "@/lib/workflowStates";
 
 const updateStatusSchema = z.object({
-  status: z.enum(["TODO", "IN_PROGRESS", "DONE"]),
+  status: z.string().min(1, "Status is required"),
+  // Move the task even if it still has open blockers
+  override: z.boolean().optional(),
 });
 
 export async function PATCH(
   req: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const authResult = await verifyAuth(req);
@@ -19,16 +27,16 @@ export async function PATCH(
       return NextResponse.json({ error: authResult.error }, { status: 401 });
     }
 
-    const taskId = params.id;
+    const { id: taskId } = await params;
     const body = await req.json();
-    const { status } = updateStatusSchema.parse(body);
+    const { status, override } = updateStatusSchema.parse(body);
 
     // Check if user has access to this task
     const existingTask = await prisma.task.findFirst({
       where: {
         id: taskId,
         project: {
-          members: {
+          memberships: {
             some: {
               userId: authResult.userId,
             },
@@ -41,10 +49,40 @@ export async function PATCH(
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
+    const states = await getWorkflowStates(existingTask.projectId);
+    if (!findWorkflowState(states, status)) {
+      return NextResponse.json(
+        { error: "Invalid status for this project" },
+        { status: 400 }
+      );
+    }
+
+    if (status !== existingTask.status && !override) {
+      const blockers = await getBlockersForStatusChange(existingTask, status);
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          { error: "Task is blocked by open tasks", blockers },
+          { status: 409 }
+        );
+      }
+    }
+
+    const wipLimits = await checkWipLimits(existingTask.projectId, states, [{ from: existingTask.status, to: status }]);
+    if (wipLimits.mode === "hard" && wipLimits.violations.length > 0) {
+      return NextResponse.json(
+        { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+        { status: 409 }
+      );
+    }
+
     const task = await prisma.task.update({
       where: { id: taskId },
       data: { 
         status,
+        // Changing column puts the task at the bottom; use the move route to pick an index
+        ...(status !== existingTask.status && {
+          position: await getEndOfColumnPosition(existingTask.projectId, status),
+        }),
         updatedAt: new Date(),
       },
       include: {
@@ -65,7 +103,22 @@ export async function PATCH(
       },
     });
 
-    return NextResponse.json({ task });
+    await broadcastToProject(task.projectId, "task:moved", {
+      taskId,
+      newStatus: task.status,
+      position: task.position,
+    });
+
+    const nextOccurrence = await finishTaskStatusChange(
+      existingTask.status,
+      task,
+      diffTaskFields(taskId, existingTask, task),
+      states,
+      authResult.userId
+    );
+
+    // Soft WIP limits let the move through but tell the client which columns are over
+    return NextResponse.json({ task, nextOccurrence, wipLimitWarnings: wipLimits.violations });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { timeEntryInclude } from '@/lib/timeEntries';
+import { getElapsedSeconds } from '@/lib/timeTracking';
+import { z } from 'zod';
+
+const updateTimeEntrySchema = z.object({
+  startedAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  endedAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  // Seconds; keeps the start and moves the end
+  duration: z.number().int().positive().optional(),
+  note: z.string().max(500, "Note too long").nullable().optional(),
+});
+
+// Users can only change their own entries
+async function findOwnTimeEntry(taskId: string, entryId: string, userId?: string) {
+  return prisma.timeEntry.findFirst({
+    where: {
+      id: entryId,
+      taskId,
+      userId,
+    },
+  });
+}
+
+// PATCH /api/tasks/[id]/time-entries/[entryId] - Correct the times or note of an entry
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, entryId } = await params;
+    const body = await req.json();
+    const { startedAt, endedAt, duration, note } = updateTimeEntrySchema.parse(body);
+
+    const existingEntry = await findOwnTimeEntry(taskId, entryId, authResult.userId);
+    if (!existingEntry) {
+      return NextResponse.json({ error: "Time entry not found" }, { status: 404 });
+    }
+
+    const start = startedAt || existingEntry.startedAt;
+    let end = endedAt || existingEntry.endedAt;
+    if (duration) {
+      end = new Date(start.getTime() + duration * 1000);
+    }
+
+    // A running timer keeps running; only its start and note can change
+    if (end && end <= start) {
+      return NextResponse.json(
+        { error: "End time must be after start time" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await prisma.timeEntry.update({
+      where: { id: entryId },
+      data: {
+        startedAt: start,
+        endedAt: end,
+        duration: end ? getElapsedSeconds(start, end) : null,
+        note,
+      },
+      include: timeEntryInclude,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update time entry error:", error);
+    return NextResponse.json(
+      { error: "Failed to update time entry" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/time-entries/[entryId] - Remove an entry (or discard a running timer)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId, entryId } = await params;
+
+    const existingEntry = await findOwnTimeEntry(taskId, entryId, authResult.userId);
+    if (!existingEntry) {
+      return NextResponse.json({ error: "Time entry not found" }, { status: 404 });
+    }
+
+    await prisma.timeEntry.delete({
+      where: { id: entryId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete time entry error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete time entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { timeEntryInclude } from '@/lib/timeEntries';
+import { getElapsedSeconds } from '@/lib/timeTracking';
+import { z } from 'zod';
+
+// A manual entry needs a start and an end, or a duration; without a start it is
+// `duration` seconds up to the end, or up to now, i.e. "I just spent 45 minutes on this"
+const createTimeEntrySchema = z.object({
+  startedAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  endedAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  duration: z.number().int().positive().optional(),
+  note: z.string().max(500, "Note too long").optional(),
+}).refine(data => (data.startedAt && data.endedAt) || data.duration, {
+  message: "Either a start and end time or a duration is required",
+}).refine(data => !data.endedAt || !data.startedAt || data.endedAt > data.startedAt, {
+  message: "End time must be after start time",
+  path: ['endedAt'],
+});
+
+// GET /api/tasks/[id]/time-entries - List time entries for a task, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: {
+        timeEntries: {
+          include: timeEntryInclude,
+          orderBy: { startedAt: 'desc' },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const totalSeconds = task.timeEntries.reduce((sum, entry) => sum + (entry.duration || 0), 0);
+
+    return NextResponse.json({ entries: task.timeEntries, totalSeconds });
+  } catch (error) {
+    console.error("Get time entries error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch time entries" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/time-entries - Log time manually
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json();
+    const { startedAt, endedAt, duration, note } = createTimeEntrySchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // An explicit start and end win over a duration
+    let start: Date;
+    let end: Date;
+    if (startedAt && endedAt) {
+      start = startedAt;
+      end = endedAt;
+    } else if (duration) {
+      end = endedAt || (startedAt ? new Date(startedAt.getTime() + duration * 1000) : new Date());
+      start = startedAt || new Date(end.getTime() - duration * 1000);
+    } else {
+      return NextResponse.json(
+        { error: "Either a start and end time or a duration is required" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await prisma.timeEntry.create({
+      data: {
+        taskId,
+        userId: authResult.userId!,
+        startedAt: start,
+        endedAt: end,
+        duration: getElapsedSeconds(start, end),
+        note,
+      },
+      include: timeEntryInclude,
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Create time entry error:", error);
+    return NextResponse.json(
+      { error: "Failed to log time" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getRunningTimer, startTimer, stopTimer } from '@/lib/timeEntries';
+import { z } from 'zod';
+
+const startTimerSchema = z.object({
+  note: z.string().max(500, "Note too long").optional(),
+  // Stop the user's timer on another task instead of refusing to start
+  stopRunning: z.boolean().optional(),
+});
+
+// POST /api/tasks/[id]/timer - Start a timer on the task for the current user
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+    const body = await req.json().catch(() => ({}));
+    const { note, stopRunning } = startTimerSchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Only one running timer per user
+    const result = await startTimer(authResult.userId!, taskId, note, !!stopRunning);
+    if ('runningTimer' in result) {
+      return NextResponse.json(
+        { error: "Another timer is already running", runningTimer: result.runningTimer },
+        { status: 409 }
+      );
+    }
+
+    const { entry, stoppedEntry, created } = result;
+    return NextResponse.json({ entry, stoppedEntry }, { status: created ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Start timer error:", error);
+    return NextResponse.json(
+      { error: "Failed to start timer" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/timer - Stop the current user's timer on the task, keeping the entry
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const runningTimer = await getRunningTimer(authResult.userId!);
+    if (!runningTimer || runningTimer.taskId !== taskId) {
+      return NextResponse.json({ error: "No running timer on this task" }, { status: 404 });
+    }
+
+    const entry = await stopTimer(runningTimer.id, runningTimer.startedAt);
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Stop timer error:", error);
+    return NextResponse.json(
+      { error: "Failed to stop timer" },
+      { status: 500 }
+    );
+  }
+}
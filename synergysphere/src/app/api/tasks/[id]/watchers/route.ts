@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { addTaskWatchers, taskWatcherInclude } from '@/lib/taskWatchers';
+
+async function findAccessibleTask(taskId: string, userId?: string) {
+  return prisma.task.findFirst({
+    where: {
+      id: taskId,
+      project: {
+        memberships: {
+          some: {
+            userId,
+          },
+        },
+      },
+    },
+  });
+}
+
+async function getWatchers(taskId: string) {
+  const watchers = await prisma.taskWatcher.findMany({
+    where: { taskId },
+    include: taskWatcherInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+  return watchers.map((watcher) => watcher.user);
+}
+
+// GET /api/tasks/[id]/watchers - Users watching a task
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await findAccessibleTask(taskId, authResult.userId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const watchers = await getWatchers(taskId);
+
+    return NextResponse.json({
+      watchers,
+      isWatching: watchers.some((watcher) => watcher.id === authResult.userId),
+    });
+  } catch (error) {
+    console.error("Get task watchers error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch watchers" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/watchers - Watch a task
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await findAccessibleTask(taskId, authResult.userId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    await addTaskWatchers(taskId, [authResult.userId]);
+
+    return NextResponse.json({ watchers: await getWatchers(taskId), isWatching: true });
+  } catch (error) {
+    console.error("Watch task error:", error);
+    return NextResponse.json(
+      { error: "Failed to watch task" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/watchers - Stop watching a task
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { id: taskId } = await params;
+
+    const task = await findAccessibleTask(taskId, authResult.userId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    await prisma.taskWatcher.deleteMany({
+      where: { taskId, userId: authResult.userId },
+    });
+
+    return NextResponse.json({ watchers: await getWatchers(taskId), isWatching: false });
+  } catch (error) {
+    console.error("Unwatch task error:", error);
+    return NextResponse.json(
+      { error: "Failed to unwatch task" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PrismaClient } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import { addDays } from "date-fns";
 import { z } from "zod";
-import { verifyAuth } from "@/lib/middleware/auth";
+import { verifyAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { broadcastToProject } from "@/lib/realtime";
+import { getBlockersForStatusChange } from "@/lib/taskDependencies";
+import { diffTaskFields, diffTaskProject } from "@/lib/taskHistory";
+import { ProjectMoveTarget, detachTaskForMove, getProjectMoveDefaults } from "@/lib/taskMoves";
+import { getEndOfColumnPosition, getPositionBetween } from "@/lib/taskRanking";
+import { finishTaskStatusChange } from "@/lib/taskStatusChanges";
+import { checkWipLimits } from "@/lib/wipLimits";
+import { describeWipLimitViolations, findWorkflowState, getStatusForCategory } from "@/lib/workflow";
+import { getWorkflowStatesByProject } from "@/lib/workflowStates";
+import { BatchTaskResult } from "@/types/bulkTasks";
+import { WipLimitViolation } from "@/types/workflow";
 
-const prisma = new PrismaClient();
+const MAX_BATCH_SIZE = 200;
 
 const batchUpdateSchema = z.object({
   updates: z.array(
     z.object({
       id: z.string(),
-      status: z.enum(["TODO", "IN_PROGRESS", "DONE"]).optional(),
+      status: z.string().min(1).optional(),
+      // First state of the category in the task's own workflow
+      statusCategory: z.enum(["todo", "active", "done"]).optional(),
       priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
-      assigneeId: z.string().optional(),
+      // null unassigns the task
+      assigneeId: z.string().nullable().optional(),
+      // Days to move the start and due dates by; unset dates stay unset
+      shiftDays: z.number().int().min(-3650).max(3650).optional(),
+      // Moves the task to another project
+      projectId: z.string().optional(),
+      delete: z.literal(true).optional(),
     })
-  ),
+  ).min(1).max(MAX_BATCH_SIZE),
+  // Change statuses even if tasks still have open blockers
+  override: z.boolean().optional(),
 });
 
+const taskInclude = {
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      key: true,
+    },
+  },
+};
+
+// Every update is checked before anything is written, and all changes are made in one
+// transaction, so a batch either applies completely or not at all
 export async function PATCH(req: NextRequest) {
   try {
     const authResult = await verifyAuth(req);
@@ -24,22 +73,31 @@ export async function PATCH(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { updates } = batchUpdateSchema.parse(body);
+    const { updates, override } = batchUpdateSchema.parse(body);
 
     const taskIds = updates.map((update) => update.id);
+    if (new Set(taskIds).size !== taskIds.length) {
+      return NextResponse.json(
+        { error: "Each task can only appear once in a batch" },
+        { status: 400 }
+      );
+    }
 
     // Verify user has access to all tasks
     const tasks = await prisma.task.findMany({
       where: {
         id: { in: taskIds },
         project: {
-          members: {
+          memberships: {
             some: {
               userId: authResult.userId,
             },
           },
         },
       },
+      include: {
+        project: { select: { name: true } },
+      },
     });
 
     if (tasks.length !== taskIds.length) {
@@ -49,43 +107,255 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
-    // Perform batch updates
-    const updatePromises = updates.map((update) => {
-      const updateData: any = {};
-      if (update.status) updateData.status = update.status;
-      if (update.priority) updateData.priority = update.priority;
-      if (update.assigneeId !== undefined) updateData.assigneeId = update.assigneeId;
-      updateData.updatedAt = new Date();
+    const getTask = (id: string) => tasks.find((t) => t.id === id)!;
+    const isMove = (update: (typeof updates)[number]) =>
+      !update.delete && !!update.projectId && update.projectId !== getTask(update.id).projectId;
+    // Project each task ends up in
+    const getProjectId = (update: (typeof updates)[number]) =>
+      isMove(update) ? update.projectId! : getTask(update.id).projectId;
 
-      return prisma.task.update({
-        where: { id: update.id },
-        data: updateData,
-        include: {
-          assignee: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          creator: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-        },
+    // Tasks can only be moved to projects the user is a member of
+    const targetProjectIds = [...new Set(updates.filter(isMove).map((update) => update.projectId!))];
+    if (targetProjectIds.length > 0) {
+      const targetMemberships = await prisma.membership.count({
+        where: { userId: authResult.userId, projectId: { in: targetProjectIds } },
       });
+      if (targetMemberships !== targetProjectIds.length) {
+        return NextResponse.json(
+          { error: "You are not a member of the target project" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const projectIds = [...new Set([...tasks.map((task) => task.projectId), ...targetProjectIds])];
+    const statesByProject = await getWorkflowStatesByProject(projectIds);
+    const memberships = await prisma.membership.findMany({
+      where: { projectId: { in: projectIds } },
+      select: { projectId: true, userId: true },
     });
+    const getMemberIds = (projectId: string) =>
+      memberships.filter((membership) => membership.projectId === projectId).map((membership) => membership.userId);
 
-    const updatedTasks = await Promise.all(updatePromises);
+    const moveTargets = new Map<string, ProjectMoveTarget>(
+      targetProjectIds.map((projectId) => [
+        projectId,
+        {
+          projectId,
+          states: statesByProject.get(projectId) || [],
+          memberIds: getMemberIds(projectId),
+          movingTaskIds: updates
+            .filter((update) => isMove(update) && update.projectId === projectId)
+            .map((update) => update.id),
+        },
+      ])
+    );
+
+    // Resolve each update to the values it writes; statuses and assignees must be valid in
+    // the project the task ends up in
+    const plans = [];
+    for (const update of updates) {
+      const task = getTask(update.id);
+      if (update.delete) {
+        plans.push({ update, task, status: undefined, assigneeId: undefined, assigneeCleared: false });
+        continue;
+      }
+
+      const projectId = getProjectId(update);
+      const states = statesByProject.get(projectId) || [];
+      const moveDefaults = isMove(update)
+        ? getProjectMoveDefaults(task, statesByProject.get(task.projectId) || [], moveTargets.get(projectId)!)
+        : null;
+
+      if (update.status && !findWorkflowState(states, update.status)) {
+        return NextResponse.json(
+          { error: `Invalid status for task ${update.id}` },
+          { status: 400 }
+        );
+      }
+
+      if (update.assigneeId && !getMemberIds(projectId).includes(update.assigneeId)) {
+        return NextResponse.json(
+          { error: `Assignee is not a member of the project of task ${update.id}` },
+          { status: 400 }
+        );
+      }
+
+      const status = update.status
+        ?? (update.statusCategory && getStatusForCategory(states, update.statusCategory))
+        ?? moveDefaults?.status;
+      const assigneeId = update.assigneeId !== undefined ? update.assigneeId : moveDefaults?.assigneeId;
+
+      plans.push({
+        update,
+        task,
+        status,
+        assigneeId,
+        assigneeCleared: update.assigneeId === undefined && !!task.assigneeId && assigneeId === null,
+      });
+    }
+
+    // Same dependency rule as moving a single task: the first blocked task stops the batch
+    if (!override) {
+      for (const plan of plans) {
+        if (!plan.status || (plan.status === plan.task.status && !isMove(plan.update))) continue;
+
+        const projectId = getProjectId(plan.update);
+        let blockers = await getBlockersForStatusChange({ id: plan.task.id, projectId }, plan.status);
+        // Links to tasks staying behind are removed by the move
+        if (isMove(plan.update)) {
+          const movingTaskIds = moveTargets.get(projectId)!.movingTaskIds;
+          blockers = blockers.filter((blocker) => movingTaskIds.includes(blocker.id));
+        }
+
+        if (blockers.length > 0) {
+          return NextResponse.json(
+            {
+              error: `"${plan.task.title}" is blocked by open tasks: ${blockers.map((blocker) => blocker.title).join(", ")}`,
+              taskId: plan.task.id,
+              blockers,
+            },
+            { status: 409 }
+          );
+        }
+      }
+    }
+
+    // WIP limits are checked per project, with all of the batch's moves applied together.
+    // Tasks moving in from another project come from no column.
+    const wipLimitWarnings: WipLimitViolation[] = [];
+    for (const projectId of projectIds) {
+      const moves = plans.flatMap((plan) =>
+        plan.status && getProjectId(plan.update) === projectId
+          ? [{ from: isMove(plan.update) ? "" : plan.task.status, to: plan.status }]
+          : []
+      );
+      if (moves.length === 0) continue;
+
+      const wipLimits = await checkWipLimits(projectId, statesByProject.get(projectId) || [], moves);
+      if (wipLimits.mode === "hard" && wipLimits.violations.length > 0) {
+        return NextResponse.json(
+          { error: describeWipLimitViolations(wipLimits.violations), wipLimitViolations: wipLimits.violations },
+          { status: 409 }
+        );
+      }
+      wipLimitWarnings.push(...wipLimits.violations);
+    }
+
+    // Tasks that change column go to the bottom of the new column, in batch order
+    const columnEnds = new Map<string, number>();
+    const getNextPosition = async (projectId: string, status: string) => {
+      const column = `${projectId}:${status}`;
+      const position = columnEnds.has(column)
+        ? getPositionBetween(columnEnds.get(column))
+        : await getEndOfColumnPosition(projectId, status);
+      columnEnds.set(column, position);
+      return position;
+    };
+
+    const writes: { plan: (typeof plans)[number]; updateData: Prisma.TaskUncheckedUpdateInput }[] = [];
+    for (const plan of plans) {
+      if (plan.update.delete) continue;
+
+      const { update, task, status, assigneeId } = plan;
+      const projectId = getProjectId(update);
+      const updateData: Prisma.TaskUncheckedUpdateInput = {};
+      if (status) updateData.status = status;
+      if (status && (status !== task.status || isMove(update))) {
+        updateData.position = await getNextPosition(projectId, status);
+      }
+      if (update.priority) updateData.priority = update.priority;
+      if (assigneeId !== undefined) updateData.assigneeId = assigneeId;
+      if (update.shiftDays) {
+        if (task.startDate) updateData.startDate = addDays(task.startDate, update.shiftDays);
+        if (task.dueDate) {
+          updateData.dueDate = addDays(task.dueDate, update.shiftDays);
+          updateData.recurrenceMonthDay = null;
+        }
+      }
+      updateData.updatedAt = new Date();
+
+      writes.push({ plan, updateData });
+    }
+
+    const deletedIds = plans.filter((plan) => plan.update.delete).map((plan) => plan.task.id);
+
+    const updatedTasks = await prisma.$transaction(
+      async (tx) => {
+        const results = [];
+        for (const { plan, updateData } of writes) {
+          if (isMove(plan.update)) {
+            const target = moveTargets.get(getProjectId(plan.update))!;
+            Object.assign(updateData, await detachTaskForMove(tx, plan.task, target));
+          }
+
+          results.push(
+            await tx.task.update({
+              where: { id: plan.task.id },
+              data: updateData,
+              include: taskInclude,
+            })
+          );
+        }
+
+        // Deleting a parent also deletes its subtasks, which may be in the batch too
+        if (deletedIds.length > 0) {
+          await tx.task.deleteMany({ where: { id: { in: deletedIds } } });
+        }
+
+        return results;
+      },
+      { timeout: 30000 }
+    );
+
+    // Moved tasks leave one board and appear on another
+    for (const task of updatedTasks) {
+      const previousProjectId = getTask(task.id).projectId;
+      if (task.projectId !== previousProjectId) {
+        await broadcastToProject(previousProjectId, "task:deleted", task.id);
+        await broadcastToProject(task.projectId, "task:created", task);
+      } else {
+        await broadcastToProject(task.projectId, "task:updated", task);
+      }
+    }
+    for (const taskId of deletedIds) {
+      await broadcastToProject(getTask(taskId).projectId, "task:deleted", taskId);
+    }
+
+    // Same follow-up as a single status change; completing recurring tasks generates their
+    // next occurrences
+    const nextOccurrences = [];
+    for (const task of updatedTasks) {
+      const previous = getTask(task.id);
+      const nextOccurrence = await finishTaskStatusChange(
+        previous.status,
+        task,
+        [...diffTaskFields(task.id, previous, task), ...diffTaskProject(task.id, previous.project, task.project)],
+        statesByProject.get(task.projectId) || [],
+        authResult.userId
+      );
+      if (nextOccurrence) nextOccurrences.push(nextOccurrence);
+    }
+
+    const results: BatchTaskResult<(typeof updatedTasks)[number]>[] = plans.map((plan) => {
+      if (plan.update.delete) {
+        return { id: plan.task.id, action: "deleted" };
+      }
+
+      const task = updatedTasks.find((t) => t.id === plan.task.id)!;
+      return {
+        id: task.id,
+        action: isMove(plan.update) ? "moved" : "updated",
+        task,
+        ...(plan.assigneeCleared && { assigneeCleared: true }),
+      };
+    });
 
-    return NextResponse.json({ tasks: updatedTasks });
+    return NextResponse.json({ results, tasks: updatedTasks, nextOccurrences, wipLimitWarnings });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: "Invalid input", details: error.errors },
+        { error: "Invalid input", details: error.issues },
         { status: 400 }
       );
     }
@@ -96,4 +366,4 @@ export async function PATCH(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatTaskKey, getTaskUrl, parseTaskKey } from '@/lib/taskKeys';
+
+const taskInclude = {
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+      key: true,
+    },
+  },
+};
+
+// GET /api/tasks/by-key/[key] - Look up a task by its key, e.g. WEB-142
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { key } = await params;
+    const parsed = parseTaskKey(decodeURIComponent(key));
+    if (!parsed) {
+      return NextResponse.json({ error: "Invalid task key" }, { status: 400 });
+    }
+
+    let task = await prisma.task.findFirst({
+      where: {
+        number: parsed.number,
+        project: {
+          key: parsed.projectKey,
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
+          },
+        },
+      },
+      include: taskInclude,
+    });
+
+    // Tasks moved to another project are still found by their old key
+    if (!task) {
+      const redirect = await prisma.taskRedirect.findFirst({
+        where: {
+          number: parsed.number,
+          project: { key: parsed.projectKey },
+        },
+      });
+
+      task = redirect && await prisma.task.findFirst({
+        where: {
+          id: redirect.taskId,
+          project: {
+            memberships: {
+              some: {
+                userId: authResult.userId,
+              },
+            },
+          },
+        },
+        include: taskInclude,
+      });
+    }
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      task: {
+        ...task,
+        key: formatTaskKey(task.project.key, task.number),
+        url: getTaskUrl(task.projectId, task.id),
+      },
+    });
+  } catch (error) {
+    console.error("Get task by key error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch task" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { endOfDay } from 'date-fns';
+import { milestoneInclude, toMilestone } from '@/lib/projectMilestones';
+import { getOccurrencesBetween, parseRecurrenceRule } from '@/lib/recurrence';
+import { findWorkflowState, getInitialStatus, getStatusCategory } from '@/lib/workflow';
+import { getWorkflowStatesByProject } from '@/lib/workflowStates';
+
+const calendarTaskInclude = {
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+    },
+  },
+} as const;
 
 export async function GET(req: NextRequest) {
   try {
@@ -52,49 +83,106 @@ export async function GET(req: NextRequest) {
           lte: endDate,
         },
       },
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
-          },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
+      include: calendarTaskInclude,
+      orderBy: [
+        { dueDate: "asc" },
+        { priority: "desc" },
+        { createdAt: "desc" },
+      ],
+    });
+
+    // The latest occurrence of each recurring series (the one without a successor yet)
+    // projects the series forward; earlier occurrences already have their next task
+    const recurringTasks = await prisma.task.findMany({
+      where: {
+        project: {
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
           },
         },
+        recurrenceRule: { not: null },
+        nextOccurrence: { is: null },
+        dueDate: { lte: endDate },
+      },
+      include: calendarTaskInclude,
+    });
+
+    // Milestones are shown on their target date next to the tasks
+    const milestoneRows = await prisma.milestone.findMany({
+      where: {
         project: {
-          select: {
-            id: true,
-            name: true,
-            color: true,
+          memberships: {
+            some: {
+              userId: authResult.userId,
+            },
           },
         },
+        targetDate: {
+          gte: startDate,
+          lte: endOfDay(endDate),
+        },
       },
-      orderBy: [
-        { dueDate: "asc" },
-        { priority: "desc" },
-        { createdAt: "desc" },
-      ],
+      include: {
+        ...milestoneInclude,
+        project: calendarTaskInclude.project,
+      },
+      orderBy: { targetDate: 'asc' },
     });
 
-    // Transform tasks to ensure consistent status and priority values
-    const transformedTasks = tasks.map(task => ({
-      ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
-      priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
-    }));
+    const statesByProject = await getWorkflowStatesByProject(
+      [...tasks, ...recurringTasks, ...milestoneRows].map(row => row.projectId)
+    );
+
+    // Transform tasks to ensure consistent status and priority values, and attach
+    // each task's workflow state since projects define their own states
+    const transformTask = (task: typeof tasks[number]) => {
+      const states = statesByProject.get(task.projectId) || [];
+      const state = findWorkflowState(states, task.status);
+
+      return {
+        ...task,
+        status: task.status.toUpperCase(),
+        priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+        statusName: state?.name || task.status,
+        statusColor: state?.color || null,
+        statusCategory: getStatusCategory(states, task.status),
+        isVirtual: false,
+      };
+    };
+
+    const transformedTasks = tasks.map(transformTask);
+
+    // Future occurrences don't exist as tasks yet; they are shown as virtual items in
+    // the state the task will be created in, with an id of "<latest task id>:<index>"
+    const virtualTasks = recurringTasks.flatMap(task => {
+      const rule = task.recurrenceRule ? parseRecurrenceRule(task.recurrenceRule) : null;
+      if (!rule || !task.dueDate) return [];
+
+      const initialStatus = getInitialStatus(statesByProject.get(task.projectId) || []);
+      return getOccurrencesBetween(
+        rule,
+        task.dueDate,
+        task.recurrenceIndex,
+        startDate,
+        endOfDay(endDate),
+        task.recurrenceMonthDay ?? task.dueDate.getDate()
+      )
+        .map(({ date, index }) => ({
+          ...transformTask({ ...task, status: initialStatus }),
+          id: `${task.id}:${index}`,
+          dueDate: date,
+          recurrenceIndex: index,
+          recurrenceSourceId: task.id,
+          isVirtual: true,
+        }));
+    });
 
     // Group tasks by date (YYYY-MM-DD format)
     const tasksByDate: Record<string, typeof transformedTasks> = {};
     
-    transformedTasks.forEach(task => {
+    [...transformedTasks, ...virtualTasks].forEach(task => {
       if (task.dueDate) {
         const dateKey = task.dueDate.toISOString().split('T')[0]; // YYYY-MM-DD
         if (!tasksByDate[dateKey]) {
@@ -104,6 +192,20 @@ export async function GET(req: NextRequest) {
       }
     });
 
+    const milestones = milestoneRows.map(milestone => ({
+      ...toMilestone(milestone, statesByProject.get(milestone.projectId) || []),
+      project: milestone.project,
+    }));
+
+    const milestonesByDate: Record<string, typeof milestones> = {};
+    milestones.forEach(milestone => {
+      const dateKey = milestone.targetDate.split('T')[0]; // YYYY-MM-DD
+      if (!milestonesByDate[dateKey]) {
+        milestonesByDate[dateKey] = [];
+      }
+      milestonesByDate[dateKey].push(milestone);
+    });
+
     // Calculate calendar statistics
     const now_start = new Date();
     now_start.setHours(0, 0, 0, 0);
@@ -111,7 +213,7 @@ export async function GET(req: NextRequest) {
     const stats = {
       totalTasks: transformedTasks.length,
       overdueTasks: transformedTasks.filter(task => 
-        task.dueDate && new Date(task.dueDate) < now_start && task.status !== 'DONE'
+        task.dueDate && new Date(task.dueDate) < now_start && task.statusCategory !== 'done'
       ).length,
       todayTasks: transformedTasks.filter(task => {
         if (!task.dueDate) return false;
@@ -120,17 +222,17 @@ export async function GET(req: NextRequest) {
         return taskDate.toDateString() === today.toDateString();
       }).length,
       upcomingTasks: transformedTasks.filter(task => {
-        if (!task.dueDate || task.status === 'DONE') return false;
+        if (!task.dueDate || task.statusCategory === 'done') return false;
         const taskDate = new Date(task.dueDate);
         const today = new Date();
         const sevenDaysFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
         return taskDate > today && taskDate <= sevenDaysFromNow;
       }).length,
-      completedTasks: transformedTasks.filter(task => task.status === 'DONE').length,
-      tasksByStatus: {
-        TODO: transformedTasks.filter(task => task.status === 'TODO').length,
-        IN_PROGRESS: transformedTasks.filter(task => task.status === 'IN_PROGRESS').length,
-        DONE: transformedTasks.filter(task => task.status === 'DONE').length,
+      completedTasks: transformedTasks.filter(task => task.statusCategory === 'done').length,
+      tasksByCategory: {
+        todo: transformedTasks.filter(task => task.statusCategory === 'todo').length,
+        active: transformedTasks.filter(task => task.statusCategory === 'active').length,
+        done: transformedTasks.filter(task => task.statusCategory === 'done').length,
       },
       tasksByPriority: {
         LOW: transformedTasks.filter(task => task.priority === 'LOW').length,
@@ -141,22 +243,28 @@ export async function GET(req: NextRequest) {
     };
 
     // Generate calendar events format for easier frontend consumption
-    const calendarEvents = transformedTasks.map(task => ({
+    const calendarEvents = [...transformedTasks, ...virtualTasks].map(task => ({
       id: task.id,
       title: task.title,
       date: task.dueDate?.toISOString().split('T')[0],
       status: task.status,
+      statusName: task.statusName,
+      statusColor: task.statusColor,
+      statusCategory: task.statusCategory,
       priority: task.priority,
       project: task.project,
       assignee: task.assignee,
       description: task.description,
-      isOverdue: task.dueDate && new Date(task.dueDate) < now_start && task.status !== 'DONE',
+      isOverdue: !task.isVirtual && task.dueDate && new Date(task.dueDate) < now_start && task.statusCategory !== 'done',
+      isVirtual: task.isVirtual,
     }));
 
     return NextResponse.json({
       tasks: transformedTasks,
       tasksByDate,
       calendarEvents,
+      milestones,
+      milestonesByDate,
       stats,
       dateRange: {
         start: startDate.toISOString(),
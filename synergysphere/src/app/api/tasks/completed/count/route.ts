@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { buildStatusCategoryWhere } from '@/lib/workflowStates';
 
 export async function GET(req: NextRequest) {
   try {
@@ -12,18 +13,17 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Count completed tasks in projects where user is a member
+    const memberships = await prisma.membership.findMany({
+      where: { userId: authResult.userId },
+      select: { projectId: true },
+    });
+
+    // Count tasks in a done-category state of their project's workflow
     const count = await prisma.task.count({
-      where: {
-        status: 'COMPLETED',
-        project: {
-          memberships: {
-            some: {
-              userId: authResult.userId,
-            },
-          },
-        },
-      },
+      where: await buildStatusCategoryWhere(
+        memberships.map(membership => membership.projectId),
+        'done'
+      ),
     });
 
     return NextResponse.json({ count });
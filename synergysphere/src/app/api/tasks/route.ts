@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { buildLabelsWhere, taskLabelsInclude, toTaskLabels } from '@/lib/labels';
 import { prisma } from '@/lib/prisma';
+import { parseTaskQuery } from '@/lib/taskQuery';
+import { buildTaskQueryWhere } from '@/lib/taskQueryWhere';
+import { findWorkflowState, getStatusCategory } from '@/lib/workflow';
+import { getWorkflowStatesByProject } from '@/lib/workflowStates';
 
 export async function GET(req: NextRequest) {
   try {
@@ -11,9 +17,17 @@ export async function GET(req: NextRequest) {
 
     const { searchParams } = new URL(req.url);
     const status = searchParams.get("status");
+    // Workflow category (todo, active or done); states differ per project, so this is the cross-project filter
+    const category = searchParams.get("category");
     const priority = searchParams.get("priority");
     const assignedToMe = searchParams.get("assignedToMe");
     const createdByMe = searchParams.get("createdByMe");
+    const watching = searchParams.get("watching");
+    const projectId = searchParams.get("projectId");
+    // Comma-separated label ids or names; names match same-named labels across projects
+    const labels = searchParams.get("labels");
+    // Search syntax such as `assignee:me priority:>=HIGH due:<7d "login page"`, see taskQuery.ts
+    const query = searchParams.get("q");
 
     // Build where clause for filtering tasks
     const whereClause: any = {
@@ -27,6 +41,10 @@ export async function GET(req: NextRequest) {
     };
 
     // Apply filters based on query parameters
+    if (projectId) {
+      whereClause.projectId = projectId;
+    }
+
     if (status) {
       whereClause.status = status.toUpperCase();
     }
@@ -43,6 +61,35 @@ export async function GET(req: NextRequest) {
       whereClause.creatorId = authResult.userId;
     }
 
+    if (watching === 'true') {
+      whereClause.watchers = { some: { userId: authResult.userId } };
+    }
+
+    if (labels) {
+      whereClause.labels = buildLabelsWhere(labels);
+    }
+
+    if (query) {
+      const { terms, errors } = parseTaskQuery(query);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: "Invalid query", details: errors },
+          { status: 400 }
+        );
+      }
+      // label: terms name labels of any project the search covers
+      const queryLabels = terms.some((term) => term.field === 'label')
+        ? await prisma.label.findMany({
+            where: {
+              projectId: projectId || undefined,
+              project: { memberships: { some: { userId: authResult.userId } } },
+            },
+            select: { id: true, name: true },
+          })
+        : [];
+      whereClause.AND = [buildTaskQueryWhere(terms, authResult.userId!, queryLabels)];
+    }
+
     // Fetch all tasks for projects where the user is a member
     const tasks = await prisma.task.findMany({
       where: whereClause,
@@ -68,8 +115,11 @@ export async function GET(req: NextRequest) {
             id: true,
             name: true,
             color: true,
+            key: true,
           },
         },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
       },
       orderBy: [
         { status: "asc" },
@@ -79,40 +129,55 @@ export async function GET(req: NextRequest) {
       ],
     });
 
-    // Transform tasks to ensure consistent status and priority values
-    const transformedTasks = tasks.map(task => ({
-      ...task,
-      status: task.status.toUpperCase() as 'TODO' | 'IN_PROGRESS' | 'DONE',
-      priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
-    }));
-
-    // Group tasks by status for easier dashboard consumption
-    const tasksByStatus = {
-      TODO: transformedTasks.filter(task => task.status === 'TODO'),
-      IN_PROGRESS: transformedTasks.filter(task => task.status === 'IN_PROGRESS'),
-      DONE: transformedTasks.filter(task => task.status === 'DONE'),
+    const statesByProject = await getWorkflowStatesByProject(tasks.map(task => task.projectId));
+
+    // Transform tasks to ensure consistent status and priority values, and attach
+    // each task's workflow state since projects define their own states
+    const transformedTasks = tasks
+      .map(({ customFieldValues, ...task }) => {
+        const states = statesByProject.get(task.projectId) || [];
+        const state = findWorkflowState(states, task.status);
+
+        return {
+          ...task,
+          status: task.status.toUpperCase(),
+          priority: task.priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
+          labels: toTaskLabels(task.labels),
+          customFields: toCustomFieldValues(customFieldValues),
+          statusName: state?.name || task.status,
+          statusColor: state?.color || null,
+          statusCategory: getStatusCategory(states, task.status),
+        };
+      })
+      .filter(task => !category || task.statusCategory === category);
+
+    // Group tasks by workflow category for easier dashboard consumption
+    const tasksByCategory = {
+      todo: transformedTasks.filter(task => task.statusCategory === 'todo'),
+      active: transformedTasks.filter(task => task.statusCategory === 'active'),
+      done: transformedTasks.filter(task => task.statusCategory === 'done'),
     };
 
     // Calculate summary statistics
     const summary = {
       total: transformedTasks.length,
-      todo: tasksByStatus.TODO.length,
-      inProgress: tasksByStatus.IN_PROGRESS.length,
-      done: tasksByStatus.DONE.length,
+      todo: tasksByCategory.todo.length,
+      inProgress: tasksByCategory.active.length,
+      done: tasksByCategory.done.length,
       overdue: transformedTasks.filter(task => 
-        task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'DONE'
+        task.dueDate && new Date(task.dueDate) < new Date() && task.statusCategory !== 'done'
       ).length,
       dueSoon: transformedTasks.filter(task => 
         task.dueDate && 
         new Date(task.dueDate) <= new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) &&
         new Date(task.dueDate) >= new Date() &&
-        task.status !== 'DONE'
+        task.statusCategory !== 'done'
       ).length,
     };
 
     return NextResponse.json({
       tasks: transformedTasks,
-      tasksByStatus,
+      tasksByCategory,
       summary,
     });
   } catch (error) {
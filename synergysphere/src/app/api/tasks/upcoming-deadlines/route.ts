@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { buildStatusCategoryWhere } from '@/lib/workflowStates';
 
 export async function GET(req: NextRequest) {
   try {
@@ -16,16 +17,23 @@ export async function GET(req: NextRequest) {
     const nextWeek = new Date();
     nextWeek.setDate(nextWeek.getDate() + 7);
 
-    // Count tasks with due dates in the next 7 days
+    const memberships = await prisma.membership.findMany({
+      where: { userId: authResult.userId },
+      select: { projectId: true },
+    });
+    const doneWhere = await buildStatusCategoryWhere(
+      memberships.map(membership => membership.projectId),
+      'done'
+    );
+
+    // Count unfinished tasks with due dates in the next 7 days
     const count = await prisma.task.count({
       where: {
         dueDate: {
           gte: new Date(),
           lte: nextWeek,
         },
-        status: {
-          not: 'COMPLETED',
-        },
+        NOT: doneWhere,
         project: {
           memberships: {
             some: {
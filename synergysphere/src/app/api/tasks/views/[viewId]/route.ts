@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  findAccessibleView,
+  getDefaultViewId,
+  savedViewConfigSchema,
+  savedViewInclude,
+  setDefaultViewId,
+  toSavedView,
+} from '@/lib/taskViews';
+
+const updateViewSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name too long').optional(),
+  isShared: z.boolean().optional(),
+  config: savedViewConfigSchema.optional(),
+  // Only changes the current user's default, so it's allowed on views shared by others
+  isDefault: z.boolean().optional(),
+});
+
+// PATCH /api/tasks/views/[viewId] - Rename, re-save or share a view, or make it the user's default
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ viewId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { viewId } = await params;
+    const userId = authResult.userId!;
+
+    const existingView = await findAccessibleView(viewId, userId);
+    if (!existingView) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = updateViewSchema.parse(body);
+    const { isDefault, ...changes } = data;
+
+    const changesView = Object.values(changes).some((value) => value !== undefined);
+    if (changesView && existingView.ownerId !== userId) {
+      return NextResponse.json(
+        { error: 'Only the owner can change this view' },
+        { status: 403 }
+      );
+    }
+
+    if (changes.isShared && !existingView.projectId) {
+      return NextResponse.json(
+        { error: 'Only project views can be shared' },
+        { status: 400 }
+      );
+    }
+
+    const view = changesView
+      ? await prisma.savedView.update({
+          where: { id: viewId },
+          data: {
+            ...(changes.name !== undefined && { name: changes.name }),
+            ...(changes.isShared !== undefined && { isShared: changes.isShared }),
+            ...(changes.config && { config: changes.config as Prisma.InputJsonValue }),
+          },
+          include: savedViewInclude,
+        })
+      : existingView;
+
+    let defaultViewId = await getDefaultViewId(userId, view.projectId);
+    if (isDefault !== undefined && isDefault !== (defaultViewId === viewId)) {
+      defaultViewId = isDefault ? viewId : null;
+      await setDefaultViewId(userId, view.projectId, defaultViewId);
+    }
+
+    return NextResponse.json({ view: toSavedView(view, defaultViewId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update saved view error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update view' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/views/[viewId] - Delete one of the user's views
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ viewId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { viewId } = await params;
+
+    const view = await prisma.savedView.findFirst({
+      where: { id: viewId, ownerId: authResult.userId },
+    });
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'View not found or no permission to delete it' },
+        { status: 404 }
+      );
+    }
+
+    // Anyone who had it as their default falls back to the plain page
+    await prisma.savedView.delete({ where: { id: viewId } });
+
+    return NextResponse.json({ message: 'View deleted successfully' });
+  } catch (error) {
+    console.error('Delete saved view error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete view' },
+      { status: 500 }
+    );
+  }
+}
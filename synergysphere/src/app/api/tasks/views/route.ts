@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getSavedViews,
+  savedViewConfigSchema,
+  savedViewInclude,
+  setDefaultViewId,
+  toSavedView,
+} from '@/lib/taskViews';
+
+const createViewSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name too long'),
+  // Without a project the view is for My Tasks
+  projectId: z.string().nullable().optional(),
+  isShared: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+  config: savedViewConfigSchema,
+});
+
+async function isProjectMember(projectId: string, userId?: string) {
+  const membership = await prisma.membership.findFirst({
+    where: { projectId, userId },
+  });
+  return !!membership;
+}
+
+// GET /api/tasks/views?projectId= - List the views the user can open on a project's tasks page, or on My Tasks
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const projectId = req.nextUrl.searchParams.get('projectId');
+    if (projectId && !(await isProjectMember(projectId, authResult.userId))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const views = await getSavedViews(authResult.userId!, projectId);
+
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error('Get saved views error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch views' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/views - Save the current filters, sort, grouping and layout as a view
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const data = createViewSchema.parse(body);
+    const projectId = data.projectId || null;
+
+    if (projectId && !(await isProjectMember(projectId, authResult.userId))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (data.isShared && !projectId) {
+      return NextResponse.json(
+        { error: 'Only project views can be shared' },
+        { status: 400 }
+      );
+    }
+
+    const view = await prisma.savedView.create({
+      data: {
+        ownerId: authResult.userId!,
+        projectId,
+        name: data.name,
+        isShared: data.isShared,
+        config: data.config as Prisma.InputJsonValue,
+      },
+      include: savedViewInclude,
+    });
+
+    if (data.isDefault) {
+      await setDefaultViewId(authResult.userId!, projectId, view.id);
+    }
+
+    return NextResponse.json(
+      { view: toSavedView(view, data.isDefault ? view.id : null) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create saved view error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
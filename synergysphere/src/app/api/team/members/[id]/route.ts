@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { removeUserFromProject } from '@/lib/realtime';
 import { z } from 'zod';
 
 const updateMemberSchema = z.object({
@@ -260,6 +261,9 @@ export async function DELETE(
         }
       }
     });
+    for (const membership of memberInProjects) {
+      await removeUserFromProject(membership.projectId, memberId);
+    }
 
     return NextResponse.json({ message: 'Member removed successfully' });
   } catch (error) {
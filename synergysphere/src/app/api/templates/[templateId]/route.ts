@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// DELETE /api/templates/[templateId] - Delete one of the user's templates
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+
+    const template = await prisma.template.findFirst({
+      where: { id: templateId, ownerId: authResult.userId },
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found or no permission to delete it' },
+        { status: 404 }
+      );
+    }
+
+    // Tasks and projects created from it don't depend on it
+    await prisma.template.delete({ where: { id: templateId } });
+
+    return NextResponse.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findManageableProject } from '@/lib/projectAccess';
+import { buildProjectTemplateContent, buildTaskTemplateContent, toTemplate } from '@/lib/taskTemplates';
+
+const templateNameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name too long');
+
+const createTemplateSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('task'),
+    name: templateNameSchema,
+    taskId: z.string().min(1),
+    // Days from the start date to the due date; defaults to what the task's own dates give
+    dueOffsetDays: z.number().int().min(0).max(3650).optional(),
+  }),
+  z.object({
+    kind: z.literal('project'),
+    name: templateNameSchema,
+    projectId: z.string().min(1),
+  }),
+]);
+
+// GET /api/templates?kind=task|project - List the user's templates
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const kind = req.nextUrl.searchParams.get('kind');
+
+    const templates = await prisma.template.findMany({
+      where: {
+        ownerId: authResult.userId,
+        ...(kind && { kind }),
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ templates: templates.map(toTemplate) });
+  } catch (error) {
+    console.error('Get templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/templates - Save a task with its subtasks, or a whole project, as a template
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const data = createTemplateSchema.parse(body);
+
+    let content;
+    if (data.kind === 'task') {
+      // Check if user has access to this task
+      const task = await prisma.task.findFirst({
+        where: {
+          id: data.taskId,
+          project: {
+            memberships: {
+              some: {
+                userId: authResult.userId,
+              },
+            },
+          },
+        },
+      });
+
+      if (!task) {
+        return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      }
+
+      content = await buildTaskTemplateContent(task.id, data.dueOffsetDays);
+    } else {
+      // Templates copy the project's members and settings, so only its managers can save one
+      const project = await findManageableProject(data.projectId, authResult.userId);
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found or no permission to save it as a template' },
+          { status: 404 }
+        );
+      }
+
+      content = await buildProjectTemplateContent(project.id);
+    }
+
+    const template = await prisma.template.create({
+      data: {
+        ownerId: authResult.userId!,
+        kind: data.kind,
+        name: data.name,
+        content: content as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return NextResponse.json({ template: toTemplate(template) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save template' },
+      { status: 500 }
+    );
+  }
+}
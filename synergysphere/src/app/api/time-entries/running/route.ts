@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { getRunningTimer } from '@/lib/timeEntries';
+
+// GET /api/time-entries/running - The current user's running timer, if any
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const entry = await getRunningTimer(authResult.userId!);
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Get running timer error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch running timer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+import { verifyAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTimeSummary } from '@/lib/timeEntries';
+
+// GET /api/time-entries/summary - Tracked time summed by task, user, project and day.
+// Optional filters: projectId, taskId, userId, from and to (YYYY-MM-DD, inclusive).
+// Without projectId, all projects the current user is a member of are included.
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get("projectId");
+    const taskId = searchParams.get("taskId") || undefined;
+    const userId = searchParams.get("userId") || undefined;
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+
+    const from = fromParam ? parseISO(fromParam) : undefined;
+    const to = toParam ? parseISO(toParam) : undefined;
+    if ((from && !isValid(from)) || (to && !isValid(to))) {
+      return NextResponse.json(
+        { error: "Invalid date range" },
+        { status: 400 }
+      );
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: {
+        userId: authResult.userId,
+        ...(projectId && { projectId }),
+      },
+      select: { projectId: true },
+    });
+
+    if (projectId && memberships.length === 0) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const summary = await getTimeSummary({
+      projectIds: memberships.map(membership => membership.projectId),
+      taskId,
+      userId,
+      from: from && startOfDay(from),
+      to: to && endOfDay(to),
+    });
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error("Get time summary error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch time summary" },
+      { status: 500 }
+    );
+  }
+}
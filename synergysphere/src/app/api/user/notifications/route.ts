@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import { getNotificationPreferences, notificationPreferenceSelect } from '@/lib/notifications';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+
+const updatePreferencesSchema = z.object({
+  emailNotifications: z.boolean().optional(),
+  pushNotifications: z.boolean().optional(),
+  taskAssignments: z.boolean().optional(),
+  taskUpdates: z.boolean().optional(),
+  taskComments: z.boolean().optional(),
+  projectUpdates: z.boolean().optional(),
+  deadlineReminders: z.boolean().optional(),
+  teamInvitations: z.boolean().optional(),
+  weeklyDigest: z.boolean().optional(),
+});
+
+// GET /api/user/notifications - The current user's notification preferences
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const preferences = await getNotificationPreferences(authResult.userId!);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Get notification preferences error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/user/notifications - Update the current user's notification preferences
+export async function PUT(req: NextRequest) {
+  try {
+    const authResult = await verifyAuth(req);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const updates = updatePreferencesSchema.parse(body);
+
+    const preferences = await prisma.notificationPreference.upsert({
+      where: { userId: authResult.userId },
+      create: { userId: authResult.userId!, ...updates },
+      update: updates,
+      select: notificationPreferenceSelect,
+    });
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Update notification preferences error:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
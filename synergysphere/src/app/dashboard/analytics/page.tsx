@@ -10,118 +10,16 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart3, Calendar, RefreshCw, Users, Target } from "lucide-react";
+import { format, subMonths, subWeeks } from "date-fns";
+import { AnalyticsTimeRange, ProjectAnalyticsData } from "@/types/analytics";
+import { TimeSummary } from "@/types/timeTracking";
 
-// Mock analytics data
-const mockAnalyticsData = {
-  "1": {
-    projectId: "1",
-    projectName: "SynergySphere MVP",
-    metrics: {
-      completionRate: 67,
-      totalTasks: 24,
-      completedTasks: 16,
-      overdueTasks: 2,
-      activeMembers: 5,
-      avgTaskCompletionTime: 3.2,
-      velocityTrend: "up" as const,
-      productivityScore: 85,
-      timeToDeadline: 25,
-    },
-    teamProductivity: [
-      {
-        memberId: "1",
-        memberName: "Alice Johnson",
-        tasksCompleted: 8,
-        tasksAssigned: 10,
-        completionRate: 80,
-        avgCompletionTime: 2.8,
-      },
-      {
-        memberId: "2",
-        memberName: "Bob Smith",
-        tasksCompleted: 4,
-        tasksAssigned: 5,
-        completionRate: 80,
-        avgCompletionTime: 3.1,
-      },
-      {
-        memberId: "3",
-        memberName: "Carol Davis",
-        tasksCompleted: 3,
-        tasksAssigned: 4,
-        completionRate: 75,
-        avgCompletionTime: 3.5,
-      },
-      {
-        memberId: "4",
-        memberName: "David Wilson",
-        tasksCompleted: 1,
-        tasksAssigned: 3,
-        completionRate: 33,
-        avgCompletionTime: 4.2,
-      },
-      {
-        memberId: "5",
-        memberName: "Eve Martinez",
-        tasksCompleted: 0,
-        tasksAssigned: 2,
-        completionRate: 0,
-        avgCompletionTime: 0,
-      },
-    ],
-    taskDistribution: [
-      { status: "Completed", count: 16, percentage: 67, color: "#10b981" },
-      { status: "In Progress", count: 6, percentage: 25, color: "#3b82f6" },
-      { status: "Overdue", count: 2, percentage: 8, color: "#ef4444" },
-    ],
-  },
-  "2": {
-    projectId: "2",
-    projectName: "Marketing Website",
-    metrics: {
-      completionRate: 40,
-      totalTasks: 15,
-      completedTasks: 6,
-      overdueTasks: 1,
-      activeMembers: 3,
-      avgTaskCompletionTime: 4.1,
-      velocityTrend: "stable" as const,
-      productivityScore: 72,
-      timeToDeadline: 10,
-    },
-    teamProductivity: [
-      {
-        memberId: "1",
-        memberName: "Alice Johnson",
-        tasksCompleted: 2,
-        tasksAssigned: 5,
-        completionRate: 40,
-        avgCompletionTime: 3.8,
-      },
-      {
-        memberId: "6",
-        memberName: "Frank Brown",
-        tasksCompleted: 2,
-        tasksAssigned: 5,
-        completionRate: 40,
-        avgCompletionTime: 4.2,
-      },
-      {
-        memberId: "7",
-        memberName: "Grace Lee",
-        tasksCompleted: 2,
-        tasksAssigned: 5,
-        completionRate: 40,
-        avgCompletionTime: 4.5,
-      },
-    ],
-    taskDistribution: [
-      { status: "Completed", count: 6, percentage: 40, color: "#10b981" },
-      { status: "In Progress", count: 8, percentage: 53, color: "#3b82f6" },
-      { status: "Overdue", count: 1, percentage: 7, color: "#ef4444" },
-    ],
-  },
-};
+interface ProjectSummary {
+  id: string;
+  name: string;
+  taskCount: number;
+  completedTaskCount: number;
+}
 
 // Mock team analytics data
 const mockTeamAnalytics = {
@@ -223,30 +121,50 @@ const mockTeamAnalytics = {
 };
 
 export default function AnalyticsPage() {
-  const [selectedProject, setSelectedProject] = useState("1");
-  const [timeRange, setTimeRange] = useState<"week" | "month" | "quarter">("month");
-  const [data, setData] = useState<any>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [selectedProject, setSelectedProject] = useState<string>();
+  const [timeRange, setTimeRange] = useState<AnalyticsTimeRange>("month");
+  const [data, setData] = useState<ProjectAnalyticsData | null>(null);
+  const [timeSummary, setTimeSummary] = useState<TimeSummary>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch("/api/projects?limit=50");
+      if (!response.ok) {
+        throw new Error(`Failed to fetch projects: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setProjects(result.projects || []);
+      if (result.projects?.length > 0) {
+        setSelectedProject((current) => current ?? result.projects[0].id);
+      } else {
+        setIsLoading(false);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch projects";
+      setError(errorMessage);
+      setIsLoading(false);
+    }
+  };
+
   const fetchAnalytics = async () => {
+    if (!selectedProject) return;
+
     try {
       setIsLoading(true);
       setError(null);
 
-      // Simulate API call - in real app this would be:
-      // const response = await fetch(`/api/projects/${selectedProject}/analytics?timeRange=${timeRange}`);
-      // const result = await response.json();
-      
-      // For now, use mock data
-      await new Promise(resolve => setTimeout(resolve, 800)); // Simulate loading
-      
-      const analyticsData = mockAnalyticsData[selectedProject as keyof typeof mockAnalyticsData];
-      if (!analyticsData) {
-        throw new Error("Analytics data not found");
+      const response = await fetch(`/api/projects/${selectedProject}/analytics?timeRange=${timeRange}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch analytics: ${response.statusText}`);
       }
-      
-      setData(analyticsData);
+
+      const result: ProjectAnalyticsData = await response.json();
+      setData(result);
+      await fetchTimeSummary();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to fetch analytics data";
       setError(errorMessage);
@@ -255,10 +173,43 @@ export default function AnalyticsPage() {
     }
   };
 
+  const fetchTimeSummary = async () => {
+    const from = timeRange === "week" ? subWeeks(new Date(), 1) :
+      timeRange === "month" ? subMonths(new Date(), 1) : subMonths(new Date(), 3);
+
+    try {
+      const response = await fetch(
+        `/api/time-entries/summary?projectId=${selectedProject}&from=${format(from, "yyyy-MM-dd")}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch time summary: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setTimeSummary(result.summary);
+    } catch (err) {
+      console.error('Failed to load time summary:', err);
+      // Don't show error for tracked time - the rest of the analytics still applies
+      setTimeSummary(undefined);
+    }
+  };
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
   useEffect(() => {
     fetchAnalytics();
   }, [selectedProject, timeRange]);
 
+  const projectsWithTasks = projects.filter((project) => project.taskCount > 0);
+  const averageCompletion = projectsWithTasks.length > 0
+    ? Math.round(
+        projectsWithTasks.reduce((sum, project) => sum + project.completedTaskCount / project.taskCount, 0) /
+          projectsWithTasks.length * 100
+      )
+    : 0;
+
   if (isLoading) {
     return <PageLoader message="Loading analytics data..." />;
   }
@@ -319,7 +270,7 @@ export default function AnalyticsPage() {
             <Target className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">2</div>
+            <div className="text-2xl font-bold">{projects.length}</div>
             <p className="text-xs text-muted-foreground">
               Currently tracked projects
             </p>
@@ -332,7 +283,7 @@ export default function AnalyticsPage() {
             <BarChart3 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">54%</div>
+            <div className="text-2xl font-bold">{averageCompletion}%</div>
             <p className="text-xs text-muted-foreground">
               Across all active projects
             </p>
@@ -387,8 +338,11 @@ export default function AnalyticsPage() {
                 <SelectValue placeholder="Select project" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="1">SynergySphere MVP</SelectItem>
-                <SelectItem value="2">Marketing Website</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -397,12 +351,20 @@ export default function AnalyticsPage() {
             <ProjectAnalytics
               projectId={data.projectId}
               projectName={data.projectName}
+              estimationUnit={data.estimationUnit}
               metrics={data.metrics}
+              velocityHistory={data.velocityHistory}
               teamProductivity={data.teamProductivity}
               taskDistribution={data.taskDistribution}
               timeRange={timeRange}
+              timeSummary={timeSummary}
             />
           )}
+          {!data && projects.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Create a project to see its analytics.
+            </p>
+          )}
         </TabsContent>
 
         <TabsContent value="team" className="space-y-6">
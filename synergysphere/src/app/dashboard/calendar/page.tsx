@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -18,14 +17,24 @@ import {
   Target,
   TrendingUp,
   Users,
-  FolderOpen
+  FolderOpen,
+  Repeat
 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { StatusBadge } from "@/components/tasks/StatusBadge";
+import { MILESTONE_STATUS_CONFIG } from "@/lib/milestones";
+import { CalendarMilestone } from "@/types/milestones";
+import { WorkflowCategory } from "@/types/workflow";
 
 interface Task {
   id: string;
   title: string;
   description: string | null;
-  status: 'TODO' | 'IN_PROGRESS' | 'DONE';
+  status: string;
+  statusName: string;
+  statusColor: string | null;
+  statusCategory: WorkflowCategory;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   dueDate: string | null;
   createdAt: string;
@@ -47,13 +56,18 @@ interface Task {
     name: string;
     color: string | null;
   };
+  // Future occurrence of a recurring task that has not been created yet
+  isVirtual: boolean;
 }
 
 interface CalendarEvent {
   id: string;
   title: string;
   date: string | null;
-  status: 'TODO' | 'IN_PROGRESS' | 'DONE';
+  status: string;
+  statusName: string;
+  statusColor: string | null;
+  statusCategory: WorkflowCategory;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   project: {
     id: string;
@@ -68,23 +82,22 @@ interface CalendarEvent {
   } | null;
   description: string | null;
   isOverdue: boolean;
+  isVirtual: boolean;
 }
 
 interface CalendarResponse {
   tasks: Task[];
   tasksByDate: Record<string, Task[]>;
   calendarEvents: CalendarEvent[];
+  milestones: CalendarMilestone[];
+  milestonesByDate: Record<string, CalendarMilestone[]>;
   stats: {
     totalTasks: number;
     overdueTasks: number;
     todayTasks: number;
     upcomingTasks: number;
     completedTasks: number;
-    tasksByStatus: {
-      TODO: number;
-      IN_PROGRESS: number;
-      DONE: number;
-    };
+    tasksByCategory: Record<WorkflowCategory, number>;
     tasksByPriority: {
       LOW: number;
       MEDIUM: number;
@@ -98,12 +111,6 @@ interface CalendarResponse {
   };
 }
 
-const statusColors = {
-  TODO: "bg-gray-100 text-gray-800",
-  IN_PROGRESS: "bg-blue-100 text-blue-800",
-  DONE: "bg-green-100 text-green-800",
-};
-
 const priorityColors = {
   LOW: "bg-green-100 text-green-800 border-green-200",
   MEDIUM: "bg-yellow-100 text-yellow-800 border-yellow-200",
@@ -111,10 +118,10 @@ const priorityColors = {
   URGENT: "bg-red-100 text-red-800 border-red-200",
 };
 
-const statusIcons = {
-  TODO: Circle,
-  IN_PROGRESS: Clock,
-  DONE: CheckCircle2,
+const categoryIcons = {
+  todo: Circle,
+  active: Clock,
+  done: CheckCircle2,
 };
 
 export default function CalendarPage() {
@@ -183,6 +190,7 @@ export default function CalendarPage() {
       const isCurrentMonth = current.getMonth() === month;
       const isToday = current.toDateString() === new Date().toDateString();
       const tasksForDay = calendarData?.tasksByDate[dateStr] || [];
+      const milestonesForDay = calendarData?.milestonesByDate?.[dateStr] || [];
       
       days.push({
         date: new Date(current),
@@ -190,6 +198,7 @@ export default function CalendarPage() {
         isCurrentMonth,
         isToday,
         tasks: tasksForDay,
+        milestones: milestonesForDay,
         day: current.getDate(),
       });
       
@@ -211,15 +220,59 @@ export default function CalendarPage() {
     return calendarData.tasksByDate[selectedDate] || [];
   };
 
+  const getSelectedDateMilestones = () => {
+    if (!selectedDate || !calendarData) return [];
+    return calendarData.milestonesByDate?.[selectedDate] || [];
+  };
+
+  // Milestones at risk or overdue get a red outline so they stand out in the grid
+  const MilestoneMarker = ({ milestone }: { milestone: CalendarMilestone }) => (
+    <span
+      className={`inline-block h-2.5 w-2.5 rotate-45 flex-shrink-0 ${
+        milestone.status === 'at_risk' || milestone.status === 'overdue' ? 'ring-1 ring-red-500 ring-offset-1' : ''
+      }`}
+      style={{ backgroundColor: milestone.project.color || '#3b82f6' }}
+      title={`${milestone.title} (${MILESTONE_STATUS_CONFIG[milestone.status].label}, ${milestone.progress}% done)`}
+    />
+  );
+
+  const MilestoneItem = ({ milestone }: { milestone: CalendarMilestone }) => (
+    <div className="p-2 rounded-md border mb-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <MilestoneMarker milestone={milestone} />
+            <span className="font-medium text-sm truncate">{milestone.title}</span>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <FolderOpen className="h-3 w-3" />
+            <span style={{ color: milestone.project.color || undefined }}>
+              {milestone.project.name}
+            </span>
+          </div>
+        </div>
+        <Badge variant="secondary" className={`text-xs ${MILESTONE_STATUS_CONFIG[milestone.status].className}`}>
+          {MILESTONE_STATUS_CONFIG[milestone.status].label}
+        </Badge>
+      </div>
+      <Progress value={milestone.progress} className="mt-2 h-1.5" />
+      <p className="text-xs text-muted-foreground mt-1">
+        {milestone.completedTasks} of {milestone.totalTasks} tasks completed
+      </p>
+    </div>
+  );
+
   const TaskItem = ({ task }: { task: Task }) => {
-    const StatusIcon = statusIcons[task.status];
+    const StatusIcon = categoryIcons[task.statusCategory];
     
     return (
-      <div className={`p-2 rounded-md border-l-4 mb-2 ${priorityColors[task.priority]}`}>
+      <div
+        className={`p-2 rounded-md border-l-4 mb-2 ${priorityColors[task.priority]} ${task.isVirtual ? 'border-dashed opacity-60' : ''}`}
+      >
         <div className="flex items-start justify-between gap-2">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-1">
-              <StatusIcon className="h-3 w-3" />
+              {task.isVirtual ? <Repeat className="h-3 w-3" /> : <StatusIcon className="h-3 w-3" />}
               <span className="font-medium text-sm truncate">{task.title}</span>
             </div>
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -230,9 +283,7 @@ export default function CalendarPage() {
             </div>
           </div>
           <div className="flex flex-col items-end gap-1">
-            <Badge className={statusColors[task.status]} variant="secondary">
-              {task.status.replace('_', ' ')}
-            </Badge>
+            <StatusBadge name={task.isVirtual ? "Upcoming" : task.statusName} color={task.statusColor} />
             {task.assignee && (
               <Avatar className="h-4 w-4">
                 <AvatarImage src={task.assignee.avatarUrl || ""} />
@@ -275,6 +326,7 @@ export default function CalendarPage() {
 
   const days = getDaysInMonth();
   const selectedDateTasks = getSelectedDateTasks();
+  const selectedDateMilestones = getSelectedDateMilestones();
 
   return (
     <div className="container mx-auto p-6">
@@ -349,7 +401,7 @@ export default function CalendarPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-blue-600">{calendarData.stats.tasksByStatus.IN_PROGRESS}</div>
+              <div className="text-2xl font-bold text-blue-600">{calendarData.stats.tasksByCategory.active}</div>
             </CardContent>
           </Card>
         </div>
@@ -386,7 +438,7 @@ export default function CalendarPage() {
               </div>
               
               <div className="grid grid-cols-7 gap-1">
-                {days.map(({ date, dateStr, isCurrentMonth, isToday, tasks, day }) => (
+                {days.map(({ date, dateStr, isCurrentMonth, isToday, tasks, milestones, day }) => (
                   <div
                     key={dateStr}
                     className={`
@@ -397,20 +449,29 @@ export default function CalendarPage() {
                     `}
                     onClick={() => setSelectedDate(dateStr)}
                   >
-                    <div className="text-sm font-medium mb-1">{day}</div>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium">{day}</span>
+                      {milestones.length > 0 && (
+                        <div className="flex items-center gap-1 pr-1">
+                          {milestones.slice(0, 3).map((milestone) => (
+                            <MilestoneMarker key={milestone.id} milestone={milestone} />
+                          ))}
+                        </div>
+                      )}
+                    </div>
                     <div className="space-y-1">
                       {tasks.slice(0, 2).map((task, index) => (
                         <div
                           key={task.id}
                           className={`
                             text-xs px-1 py-0.5 rounded truncate
-                            ${task.status === 'DONE' ? 'bg-green-100 text-green-800' :
-                              task.status === 'IN_PROGRESS' ? 'bg-blue-100 text-blue-800' :
-                              'bg-gray-100 text-gray-800'}
+                            ${task.isVirtual ? 'border border-dashed opacity-60' : ''}
+                            ${task.statusColor ? '' : 'bg-gray-100 text-gray-800'}
                             ${task.priority === 'URGENT' ? 'ring-1 ring-red-500' :
                               task.priority === 'HIGH' ? 'ring-1 ring-orange-500' : ''}
                           `}
-                          title={task.title}
+                          style={task.statusColor ? { backgroundColor: `${task.statusColor}1a`, color: task.statusColor } : undefined}
+                          title={task.isVirtual ? `${task.title} (upcoming occurrence)` : task.title}
                         >
                           {task.title}
                         </div>
@@ -446,8 +507,11 @@ export default function CalendarPage() {
             </CardHeader>
             <CardContent>
               {selectedDate ? (
-                selectedDateTasks.length > 0 ? (
+                selectedDateTasks.length > 0 || selectedDateMilestones.length > 0 ? (
                   <div className="space-y-2">
+                    {selectedDateMilestones.map((milestone) => (
+                      <MilestoneItem key={milestone.id} milestone={milestone} />
+                    ))}
                     {selectedDateTasks.map((task) => (
                       <TaskItem key={task.id} task={task} />
                     ))}
@@ -158,6 +158,7 @@ export default function NotificationsPage() {
         return [
           ...getNotificationsByType('task_assigned'),
           ...getNotificationsByType('task_completed'),
+          ...getNotificationsByType('task_updated'),
           ...getNotificationsByType('task_comment'),
           ...getNotificationsByType('deadline_reminder')
         ];
@@ -245,6 +246,7 @@ export default function NotificationsPage() {
             <div className="text-2xl font-bold">
               {(stats.byType.task_assigned || 0) + 
                (stats.byType.task_completed || 0) + 
+               (stats.byType.task_updated || 0) + 
                (stats.byType.task_comment || 0) + 
                (stats.byType.deadline_reminder || 0)}
             </div>
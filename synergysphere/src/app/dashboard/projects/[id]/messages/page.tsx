@@ -28,35 +28,17 @@ export default function ProjectMessagesPage() {
 
   const {
     setMessages,
-    addMessage,
-    updateMessage,
-    removeMessage,
     handleRealTimeMessage,
     handleRealTimeMessageUpdate,
     handleRealTimeMessageDelete
   } = useMessageStore();
 
   // Setup WebSocket connection for real-time updates
-  const {
-    emitTaskUpdate,
-    emitTaskCreate,
-    emitTaskDelete,
-    emitTaskMove
-  } = useSocket({
+  useSocket({
     projectId,
-    onTaskUpdate: (task) => {
-      // Handle task-related real-time updates if needed
-      console.log('Task updated:', task);
-    },
-    onTaskCreate: (task) => {
-      console.log('Task created:', task);
-    },
-    onTaskDelete: (taskId) => {
-      console.log('Task deleted:', taskId);
-    },
-    onTaskMove: (taskId, newStatus) => {
-      console.log('Task moved:', taskId, newStatus);
-    }
+    onMessageCreate: handleRealTimeMessage,
+    onMessageUpdate: handleRealTimeMessageUpdate,
+    onMessageDelete: handleRealTimeMessageDelete,
   });
 
   useEffect(() => {
@@ -80,6 +80,7 @@ export default function ProjectDetailPage() {
         project={data.project}
         members={data.members}
         recentActivity={data.recentActivity}
+        milestones={data.milestones}
         currentUserRole={currentUserRole}
         onEdit={() => {
           // Handle edit functionality
@@ -13,6 +13,14 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { WorkflowSettings } from "@/components/projects/workflow-settings";
+import { LabelSettings } from "@/components/projects/label-settings";
+import { CustomFieldSettings } from "@/components/projects/custom-field-settings";
+import { ProjectTemplateSettings } from "@/components/projects/project-template-settings";
+import { ESTIMATION_UNITS } from "@/lib/estimates";
+import { WIP_LIMIT_MODES } from "@/lib/workflow";
+import { EstimationUnit } from "@/types/analytics";
+import { WipLimitMode } from "@/types/workflow";
 import { 
   Settings, 
   Users, 
@@ -24,7 +32,10 @@ import {
   Plus,
   X,
   Crown,
-  UserCog
+  UserCog,
+  Columns3,
+  Tags,
+  ListPlus
 } from "lucide-react";
 
 interface Project {
@@ -33,6 +44,9 @@ interface Project {
   description: string;
   color: string;
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED';
+  estimationUnit: EstimationUnit;
+  wipLimitMode: WipLimitMode;
+  key: string | null;
   ownerId: string;
 }
 
@@ -64,6 +78,9 @@ export default function ProjectSettingsPage({
     description: "",
     color: "#3b82f6",
     status: "ACTIVE" as const,
+    estimationUnit: "points" as EstimationUnit,
+    wipLimitMode: "soft" as WipLimitMode,
+    key: "",
   });
 
   useEffect(() => {
@@ -75,13 +92,16 @@ export default function ProjectSettingsPage({
     try {
       const response = await fetch(`/api/projects/${id}`);
       if (response.ok) {
-        const data = await response.json();
+        const { project: data } = await response.json();
         setProject(data);
         setProjectData({
           name: data.name,
           description: data.description || "",
           color: data.color || "#3b82f6",
           status: data.status,
+          estimationUnit: data.estimationUnit,
+          wipLimitMode: data.wipLimitMode,
+          key: data.key || "",
         });
       }
     } catch (error) {
@@ -109,14 +129,16 @@ export default function ProjectSettingsPage({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(projectData),
+        // Projects from before task keys have none until one is chosen
+        body: JSON.stringify({ ...projectData, key: projectData.key || undefined }),
       });
 
       if (response.ok) {
         setMessage({ type: 'success', text: 'Project settings updated successfully!' });
         fetchProject();
       } else {
-        setMessage({ type: 'error', text: 'Failed to update project settings.' });
+        const result = await response.json().catch(() => ({}));
+        setMessage({ type: 'error', text: result.details?.[0]?.message || result.error || 'Failed to update project settings.' });
       }
     } catch (error) {
       setMessage({ type: 'error', text: 'An error occurred while updating project settings.' });
@@ -290,7 +312,7 @@ export default function ProjectSettingsPage({
       )}
 
       <Tabs defaultValue="general" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="general" className="flex items-center gap-2">
             <Settings className="h-4 w-4" />
             General
@@ -299,6 +321,18 @@ export default function ProjectSettingsPage({
             <Users className="h-4 w-4" />
             Members
           </TabsTrigger>
+          <TabsTrigger value="workflow" className="flex items-center gap-2">
+            <Columns3 className="h-4 w-4" />
+            Workflow
+          </TabsTrigger>
+          <TabsTrigger value="labels" className="flex items-center gap-2">
+            <Tags className="h-4 w-4" />
+            Labels
+          </TabsTrigger>
+          <TabsTrigger value="fields" className="flex items-center gap-2">
+            <ListPlus className="h-4 w-4" />
+            Fields
+          </TabsTrigger>
           <TabsTrigger value="danger" className="flex items-center gap-2">
             <Shield className="h-4 w-4" />
             Danger Zone
@@ -369,12 +403,60 @@ export default function ProjectSettingsPage({
                 </select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="key">Task Key Prefix</Label>
+                <Input
+                  id="key"
+                  value={projectData.key}
+                  onChange={(e) => setProjectData({ ...projectData, key: e.target.value.toUpperCase() })}
+                  placeholder="e.g. WEB"
+                  maxLength={10}
+                  className="font-mono"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Tasks are numbered {projectData.key || "KEY"}-1, {projectData.key || "KEY"}-2, ... Changing the prefix breaks links that use the old one.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="estimationUnit">Task Estimates</Label>
+                <select
+                  id="estimationUnit"
+                  value={projectData.estimationUnit}
+                  onChange={(e) => setProjectData({ ...projectData, estimationUnit: e.target.value as EstimationUnit })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {ESTIMATION_UNITS.map((unit) => (
+                    <option key={unit.value} value={unit.value}>{unit.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="wipLimitMode">WIP Limits</Label>
+                <select
+                  id="wipLimitMode"
+                  value={projectData.wipLimitMode}
+                  onChange={(e) => setProjectData({ ...projectData, wipLimitMode: e.target.value as WipLimitMode })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {WIP_LIMIT_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+                <p className="text-sm text-muted-foreground">
+                  Set a limit for each column under Workflow.
+                </p>
+              </div>
+
               <Button onClick={handleProjectSave} disabled={loading}>
                 <Save className="h-4 w-4 mr-2" />
                 {loading ? 'Saving...' : 'Save Changes'}
               </Button>
             </CardContent>
           </Card>
+
+          <ProjectTemplateSettings projectId={id} projectName={project.name} />
         </TabsContent>
 
         <TabsContent value="members" className="space-y-6">
@@ -464,6 +546,18 @@ export default function ProjectSettingsPage({
           </Card>
         </TabsContent>
 
+        <TabsContent value="workflow" className="space-y-6">
+          <WorkflowSettings projectId={id} />
+        </TabsContent>
+
+        <TabsContent value="labels" className="space-y-6">
+          <LabelSettings projectId={id} />
+        </TabsContent>
+
+        <TabsContent value="fields" className="space-y-6">
+          <CustomFieldSettings projectId={id} />
+        </TabsContent>
+
         <TabsContent value="danger" className="space-y-6">
           <Card className="border-destructive">
             <CardHeader>
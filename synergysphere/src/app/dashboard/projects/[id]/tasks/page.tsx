@@ -1,18 +1,73 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
-import { useParams } from "next/navigation";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { toast } from "sonner";
 import { KanbanBoard } from "@/components/tasks/KanbanBoard";
 import { TaskFilters } from "@/components/tasks/TaskFilters";
 import { CreateTaskModal } from "@/components/tasks/CreateTaskModal";
 import { TaskModal } from "@/components/tasks/TaskModal";
+import { SprintBacklog } from "@/components/tasks/SprintBacklog";
+import { SavedViewsMenu } from "@/components/tasks/SavedViewsMenu";
+import { TASK_LIST_SORTS, TaskListView } from "@/components/tasks/TaskListView";
+import { TaskCalendarView } from "@/components/tasks/TaskCalendarView";
+import { BulkActionBar } from "@/components/tasks/BulkActionBar";
+import { TaskImportExportMenu } from "@/components/tasks/TaskImportExportMenu";
 import { Button } from "@/components/ui/button";
 import { PageLoader } from "@/components/ui/page-loader";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Plus } from "lucide-react";
-import { Task, useTaskStore } from "@/stores/taskStore";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChartGantt, Plus, Timer } from "lucide-react";
+import { Task, TaskFilters as TaskFiltersType, useTaskStore } from "@/stores/taskStore";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { useSocket } from "@/hooks/useSocket";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
 import { Breadcrumb, useBreadcrumbs } from "@/components/ui/breadcrumb";
+import { getActiveSprint } from "@/lib/sprints";
+import { SWIMLANE_OPTIONS, SwimlaneField, SwimlaneUpdate } from "@/lib/swimlanes";
+import { getTaskUrl } from "@/lib/taskKeys";
+import { describeWipLimitViolations, findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { BatchTaskResult, BulkTaskChanges } from "@/types/bulkTasks";
+import { CustomFieldValue } from "@/types/customFields";
+import { SavedViewConfig } from "@/types/savedViews";
+
+// A saved view's layout, the active sprint's tasks, or sprint planning
+type TasksView = "board" | "list" | "calendar" | "sprint" | "backlog";
+
+const DEFAULT_VIEW_CONFIG: SavedViewConfig = {
+  layout: "board",
+  filters: {},
+  sort: "position",
+  groupBy: "none",
+};
+
+// URL query names of the filters
+const FILTER_KEYS = ["status", "priority", "assignee", "labels", "q"];
+
+const filtersToQuery = (filters: TaskFiltersType): Record<string, string> => ({
+  ...(filters.status && { status: filters.status }),
+  ...(filters.priority && { priority: filters.priority }),
+  ...(filters.assigneeId && { assignee: filters.assigneeId }),
+  ...(filters.labelIds?.length && { labels: filters.labelIds.join(",") }),
+  ...(filters.search && { q: filters.search }),
+});
+
+const filtersFromQuery = (query: Record<string, string>): TaskFiltersType => ({
+  status: query.status || undefined,
+  priority: (query.priority as TaskFiltersType["priority"]) || undefined,
+  assigneeId: query.assignee || undefined,
+  labelIds: query.labels ? query.labels.split(",") : undefined,
+  search: query.q || undefined,
+});
 
 interface ProjectMember {
   id: string;
@@ -25,44 +80,126 @@ interface ProjectMember {
 export default function ProjectTasksPage() {
   const params = useParams();
   const projectId = params.id as string;
+  const searchParams = useSearchParams();
+  const router = useRouter();
   const { generateProjectBreadcrumbs } = useBreadcrumbs();
 
   const {
     tasks,
+    workflowStates,
+    labels,
+    sprints,
     filters,
     setTasks,
+    setWorkflowStates,
+    setEstimationUnit,
+    setProjectKey,
+    setWipLimitMode,
+    setLabels,
+    setCustomFields,
+    setSprints,
+    setMilestones,
     setFilters,
     clearFilters,
     addTask,
     updateTask,
     removeTask,
     moveTask,
+    batchUpdateTasks,
     getFilteredTasks,
     isLoading,
     error,
     setLoading,
     setError,
+    setRealTimeEnabled,
+    handleRealTimeTaskUpdate,
+    handleRealTimeTaskCreate,
+    handleRealTimeTaskDelete,
+    handleRealTimeTaskMove,
   } = useTaskStore();
 
+  // Apply task changes made by other project members as they happen
+  useSocket({
+    projectId,
+    onTaskUpdate: handleRealTimeTaskUpdate,
+    onTaskCreate: handleRealTimeTaskCreate,
+    onTaskDelete: handleRealTimeTaskDelete,
+    onTaskMove: handleRealTimeTaskMove,
+  });
+
+  useEffect(() => {
+    setRealTimeEnabled(true);
+    return () => setRealTimeEnabled(false);
+  }, [setRealTimeEnabled]);
+
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [createModalDefaultStatus, setCreateModalDefaultStatus] = useState<Task["status"]>("TODO");
+  const [createModalDefaultStatus, setCreateModalDefaultStatus] = useState<Task["status"]>();
   const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  // Projects' tasks can be moved or copied to
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [swimlane, setSwimlane] = useState<SwimlaneField | "none">("none");
   const [projectName, setProjectName] = useState<string>("Project");
+  const [view, setView] = useState<TasksView>("board");
+  const [sort, setSort] = useState(DEFAULT_VIEW_CONFIG.sort!);
+  const activeSprint = getActiveSprint(sprints);
+
+  const savedViews = useSavedViews({
+    projectId,
+    config: {
+      layout: view === "list" || view === "calendar" ? view : "board",
+      filters: filtersToQuery(filters),
+      sort,
+      groupBy: swimlane,
+    },
+    defaults: DEFAULT_VIEW_CONFIG,
+    filterKeys: FILTER_KEYS,
+    onApply: (config) => {
+      setView(config.layout);
+      setSort(config.sort || DEFAULT_VIEW_CONFIG.sort!);
+      setSwimlane((config.groupBy || "none") as SwimlaneField | "none");
+      clearFilters();
+      setFilters(filtersFromQuery(config.filters));
+    },
+  });
 
   // Filter tasks to only show current project's tasks
   const projectTasks = useMemo(() => {
     return getFilteredTasks().filter(task => task.projectId === projectId);
   }, [tasks, filters, projectId, getFilteredTasks]);
 
+  const selection = useTaskSelection(projectTasks.map(task => task.id));
+
+  // Read once tasks have loaded; the URL changing (e.g. with saved views) doesn't reload them
+  const searchParamsRef = useRef(searchParams);
   useEffect(() => {
-    loadTasks();
-    loadProjectMembers();
-    loadProjectInfo();
-  }, [projectId]);
+    searchParamsRef.current = searchParams;
+  });
+
+  const handleEditTask = useCallback((task: Task) => {
+    setEditingTask(task);
+    setIsEditModalOpen(true);
+  }, []);
+
+  // Links to a task that has since moved to another project open it there
+  const followMovedTask = useCallback(async (taskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch task: ${response.statusText}`);
+      }
+
+      const { task } = await response.json();
+      router.replace(task.projectId === projectId ? `/dashboard/projects/${projectId}/tasks` : getTaskUrl(task.projectId, task.id));
+    } catch (err) {
+      console.error('Failed to find linked task:', err);
+      // Don't show error for linked task - just stay on the board
+      router.replace(`/dashboard/projects/${projectId}/tasks`);
+    }
+  }, [projectId, router]);
 
-  const loadTasks = async () => {
+  const loadTasks = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -77,12 +214,23 @@ export default function ProjectTasksPage() {
       // Transform tasks with proper date parsing
       const transformedTasks = result.tasks.map((task: any) => ({
         ...task,
+        startDate: task.startDate ? new Date(task.startDate) : undefined,
         dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
         createdAt: new Date(task.createdAt),
         updatedAt: new Date(task.updatedAt),
       }));
       
       setTasks(transformedTasks);
+
+      // Open the task linked from a notification (?task=<id>)
+      const linkedTaskId = searchParamsRef.current.get('task');
+      const linkedTask = transformedTasks.find((task: Task) => task.id === linkedTaskId);
+      if (linkedTask) {
+        handleEditTask(linkedTask);
+        router.replace(`/dashboard/projects/${projectId}/tasks`);
+      } else if (linkedTaskId) {
+        followMovedTask(linkedTaskId);
+      }
     } catch (err) {
       console.error('Failed to load tasks:', err);
       const errorMessage = err instanceof Error ? err.message : "Failed to load tasks";
@@ -91,9 +239,84 @@ export default function ProjectTasksPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [projectId, router, setLoading, setError, setTasks, handleEditTask, followMovedTask]);
+
+  const loadWorkflowStates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow-states`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workflow states: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setWorkflowStates(result.states || []);
+    } catch (err) {
+      console.error('Failed to load workflow states:', err);
+      toast.error("Failed to load board columns");
+    }
+  }, [projectId, setWorkflowStates]);
+
+  const loadLabels = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labels`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch labels: ${response.statusText}`);
+      }
 
-  const loadProjectMembers = async () => {
+      const result = await response.json();
+      setLabels(result.labels || []);
+    } catch (err) {
+      console.error('Failed to load labels:', err);
+      // Don't show error for labels - tasks still show the labels they carry
+    }
+  }, [projectId, setLabels]);
+
+  const loadCustomFields = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/custom-fields`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch custom fields: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setCustomFields(result.fields || []);
+    } catch (err) {
+      console.error('Failed to load custom fields:', err);
+      // Don't show error for custom fields - the task form just leaves them out
+    }
+  }, [projectId, setCustomFields]);
+
+  const loadSprints = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sprints`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sprints: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setSprints(result.sprints || []);
+    } catch (err) {
+      console.error('Failed to load sprints:', err);
+      // Don't show error for sprints - the board still shows every task
+    }
+  }, [projectId, setSprints]);
+
+  const loadMilestones = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/milestones`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch milestones: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setMilestones(result.milestones || []);
+    } catch (err) {
+      console.error('Failed to load milestones:', err);
+      // Don't show error for milestones - the task form just leaves them out
+    }
+  }, [projectId, setMilestones]);
+
+  const loadProjectMembers = useCallback(async () => {
     try {
       const response = await fetch(`/api/projects/${projectId}/members`);
       if (!response.ok) {
@@ -106,22 +329,62 @@ export default function ProjectTasksPage() {
       console.error('Failed to load project members:', err);
       // Don't show error for members - just continue with empty array
     }
-  };
+  }, [projectId]);
 
-  const loadProjectInfo = async () => {
+  const loadProjectInfo = useCallback(async () => {
     try {
       const response = await fetch(`/api/projects/${projectId}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch project: ${response.statusText}`);
       }
       
-      const result = await response.json();
-      setProjectName(result.name || "Project");
+      const { project } = await response.json();
+      setProjectName(project?.name || "Project");
+      setEstimationUnit(project?.estimationUnit || "points");
+      setProjectKey(project?.key || null);
+      setWipLimitMode(project?.wipLimitMode || "soft");
     } catch (err) {
       console.error('Failed to load project info:', err);
       // Don't show error for project name - just continue with default
     }
-  };
+  }, [projectId, setEstimationUnit, setProjectKey, setWipLimitMode]);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const response = await fetch('/api/projects?limit=50');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch projects: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setProjects(result.projects || []);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+      // Don't show error for projects - tasks just can't be moved or copied elsewhere
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+    loadWorkflowStates();
+    loadLabels();
+    loadCustomFields();
+    loadSprints();
+    loadMilestones();
+    loadProjectMembers();
+    loadProjectInfo();
+    loadProjects();
+  }, [
+    loadTasks,
+    loadWorkflowStates,
+    loadLabels,
+    loadCustomFields,
+    loadSprints,
+    loadMilestones,
+    loadProjectMembers,
+    loadProjectInfo,
+    loadProjects,
+  ]);
 
   const handleCreateTask = async (taskData: {
     title: string;
@@ -129,14 +392,24 @@ export default function ProjectTasksPage() {
     assigneeId?: string;
     status: Task["status"];
     priority: Task["priority"];
+    startDate?: Date;
     dueDate?: Date;
+    recurrenceRule?: string | null;
+    estimate?: number | null;
+    milestoneId?: string | null;
+    labelIds?: string[];
+    customFields?: Record<string, CustomFieldValue | null>;
   }) => {
     try {
       // Handle "unassigned" value from UI
       const payload = {
         ...taskData,
         assigneeId: taskData.assigneeId === "unassigned" ? undefined : taskData.assigneeId,
+        startDate: taskData.startDate?.toISOString(),
         dueDate: taskData.dueDate?.toISOString(),
+        milestoneId: taskData.milestoneId || undefined,
+        // Tasks added from the sprint board join the sprint
+        sprintId: view === "sprint" ? activeSprint?.id : undefined,
       };
 
       const response = await fetch(`/api/projects/${projectId}/tasks`, {
@@ -153,6 +426,7 @@ export default function ProjectTasksPage() {
       const newTaskData = await response.json();
       const newTask: Task = {
         ...newTaskData,
+        startDate: newTaskData.startDate ? new Date(newTaskData.startDate) : undefined,
         dueDate: newTaskData.dueDate ? new Date(newTaskData.dueDate) : undefined,
         createdAt: new Date(newTaskData.createdAt),
         updatedAt: new Date(newTaskData.updatedAt),
@@ -168,9 +442,21 @@ export default function ProjectTasksPage() {
     }
   };
 
-  const handleEditTask = (task: Task) => {
-    setEditingTask(task);
-    setIsEditModalOpen(true);
+  // Completing a recurring task returns its next occurrence; the task:created event
+  // for it may already have added it to the board
+  const addNextOccurrence = (nextOccurrence?: Task | null) => {
+    if (!nextOccurrence || useTaskStore.getState().tasks.some(t => t.id === nextOccurrence.id)) {
+      return;
+    }
+
+    addTask({
+      ...nextOccurrence,
+      startDate: nextOccurrence.startDate ? new Date(nextOccurrence.startDate) : undefined,
+      dueDate: nextOccurrence.dueDate ? new Date(nextOccurrence.dueDate) : undefined,
+      createdAt: new Date(nextOccurrence.createdAt),
+      updatedAt: new Date(nextOccurrence.updatedAt),
+    });
+    toast.success("Next occurrence created");
   };
 
   const handleUpdateTask = async (taskData: {
@@ -179,7 +465,13 @@ export default function ProjectTasksPage() {
     assigneeId?: string;
     status: Task["status"];
     priority: Task["priority"];
+    startDate?: Date;
     dueDate?: Date;
+    recurrenceRule?: string | null;
+    estimate?: number | null;
+    milestoneId?: string | null;
+    labelIds?: string[];
+    customFields?: Record<string, CustomFieldValue | null>;
   }) => {
     if (!editingTask) return;
 
@@ -188,6 +480,7 @@ export default function ProjectTasksPage() {
       const payload = {
         ...taskData,
         assigneeId: taskData.assigneeId === "unassigned" ? undefined : taskData.assigneeId,
+        startDate: taskData.startDate?.toISOString() ?? null,
         dueDate: taskData.dueDate?.toISOString(),
       };
 
@@ -202,15 +495,20 @@ export default function ProjectTasksPage() {
         throw new Error(error.error || 'Failed to update task');
       }
 
-      const updatedTaskData = await response.json();
+      const { task: updatedTaskData, nextOccurrence, wipLimitWarnings } = await response.json();
       const updatedTask: Partial<Task> = {
         ...updatedTaskData,
+        startDate: updatedTaskData.startDate ? new Date(updatedTaskData.startDate) : undefined,
         dueDate: updatedTaskData.dueDate ? new Date(updatedTaskData.dueDate) : undefined,
         updatedAt: new Date(updatedTaskData.updatedAt),
       };
 
       updateTask(editingTask.id, updatedTask);
+      addNextOccurrence(nextOccurrence);
       toast.success("Task updated successfully");
+      if (wipLimitWarnings?.length > 0) {
+        toast.warning(describeWipLimitViolations(wipLimitWarnings));
+      }
       setIsEditModalOpen(false);
       setEditingTask(null);
     } catch (error) {
@@ -243,27 +541,203 @@ export default function ProjectTasksPage() {
     }
   };
 
-  const handleMoveTask = async (taskId: string, newStatus: Task["status"]) => {
+  const handleMoveTask = async (
+    taskId: string,
+    newStatus: Task["status"],
+    index: number,
+    laneUpdate?: SwimlaneUpdate,
+    override = false
+  ) => {
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const response = await fetch(`/api/tasks/${taskId}/move`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, index, override, ...laneUpdate }),
       });
 
+      // Open blockers: let the user decide whether to move the task anyway. A hard
+      // WIP limit can't be overridden.
+      if (response.status === 409) {
+        const { error, blockers, wipLimitViolations } = await response.json();
+        if (wipLimitViolations) {
+          toast.error(error);
+          return;
+        }
+        const titles = (blockers || []).map((blocker: { title: string }) => blocker.title).join(", ");
+        if (confirm(`This task is blocked by: ${titles}. Move it anyway?`)) {
+          await handleMoveTask(taskId, newStatus, index, laneUpdate, true);
+        }
+        return;
+      }
+
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to move task');
       }
       
-      moveTask(taskId, newStatus);
-      toast.success("Task moved successfully");
+      const { task, nextOccurrence, wipLimitWarnings } = await response.json();
+      moveTask(taskId, task.status, task.position);
+      if (laneUpdate) {
+        updateTask(taskId, {
+          assigneeId: task.assigneeId ?? undefined,
+          assignee: task.assignee ?? undefined,
+          priority: task.priority,
+        });
+      }
+      addNextOccurrence(nextOccurrence);
+      if (wipLimitWarnings?.length > 0) {
+        toast.warning(describeWipLimitViolations(wipLimitWarnings));
+      } else {
+        toast.success("Task moved successfully");
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to move task";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleBulkAction = async (changes: BulkTaskChanges, override = false) => {
+    const taskIds = selection.selectedIds;
+
+    try {
+      const response = await fetch('/api/tasks/batch', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ updates: taskIds.map(id => ({ id, ...changes })), override }),
+      });
+
+      // Same as moving a single task: blocked tasks can be changed anyway, hard WIP limits can't
+      if (response.status === 409) {
+        const { error, blockers, wipLimitViolations } = await response.json();
+        if (wipLimitViolations || !blockers) {
+          toast.error(error);
+          return;
+        }
+        if (confirm(`${error}. Change the tasks anyway?`)) {
+          await handleBulkAction(changes, true);
+        }
+        return;
+      }
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update tasks');
+      }
+
+      const { results, nextOccurrences, wipLimitWarnings } = await response.json();
+      const batchResults: BatchTaskResult<Task>[] = results;
+      batchUpdateTasks(batchResults.flatMap(({ id, action, task }) =>
+        action === 'updated' && task
+          ? [{
+              id,
+              updates: {
+                status: task.status,
+                position: task.position,
+                priority: task.priority,
+                assigneeId: task.assigneeId ?? undefined,
+                assignee: task.assignee ?? undefined,
+                startDate: task.startDate ? new Date(task.startDate) : undefined,
+                dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+                updatedAt: new Date(task.updatedAt),
+              },
+            }]
+          : []
+      ));
+      // Moved and deleted tasks leave the board
+      batchResults
+        .filter(result => result.action !== 'updated')
+        .forEach(result => result.action === 'moved' ? removeMovedTask(result.id) : removeTask(result.id));
+      nextOccurrences.forEach(addNextOccurrence);
+
+      const taskCount = `${taskIds.length} ${taskIds.length === 1 ? 'task' : 'tasks'}`;
+      toast.success(changes.delete ? `Deleted ${taskCount}` : changes.projectId ? `Moved ${taskCount}` : `Updated ${taskCount}`);
+      const unassignedCount = batchResults.filter(result => result.assigneeCleared).length;
+      if (unassignedCount > 0) {
+        toast.info(`${unassignedCount} moved ${unassignedCount === 1 ? 'task was' : 'tasks were'} unassigned; the assignee isn't a member of the new project`);
+      }
+      if (wipLimitWarnings?.length > 0) {
+        toast.warning(describeWipLimitViolations(wipLimitWarnings));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update tasks";
+      toast.error(errorMessage);
+    }
+  };
+
+  // Subtasks that stay in this project lose their parent when it moves away
+  const removeMovedTask = (taskId: string) => {
+    useTaskStore.getState().tasks
+      .filter(task => task.parentTaskId === taskId)
+      .forEach(task => updateTask(task.id, { parentTaskId: null }));
+    removeTask(taskId);
+  };
+
+  const handleTaskMoved = (task: Task) => {
+    setIsEditModalOpen(false);
+    setEditingTask(null);
+    removeMovedTask(task.id);
+  };
+
+  // A copy in this project may already have arrived through its task:created event
+  const handleTaskDuplicated = (task: Task) => {
+    if (task.projectId !== projectId || useTaskStore.getState().tasks.some(t => t.id === task.id)) {
+      return;
+    }
+
+    addTask({
+      ...task,
+      startDate: task.startDate ? new Date(task.startDate) : undefined,
+      dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+      createdAt: new Date(task.createdAt),
+      updatedAt: new Date(task.updatedAt),
+    });
+  };
+
+  // Tasks created from a template or an import. Subtasks are added before their parent, whose
+  // progress already counts them; tasks that arrived through their task:created events are skipped
+  const handleNewTasks = (newTasks: Task[]) => {
+    [...newTasks].reverse().forEach(task => {
+      if (useTaskStore.getState().tasks.some(t => t.id === task.id)) {
+        return;
+      }
+
+      addTask({
+        ...task,
+        startDate: task.startDate ? new Date(task.startDate) : undefined,
+        dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+        createdAt: new Date(task.createdAt),
+        updatedAt: new Date(task.updatedAt),
+      });
+    });
+  };
+
+  const handleMoveToSprint = async (task: Task, sprintId: string | null) => {
+    // Move right away; put the task back if the server refuses
+    updateTask(task.id, { sprintId });
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sprintId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to move task');
+      }
     } catch (error) {
+      updateTask(task.id, { sprintId: task.sprintId ?? null });
       const errorMessage = error instanceof Error ? error.message : "Failed to move task";
       toast.error(errorMessage);
     }
   };
 
+  const handleSprintTasksMoved = () => {
+    loadSprints();
+    loadTasks();
+  };
+
   const handleAddTaskToColumn = (status: Task["status"]) => {
     setCreateModalDefaultStatus(status);
     setIsCreateModalOpen(true);
@@ -305,10 +779,56 @@ export default function ProjectTasksPage() {
             Manage and track project tasks
           </p>
         </div>
-        <Button onClick={() => setIsCreateModalOpen(true)} className="text-sm sm:text-base px-3 sm:px-4">
-          <Plus className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
-          Add Task
-        </Button>
+        <div className="flex items-center gap-2">
+          <Tabs value={view} onValueChange={(value) => setView(value as TasksView)}>
+            <TabsList>
+              <TabsTrigger value="board">Board</TabsTrigger>
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+              <TabsTrigger value="sprint">Sprint</TabsTrigger>
+              <TabsTrigger value="backlog">Backlog</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {view === "list" && (
+            <Select value={sort} onValueChange={setSort}>
+              <SelectTrigger className="w-40" title="Sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TASK_LIST_SORTS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {(view === "board" || view === "sprint" || view === "list") && (
+            <Select value={swimlane} onValueChange={(value) => setSwimlane(value as SwimlaneField | "none")}>
+              <SelectTrigger className="w-36" title="Group by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SWIMLANE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <SavedViewsMenu savedViews={savedViews} canShare />
+          <Link href={`/dashboard/projects/${projectId}/timeline`}>
+            <Button variant="outline" size="icon" title="Timeline">
+              <ChartGantt className="h-4 w-4" />
+            </Button>
+          </Link>
+          <TaskImportExportMenu projectId={projectId} workflowStates={workflowStates} onImported={handleNewTasks} />
+          <Button onClick={() => setIsCreateModalOpen(true)} className="text-sm sm:text-base px-3 sm:px-4">
+            <Plus className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+            Add Task
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -316,17 +836,75 @@ export default function ProjectTasksPage() {
         filters={filters}
         onFiltersChange={setFilters}
         onClearFilters={clearFilters}
+        workflowStates={workflowStates}
+        labels={labels}
         projectMembers={projectMembers}
       />
 
-      {/* Kanban Board */}
-      <KanbanBoard
-        tasks={projectTasks}
-        onEditTask={handleEditTask}
-        onDeleteTask={handleDeleteTask}
-        onAddTask={handleAddTaskToColumn}
-        onMoveTask={handleMoveTask}
-      />
+      {view === "backlog" ? (
+        <SprintBacklog
+          projectId={projectId}
+          tasks={projectTasks}
+          sprints={sprints}
+          onSprintsChange={loadSprints}
+          onSprintTasksMoved={handleSprintTasksMoved}
+          onMoveToSprint={handleMoveToSprint}
+          onEditTask={handleEditTask}
+        />
+      ) : view === "list" ? (
+        <TaskListView
+          tasks={projectTasks}
+          workflowStates={workflowStates}
+          sort={sort}
+          groupBy={swimlane === "none" ? null : swimlane}
+          projectMembers={projectMembers}
+          selection={selection}
+          onOpenTask={handleEditTask}
+        />
+      ) : view === "calendar" ? (
+        <TaskCalendarView
+          tasks={projectTasks.map((task) => ({
+            id: task.id,
+            title: task.title,
+            dueDate: task.dueDate,
+            color: findWorkflowState(workflowStates, task.status)?.color,
+            isDone: isDoneStatus(workflowStates, task.status),
+            task,
+          }))}
+          onOpenTask={(item) => handleEditTask(item.task)}
+        />
+      ) : view === "sprint" && !activeSprint ? (
+        <EmptyState
+          icon={<Timer className="h-12 w-12" />}
+          title="No active sprint"
+          description="Plan a sprint in the backlog and start it to work from the sprint board."
+          action={{ label: "Go to Backlog", onClick: () => setView("backlog") }}
+        />
+      ) : (
+        /* Kanban Board */
+        <KanbanBoard
+          tasks={projectTasks}
+          workflowStates={workflowStates}
+          onEditTask={handleEditTask}
+          onDeleteTask={handleDeleteTask}
+          onAddTask={handleAddTaskToColumn}
+          onMoveTask={handleMoveTask}
+          sprint={view === "sprint" ? activeSprint : null}
+          swimlane={swimlane === "none" ? null : swimlane}
+          projectMembers={projectMembers}
+        />
+      )}
+
+      {view === "list" && (
+        <BulkActionBar
+          selectedCount={selection.selectedIds.length}
+          statusOptions={workflowStates.map((state) => ({ value: state.key, label: state.name }))}
+          assigneeOptions={projectMembers}
+          projects={projects.filter(project => project.id !== projectId)}
+          onApply={handleBulkAction}
+          onClear={selection.clear}
+        />
+      )}
 
       {/* Create Task Modal */}
       <CreateTaskModal
@@ -334,7 +912,10 @@ export default function ProjectTasksPage() {
         onClose={() => setIsCreateModalOpen(false)}
         onCreateTask={handleCreateTask}
         defaultStatus={createModalDefaultStatus}
+        workflowStates={workflowStates}
         projectMembers={projectMembers}
+        projectId={projectId}
+        onCreateFromTemplate={handleNewTasks}
       />
 
       {/* Edit Task Modal */}
@@ -347,7 +928,11 @@ export default function ProjectTasksPage() {
           }}
           onSubmit={handleUpdateTask}
           task={editingTask}
+          workflowStates={workflowStates}
           projectMembers={projectMembers}
+          projects={projects}
+          onTaskMoved={handleTaskMoved}
+          onTaskDuplicated={handleTaskDuplicated}
         />
       )}
     </div>
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { TaskTimeline, TimelineGroupBy } from "@/components/tasks/TaskTimeline";
+import { PageLoader } from "@/components/ui/page-loader";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Breadcrumb, useBreadcrumbs } from "@/components/ui/breadcrumb";
+import { Task } from "@/stores/taskStore";
+import { getTaskUrl } from "@/lib/taskKeys";
+import { TaskSpan } from "@/lib/timeline";
+import { WorkflowState } from "@/types/workflow";
+
+interface ProjectMember {
+  id: string;
+  name: string;
+}
+
+export default function ProjectTimelinePage() {
+  const params = useParams();
+  const projectId = params.id as string;
+  const router = useRouter();
+  const { generateProjectBreadcrumbs } = useBreadcrumbs();
+
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [workflowStates, setWorkflowStates] = useState<WorkflowState[]>([]);
+  const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const [projectName, setProjectName] = useState("Project");
+  const [projectKey, setProjectKey] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<TimelineGroupBy>("assignee");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/tasks`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tasks: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setTasks(result.tasks.map((task: Task) => ({
+        ...task,
+        startDate: task.startDate ? new Date(task.startDate) : undefined,
+        dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+        createdAt: new Date(task.createdAt),
+        updatedAt: new Date(task.updatedAt),
+      })));
+    } catch (err) {
+      console.error('Failed to load tasks:', err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load tasks";
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const loadWorkflowStates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow-states`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workflow states: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setWorkflowStates(result.states || []);
+    } catch (err) {
+      console.error('Failed to load workflow states:', err);
+      // Don't show error for workflow states - bars just use the default color
+    }
+  }, [projectId]);
+
+  const loadProjectMembers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch members: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setProjectMembers(result.members || []);
+    } catch (err) {
+      console.error('Failed to load project members:', err);
+      // Don't show error for members - tasks still carry their assignee's name
+    }
+  }, [projectId]);
+
+  const loadProjectInfo = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch project: ${response.statusText}`);
+      }
+
+      const { project } = await response.json();
+      setProjectName(project?.name || "Project");
+      setProjectKey(project?.key || null);
+    } catch (err) {
+      console.error('Failed to load project info:', err);
+      // Don't show error for project name - just continue with default
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTasks();
+    loadWorkflowStates();
+    loadProjectMembers();
+    loadProjectInfo();
+  }, [loadTasks, loadWorkflowStates, loadProjectMembers, loadProjectInfo]);
+
+  // Moves the bar right away and puts it back if the change can't be saved
+  const handleReschedule = async (task: Task, span: TaskSpan) => {
+    const previous = { startDate: task.startDate, dueDate: task.dueDate };
+    const applyDates = (dates: Pick<Task, "startDate" | "dueDate">) =>
+      setTasks((current) => current.map((t) => (t.id === task.id ? { ...t, ...dates } : t)));
+
+    applyDates({ startDate: span.start, dueDate: span.end });
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate: span.start.toISOString(),
+          dueDate: span.end.toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reschedule task');
+      }
+    } catch (err) {
+      applyDates(previous);
+      const errorMessage = err instanceof Error ? err.message : "Failed to reschedule task";
+      toast.error(errorMessage);
+    }
+  };
+
+  if (isLoading) {
+    return <PageLoader message="Loading timeline..." />;
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+        <Button onClick={loadTasks} variant="outline">
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const breadcrumbItems = generateProjectBreadcrumbs(
+    projectId,
+    projectName,
+    "timeline"
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Breadcrumb items={breadcrumbItems} />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Timeline</h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Drag a bar to reschedule a task, or drag its edges to change how long it runs
+          </p>
+        </div>
+        <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as TimelineGroupBy)}>
+          <TabsList>
+            <TabsTrigger value="assignee">By Assignee</TabsTrigger>
+            <TabsTrigger value="status">By Status</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <TaskTimeline
+        tasks={tasks}
+        workflowStates={workflowStates}
+        groupBy={groupBy}
+        projectKey={projectKey}
+        projectMembers={projectMembers}
+        onReschedule={handleReschedule}
+        onOpenTask={(task) => router.push(getTaskUrl(projectId, task.id))}
+      />
+    </div>
+  );
+}
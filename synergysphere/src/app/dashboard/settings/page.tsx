@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,6 +12,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { NotificationPreferences } from "@/types/notifications";
 import { 
   User, 
   Bell, 
@@ -37,10 +38,12 @@ export default function SettingsPage() {
   });
 
   // Notification settings
-  const [notificationSettings, setNotificationSettings] = useState({
+  const [notificationSettings, setNotificationSettings] = useState<NotificationPreferences>({
     emailNotifications: true,
     pushNotifications: true,
     taskAssignments: true,
+    taskUpdates: true,
+    taskComments: true,
     projectUpdates: true,
     deadlineReminders: true,
     teamInvitations: true,
@@ -55,6 +58,25 @@ export default function SettingsPage() {
     animationsEnabled: true,
   });
 
+  useEffect(() => {
+    const loadNotificationSettings = async () => {
+      try {
+        const response = await fetch('/api/user/notifications');
+        if (!response.ok) {
+          throw new Error(`Failed to fetch notification settings: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        setNotificationSettings(result.preferences);
+      } catch (error) {
+        console.error('Failed to load notification settings:', error);
+        // Don't show error for notification settings - just keep the defaults
+      }
+    };
+
+    loadNotificationSettings();
+  }, []);
+
   const handleProfileSave = async () => {
     setLoading(true);
     try {
@@ -326,6 +348,36 @@ export default function SettingsPage() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">Watched Tasks</p>
+                      <p className="text-sm text-muted-foreground">
+                        Status, due date and assignment changes on tasks you watch
+                      </p>
+                    </div>
+                    <Switch
+                      checked={notificationSettings.taskUpdates}
+                      onCheckedChange={(checked) =>
+                        setNotificationSettings({ ...notificationSettings, taskUpdates: checked })
+                      }
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">Task Comments</p>
+                      <p className="text-sm text-muted-foreground">
+                        New comments on tasks you watch
+                      </p>
+                    </div>
+                    <Switch
+                      checked={notificationSettings.taskComments}
+                      onCheckedChange={(checked) =>
+                        setNotificationSettings({ ...notificationSettings, taskComments: checked })
+                      }
+                    />
+                  </div>
+
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-medium">Project Updates</p>
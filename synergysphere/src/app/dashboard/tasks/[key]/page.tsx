@@ -0,0 +1,53 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { PageLoader } from "@/components/ui/page-loader";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+// Target of task key links (e.g. /dashboard/tasks/WEB-142): opens the task on its board
+export default function TaskKeyPage() {
+  const params = useParams();
+  const taskKey = params.key as string;
+  const router = useRouter();
+
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const openTask = async () => {
+      try {
+        setError(null);
+
+        const response = await fetch(`/api/tasks/by-key/${encodeURIComponent(taskKey)}`);
+
+        if (!response.ok) {
+          if (response.status === 404 || response.status === 400) {
+            throw new Error(`Task ${decodeURIComponent(taskKey)} not found`);
+          }
+          throw new Error(`Failed to fetch task: ${response.statusText}`);
+        }
+
+        const { task } = await response.json();
+        router.replace(task.url);
+      } catch (err) {
+        console.error('Failed to open task by key:', err);
+        const errorMessage = err instanceof Error ? err.message : "Failed to open task";
+        setError(errorMessage);
+      }
+    };
+
+    openTask();
+  }, [taskKey, router]);
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return <PageLoader message="Opening task..." />;
+}
@@ -1,7 +1,10 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -10,23 +13,43 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { toast } from "sonner";
 import { 
   CheckCircle2, 
   Clock, 
   Circle, 
   AlertTriangle, 
   Calendar,
-  Search,
   Filter,
   User,
   FolderOpen
 } from "lucide-react";
+import { BulkActionBar } from "@/components/tasks/BulkActionBar";
+import { SavedViewsMenu } from "@/components/tasks/SavedViewsMenu";
+import { StatusBadge } from "@/components/tasks/StatusBadge";
+import { TaskCalendarView } from "@/components/tasks/TaskCalendarView";
+import { TaskQueryInput } from "@/components/tasks/TaskQueryInput";
+import { TaskKeyText } from "@/components/tasks/TaskKeyText";
+import { compareCustomFieldValues, formatCustomFieldValue } from "@/lib/customFields";
+import { VIEW_LAYOUTS } from "@/lib/savedViews";
+import { formatTaskKey, getTaskUrl } from "@/lib/taskKeys";
+import { parseTaskQuery } from "@/lib/taskQuery";
+import { WORKFLOW_CATEGORIES, describeWipLimitViolations } from "@/lib/workflow";
+import { BulkTaskChanges } from "@/types/bulkTasks";
+import { CustomField, CustomFieldValues } from "@/types/customFields";
+import { TaskLabel } from "@/types/labels";
+import { SavedViewConfig, ViewLayout } from "@/types/savedViews";
+import { WorkflowCategory } from "@/types/workflow";
 
 interface Task {
   id: string;
   title: string;
   description: string | null;
-  status: 'TODO' | 'IN_PROGRESS' | 'DONE';
+  status: string;
+  statusName: string;
+  statusColor: string | null;
+  statusCategory: WorkflowCategory;
+  number: number | null;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   dueDate: string | null;
   createdAt: string;
@@ -47,16 +70,25 @@ interface Task {
     id: string;
     name: string;
     color: string | null;
+    key: string | null;
   };
+  labels: TaskLabel[];
+  customFields: CustomFieldValues;
+}
+
+interface ProjectSummary {
+  id: string;
+  name: string;
+}
+
+interface ProjectMember {
+  id: string;
+  name: string;
 }
 
 interface TasksResponse {
   tasks: Task[];
-  tasksByStatus: {
-    TODO: Task[];
-    IN_PROGRESS: Task[];
-    DONE: Task[];
-  };
+  tasksByCategory: Record<WorkflowCategory, Task[]>;
   summary: {
     total: number;
     todo: number;
@@ -67,18 +99,38 @@ interface TasksResponse {
   };
 }
 
-const statusIcons = {
-  TODO: Circle,
-  IN_PROGRESS: Clock,
-  DONE: CheckCircle2,
+const categoryIcons = {
+  todo: Circle,
+  active: Clock,
+  done: CheckCircle2,
 };
 
-const statusColors = {
-  TODO: "bg-gray-100 text-gray-800",
-  IN_PROGRESS: "bg-blue-100 text-blue-800",
-  DONE: "bg-green-100 text-green-800",
+const priorityOrder = { LOW: 0, MEDIUM: 1, HIGH: 2, URGENT: 3 };
+
+// Custom field sorts use "field:<fieldId>"
+const builtInSorts = [
+  { value: "default", label: "Default order" },
+  { value: "dueDate", label: "Due date" },
+  { value: "priority", label: "Priority" },
+  { value: "updatedAt", label: "Recently updated" },
+];
+
+const groupings = [
+  { value: "none", label: "No grouping" },
+  { value: "project", label: "By project" },
+  { value: "priority", label: "By priority" },
+];
+
+const DEFAULT_VIEW_CONFIG: SavedViewConfig = {
+  layout: "list",
+  filters: {},
+  sort: "default",
+  groupBy: "none",
 };
 
+// URL query names of the filters
+const FILTER_KEYS = ["category", "priority", "assignee", "project", "q"];
+
 const priorityColors = {
   LOW: "bg-green-100 text-green-800",
   MEDIUM: "bg-yellow-100 text-yellow-800",
@@ -92,23 +144,118 @@ export default function TasksPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const [projectFilter, setProjectFilter] = useState<string>("all");
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  // Custom fields of the selected project; they differ per project, so they're only offered for one
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const [fieldFilter, setFieldFilter] = useState<{ fieldId: string; value: string }>({ fieldId: "none", value: "" });
+  const [sortBy, setSortBy] = useState("default");
+  const [groupBy, setGroupBy] = useState("none");
+  const [layout, setLayout] = useState<ViewLayout>("list");
+  const router = useRouter();
+
+  const savedViews = useSavedViews({
+    projectId: null,
+    config: {
+      layout,
+      filters: {
+        ...(categoryFilter !== "all" && { category: categoryFilter }),
+        ...(priorityFilter !== "all" && { priority: priorityFilter }),
+        ...(assigneeFilter !== "all" && { assignee: assigneeFilter }),
+        ...(projectFilter !== "all" && { project: projectFilter }),
+        ...(searchTerm && { q: searchTerm }),
+      },
+      sort: sortBy,
+      groupBy,
+    },
+    defaults: DEFAULT_VIEW_CONFIG,
+    filterKeys: FILTER_KEYS,
+    onApply: (config) => {
+      setLayout(config.layout);
+      setCategoryFilter(config.filters.category || "all");
+      setPriorityFilter(config.filters.priority || "all");
+      setAssigneeFilter(config.filters.assignee || "all");
+      setProjectFilter(config.filters.project || "all");
+      setSearchTerm(config.filters.q || "");
+      setSortBy(config.sort || DEFAULT_VIEW_CONFIG.sort!);
+      setGroupBy(config.groupBy || DEFAULT_VIEW_CONFIG.groupBy!);
+    },
+  });
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  useEffect(() => {
+    // The search box shows what's wrong with an invalid query, so only valid ones are sent;
+    // typing waits for a pause before fetching
+    if (parseTaskQuery(searchTerm).errors.length > 0) return;
+    const timeout = setTimeout(fetchTasks, searchTerm ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [categoryFilter, priorityFilter, assigneeFilter, projectFilter, searchTerm]);
 
   useEffect(() => {
-    fetchTasks();
-  }, [statusFilter, priorityFilter, assigneeFilter]);
+    setFieldFilter({ fieldId: "none", value: "" });
+    setSortBy((current) => (current.startsWith("field:") ? "default" : current));
+    setCustomFields([]);
+    setProjectMembers([]);
+    if (projectFilter !== "all") {
+      fetchProjectFields(projectFilter);
+    }
+  }, [projectFilter]);
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch("/api/projects?limit=50");
+      if (!response.ok) {
+        throw new Error("Failed to fetch projects");
+      }
+
+      const result = await response.json();
+      setProjects(result.projects || []);
+    } catch (err) {
+      console.error("Failed to fetch projects:", err);
+      // Don't show error for the project filter - just leave it empty
+    }
+  };
+
+  const fetchProjectFields = async (projectId: string) => {
+    try {
+      const [fieldsResponse, membersResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/custom-fields`),
+        fetch(`/api/projects/${projectId}/members`),
+      ]);
+      if (!fieldsResponse.ok || !membersResponse.ok) {
+        throw new Error("Failed to fetch custom fields");
+      }
+
+      const fieldsResult = await fieldsResponse.json();
+      const membersResult = await membersResponse.json();
+      setCustomFields(fieldsResult.fields || []);
+      setProjectMembers(membersResult.members || []);
+    } catch (err) {
+      console.error("Failed to fetch custom fields:", err);
+      // Don't show error for custom fields - just continue without field filters
+    }
+  };
 
   const fetchTasks = async () => {
     try {
-      setLoading(true);
+      // Refetches keep the page (and the search box's focus) in place
+      if (!tasks) setLoading(true);
       const params = new URLSearchParams();
       
-      if (statusFilter !== "all") params.append("status", statusFilter);
+      if (categoryFilter !== "all") params.append("category", categoryFilter);
       if (priorityFilter !== "all") params.append("priority", priorityFilter);
       if (assigneeFilter === "me") params.append("assignedToMe", "true");
       if (assigneeFilter === "created") params.append("createdByMe", "true");
+      if (assigneeFilter === "watching") params.append("watching", "true");
+      if (projectFilter !== "all") params.append("projectId", projectFilter);
+      if (searchTerm.trim()) params.append("q", searchTerm.trim());
 
       const response = await fetch(`/api/tasks?${params.toString()}`);
       if (!response.ok) {
@@ -124,11 +271,107 @@ export default function TasksPage() {
     }
   };
 
-  const filteredTasks = tasks?.tasks.filter(task =>
-    task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    task.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    task.project.name.toLowerCase().includes(searchTerm.toLowerCase())
-  ) || [];
+  const filteredField = customFields.find(field => field.id === fieldFilter.fieldId);
+
+  const matchesFieldFilter = (task: Task) => {
+    if (!filteredField || !fieldFilter.value) return true;
+    const value = task.customFields?.[filteredField.id];
+    if (value === undefined) return false;
+
+    return filteredField.type === "text"
+      ? String(value).toLowerCase().includes(fieldFilter.value.toLowerCase())
+      : String(value) === fieldFilter.value;
+  };
+
+  const compareTasks = (a: Task, b: Task) => {
+    if (sortBy.startsWith("field:")) {
+      const field = customFields.find(f => f.id === sortBy.slice("field:".length));
+      return field ? compareCustomFieldValues(field, a.customFields?.[field.id], b.customFields?.[field.id]) : 0;
+    }
+
+    switch (sortBy) {
+      case "dueDate":
+        if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+      case "priority":
+        return priorityOrder[b.priority] - priorityOrder[a.priority];
+      case "updatedAt":
+        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      default:
+        return 0;
+    }
+  };
+
+  // Custom field filters apply on top of the server-side filters and search
+  const getVisibleTasks = (list: Task[] = []) =>
+    list
+      .filter(matchesFieldFilter)
+      .sort(compareTasks);
+
+  // Autocomplete values for the search box, from the tasks loaded so far
+  const allTasks = tasks?.tasks || [];
+  const queryValues = {
+    assignee: [...new Set(allTasks.flatMap(task => (task.assignee ? [task.assignee.name] : [])))],
+    creator: [...new Set(allTasks.map(task => task.creator.name))],
+    status: [...new Set(allTasks.map(task => task.status))],
+    label: [...new Set(allTasks.flatMap(task => task.labels.map(label => label.name)))],
+    project: projects.map(project => project.name),
+  };
+
+  const filteredTasks = getVisibleTasks(tasks?.tasks);
+  const selection = useTaskSelection(filteredTasks.map(task => task.id));
+
+  // Statuses are set by category, since the selected tasks may come from projects with
+  // different workflows
+  const handleBulkAction = async (changes: BulkTaskChanges) => {
+    const taskIds = selection.selectedIds;
+
+    try {
+      const response = await fetch("/api/tasks/batch", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ updates: taskIds.map(id => ({ id, ...changes })) }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update tasks");
+      }
+
+      const taskCount = `${taskIds.length} ${taskIds.length === 1 ? "task" : "tasks"}`;
+      toast.success(changes.delete ? `Deleted ${taskCount}` : changes.projectId ? `Moved ${taskCount}` : `Updated ${taskCount}`);
+      if (result.wipLimitWarnings?.length > 0) {
+        toast.warning(describeWipLimitViolations(result.wipLimitWarnings));
+      }
+      await fetchTasks();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update tasks");
+    }
+  };
+
+  // "Me" plus the filtered project's members; other projects' members can't be offered for
+  // tasks from several projects
+  const bulkAssigneeOptions = [
+    ...(user ? [{ id: user.id, name: "Me" }] : []),
+    ...projectMembers.filter(member => member.id !== user?.id),
+  ];
+
+  // Sections of the list layout, in sort order within each
+  const groupTasks = (list: Task[]) => {
+    if (groupBy === "project") {
+      const projectIds = [...new Set(list.map(task => task.project.id))];
+      return projectIds.map(projectId => {
+        const projectTasks = list.filter(task => task.project.id === projectId);
+        return { id: projectId, label: projectTasks[0].project.name, tasks: projectTasks };
+      });
+    }
+    if (groupBy === "priority") {
+      return (["URGENT", "HIGH", "MEDIUM", "LOW"] as const)
+        .map(priority => ({ id: priority, label: priority, tasks: list.filter(task => task.priority === priority) }))
+        .filter(group => group.tasks.length > 0);
+    }
+    return [{ id: "all", label: "", tasks: list }];
+  };
 
   const formatDate = (dateString: string | null) => {
     if (!dateString) return null;
@@ -138,24 +381,35 @@ export default function TasksPage() {
   const isOverdue = (task: Task) => {
     return task.dueDate && 
            new Date(task.dueDate) < new Date() && 
-           task.status !== 'DONE';
+           task.statusCategory !== 'done';
   };
 
   const isDueSoon = (task: Task) => {
-    if (!task.dueDate || task.status === 'DONE') return false;
+    if (!task.dueDate || task.statusCategory === 'done') return false;
     const dueDate = new Date(task.dueDate);
     const today = new Date();
     const sevenDaysFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
     return dueDate >= today && dueDate <= sevenDaysFromNow;
   };
 
-  const TaskCard = ({ task }: { task: Task }) => {
-    const StatusIcon = statusIcons[task.status];
+  // `listOrder` is the display order of the list the card is in; it adds a checkbox for bulk actions
+  const TaskCard = ({ task, listOrder }: { task: Task; listOrder?: string[] }) => {
+    const StatusIcon = categoryIcons[task.statusCategory];
+    const taskKey = formatTaskKey(task.project.key, task.number);
     
     return (
-      <Card className="mb-4 hover:shadow-md transition-shadow">
+      <Card className={`mb-4 hover:shadow-md transition-shadow ${selection.isSelected(task.id) ? "ring-2 ring-primary" : ""}`}>
         <CardContent className="p-4">
           <div className="flex items-start justify-between gap-4">
+            {listOrder && (
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 shrink-0"
+                aria-label={`Select ${task.title}`}
+                checked={selection.isSelected(task.id)}
+                onChange={(e) => selection.toggle(task.id, (e.nativeEvent as MouseEvent).shiftKey ? listOrder : undefined)}
+              />
+            )}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2 mb-2">
                 <StatusIcon className="h-4 w-4" />
@@ -176,7 +430,7 @@ export default function TasksPage() {
               
               {task.description && (
                 <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                  {task.description}
+                  <TaskKeyText text={task.description} />
                 </p>
               )}
               
@@ -185,6 +439,7 @@ export default function TasksPage() {
                 <span style={{ color: task.project.color || undefined }}>
                   {task.project.name}
                 </span>
+                {taskKey && <span className="font-mono">{taskKey}</span>}
                 {task.dueDate && (
                   <>
                     <Calendar className="h-3 w-3 ml-2" />
@@ -192,13 +447,26 @@ export default function TasksPage() {
                   </>
                 )}
               </div>
+
+              {customFields.some(field => task.customFields?.[field.id] !== undefined) && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs text-muted-foreground">
+                  {customFields
+                    .filter(field => task.customFields?.[field.id] !== undefined)
+                    .map(field => (
+                      <span key={field.id}>
+                        {field.name}:{" "}
+                        <span className="text-foreground">
+                          {formatCustomFieldValue(field, task.customFields[field.id], projectMembers)}
+                        </span>
+                      </span>
+                    ))}
+                </div>
+              )}
             </div>
             
             <div className="flex flex-col items-end gap-2">
               <div className="flex gap-2">
-                <Badge className={statusColors[task.status]} variant="secondary">
-                  {task.status.replace('_', ' ')}
-                </Badge>
+                <StatusBadge name={task.statusName} color={task.statusColor} />
                 <Badge className={priorityColors[task.priority]} variant="secondary">
                   {task.priority}
                 </Badge>
@@ -222,6 +490,38 @@ export default function TasksPage() {
     );
   };
 
+  const renderTaskList = (list: Task[], emptyMessage: string) => {
+    if (list.length === 0) {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            {emptyMessage}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const groups = groupTasks(list);
+    const listOrder = groups.flatMap(group => group.tasks.map(task => task.id));
+
+    return (
+      <div className="space-y-6">
+        {groups.map((group) => (
+          <div key={group.id}>
+            {groupBy !== "none" && (
+              <h3 className="mb-2 text-sm font-medium">
+                {group.label} <span className="text-xs text-muted-foreground">{group.tasks.length}</span>
+              </h3>
+            )}
+            {group.tasks.map((task) => (
+              <TaskCard key={task.id} task={task} listOrder={listOrder} />
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto p-6">
@@ -251,7 +551,19 @@ export default function TasksPage() {
     <div className="container mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">All Tasks</h1>
-        <Button onClick={fetchTasks}>Refresh</Button>
+        <div className="flex items-center gap-2">
+          <Tabs value={layout} onValueChange={(value) => setLayout(value as ViewLayout)}>
+            <TabsList>
+              {VIEW_LAYOUTS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value}>
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <SavedViewsMenu savedViews={savedViews} canShare={false} />
+          <Button onClick={fetchTasks}>Refresh</Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -311,26 +623,20 @@ export default function TasksPage() {
       {/* Filters */}
       <div className="flex flex-wrap gap-4 mb-6">
         <div className="flex-1 min-w-[200px]">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search tasks..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
-          </div>
+          <TaskQueryInput value={searchTerm} onChange={setSearchTerm} values={queryValues} />
         </div>
         
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
           <SelectTrigger className="w-[150px]">
             <SelectValue placeholder="Status" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="TODO">To Do</SelectItem>
-            <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
-            <SelectItem value="DONE">Done</SelectItem>
+            {WORKFLOW_CATEGORIES.map((category) => (
+              <SelectItem key={category.value} value={category.value}>
+                {category.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
         
@@ -355,59 +661,175 @@ export default function TasksPage() {
             <SelectItem value="all">All Tasks</SelectItem>
             <SelectItem value="me">Assigned to Me</SelectItem>
             <SelectItem value="created">Created by Me</SelectItem>
+            <SelectItem value="watching">Watching</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={projectFilter} onValueChange={setProjectFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {customFields.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select
+              value={fieldFilter.fieldId}
+              onValueChange={(fieldId) => setFieldFilter({ fieldId, value: "" })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Custom field" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any field value</SelectItem>
+                {customFields.map((field) => (
+                  <SelectItem key={field.id} value={field.id}>
+                    {field.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {filteredField && (filteredField.type === "select" || filteredField.type === "user" ? (
+              <Select
+                value={fieldFilter.value || "any"}
+                onValueChange={(value) => setFieldFilter((current) => ({ ...current, value: value === "any" ? "" : value }))}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {(filteredField.type === "select"
+                    ? filteredField.options.map((option) => ({ value: option, label: option }))
+                    : projectMembers.map((member) => ({ value: member.id, label: member.name }))
+                  ).map((choice) => (
+                    <SelectItem key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={filteredField.type === "date" ? "date" : filteredField.type === "number" ? "number" : "text"}
+                placeholder={filteredField.type === "text" ? "Contains..." : "Equals..."}
+                value={fieldFilter.value}
+                onChange={(e) => setFieldFilter((current) => ({ ...current, value: e.target.value }))}
+                className="w-[160px]"
+              />
+            ))}
+          </div>
+        )}
+
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-[170px]">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {builtInSorts.map((sort) => (
+              <SelectItem key={sort.value} value={sort.value}>
+                {sort.label}
+              </SelectItem>
+            ))}
+            {customFields.map((field) => (
+              <SelectItem key={field.id} value={`field:${field.id}`}>
+                {field.name}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
+
+        {layout === "list" && (
+          <Select value={groupBy} onValueChange={setGroupBy}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Group by" />
+            </SelectTrigger>
+            <SelectContent>
+              {groupings.map((grouping) => (
+                <SelectItem key={grouping.value} value={grouping.value}>
+                  {grouping.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Tasks */}
-      <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="all">All ({filteredTasks.length})</TabsTrigger>
-          <TabsTrigger value="TODO">To Do ({tasks?.tasksByStatus.TODO.length || 0})</TabsTrigger>
-          <TabsTrigger value="IN_PROGRESS">In Progress ({tasks?.tasksByStatus.IN_PROGRESS.length || 0})</TabsTrigger>
-          <TabsTrigger value="DONE">Done ({tasks?.tasksByStatus.DONE.length || 0})</TabsTrigger>
-        </TabsList>
-        
-        <TabsContent value="all" className="mt-4">
-          {filteredTasks.length === 0 ? (
-            <Card>
-              <CardContent className="p-6 text-center text-muted-foreground">
-                No tasks found matching your criteria.
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-4">
-              {filteredTasks.map((task) => (
-                <TaskCard key={task.id} task={task} />
-              ))}
-            </div>
-          )}
-        </TabsContent>
-        
-        {['TODO', 'IN_PROGRESS', 'DONE'].map((status) => (
-          <TabsContent key={status} value={status} className="mt-4">
-            {tasks?.tasksByStatus[status as keyof typeof tasks.tasksByStatus].length === 0 ? (
-              <Card>
-                <CardContent className="p-6 text-center text-muted-foreground">
-                  No {status.replace('_', ' ').toLowerCase()} tasks found.
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="space-y-4">
-                {tasks?.tasksByStatus[status as keyof typeof tasks.tasksByStatus]
-                  .filter(task =>
-                    task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                    task.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                    task.project.name.toLowerCase().includes(searchTerm.toLowerCase())
-                  )
-                  .map((task) => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-              </div>
-            )}
+      {layout === "list" ? (
+        <Tabs defaultValue="all" className="w-full">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="all">All ({filteredTasks.length})</TabsTrigger>
+            {WORKFLOW_CATEGORIES.map((category) => (
+              <TabsTrigger key={category.value} value={category.value}>
+                {category.label} ({tasks?.tasksByCategory[category.value].length || 0})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          
+          <TabsContent value="all" className="mt-4">
+            {renderTaskList(filteredTasks, "No tasks found matching your criteria.")}
           </TabsContent>
-        ))}
-      </Tabs>
+          
+          {WORKFLOW_CATEGORIES.map((category) => (
+            <TabsContent key={category.value} value={category.value} className="mt-4">
+              {renderTaskList(
+                getVisibleTasks(tasks?.tasksByCategory[category.value]),
+                `No ${category.label.toLowerCase()} tasks found.`
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      ) : layout === "board" ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {WORKFLOW_CATEGORIES.map((category) => {
+            const columnTasks = getVisibleTasks(tasks?.tasksByCategory[category.value]);
+            return (
+              <div key={category.value} className="rounded-lg border bg-muted/30 p-3">
+                <div className="flex items-center justify-between mb-3 text-sm font-medium">
+                  {category.label}
+                  <Badge variant="secondary">{columnTasks.length}</Badge>
+                </div>
+                {columnTasks.map((task) => (
+                  <TaskCard key={task.id} task={task} />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <TaskCalendarView
+          tasks={filteredTasks.map((task) => ({
+            ...task,
+            color: task.statusColor,
+            isDone: task.statusCategory === "done",
+          }))}
+          onOpenTask={(task) => router.push(getTaskUrl(task.project.id, task.id))}
+        />
+      )}
+
+      {layout === "list" && (
+        <div className="mt-4">
+          <BulkActionBar
+            selectedCount={selection.selectedIds.length}
+            statusOptions={WORKFLOW_CATEGORIES}
+            statusField="statusCategory"
+            assigneeOptions={bulkAssigneeOptions}
+            projects={projects}
+            onApply={handleBulkAction}
+            onClear={selection.clear}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -6,6 +6,7 @@ import { TeamMemberList } from "@/components/team/team-member-list";
 import { PageLoader } from "@/components/ui/page-loader";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { format, subDays } from "date-fns";
 
 interface TeamMember {
   id: string;
@@ -28,6 +29,8 @@ export default function TeamPage() {
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Seconds tracked per member over the last 30 days, in projects shared with the current user
+  const [timeByMember, setTimeByMember] = useState<Record<string, number>>({});
 
   const fetchTeamMembers = async () => {
     try {
@@ -51,8 +54,29 @@ export default function TeamPage() {
     }
   };
 
+  const fetchTimeSummary = async () => {
+    try {
+      const from = format(subDays(new Date(), 30), "yyyy-MM-dd");
+      const response = await fetch(`/api/time-entries/summary?from=${from}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch time summary: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setTimeByMember(
+        Object.fromEntries(
+          result.summary.byUser.map((member: { id: string; seconds: number }) => [member.id, member.seconds])
+        )
+      );
+    } catch (err) {
+      console.error('Failed to fetch time summary:', err);
+      // Don't show error for tracked time - just show the members without it
+    }
+  };
+
   useEffect(() => {
     fetchTeamMembers();
+    fetchTimeSummary();
   }, []);
 
   if (isLoading) {
@@ -84,6 +108,7 @@ export default function TeamPage() {
     <TeamMemberList 
       members={members} 
       currentUserId={user?.id}
+      timeByMember={timeByMember}
       onMemberUpdate={fetchTeamMembers}
     />
   );
@@ -11,53 +11,44 @@ import {
   Users,
   Clock,
   Target,
-  BarChart3
+  BarChart3,
+  Timer
 } from "lucide-react";
-
-interface ProjectMetrics {
-  completionRate: number;
-  totalTasks: number;
-  completedTasks: number;
-  overdueTasks: number;
-  activeMembers: number;
-  avgTaskCompletionTime: number; // in days
-  velocityTrend: "up" | "down" | "stable";
-  productivityScore: number;
-  timeToDeadline: number; // in days
-}
-
-interface TeamProductivity {
-  memberId: string;
-  memberName: string;
-  tasksCompleted: number;
-  tasksAssigned: number;
-  completionRate: number;
-  avgCompletionTime: number;
-}
-
-interface TaskDistribution {
-  status: string;
-  count: number;
-  percentage: number;
-  color: string;
-}
+import { format, parseISO } from "date-fns";
+import { formatEstimate } from "@/lib/estimates";
+import { formatDuration } from "@/lib/timeTracking";
+import {
+  AnalyticsTimeRange,
+  EstimationUnit,
+  ProjectMetrics,
+  TaskDistribution,
+  TeamProductivity,
+  VelocityWeek,
+} from "@/types/analytics";
+import { TimeSummary } from "@/types/timeTracking";
 
 interface ProjectAnalyticsProps {
   projectId: string;
   projectName: string;
+  estimationUnit: EstimationUnit;
   metrics: ProjectMetrics;
+  velocityHistory: VelocityWeek[];
   teamProductivity: TeamProductivity[];
   taskDistribution: TaskDistribution[];
-  timeRange: "week" | "month" | "quarter";
+  timeRange: AnalyticsTimeRange;
+  timeSummary?: TimeSummary;
 }
 
 export function ProjectAnalytics({
   projectId,
   projectName,
+  estimationUnit,
   metrics,
+  velocityHistory,
   teamProductivity,
   taskDistribution,
-  timeRange
+  timeRange,
+  timeSummary
 }: ProjectAnalyticsProps) {
   const getVelocityIcon = () => {
     switch (metrics.velocityTrend) {
@@ -109,25 +100,27 @@ export function ProjectAnalytics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {metrics.avgTaskCompletionTime}d
+              {metrics.velocity > 0
+                ? `${formatEstimate(metrics.velocity, estimationUnit)}/wk`
+                : `${metrics.tasksPerWeek} tasks/wk`}
             </div>
             <p className="text-xs text-muted-foreground">
-              Average completion time
+              {metrics.avgTaskCompletionTime}d average completion time
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Productivity Score</CardTitle>
+            <CardTitle className="text-sm font-medium">On-time Rate</CardTitle>
             <BarChart3 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className={`text-2xl font-bold ${getProductivityColor(metrics.productivityScore)}`}>
-              {metrics.productivityScore}
+            <div className={`text-2xl font-bold ${getProductivityColor(metrics.onTimeRate)}`}>
+              {metrics.onTimeRate}%
             </div>
             <p className="text-xs text-muted-foreground">
-              Based on velocity & quality
+              Completed tasks finished by their due date
             </p>
           </CardContent>
         </Card>
@@ -138,19 +131,68 @@ export function ProjectAnalytics({
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className={`text-2xl font-bold ${
-              metrics.timeToDeadline < 7 ? "text-red-600" : 
-              metrics.timeToDeadline < 14 ? "text-yellow-600" : "text-green-600"
-            }`}>
-              {metrics.timeToDeadline}d
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {metrics.timeToDeadline < 0 ? "Overdue" : "Remaining"}
-            </p>
+            {metrics.timeToDeadline === null ? (
+              <>
+                <div className="text-2xl font-bold text-muted-foreground">-</div>
+                <p className="text-xs text-muted-foreground">No open tasks with due dates</p>
+              </>
+            ) : (
+              <>
+                <div className={`text-2xl font-bold ${
+                  metrics.timeToDeadline < 7 ? "text-red-600" :
+                  metrics.timeToDeadline < 14 ? "text-yellow-600" : "text-green-600"
+                }`}>
+                  {metrics.timeToDeadline}d
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {metrics.timeToDeadline < 0 ? "Overdue" : "Until the last due date"}
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {/* Velocity History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Calendar className="mr-2 h-5 w-5" />
+            Weekly Velocity
+          </CardTitle>
+          <CardDescription>
+            Tasks completed per week{metrics.velocity > 0 && `, with their estimates in ${estimationUnit}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-2 h-40">
+            {velocityHistory.map((week) => {
+              const value = metrics.velocity > 0 ? week.estimateCompleted : week.tasksCompleted;
+              const max = Math.max(
+                ...velocityHistory.map((w) => (metrics.velocity > 0 ? w.estimateCompleted : w.tasksCompleted)),
+                1
+              );
+
+              return (
+                <div key={week.weekStart} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                  <span className="text-xs text-muted-foreground">
+                    {metrics.velocity > 0 ? formatEstimate(week.estimateCompleted, estimationUnit) : week.tasksCompleted}
+                  </span>
+                  <div
+                    className="w-full rounded-t bg-primary/80"
+                    style={{ height: `${(value / max) * 100}%`, minHeight: value > 0 ? 4 : 0 }}
+                    title={`${week.tasksCompleted} tasks`}
+                  />
+                  <span className="text-xs text-muted-foreground">
+                    {format(parseISO(week.weekStart), "MMM d")}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Task Distribution */}
         <Card>
@@ -227,6 +269,52 @@ export function ProjectAnalytics({
         </Card>
       </div>
 
+      {/* Time Tracked */}
+      {timeSummary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Timer className="mr-2 h-5 w-5" />
+              Time Tracked
+            </CardTitle>
+            <CardDescription>
+              {formatDuration(timeSummary.totalSeconds)} logged in this period
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeSummary.totalSeconds === 0 ? (
+              <p className="text-sm text-muted-foreground">No time logged yet</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <p className="text-sm font-medium">By member</p>
+                  {timeSummary.byUser.map((member) => (
+                    <div key={member.id} className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>{member.name}</span>
+                        <span className="text-muted-foreground">{formatDuration(member.seconds)}</span>
+                      </div>
+                      <Progress value={(member.seconds / timeSummary.totalSeconds) * 100} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Top tasks</p>
+                  {timeSummary.byTask.slice(0, 5).map((task) => (
+                    <div key={task.id} className="flex items-center justify-between text-sm">
+                      <span className="truncate">{task.name}</span>
+                      <Badge variant="secondary" className="text-xs ml-2">
+                        {formatDuration(task.seconds)}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Insights Card */}
       <Card>
         <CardHeader>
@@ -261,19 +349,19 @@ export function ProjectAnalytics({
               </div>
             )}
             
-            {metrics.productivityScore >= 80 && (
+            {metrics.onTimeRate >= 80 && (
               <div className="flex items-start space-x-2">
                 <div className="w-2 h-2 rounded-full bg-green-500 mt-2" />
                 <div>
                   <p className="text-sm font-medium">High Performance</p>
                   <p className="text-xs text-muted-foreground">
-                    Team is performing excellently with {metrics.productivityScore} productivity score.
+                    Team is performing excellently with {metrics.onTimeRate}% of tasks completed on time.
                   </p>
                 </div>
               </div>
             )}
             
-            {metrics.timeToDeadline < 7 && metrics.completionRate < 90 && (
+            {metrics.timeToDeadline !== null && metrics.timeToDeadline < 7 && metrics.completionRate < 90 && (
               <div className="flex items-start space-x-2">
                 <div className="w-2 h-2 rounded-full bg-red-500 mt-2" />
                 <div>
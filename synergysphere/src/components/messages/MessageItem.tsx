@@ -24,6 +24,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Message } from "@/types/messages";
+import { useProjectKeys } from "@/hooks/useProjectKeys";
+import { getTaskKeyUrl, splitTaskKeys } from "@/lib/taskKeys";
 import { cn } from "@/lib/utils";
 
 interface MessageItemProps {
@@ -38,9 +40,18 @@ interface MessageItemProps {
   onReaction?: (messageId: string, emoji: string) => void;
 }
 
-const formatMessageContent = (content: string): string => {
+const formatMessageContent = (content: string, projectKeys: string[]): string => {
   // Handle @mentions with spaces (like "@John Smith")
-  return content.replace(/@([\w\s]+?)(?=\s[a-z]|$)/g, '<span class="text-blue-600 font-medium bg-blue-50 px-1 rounded">@$1</span>');
+  const withMentions = content.replace(/@([\w\s]+?)(?=\s[a-z]|$)/g, '<span class="text-blue-600 font-medium bg-blue-50 px-1 rounded">@$1</span>');
+
+  // Link task keys of the user's projects (like "WEB-142")
+  return splitTaskKeys(withMentions, projectKeys)
+    .map((segment) =>
+      typeof segment === 'string'
+        ? segment
+        : `<a href="${getTaskKeyUrl(segment.key)}" class="font-mono text-primary hover:underline">${segment.key}</a>`
+    )
+    .join('');
 };
 
 export function MessageItem({
@@ -57,6 +68,7 @@ export function MessageItem({
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [showReactions, setShowReactions] = useState(false);
+  const projectKeys = useProjectKeys();
 
   const isAuthor = currentUserId === message.authorId;
   const canEdit = isAuthor && !message.isEdited && !message.deletedAt;
@@ -228,7 +240,7 @@ export function MessageItem({
               <div
                 className="prose prose-sm max-w-none text-inherit"
                 dangerouslySetInnerHTML={{
-                  __html: formatMessageContent(message.content)
+                  __html: formatMessageContent(message.content, projectKeys)
                 }}
               />
             )}
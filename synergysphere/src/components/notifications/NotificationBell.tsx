@@ -11,6 +11,7 @@ import {
 import { Bell, BellRing } from "lucide-react";
 import { NotificationCenter } from "./NotificationCenter";
 import { useNotificationStore } from "@/stores/notificationStore";
+import { useSocket } from "@/hooks/useSocket";
 import { cn } from "@/lib/utils";
 
 interface NotificationBellProps {
@@ -38,9 +39,17 @@ export function NotificationBell({
     setLoading,
     setError,
     setNotifications,
-    setUnreadCount
+    setUnreadCount,
+    handleRealTimeNotification,
+    handleRealTimeNotificationUpdate
   } = useNotificationStore();
 
+  // Push new notifications as they are created; polling below remains the fallback
+  useSocket({
+    onNotificationCreate: handleRealTimeNotification,
+    onNotificationUpdate: handleRealTimeNotificationUpdate,
+  });
+
   // Fetch notifications on mount and periodically
   useEffect(() => {
     const fetchNotifications = async (silent = false) => {
@@ -47,6 +47,7 @@ const notificationTypeLabels: Record<NotificationType, string> = {
   reply: "Replies",
   task_assigned: "Task Assignments",
   task_completed: "Task Completions",
+  task_updated: "Watched Tasks",
   task_comment: "Task Comments",
   project_invite: "Project Invites",
   project_update: "Project Updates",
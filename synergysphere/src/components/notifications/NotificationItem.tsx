@@ -45,6 +45,7 @@ const notificationIcons: Record<NotificationType, React.ComponentType<{ classNam
   reply: MessageSquare,
   task_assigned: CheckSquare,
   task_completed: CheckSquare,
+  task_updated: Eye,
   task_comment: MessageSquare,
   project_invite: Users,
   project_update: TrendingUp,
@@ -56,6 +57,7 @@ const notificationColors: Record<NotificationType, string> = {
   reply: "text-green-600 bg-green-50",
   task_assigned: "text-orange-600 bg-orange-50",
   task_completed: "text-emerald-600 bg-emerald-50",
+  task_updated: "text-amber-600 bg-amber-50",
   task_comment: "text-purple-600 bg-purple-50",
   project_invite: "text-indigo-600 bg-indigo-50",
   project_update: "text-cyan-600 bg-cyan-50",
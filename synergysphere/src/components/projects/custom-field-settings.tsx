@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CUSTOM_FIELD_TYPES } from "@/lib/customFields";
+import { CustomField, CustomFieldType } from "@/types/customFields";
+
+interface CustomFieldSettingsProps {
+  projectId: string;
+}
+
+// "Low, Medium, High" -> ["Low", "Medium", "High"]
+const parseOptions = (value: string) =>
+  value.split(",").map((option) => option.trim()).filter(Boolean);
+
+export function CustomFieldSettings({ projectId }: CustomFieldSettingsProps) {
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newField, setNewField] = useState<{ name: string; type: CustomFieldType; options: string }>({
+    name: "",
+    type: "text",
+    options: "",
+  });
+
+  useEffect(() => {
+    const fetchFields = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/custom-fields`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch custom fields: ${response.statusText}`);
+        }
+        const result = await response.json();
+        setFields(result.fields || []);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to load custom fields";
+        toast.error(errorMessage);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFields();
+  }, [projectId]);
+
+  const handleAddField = async () => {
+    if (!newField.name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    const options = parseOptions(newField.options);
+    if (newField.type === "select" && options.length === 0) {
+      toast.error("Please enter the options, separated by commas");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/projects/${projectId}/custom-fields`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: newField.name,
+          type: newField.type,
+          options: newField.type === "select" ? options : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add field");
+      }
+
+      setFields((current) => [...current, result.field]);
+      setNewField((current) => ({ ...current, name: "", options: "" }));
+      toast.success("Custom field added");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to add field";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdateField = async (field: CustomField, updates: { name?: string; options?: string[] }) => {
+    if (updates.options && field.options.some((option) => !updates.options!.includes(option))) {
+      if (!confirm("Tasks set to a removed option will lose their value. Continue?")) {
+        return;
+      }
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/custom-fields/${field.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update field");
+      }
+
+      setFields((current) => current.map((f) => (f.id === field.id ? result.field : f)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update field";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleDeleteField = async (field: CustomField) => {
+    if (!confirm(`Delete the "${field.name}" field? Its values will be removed from every task.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/custom-fields/${field.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete field");
+      }
+
+      setFields((current) => current.filter((f) => f.id !== field.id));
+      toast.success("Custom field deleted");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete field";
+      toast.error(errorMessage);
+    }
+  };
+
+  const typeLabel = (type: CustomFieldType) =>
+    CUSTOM_FIELD_TYPES.find((fieldType) => fieldType.value === type)?.label || type;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Fields</CardTitle>
+        <CardDescription>
+          Track what matters to this project, like a customer name, environment or severity.
+          Fields appear on every task and can be filtered and sorted in the task list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading custom fields...</p>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {fields.map((field) => (
+              <div key={field.id} className="space-y-2 p-2 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Input
+                    key={field.name}
+                    defaultValue={field.name}
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== field.name) {
+                        handleUpdateField(field, { name });
+                      }
+                    }}
+                    className="flex-1"
+                  />
+                  <Badge variant="secondary" className="w-20 justify-center">
+                    {typeLabel(field.type)}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => handleDeleteField(field)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                {field.type === "select" && (
+                  <Input
+                    key={field.options.join(",")}
+                    defaultValue={field.options.join(", ")}
+                    placeholder="Options, separated by commas"
+                    onBlur={(e) => {
+                      const options = parseOptions(e.target.value);
+                      if (options.length === 0) {
+                        e.target.value = field.options.join(", ");
+                        toast.error("Select fields need at least one option");
+                        return;
+                      }
+                      if (options.join(",") !== field.options.join(",")) {
+                        handleUpdateField(field, { options });
+                      }
+                    }}
+                    className="text-sm"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Add field</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="e.g. Customer"
+              value={newField.name}
+              onChange={(e) => setNewField((current) => ({ ...current, name: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && handleAddField()}
+              className="flex-1"
+            />
+            <Select
+              value={newField.type}
+              onValueChange={(type: CustomFieldType) => setNewField((current) => ({ ...current, type }))}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map((fieldType) => (
+                  <SelectItem key={fieldType.value} value={fieldType.value}>
+                    {fieldType.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAddField} disabled={isSaving || !newField.name.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          {newField.type === "select" && (
+            <Input
+              placeholder="Options, separated by commas, e.g. Low, Medium, High"
+              value={newField.options}
+              onChange={(e) => setNewField((current) => ({ ...current, options: e.target.value }))}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { LabelChip } from "@/components/tasks/LabelChip";
+import { TaskLabel } from "@/types/labels";
+
+interface LabelSettingsProps {
+  projectId: string;
+}
+
+export function LabelSettings({ projectId }: LabelSettingsProps) {
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newLabel, setNewLabel] = useState({ name: "", color: "#0ea5e9" });
+
+  useEffect(() => {
+    const fetchLabels = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/labels`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch labels: ${response.statusText}`);
+        }
+        const result = await response.json();
+        setLabels(result.labels || []);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to load labels";
+        toast.error(errorMessage);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLabels();
+  }, [projectId]);
+
+  const sortByName = (items: TaskLabel[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleAddLabel = async () => {
+    if (!newLabel.name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/projects/${projectId}/labels`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(newLabel),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add label");
+      }
+
+      setLabels((current) => sortByName([...current, result.label]));
+      setNewLabel((current) => ({ ...current, name: "" }));
+      toast.success("Label added");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to add label";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdateLabel = async (label: TaskLabel, updates: Partial<Pick<TaskLabel, "name" | "color">>) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labels/${label.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update label");
+      }
+
+      setLabels((current) => sortByName(current.map((l) => (l.id === label.id ? result.label : l))));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update label";
+      toast.error(errorMessage);
+      setLabels((current) => current.map((l) => (l.id === label.id ? label : l)));
+    }
+  };
+
+  const handleDeleteLabel = async (label: TaskLabel) => {
+    if (!confirm(`Delete the "${label.name}" label? It will be removed from every task.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labels/${label.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete label");
+      }
+
+      setLabels((current) => current.filter((l) => l.id !== label.id));
+      toast.success("Label deleted");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete label";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Labels</CardTitle>
+        <CardDescription>
+          Tag tasks with labels like &quot;backend&quot; or &quot;bug&quot; instead of putting them in
+          titles. Tasks can carry several labels and the board can be filtered by them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading labels...</p>
+        ) : labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No labels yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {labels.map((label) => (
+              <div key={label.id} className="flex items-center gap-2 p-2 border rounded-lg">
+                <input
+                  type="color"
+                  value={label.color}
+                  onChange={(e) => {
+                    const color = e.target.value;
+                    setLabels((current) => current.map((l) => (l.id === label.id ? { ...l, color } : l)));
+                  }}
+                  onBlur={(e) => handleUpdateLabel(label, { color: e.target.value })}
+                  className="h-8 w-8 rounded border cursor-pointer flex-shrink-0"
+                  aria-label={`${label.name} color`}
+                />
+                <Input
+                  key={label.name}
+                  defaultValue={label.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== label.name) {
+                      handleUpdateLabel(label, { name });
+                    }
+                  }}
+                  className="flex-1"
+                />
+                <LabelChip name={label.name} color={label.color} className="hidden sm:inline-flex" />
+                <Button size="sm" variant="outline" onClick={() => handleDeleteLabel(label)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Add label</Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newLabel.color}
+              onChange={(e) => setNewLabel((current) => ({ ...current, color: e.target.value }))}
+              className="h-8 w-8 rounded border cursor-pointer flex-shrink-0"
+              aria-label="New label color"
+            />
+            <Input
+              placeholder="e.g. backend"
+              value={newLabel.name}
+              onChange={(e) => setNewLabel((current) => ({ ...current, name: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && handleAddLabel()}
+              className="flex-1"
+            />
+            <Button onClick={handleAddLabel} disabled={isSaving || !newLabel.name.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Milestone } from "@/types/milestones";
+
+interface MilestoneDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  // The milestone to edit; without one a new milestone is added
+  milestone?: Milestone | null;
+  onSaved: (milestone: Milestone) => void;
+}
+
+export function MilestoneDialog({ isOpen, onClose, projectId, milestone, onSaved }: MilestoneDialogProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [targetDate, setTargetDate] = useState<Date | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setTitle(milestone?.title || "");
+    setDescription(milestone?.description || "");
+    setTargetDate(milestone ? new Date(milestone.targetDate) : undefined);
+  }, [isOpen, milestone]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!title.trim() || !targetDate) {
+      toast.error("Please enter a title and target date");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        milestone
+          ? `/api/projects/${projectId}/milestones/${milestone.id}`
+          : `/api/projects/${projectId}/milestones`,
+        {
+          method: milestone ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title,
+            description: description.trim() || (milestone ? null : undefined),
+            targetDate: targetDate.toISOString(),
+          }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save milestone");
+      }
+
+      onSaved(result.milestone);
+      toast.success(milestone ? "Milestone updated" : "Milestone created");
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to save milestone";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{milestone ? "Edit Milestone" : "Add Milestone"}</DialogTitle>
+          <DialogDescription>
+            Assign tasks to the milestone from the task form to track its progress.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-title">Title</Label>
+            <Input
+              id="milestone-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Beta release"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="milestone-description">Description</Label>
+            <Textarea
+              id="milestone-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What marks this milestone as reached? (optional)"
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Target Date</Label>
+            <DatePicker date={targetDate} onDateChange={setTargetDate} placeholder="Select target date" />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {milestone ? "Save" : "Add Milestone"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,6 +11,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Plus, Save } from "lucide-react";
 import { toast } from "sonner";
+import { useTemplates } from "@/hooks/useTemplates";
+
+const BLANK_PROJECT = "blank";
 
 export type ProjectFormData = {
   name: string;
@@ -39,6 +43,11 @@ export function ProjectForm({
     status: initialData?.status || "ACTIVE",
     color: initialData?.color || "#3b82f6",
   });
+  const { templates } = useTemplates("project", !isEdit);
+  const [templateId, setTemplateId] = useState(BLANK_PROJECT);
+  // Day the template's task dates count from
+  const [startDate, setStartDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const template = templates.find((t) => t.id === templateId);
 
   const handleChange = (field: keyof ProjectFormData, value: string) => {
     setFormData(prev => ({
@@ -60,7 +69,7 @@ export function ProjectForm({
     setError(null);
 
     try {
-      const url = isEdit ? `/api/projects/${initialData?.id}` : "/api/projects";
+      const url = isEdit ? `/api/projects/${initialData?.id}` : template ? "/api/projects/from-template" : "/api/projects";
       const method = isEdit ? "PUT" : "POST";
 
       const response = await fetch(url, {
@@ -68,7 +77,18 @@ export function ProjectForm({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(
+          template
+            ? {
+                templateId: template.id,
+                name: formData.name,
+                // A blank description keeps the template's
+                description: formData.description || undefined,
+                color: formData.color,
+                startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+              }
+            : formData
+        ),
       });
 
       const result = await response.json();
@@ -109,6 +129,49 @@ export function ProjectForm({
             </Alert>
           )}
 
+          {/* Template */}
+          {!isEdit && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template">New from template</Label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={isLoading}>
+                <SelectTrigger id="template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BLANK_PROJECT}>Blank project</SelectItem>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name} ({t.taskCount} {t.taskCount === 1 ? "task" : "tasks"})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {template && (
+                <p className="text-sm text-muted-foreground">
+                  Copies the template&apos;s workflow, labels, custom fields, settings, members and tasks.
+                  Task assignees are filled by project role.
+                </p>
+              )}
+            </div>
+          )}
+
+          {template && (
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start Date</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+              <p className="text-sm text-muted-foreground">
+                Task dates are set relative to this day.
+              </p>
+            </div>
+          )}
+
           {/* Project Name */}
           <div className="space-y-2">
             <Label htmlFor="name">Project Name *</Label>
@@ -1,11 +1,18 @@
 "use client";
 
+import { useState } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
 import { ProjectMemberManager } from "@/components/projects/project-member-manager";
+import { MilestoneDialog } from "@/components/projects/milestone-dialog";
+import { MILESTONE_STATUS_CONFIG } from "@/lib/milestones";
+import { cn } from "@/lib/utils";
+import { Milestone } from "@/types/milestones";
+import { toast } from "sonner";
 import Link from "next/link";
 import { 
   Calendar, 
@@ -16,7 +23,11 @@ import {
   TrendingUp,
   Settings,
   Edit,
-  MessageSquare
+  MessageSquare,
+  Flag,
+  ChartGantt,
+  Plus,
+  Trash2
 } from "lucide-react";
 
 interface Project {
@@ -56,6 +67,7 @@ interface ProjectOverviewProps {
   project: Project;
   members: TeamMember[];
   recentActivity: RecentActivity[];
+  milestones?: Milestone[];
   onEdit?: () => void;
   currentUserRole?: string;
 }
@@ -70,9 +82,15 @@ export function ProjectOverview({
   project,
   members,
   recentActivity,
+  milestones: initialMilestones,
   onEdit,
   currentUserRole
 }: ProjectOverviewProps) {
+  // Kept locally so added and edited milestones show without refetching the project
+  const [milestones, setMilestones] = useState<Milestone[]>(initialMilestones || []);
+  const [isMilestoneDialogOpen, setIsMilestoneDialogOpen] = useState(false);
+  const [editingMilestone, setEditingMilestone] = useState<Milestone | null>(null);
+
   const completionRate = Math.round((project.completedTasks / project.totalTasks) * 100) || 0;
   const daysUntilDeadline = project.deadline 
     ? Math.ceil((new Date(project.deadline).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
@@ -80,6 +98,42 @@ export function ProjectOverview({
   
   const canManageMembers = currentUserRole === 'OWNER' || currentUserRole === 'ADMIN';
 
+  const openMilestoneDialog = (milestone: Milestone | null) => {
+    setEditingMilestone(milestone);
+    setIsMilestoneDialogOpen(true);
+  };
+
+  const handleMilestoneSaved = (saved: Milestone) => {
+    setMilestones((current) =>
+      [...current.filter((milestone) => milestone.id !== saved.id), saved].sort(
+        (a, b) => new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime()
+      )
+    );
+  };
+
+  const handleDeleteMilestone = async (milestone: Milestone) => {
+    if (!confirm(`Delete the milestone "${milestone.title}"? Its tasks are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/milestones/${milestone.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete milestone");
+      }
+
+      setMilestones((current) => current.filter((other) => other.id !== milestone.id));
+      toast.success("Milestone deleted");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete milestone";
+      toast.error(errorMessage);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Project Header */}
@@ -133,6 +187,12 @@ export function ProjectOverview({
               <span className="sm:hidden">Tasks</span>
             </Button>
           </Link>
+          <Link href={`/dashboard/projects/${project.id}/timeline`}>
+            <Button variant="outline" className="w-full sm:w-auto text-xs sm:text-sm px-2 sm:px-4">
+              <ChartGantt className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+              Timeline
+            </Button>
+          </Link>
           <Link href={`/dashboard/projects/${project.id}/messages`}>
             <Button variant="outline" className="w-full sm:w-auto text-xs sm:text-sm px-2 sm:px-4">
               <MessageSquare className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
@@ -280,6 +340,78 @@ export function ProjectOverview({
           canManage={canManageMembers}
         />
 
+        {/* Milestones */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center">
+                <Flag className="mr-2 h-5 w-5" />
+                Milestones
+              </CardTitle>
+              <CardDescription>
+                Progress of the tasks assigned to each milestone
+              </CardDescription>
+            </div>
+            {canManageMembers && (
+              <Button size="sm" variant="outline" onClick={() => openMilestoneDialog(null)}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {milestones.map((milestone) => (
+                <div key={milestone.id} className="group space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 flex-1">
+                      <button
+                        type="button"
+                        className="text-sm font-medium truncate text-left hover:underline disabled:no-underline"
+                        onClick={() => openMilestoneDialog(milestone)}
+                        disabled={!canManageMembers}
+                      >
+                        {milestone.title}
+                      </button>
+                      <p className="text-xs text-muted-foreground">
+                        Due {format(new Date(milestone.targetDate), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <Badge
+                      variant="secondary"
+                      className={cn("text-xs", MILESTONE_STATUS_CONFIG[milestone.status].className)}
+                    >
+                      {MILESTONE_STATUS_CONFIG[milestone.status].label}
+                    </Badge>
+                    {canManageMembers && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                        onClick={() => handleDeleteMilestone(milestone)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <Progress value={milestone.progress} />
+                  <p className="text-xs text-muted-foreground">
+                    {milestone.completedTasks} of {milestone.totalTasks} tasks completed
+                    {milestone.overdueTasks > 0 && (
+                      <span className="text-destructive"> · {milestone.overdueTasks} overdue</span>
+                    )}
+                  </p>
+                </div>
+              ))}
+              {milestones.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No milestones yet
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Recent Activity */}
         <Card>
           <CardHeader>
@@ -319,6 +451,14 @@ export function ProjectOverview({
           </CardContent>
         </Card>
       </div>
+
+      <MilestoneDialog
+        isOpen={isMilestoneDialogOpen}
+        onClose={() => setIsMilestoneDialogOpen(false)}
+        projectId={project.id}
+        milestone={editingMilestone}
+        onSaved={handleMilestoneSaved}
+      />
     </div>
   );
 }
\ No newline at end of file
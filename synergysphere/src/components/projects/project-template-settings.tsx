@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileStack, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useTemplates } from "@/hooks/useTemplates";
+import { Template } from "@/types/templates";
+
+interface ProjectTemplateSettingsProps {
+  projectId: string;
+  projectName: string;
+}
+
+export function ProjectTemplateSettings({ projectId, projectName }: ProjectTemplateSettingsProps) {
+  const { templates, isLoading, saveTemplate, deleteTemplate } = useTemplates("project");
+  const [name, setName] = useState(`${projectName} template`);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveTemplate({ kind: "project", name: name.trim(), projectId });
+      toast.success(`Saved "${name.trim()}" as a template`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save template";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: Template) => {
+    if (!confirm(`Delete the template "${template.name}"? Projects created from it are kept.`)) {
+      return;
+    }
+
+    try {
+      await deleteTemplate(template);
+      toast.success("Template deleted");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete template";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Templates</CardTitle>
+        <CardDescription>
+          Save this project&apos;s workflow, labels, custom fields, settings, members and tasks as a
+          template, then pick it under &quot;New from template&quot; when creating a project. Task dates
+          are kept relative to the project&apos;s start and assignees by their project role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="templateName" className="sr-only">Template name</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              maxLength={100}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            <FileStack className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save as Template"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Your project templates</h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No project templates yet.</p>
+          ) : (
+            templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between p-2 border rounded-lg">
+                <div>
+                  <p className="text-sm font-medium">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {template.taskCount} {template.taskCount === 1 ? "task" : "tasks"}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(template)}
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
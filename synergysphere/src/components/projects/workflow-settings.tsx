@@ -0,0 +1,337 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { WORKFLOW_CATEGORIES } from "@/lib/workflow";
+import { WorkflowCategory, WorkflowState } from "@/types/workflow";
+
+interface WorkflowSettingsProps {
+  projectId: string;
+}
+
+export function WorkflowSettings({ projectId }: WorkflowSettingsProps) {
+  const [states, setStates] = useState<WorkflowState[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newState, setNewState] = useState<{ name: string; color: string; category: WorkflowCategory }>({
+    name: "",
+    color: "#8b5cf6",
+    category: "active",
+  });
+  const [deletingState, setDeletingState] = useState<WorkflowState | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+
+  const fetchStates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow-states`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workflow states: ${response.statusText}`);
+      }
+      const result = await response.json();
+      setStates(result.states || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to load workflow states";
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchStates();
+  }, [fetchStates]);
+
+  const handleAddState = async () => {
+    if (!newState.name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/projects/${projectId}/workflow-states`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(newState),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add state");
+      }
+
+      setStates((current) => [...current, result.state]);
+      setNewState((current) => ({ ...current, name: "" }));
+      toast.success("Workflow state added");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to add state";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdateState = async (
+    stateId: string,
+    updates: Partial<Pick<WorkflowState, "name" | "color" | "category" | "wipLimit">>
+  ) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow-states/${stateId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update state");
+      }
+
+      setStates((current) => current.map((state) => (state.id === stateId ? result.state : state)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update state";
+      toast.error(errorMessage);
+      fetchStates();
+    }
+  };
+
+  const handleMoveState = async (index: number, direction: -1 | 1) => {
+    const reordered = [...states];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    setStates(reordered);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow-states`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order: reordered.map((state) => state.id) }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reorder states");
+      }
+
+      setStates(result.states);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to reorder states";
+      toast.error(errorMessage);
+      fetchStates();
+    }
+  };
+
+  const openDeleteDialog = (state: WorkflowState) => {
+    setDeletingState(state);
+    setMoveTo(states.find((s) => s.id !== state.id)?.key || "");
+  };
+
+  const handleDeleteState = async () => {
+    if (!deletingState) return;
+
+    try {
+      setIsSaving(true);
+      const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : "";
+      const response = await fetch(
+        `/api/projects/${projectId}/workflow-states/${deletingState.id}${query}`,
+        { method: "DELETE" }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete state");
+      }
+
+      setStates((current) => current.filter((state) => state.id !== deletingState.id));
+      setDeletingState(null);
+      toast.success(
+        result.movedTasks > 0
+          ? `Workflow state deleted; ${result.movedTasks} task(s) moved`
+          : "Workflow state deleted"
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete state";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workflow</CardTitle>
+        <CardDescription>
+          Configure the columns of this project&apos;s board. The category decides how a state
+          counts towards completion, filters and analytics; the WIP limit caps how many tasks a
+          column should hold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading workflow...</p>
+        ) : (
+          <div className="space-y-2">
+            {states.map((state, index) => (
+              <div key={state.id} className="flex items-center gap-2 p-2 border rounded-lg">
+                <input
+                  type="color"
+                  value={state.color}
+                  onChange={(e) => {
+                    const color = e.target.value;
+                    setStates((current) => current.map((s) => (s.id === state.id ? { ...s, color } : s)));
+                  }}
+                  onBlur={(e) => handleUpdateState(state.id, { color: e.target.value })}
+                  className="h-8 w-8 rounded border cursor-pointer flex-shrink-0"
+                  aria-label={`${state.name} color`}
+                />
+                <Input
+                  defaultValue={state.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== state.name) {
+                      handleUpdateState(state.id, { name });
+                    }
+                  }}
+                  className="flex-1"
+                />
+                <Select
+                  value={state.category}
+                  onValueChange={(category: WorkflowCategory) => handleUpdateState(state.id, { category })}
+                >
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  defaultValue={state.wipLimit ?? ""}
+                  placeholder="No limit"
+                  title="WIP limit: most tasks this column should hold"
+                  onBlur={(e) => {
+                    const wipLimit = e.target.value === "" ? null : parseInt(e.target.value, 10);
+                    if (wipLimit !== state.wipLimit) {
+                      handleUpdateState(state.id, { wipLimit });
+                    }
+                  }}
+                  className="w-[100px]"
+                  aria-label={`${state.name} WIP limit`}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={index === 0}
+                  onClick={() => handleMoveState(index, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={index === states.length - 1}
+                  onClick={() => handleMoveState(index, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={states.length === 1}
+                  onClick={() => openDeleteDialog(state)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Add state</Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newState.color}
+              onChange={(e) => setNewState((current) => ({ ...current, color: e.target.value }))}
+              className="h-8 w-8 rounded border cursor-pointer flex-shrink-0"
+              aria-label="New state color"
+            />
+            <Input
+              placeholder="e.g. In Review"
+              value={newState.name}
+              onChange={(e) => setNewState((current) => ({ ...current, name: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && handleAddState()}
+              className="flex-1"
+            />
+            <Select
+              value={newState.category}
+              onValueChange={(category: WorkflowCategory) => setNewState((current) => ({ ...current, category }))}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKFLOW_CATEGORIES.map((category) => (
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAddState} disabled={isSaving || !newState.name.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!deletingState} onOpenChange={(open) => !open && setDeletingState(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete &quot;{deletingState?.name}&quot;</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Move its tasks to</Label>
+            <Select value={moveTo} onValueChange={setMoveTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {states
+                  .filter((state) => state.id !== deletingState?.id)
+                  .map((state) => (
+                    <SelectItem key={state.key} value={state.key}>
+                      {state.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingState(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteState} disabled={isSaving}>
+              Delete State
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BulkTaskChanges } from "@/types/bulkTasks";
+import { WorkflowCategory } from "@/types/workflow";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Status choices; `statusField` says whether they are state keys or categories
+  statusOptions: Array<{ value: string; label: string }>;
+  statusField?: "status" | "statusCategory";
+  assigneeOptions: Array<{ id: string; name: string }>;
+  // Projects the tasks can be moved to
+  projects: Array<{ id: string; name: string }>;
+  onApply: (changes: BulkTaskChanges) => Promise<void>;
+  onClear: () => void;
+}
+
+const UNASSIGNED = "unassigned";
+
+const PRIORITIES = ["LOW", "MEDIUM", "HIGH", "URGENT"] as const;
+
+const DUE_DATE_SHIFTS = [
+  { value: "-7", label: "1 week earlier" },
+  { value: "-1", label: "1 day earlier" },
+  { value: "1", label: "1 day later" },
+  { value: "7", label: "1 week later" },
+  { value: "14", label: "2 weeks later" },
+];
+
+// Actions for the tasks selected in a list; each one applies to all of them at once
+export function BulkActionBar({
+  selectedCount,
+  statusOptions,
+  statusField = "status",
+  assigneeOptions,
+  projects,
+  onApply,
+  onClear,
+}: BulkActionBarProps) {
+  const [isApplying, setIsApplying] = useState(false);
+
+  if (selectedCount === 0) return null;
+
+  const taskCount = `${selectedCount} ${selectedCount === 1 ? "task" : "tasks"}`;
+
+  const apply = async (changes: BulkTaskChanges) => {
+    setIsApplying(true);
+    try {
+      await onApply(changes);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleMove = (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!confirm(`Move ${taskCount} to ${project?.name}? Sprints and milestones stay behind, and labels and custom fields only carry over where that project has them.`)) {
+      return;
+    }
+    apply({ projectId });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${taskCount}? This cannot be undone.`)) {
+      return;
+    }
+    apply({ delete: true });
+  };
+
+  // The selects only trigger actions, so they always show their placeholder
+  return (
+    <div className="sticky bottom-4 z-20 flex flex-wrap items-center gap-2 rounded-lg border bg-background p-3 shadow-lg">
+      <span className="mr-2 text-sm font-medium">{taskCount} selected</span>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply(statusField === "status" ? { status: value } : { statusCategory: value as WorkflowCategory })
+        }
+        disabled={isApplying}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Set status" />
+        </SelectTrigger>
+        <SelectContent>
+          {statusOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) => apply({ priority: value as BulkTaskChanges["priority"] })}
+        disabled={isApplying}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Set priority" />
+        </SelectTrigger>
+        <SelectContent>
+          {PRIORITIES.map((priority) => (
+            <SelectItem key={priority} value={priority}>
+              {priority.charAt(0) + priority.slice(1).toLowerCase()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) => apply({ assigneeId: value === UNASSIGNED ? null : value })}
+        disabled={isApplying}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Assign to" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {assigneeOptions.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value="" onValueChange={(value) => apply({ shiftDays: parseInt(value, 10) })} disabled={isApplying}>
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Shift due dates" />
+        </SelectTrigger>
+        <SelectContent>
+          {DUE_DATE_SHIFTS.map((shift) => (
+            <SelectItem key={shift.value} value={shift.value}>
+              {shift.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {projects.length > 0 && (
+        <Select value="" onValueChange={handleMove} disabled={isApplying}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Move to project" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Button variant="outline" size="sm" onClick={handleDelete} disabled={isApplying} className="text-red-600">
+        <Trash2 className="mr-1 h-4 w-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" onClick={onClear} disabled={isApplying} className="ml-auto">
+        <X className="mr-1 h-4 w-4" />
+        Clear
+      </Button>
+    </div>
+  );
+}
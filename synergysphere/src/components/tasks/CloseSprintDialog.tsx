@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { getNextSprint } from "@/lib/sprints";
+import { isDoneStatus } from "@/lib/workflow";
+import { Sprint } from "@/types/sprints";
+
+interface CloseSprintDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  sprint: Sprint;
+  sprints: Sprint[];
+  // The sprint's tasks, to preview what is completed and what carries over
+  tasks: Task[];
+  onClosed: (sprint: Sprint) => void;
+}
+
+const BACKLOG = "backlog";
+
+export function CloseSprintDialog({ isOpen, onClose, projectId, sprint, sprints, tasks, onClosed }: CloseSprintDialogProps) {
+  const workflowStates = useTaskStore((state) => state.workflowStates);
+  const [target, setTarget] = useState(BACKLOG);
+  const [isClosing, setIsClosing] = useState(false);
+
+  const plannedSprints = sprints.filter((other) => other.state === "planned");
+  const unfinishedCount = tasks.filter((task) => !isDoneStatus(workflowStates, task.status)).length;
+
+  useEffect(() => {
+    if (isOpen) {
+      setTarget(getNextSprint(sprints, sprint.id)?.id || BACKLOG);
+    }
+  }, [isOpen, sprint.id, sprints]);
+
+  const handleClose = async () => {
+    try {
+      setIsClosing(true);
+      const response = await fetch(`/api/projects/${projectId}/sprints/${sprint.id}/close`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetSprintId: target === BACKLOG ? null : target }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to close sprint");
+      }
+
+      onClosed(result.sprint);
+      toast.success(`${sprint.name} closed`);
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to close sprint";
+      toast.error(errorMessage);
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close {sprint.name}</DialogTitle>
+          <DialogDescription>
+            {tasks.length - unfinishedCount} of {tasks.length} tasks completed. Completed tasks stay
+            in the sprint&apos;s summary.
+          </DialogDescription>
+        </DialogHeader>
+
+        {unfinishedCount > 0 && (
+          <div className="space-y-2">
+            <Label>
+              Move {unfinishedCount} unfinished {unfinishedCount === 1 ? "task" : "tasks"} to
+            </Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {plannedSprints.map((planned) => (
+                  <SelectItem key={planned.id} value={planned.id}>
+                    {planned.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BACKLOG}>Backlog</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isClosing}>
+            Cancel
+          </Button>
+          <Button onClick={handleClose} disabled={isClosing}>
+            {isClosing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close Sprint
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
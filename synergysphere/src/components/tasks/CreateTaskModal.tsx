@@ -2,7 +2,10 @@
 
 import { useState } from "react";
 import { TaskModal } from "./TaskModal";
+import { TaskTemplatePicker } from "./TaskTemplatePicker";
 import { Task } from "@/stores/taskStore";
+import { CustomFieldValue } from "@/types/customFields";
+import { WorkflowState } from "@/types/workflow";
 
 interface CreateTaskModalProps {
   isOpen: boolean;
@@ -13,23 +16,36 @@ interface CreateTaskModalProps {
     assigneeId?: string;
     status: Task["status"];
     priority: Task["priority"];
+    startDate?: Date;
     dueDate?: Date;
+    recurrenceRule?: string | null;
+    estimate?: number | null;
+    milestoneId?: string | null;
+    labelIds?: string[];
+    customFields?: Record<string, CustomFieldValue | null>;
   }) => Promise<void>;
   defaultStatus?: Task["status"];
+  workflowStates: WorkflowState[];
   projectMembers?: Array<{
     id: string;
     name: string;
     email: string;
     avatarUrl?: string;
   }>;
+  // Offers "New from template" when given
+  projectId?: string;
+  onCreateFromTemplate?: (tasks: Task[]) => void;
 }
 
 export function CreateTaskModal({
   isOpen,
   onClose,
   onCreateTask,
-  defaultStatus = "TODO",
+  defaultStatus,
+  workflowStates,
   projectMembers = [],
+  projectId,
+  onCreateFromTemplate,
 }: CreateTaskModalProps) {
   const [isLoading, setIsLoading] = useState(false);
 
@@ -39,14 +55,17 @@ export function CreateTaskModal({
     assigneeId?: string;
     status: Task["status"];
     priority: Task["priority"];
+    startDate?: Date;
     dueDate?: Date;
+    recurrenceRule?: string | null;
+    estimate?: number | null;
+    milestoneId?: string | null;
+    labelIds?: string[];
+    customFields?: Record<string, CustomFieldValue | null>;
   }) => {
     setIsLoading(true);
     try {
-      await onCreateTask({
-        ...data,
-        status: data.status || defaultStatus,
-      });
+      await onCreateTask(data);
     } finally {
       setIsLoading(false);
     }
@@ -57,8 +76,21 @@ export function CreateTaskModal({
       isOpen={isOpen}
       onClose={onClose}
       onSubmit={handleSubmit}
+      workflowStates={workflowStates}
+      defaultStatus={defaultStatus}
       projectMembers={projectMembers}
       isLoading={isLoading}
+      templatePicker={
+        projectId && onCreateFromTemplate && (
+          <TaskTemplatePicker
+            projectId={projectId}
+            onCreated={(tasks) => {
+              onCreateFromTemplate(tasks);
+              onClose();
+            }}
+          />
+        )
+      }
     />
   );
 }
\ No newline at end of file
@@ -12,6 +12,7 @@ import {
   DragStartEvent,
   DragEndEvent,
   DragOverEvent,
+  useDroppable,
 } from "@dnd-kit/core";
 import {
   SortableContext,
@@ -22,26 +23,35 @@ import { CSS } from "@dnd-kit/utilities";
 import { KanbanColumn } from "./KanbanColumn";
 import { TaskCard } from "./TaskCard";
 import { Task, useTaskStore } from "@/stores/taskStore";
+import { differenceInCalendarDays } from "date-fns";
+import { ChevronDown, ChevronRight, Flag } from "lucide-react";
+import { formatSprintDates } from "@/lib/sprints";
+import { SwimlaneField, SwimlaneUpdate, getLaneId, getLaneUpdate, getSwimlanes } from "@/lib/swimlanes";
 import { cn } from "@/lib/utils";
+import { isDoneStatus } from "@/lib/workflow";
+import { Sprint } from "@/types/sprints";
+import { WorkflowState } from "@/types/workflow";
 
 interface KanbanBoardProps {
   tasks: Task[];
+  // One column per state, in workflow order
+  workflowStates: WorkflowState[];
   onEditTask?: (task: Task) => void;
   onDeleteTask?: (task: Task) => void;
   onAssignTask?: (task: Task) => void;
   onAddTask?: (status: Task["status"]) => void;
-  onMoveTask?: (taskId: string, newStatus: Task["status"]) => void;
+  // `index` is the drop position within the full (unfiltered) target column, not counting the moved
+  // task; `laneUpdate` is set when the card also moved to another swimlane
+  onMoveTask?: (taskId: string, newStatus: Task["status"], index: number, laneUpdate?: SwimlaneUpdate) => void;
+  // Sprint board: only this sprint's tasks, under a header with its goal and dates
+  sprint?: Sprint | null;
+  // Splits the columns into rows by this field
+  swimlane?: SwimlaneField | null;
+  // Assignee swimlanes get a lane per member, including members without tasks
+  projectMembers?: Array<{ id: string; name: string }>;
   className?: string;
 }
 
-const COLUMN_STATUS: Task["status"][] = ["TODO", "IN_PROGRESS", "DONE"];
-
-const COLUMN_CONFIG = {
-  TODO: { title: "To Do", id: "TODO" },
-  IN_PROGRESS: { title: "In Progress", id: "IN_PROGRESS" },
-  DONE: { title: "Done", id: "DONE" },
-};
-
 interface SortableTaskCardProps {
   task: Task;
   onEdit?: (task: Task) => void;
@@ -89,7 +99,12 @@ function SortableTaskCard({ task, onEdit, onDelete, onAssign }: SortableTaskCard
 interface DroppableColumnProps {
   status: Task["status"];
   title: string;
+  color: string;
   tasks: Task[];
+  wipLimit: number | null;
+  wipCount: number;
+  // Hard WIP limit reached: tasks from other columns can't be dropped here
+  isFull?: boolean;
   onAddTask?: () => void;
   onEditTask?: (task: Task) => void;
   onDeleteTask?: (task: Task) => void;
@@ -99,7 +114,11 @@ interface DroppableColumnProps {
 function DroppableColumn({
   status,
   title,
+  color,
   tasks,
+  wipLimit,
+  wipCount,
+  isFull = false,
   onAddTask,
   onEditTask,
   onDeleteTask,
@@ -124,12 +143,16 @@ function DroppableColumn({
       <KanbanColumn
         title={title}
         status={status}
+        color={color}
         tasks={tasks}
+        wipLimit={wipLimit}
+        wipCount={wipCount}
         onAddTask={onAddTask}
         onEditTask={onEditTask}
         onDeleteTask={onDeleteTask}
         onAssignTask={onAssignTask}
         isDragOver={isOver && active?.data.current?.type === "task"}
+        isDropDisabled={isFull}
       >
         <SortableContext items={taskIds} strategy={verticalListSortingStrategy}>
           <div className="space-y-2">
@@ -149,17 +172,81 @@ function DroppableColumn({
   );
 }
 
+interface DroppableLaneCellProps {
+  laneId: string;
+  status: Task["status"];
+  color: string;
+  tasks: Task[];
+  isFull?: boolean;
+  onEditTask?: (task: Task) => void;
+  onDeleteTask?: (task: Task) => void;
+  onAssignTask?: (task: Task) => void;
+}
+
+// One column's cards within a swimlane
+function DroppableLaneCell({
+  laneId,
+  status,
+  color,
+  tasks,
+  isFull = false,
+  onEditTask,
+  onDeleteTask,
+  onAssignTask,
+}: DroppableLaneCellProps) {
+  const { setNodeRef, isOver, active } = useDroppable({
+    id: `${laneId}:${status}`,
+    data: {
+      type: "column",
+      status,
+      laneId,
+    },
+  });
+
+  const taskIds = useMemo(() => tasks.map(task => task.id), [tasks]);
+  const isDragOver = isOver && active?.data.current?.type === "task";
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex-1 min-w-80 space-y-2 rounded-lg border p-2 min-h-24 transition-all duration-200",
+        isDragOver && !isFull && "ring-2 ring-blue-500 ring-opacity-50",
+        isDragOver && isFull && "ring-2 ring-red-500 ring-opacity-50"
+      )}
+      style={{ backgroundColor: `${color}0f`, borderColor: `${color}40` }}
+    >
+      <SortableContext items={taskIds} strategy={verticalListSortingStrategy}>
+        {tasks.map((task) => (
+          <SortableTaskCard
+            key={task.id}
+            task={task}
+            onEdit={onEditTask}
+            onDelete={onDeleteTask}
+            onAssign={onAssignTask}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+}
+
 export function KanbanBoard({
   tasks,
+  workflowStates,
   onEditTask,
   onDeleteTask,
   onAssignTask,
   onAddTask,
   onMoveTask,
+  sprint,
+  swimlane = null,
+  projectMembers,
   className,
 }: KanbanBoardProps) {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
-  const { startDrag, endDrag, setDragTarget } = useTaskStore();
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const { tasksByStatus: columnsByStatus, wipLimitMode, startDrag, endDrag, setDragTarget } = useTaskStore();
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -170,13 +257,29 @@ export function KanbanBoard({
     useSensor(KeyboardSensor)
   );
 
+  const boardTasks = useMemo(
+    () => (sprint ? tasks.filter(task => task.sprintId === sprint.id) : tasks),
+    [tasks, sprint]
+  );
+
   // Group tasks by status
   const tasksByStatus = useMemo(() => {
-    return COLUMN_STATUS.reduce((acc, status) => {
-      acc[status] = tasks.filter(task => task.status === status);
+    return workflowStates.reduce((acc, state) => {
+      acc[state.key] = boardTasks
+        .filter(task => task.status === state.key)
+        .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
       return acc;
     }, {} as Record<Task["status"], Task[]>);
-  }, [tasks]);
+  }, [boardTasks, workflowStates]);
+
+  const isColumnFull = (state: WorkflowState) =>
+    wipLimitMode === "hard" &&
+    state.wipLimit !== null &&
+    !!activeTask &&
+    activeTask.status !== state.key &&
+    (columnsByStatus[state.key] || []).length >= state.wipLimit;
+
+  const columnIds = useMemo(() => workflowStates.map(state => state.key), [workflowStates]);
 
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
@@ -203,6 +306,25 @@ export function KanbanBoard({
     }
   };
 
+  const swimlanes = swimlane ? getSwimlanes(boardTasks, swimlane, projectMembers) : [];
+
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes(lanes =>
+      lanes.includes(laneId) ? lanes.filter(id => id !== laneId) : [...lanes, laneId]
+    );
+  };
+
+  // Drops into a column at its hard WIP limit are ignored; the column shows as disabled
+  const moveActiveTask = (status: Task["status"], index: number, laneId?: string) => {
+    const state = workflowStates.find(s => s.key === status);
+    if (!activeTask || (state && isColumnFull(state))) return;
+
+    const laneUpdate = swimlane && laneId !== undefined && laneId !== getLaneId(activeTask, swimlane)
+      ? getLaneUpdate(swimlane, laneId)
+      : null;
+    onMoveTask?.(activeTask.id, status, index, laneUpdate ?? undefined);
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -215,22 +337,27 @@ export function KanbanBoard({
     const activeType = active.data.current?.type;
     const overType = over.data.current?.type;
 
-    // Task dropped on a column
+    // Task dropped on a column (or a swimlane's part of it): append it to the end
     if (activeType === "task" && overType === "column") {
       const newStatus = over.data.current?.status as Task["status"];
+      const laneId = over.data.current?.laneId as string | undefined;
+      const changesLane = !!swimlane && laneId !== undefined && laneId !== getLaneId(activeTask, swimlane);
       
-      if (activeTask.status !== newStatus) {
-        onMoveTask?.(activeTask.id, newStatus);
+      if (activeTask.status !== newStatus || changesLane) {
+        const column = (columnsByStatus[newStatus] || []).filter(task => task.id !== activeTask.id);
+        moveActiveTask(newStatus, column.length, laneId);
       }
     }
 
-    // Task dropped on another task (same column reordering)
-    if (activeType === "task" && overType === "task") {
-      // For now, we'll just handle status changes
-      // Advanced reordering within columns can be added later
+    // Task dropped on another task: take its place in that column. Moving down within a
+    // column lands below that card, moving up or across lands above it, which in every
+    // case is the card's current index in its column.
+    if (activeType === "task" && overType === "task" && over.id !== active.id) {
       const overTask = over.data.current?.task as Task;
-      if (activeTask.status !== overTask.status) {
-        onMoveTask?.(activeTask.id, overTask.status);
+      const index = (columnsByStatus[overTask.status] || []).findIndex(task => task.id === overTask.id);
+
+      if (index !== -1) {
+        moveActiveTask(overTask.status, index, swimlane ? getLaneId(overTask, swimlane) : undefined);
       }
     }
 
@@ -238,7 +365,7 @@ export function KanbanBoard({
     endDrag();
   };
 
-  return (
+  const board = (
     <DndContext
       sensors={sensors}
       collisionDetection={closestCenter}
@@ -246,35 +373,123 @@ export function KanbanBoard({
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
     >
-      <div className={cn("flex gap-6 p-6 overflow-x-auto min-h-96", className)}>
-        <SortableContext 
-          items={COLUMN_STATUS} 
-          strategy={verticalListSortingStrategy}
-        >
-          {COLUMN_STATUS.map((status) => (
-            <DroppableColumn
-              key={status}
-              status={status}
-              title={COLUMN_CONFIG[status].title}
-              tasks={tasksByStatus[status]}
-              onAddTask={() => onAddTask?.(status)}
-              onEditTask={onEditTask}
-              onDeleteTask={onDeleteTask}
-              onAssignTask={onAssignTask}
-            />
-          ))}
-        </SortableContext>
+      {swimlane ? (
+        <div className={cn("space-y-4 p-6 overflow-x-auto min-h-96", className)}>
+          {/* Column headers, shared by every lane */}
+          <div className="flex gap-6 pl-6">
+            {workflowStates.map((state) => {
+              const wipCount = (columnsByStatus[state.key] || []).length;
+              const isOverWipLimit = state.wipLimit !== null && wipCount > state.wipLimit;
+              return (
+                <div key={state.key} className="flex flex-1 min-w-80 items-center justify-between px-2 text-sm font-medium">
+                  <span style={{ color: state.color }}>{state.name}</span>
+                  <span
+                    className={cn("text-xs text-muted-foreground", isOverWipLimit && "font-semibold text-red-600")}
+                    title={state.wipLimit !== null ? `WIP limit: ${state.wipLimit}` : undefined}
+                  >
+                    {state.wipLimit !== null ? `${wipCount}/${state.wipLimit}` : (tasksByStatus[state.key] || []).length}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
 
-        <DragOverlay>
-          {activeTask ? (
-            <TaskCard
-              task={activeTask}
-              isDragging={true}
-              className="rotate-3 shadow-lg"
-            />
-          ) : null}
-        </DragOverlay>
-      </div>
+          {swimlanes.map((lane) => {
+            const isCollapsed = collapsedLanes.includes(lane.id);
+            return (
+              <div key={lane.id} className="space-y-2">
+                <button
+                  type="button"
+                  className="flex items-center gap-2 text-sm font-medium hover:text-primary"
+                  onClick={() => toggleLane(lane.id)}
+                >
+                  {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  {lane.label}
+                  <span className="text-xs text-muted-foreground">{lane.tasks.length}</span>
+                </button>
+                {!isCollapsed && (
+                  <div className="flex gap-6 pl-6">
+                    {workflowStates.map((state) => (
+                      <DroppableLaneCell
+                        key={state.key}
+                        laneId={lane.id}
+                        status={state.key}
+                        color={state.color}
+                        tasks={(tasksByStatus[state.key] || []).filter(task => getLaneId(task, swimlane) === lane.id)}
+                        isFull={isColumnFull(state)}
+                        onEditTask={onEditTask}
+                        onDeleteTask={onDeleteTask}
+                        onAssignTask={onAssignTask}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className={cn("flex gap-6 p-6 overflow-x-auto min-h-96", className)}>
+          <SortableContext 
+            items={columnIds} 
+            strategy={verticalListSortingStrategy}
+          >
+            {workflowStates.map((state) => (
+              <DroppableColumn
+                key={state.key}
+                status={state.key}
+                title={state.name}
+                color={state.color}
+                tasks={tasksByStatus[state.key] || []}
+                wipLimit={state.wipLimit}
+                wipCount={(columnsByStatus[state.key] || []).length}
+                isFull={isColumnFull(state)}
+                onAddTask={() => onAddTask?.(state.key)}
+                onEditTask={onEditTask}
+                onDeleteTask={onDeleteTask}
+                onAssignTask={onAssignTask}
+              />
+            ))}
+          </SortableContext>
+        </div>
+      )}
+
+      <DragOverlay>
+        {activeTask ? (
+          <TaskCard
+            task={activeTask}
+            isDragging={true}
+            className="rotate-3 shadow-lg"
+          />
+        ) : null}
+      </DragOverlay>
     </DndContext>
   );
+
+  if (!sprint) {
+    return board;
+  }
+
+  const doneCount = boardTasks.filter(task => isDoneStatus(workflowStates, task.status)).length;
+  const daysLeft = differenceInCalendarDays(new Date(sprint.endDate), new Date());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg border px-4 py-3 text-sm">
+        <span className="font-semibold">{sprint.name}</span>
+        <span className="text-muted-foreground">{formatSprintDates(sprint)}</span>
+        <span className={cn("text-muted-foreground", daysLeft < 0 && "text-red-600")}>
+          {daysLeft < 0 ? `${-daysLeft} days overdue` : `${daysLeft} days left`}
+        </span>
+        <span className="text-muted-foreground">{doneCount}/{boardTasks.length} done</span>
+        {sprint.goal && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Flag className="h-3 w-3" />
+            {sprint.goal}
+          </span>
+        )}
+      </div>
+      {board}
+    </div>
+  );
 }
\ No newline at end of file
@@ -9,10 +9,18 @@ import { Task } from "@/stores/taskStore";
 import { cn } from "@/lib/utils";
 import React from "react";
 
+const WIP_LIMIT_COLOR = "#ef4444";
+
 interface KanbanColumnProps {
   title: string;
   status: Task["status"];
+  // Hex color of the column's workflow state
+  color: string;
   tasks: Task[];
+  // Most tasks the column should hold, counted over the whole project rather than
+  // the filtered tasks shown
+  wipLimit?: number | null;
+  wipCount?: number;
   onAddTask?: () => void;
   onEditTask?: (task: Task) => void;
   onDeleteTask?: (task: Task) => void;
@@ -23,31 +31,12 @@ interface KanbanColumnProps {
   children?: React.ReactNode;
 }
 
-const statusConfig = {
-  TODO: { 
-    title: "To Do", 
-    color: "bg-slate-100 border-slate-200",
-    headerColor: "text-slate-700",
-    count: "bg-slate-500"
-  },
-  IN_PROGRESS: { 
-    title: "In Progress", 
-    color: "bg-blue-50 border-blue-200",
-    headerColor: "text-blue-700",
-    count: "bg-blue-500"
-  },
-  DONE: { 
-    title: "Done", 
-    color: "bg-green-50 border-green-200",
-    headerColor: "text-green-700",
-    count: "bg-green-500"
-  },
-};
-
 export function KanbanColumn({
   title,
-  status,
+  color,
   tasks,
+  wipLimit = null,
+  wipCount = tasks.length,
   onAddTask,
   onEditTask,
   onDeleteTask,
@@ -57,13 +46,18 @@ export function KanbanColumn({
   className,
   children,
 }: KanbanColumnProps) {
-  const config = statusConfig[status];
+  const isOverWipLimit = wipLimit !== null && wipCount > wipLimit;
 
   return (
     <Card 
+      // Columns over their WIP limit turn red
+      style={
+        isOverWipLimit
+          ? { backgroundColor: `${WIP_LIMIT_COLOR}1a`, borderColor: WIP_LIMIT_COLOR }
+          : { backgroundColor: `${color}0f`, borderColor: `${color}40` }
+      }
       className={cn(
         "flex flex-col h-full transition-all duration-200",
-        config.color,
         isDragOver && !isDropDisabled && "ring-2 ring-blue-500 ring-opacity-50",
         isDropDisabled && isDragOver && "ring-2 ring-red-500 ring-opacity-50",
         className
@@ -71,15 +65,17 @@ export function KanbanColumn({
     >
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle className={cn("text-sm font-medium", config.headerColor)}>
+          <CardTitle className="text-sm font-medium" style={{ color }}>
             {title}
           </CardTitle>
           <div className="flex items-center gap-2">
             <Badge 
               variant="secondary" 
-              className={cn("text-xs text-white", config.count)}
+              className="text-xs text-white"
+              style={{ backgroundColor: isOverWipLimit ? WIP_LIMIT_COLOR : color }}
+              title={wipLimit !== null ? `WIP limit: ${wipLimit}` : undefined}
             >
-              {tasks.length}
+              {wipLimit !== null ? `${wipCount}/${wipLimit}` : tasks.length}
             </Badge>
             {onAddTask && (
               <Button 
@@ -0,0 +1,23 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface LabelChipProps {
+  name: string;
+  // Hex color of the label
+  color: string;
+  className?: string;
+}
+
+export function LabelChip({ name, color, className }: LabelChipProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("text-xs py-0 px-2 font-normal", className)}
+      style={{ backgroundColor: `${color}26`, borderColor: `${color}80`, color }}
+    >
+      {name}
+    </Badge>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { TaskLabel } from "@/types/labels";
+import { LabelChip } from "./LabelChip";
+
+interface LabelPickerProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+}
+
+// Every project label as a chip; clicking one toggles it
+export function LabelPicker({ labels, selectedIds, onChange }: LabelPickerProps) {
+  if (labels.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No labels yet. Project admins can add them in the project settings.
+      </p>
+    );
+  }
+
+  const toggleLabel = (labelId: string) => {
+    onChange(
+      selectedIds.includes(labelId)
+        ? selectedIds.filter((id) => id !== labelId)
+        : [...selectedIds, labelId]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.map((label) => {
+        const isSelected = selectedIds.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => toggleLabel(label.id)}
+            className="rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <LabelChip
+              name={label.name}
+              color={label.color}
+              className={cn("cursor-pointer", !isSelected && "opacity-40 hover:opacity-70")}
+            />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
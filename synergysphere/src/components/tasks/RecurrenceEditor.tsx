@@ -0,0 +1,210 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+import {
+  ORDINAL_LABELS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from "@/lib/recurrence";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types/recurrence";
+
+interface RecurrenceEditorProps {
+  value?: string | null;
+  onChange: (value: string | null) => void;
+  // Due date of the task; new rules repeat on its weekday / day of month
+  anchorDate?: Date;
+}
+
+const unitLabels: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+};
+
+// Monday-first for display
+const DISPLAY_WEEKDAYS = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+export function RecurrenceEditor({ value, onChange, anchorDate }: RecurrenceEditorProps) {
+  const rule = value ? parseRecurrenceRule(value) : null;
+  const anchor = anchorDate || new Date();
+  const anchorWeekday = WEEKDAYS[anchor.getDay()];
+  // The 5th occurrence of a weekday is always the last one in its month
+  const anchorOrdinal = Math.ceil(anchor.getDate() / 7) > 4 ? -1 : Math.ceil(anchor.getDate() / 7);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    onChange(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === "NONE") {
+      onChange(null);
+      return;
+    }
+
+    const next: RecurrenceRule = {
+      frequency: frequency as RecurrenceFrequency,
+      interval: rule?.interval || 1,
+      until: rule?.until,
+      count: rule?.count,
+    };
+    if (next.frequency === "WEEKLY") next.byDay = [anchorWeekday];
+    if (next.frequency === "MONTHLY") next.byMonthDay = anchor.getDate();
+    onChange(formatRecurrenceRule(next));
+  };
+
+  const toggleWeekday = (weekday: (typeof WEEKDAYS)[number]) => {
+    if (!rule) return;
+    const current = rule.byDay || [];
+    const byDay = current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday];
+    // A weekly rule needs at least one day
+    if (byDay.length === 0) return;
+    update({ byDay: WEEKDAYS.filter((day) => byDay.includes(day)) });
+  };
+
+  const endType = rule?.until ? "until" : rule?.count ? "count" : "never";
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Repeat className="h-3 w-3" />
+        Repeat
+      </Label>
+
+      <div className="flex items-center gap-2">
+        <Select value={rule?.frequency || "NONE"} onValueChange={handleFrequencyChange}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NONE">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {rule && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-16"
+            />
+            <span className="text-muted-foreground">{unitLabels[rule.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {rule?.frequency === "WEEKLY" && (
+        <div className="flex gap-1">
+          {DISPLAY_WEEKDAYS.map((weekday) => (
+            <Button
+              key={weekday}
+              type="button"
+              size="sm"
+              variant={rule.byDay?.includes(weekday) ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleWeekday(weekday)}
+            >
+              {WEEKDAY_LABELS[weekday]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {rule?.frequency === "MONTHLY" && (
+        <Select
+          value={rule.byWeekdayOfMonth ? "weekday" : "day"}
+          onValueChange={(mode) =>
+            update(
+              mode === "weekday"
+                ? { byMonthDay: undefined, byWeekdayOfMonth: { ordinal: anchorOrdinal, weekday: anchorWeekday } }
+                : { byWeekdayOfMonth: undefined, byMonthDay: anchor.getDate() }
+            )
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">On day {rule.byMonthDay || anchor.getDate()}</SelectItem>
+            <SelectItem value="weekday">
+              On the {ORDINAL_LABELS[rule.byWeekdayOfMonth?.ordinal ?? anchorOrdinal]}{" "}
+              {WEEKDAY_LABELS[rule.byWeekdayOfMonth?.weekday ?? anchorWeekday]}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {rule && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={endType}
+            onValueChange={(type) =>
+              update({
+                until: type === "until" ? format(anchor, "yyyy-MM-dd") : undefined,
+                count: type === "count" ? 10 : undefined,
+              })
+            }
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endType === "until" && (
+            <DatePicker
+              date={rule.until ? parseISO(rule.until) : undefined}
+              onDateChange={(date) => date && update({ until: format(date, "yyyy-MM-dd") })}
+              placeholder="End date"
+              className="flex-1"
+            />
+          )}
+
+          {endType === "count" && (
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                type="number"
+                min={1}
+                value={rule.count}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-16"
+              />
+              <span className="text-muted-foreground">occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <p className="text-xs text-muted-foreground">{describeRecurrence(rule)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTemplates } from "@/hooks/useTemplates";
+import { Task } from "@/stores/taskStore";
+
+interface SaveTaskTemplateDialogProps {
+  task: Task;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SaveTaskTemplateDialog({ task, isOpen, onClose }: SaveTaskTemplateDialogProps) {
+  const { saveTemplate } = useTemplates("task", false);
+  const [name, setName] = useState(task.title);
+  // Blank keeps the gap between the task's creation and its due date
+  const [dueOffsetDays, setDueOffsetDays] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveTemplate({
+        kind: "task",
+        name: name.trim(),
+        taskId: task.id,
+        dueOffsetDays: dueOffsetDays === "" ? undefined : parseInt(dueOffsetDays, 10),
+      });
+      toast.success(`Saved "${name.trim()}" as a template`);
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save template";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-due">Due, in days after the start date</Label>
+            <Input
+              id="template-due"
+              type="number"
+              min={0}
+              value={dueOffsetDays}
+              onChange={(e) => setDueOffsetDays(e.target.value)}
+              placeholder="As the task's dates give it"
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Subtasks, checklist items and labels are saved too. The assignee is kept as their project role
+            and filled by someone holding it when the template is used.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
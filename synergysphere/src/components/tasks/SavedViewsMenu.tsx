@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Bookmark, ChevronDown, Loader2, RotateCcw, Save, Star, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/useAuth";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { cn } from "@/lib/utils";
+import { SavedView } from "@/types/savedViews";
+
+interface SavedViewsMenuProps {
+  savedViews: ReturnType<typeof useSavedViews>;
+  // Only project views can be shared
+  canShare: boolean;
+}
+
+export function SavedViewsMenu({ savedViews, canShare }: SavedViewsMenuProps) {
+  const { user } = useAuth();
+  const { views, activeView, isModified, selectView, saveView, updateView, setDefaultView, deleteView } = savedViews;
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOwner = (view: SavedView) => view.owner.id === user?.id;
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to save view";
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const openSaveDialog = () => {
+    setName("");
+    setIsShared(false);
+    setIsDefault(false);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      toast.error("Please enter a name for the view");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await runAction(() => saveView({ name, isShared, isDefault }), "View saved");
+    setIsSaving(false);
+    if (saved) {
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    runAction(() => deleteView(view), "View deleted");
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem
+      key={view.id}
+      onClick={() => selectView(view)}
+      className={cn(view.id === activeView?.id && "font-medium")}
+    >
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.isShared && (
+        <Users className="h-3 w-3 text-muted-foreground" aria-label={`Shared by ${view.owner.name}`} />
+      )}
+      {view.isDefault && <Star className="h-3 w-3 fill-current text-yellow-500" aria-label="Default view" />}
+    </DropdownMenuItem>
+  );
+
+  const personalViews = views.filter((view) => !view.isShared);
+  const sharedViews = views.filter((view) => view.isShared);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-56">
+            <Bookmark className="mr-2 h-4 w-4" />
+            <span className="truncate">
+              {activeView ? activeView.name : "Views"}
+              {isModified && " (edited)"}
+            </span>
+            <ChevronDown className="ml-2 h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {views.length === 0 && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</div>
+          )}
+          {personalViews.length > 0 && <DropdownMenuLabel>My views</DropdownMenuLabel>}
+          {personalViews.map(renderViewItem)}
+          {sharedViews.length > 0 && <DropdownMenuLabel>Shared with the project</DropdownMenuLabel>}
+          {sharedViews.map(renderViewItem)}
+
+          <DropdownMenuSeparator />
+          {activeView && isModified && isOwner(activeView) && (
+            <DropdownMenuItem onClick={() => runAction(() => updateView(activeView), "View updated")}>
+              <Save className="mr-2 h-4 w-4" />
+              Save changes to view
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Bookmark className="mr-2 h-4 w-4" />
+            Save as new view...
+          </DropdownMenuItem>
+          {activeView && (
+            <DropdownMenuItem
+              onClick={() =>
+                runAction(
+                  () => setDefaultView(activeView, !activeView.isDefault),
+                  activeView.isDefault ? "Default view cleared" : "Default view set"
+                )
+              }
+            >
+              <Star className="mr-2 h-4 w-4" />
+              {activeView.isDefault ? "Stop opening by default" : "Open by default"}
+            </DropdownMenuItem>
+          )}
+          {activeView && isOwner(activeView) && (
+            <DropdownMenuItem onClick={() => handleDelete(activeView)} className="text-red-600">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete view
+            </DropdownMenuItem>
+          )}
+          {(activeView || isModified) && (
+            <DropdownMenuItem onClick={() => selectView(null)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sort, grouping and layout.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. My urgent work"
+                maxLength={60}
+              />
+            </div>
+
+            {canShare && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="view-shared">Share with project</Label>
+                  <p className="text-sm text-muted-foreground">Every project member can open it</p>
+                </div>
+                <Switch id="view-shared" checked={isShared} onCheckedChange={setIsShared} />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="view-default">Open by default</Label>
+                <p className="text-sm text-muted-foreground">Used when you open this page without a view</p>
+              </div>
+              <Switch id="view-default" checked={isDefault} onCheckedChange={setIsDefault} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save View
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
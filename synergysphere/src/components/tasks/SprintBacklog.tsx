@@ -0,0 +1,365 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DndContext,
+  DragEndEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { MoreVertical, Play, Plus, Flag, Inbox } from "lucide-react";
+import { toast } from "sonner";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { formatEstimate } from "@/lib/estimates";
+import { formatSprintDates } from "@/lib/sprints";
+import { formatTaskKey } from "@/lib/taskKeys";
+import { cn } from "@/lib/utils";
+import { findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { Sprint } from "@/types/sprints";
+import { StatusBadge } from "./StatusBadge";
+import { SprintDialog } from "./SprintDialog";
+import { CloseSprintDialog } from "./CloseSprintDialog";
+
+interface SprintBacklogProps {
+  projectId: string;
+  tasks: Task[];
+  sprints: Sprint[];
+  // Called after sprints are created, edited or started
+  onSprintsChange: () => void;
+  // Closing or deleting a sprint moves its tasks, so the board reloads them as well
+  onSprintTasksMoved: () => void;
+  onMoveToSprint: (task: Task, sprintId: string | null) => void;
+  onEditTask?: (task: Task) => void;
+}
+
+const BACKLOG_ID = "backlog";
+
+function BacklogTaskRow({ task, onEdit }: { task: Task; onEdit?: (task: Task) => void }) {
+  const workflowStates = useTaskStore((state) => state.workflowStates);
+  const estimationUnit = useTaskStore((state) => state.estimationUnit);
+  const projectKey = useTaskStore((state) => state.projectKey);
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: task.id,
+    data: { task },
+  });
+  const workflowState = findWorkflowState(workflowStates, task.status);
+  const taskKey = formatTaskKey(projectKey, task.number);
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={cn(
+        "flex items-center gap-3 rounded-md border bg-background px-3 py-2 text-sm cursor-grab active:cursor-grabbing",
+        isDragging && "opacity-50 shadow-lg relative z-10"
+      )}
+      onClick={() => onEdit?.(task)}
+      {...attributes}
+      {...listeners}
+    >
+      {taskKey && <span className="font-mono text-xs text-muted-foreground">{taskKey}</span>}
+      <span className="flex-1 truncate">{task.title}</span>
+      {task.estimate != null && (
+        <Badge variant="outline" className="text-xs py-0 px-2">
+          {formatEstimate(task.estimate, estimationUnit)}
+        </Badge>
+      )}
+      <StatusBadge name={workflowState?.name || task.status} color={workflowState?.color} />
+      {task.assignee ? (
+        <Avatar className="h-6 w-6">
+          <AvatarFallback className="text-xs">{task.assignee.name.charAt(0)}</AvatarFallback>
+        </Avatar>
+      ) : (
+        <div className="h-6 w-6" />
+      )}
+    </div>
+  );
+}
+
+function TaskDropZone({
+  id,
+  tasks,
+  emptyMessage,
+  onEditTask,
+}: {
+  id: string;
+  tasks: Task[];
+  emptyMessage: string;
+  onEditTask?: (task: Task) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "space-y-2 rounded-md p-2 min-h-16 transition-colors",
+        isOver && "bg-muted ring-2 ring-primary/30"
+      )}
+    >
+      {tasks.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">{emptyMessage}</p>
+      ) : (
+        tasks.map((task) => <BacklogTaskRow key={task.id} task={task} onEdit={onEditTask} />)
+      )}
+    </div>
+  );
+}
+
+export function SprintBacklog({
+  projectId,
+  tasks,
+  sprints,
+  onSprintsChange,
+  onSprintTasksMoved,
+  onMoveToSprint,
+  onEditTask,
+}: SprintBacklogProps) {
+  const workflowStates = useTaskStore((state) => state.workflowStates);
+  const estimationUnit = useTaskStore((state) => state.estimationUnit);
+  const [dialogSprint, setDialogSprint] = useState<Sprint | null>(null);
+  const [isSprintDialogOpen, setIsSprintDialogOpen] = useState(false);
+  const [closingSprint, setClosingSprint] = useState<Sprint | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  );
+
+  const openSprints = sprints.filter((sprint) => sprint.state !== "closed");
+  const closedSprints = sprints.filter((sprint) => sprint.state === "closed");
+  // Finished tasks that were never planned into a sprint don't need planning
+  const backlogTasks = tasks.filter((task) => !task.sprintId && !isDoneStatus(workflowStates, task.status));
+  const getSprintTasks = (sprintId: string) => tasks.filter((task) => task.sprintId === sprintId);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const task = active.data.current?.task as Task;
+    const sprintId = over.id === BACKLOG_ID ? null : String(over.id);
+    if ((task.sprintId || null) !== sprintId) {
+      onMoveToSprint(task, sprintId);
+    }
+  };
+
+  const handleStartSprint = async (sprint: Sprint) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sprints/${sprint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ state: "active" }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start sprint");
+      }
+
+      onSprintsChange();
+      toast.success(`${sprint.name} started`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to start sprint";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleDeleteSprint = async (sprint: Sprint) => {
+    if (!confirm(`Delete ${sprint.name}? Its tasks go back to the backlog.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sprints/${sprint.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete sprint");
+      }
+
+      onSprintTasksMoved();
+      toast.success("Sprint deleted");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete sprint";
+      toast.error(errorMessage);
+    }
+  };
+
+  const openSprintDialog = (sprint: Sprint | null) => {
+    setDialogSprint(sprint);
+    setIsSprintDialogOpen(true);
+  };
+
+  const sumEstimates = (list: Task[]) => list.reduce((sum, task) => sum + (task.estimate ?? 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => openSprintDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Plan Sprint
+        </Button>
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        {openSprints.map((sprint) => {
+          const sprintTasks = getSprintTasks(sprint.id);
+          const doneCount = sprintTasks.filter((task) => isDoneStatus(workflowStates, task.status)).length;
+          const estimate = sumEstimates(sprintTasks);
+
+          return (
+            <Card key={sprint.id} className={cn(sprint.state === "active" && "border-primary")}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{sprint.name}</h3>
+                      {sprint.state === "active" && <Badge className="text-xs">Active</Badge>}
+                      <span className="text-sm text-muted-foreground">{formatSprintDates(sprint)}</span>
+                    </div>
+                    {sprint.goal && (
+                      <p className="mt-1 text-sm text-muted-foreground">
+                        <Flag className="mr-1 inline h-3 w-3" />
+                        {sprint.goal}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {doneCount}/{sprintTasks.length} done
+                      {estimate > 0 && ` · ${formatEstimate(estimate, estimationUnit)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {sprint.state === "planned" && (
+                      <Button size="sm" variant="outline" onClick={() => handleStartSprint(sprint)}>
+                        <Play className="mr-1 h-3 w-3" />
+                        Start
+                      </Button>
+                    )}
+                    {sprint.state === "active" && (
+                      <Button size="sm" onClick={() => setClosingSprint(sprint)}>
+                        Close Sprint
+                      </Button>
+                    )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openSprintDialog(sprint)}>
+                          Edit Sprint
+                        </DropdownMenuItem>
+                        {sprint.state === "planned" && (
+                          <DropdownMenuItem
+                            onClick={() => handleDeleteSprint(sprint)}
+                            className="text-destructive"
+                          >
+                            Delete Sprint
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <TaskDropZone
+                  id={sprint.id}
+                  tasks={sprintTasks}
+                  emptyMessage="Drag tasks here from the backlog"
+                  onEditTask={onEditTask}
+                />
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex items-center gap-2">
+              <Inbox className="h-4 w-4" />
+              <h3 className="font-semibold">Backlog</h3>
+              <span className="text-sm text-muted-foreground">
+                {backlogTasks.length} {backlogTasks.length === 1 ? "task" : "tasks"}
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <TaskDropZone
+              id={BACKLOG_ID}
+              tasks={backlogTasks}
+              emptyMessage="The backlog is empty"
+              onEditTask={onEditTask}
+            />
+          </CardContent>
+        </Card>
+      </DndContext>
+
+      {closedSprints.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <h3 className="font-semibold">Closed Sprints</h3>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {closedSprints.map((sprint) => (
+              <div key={sprint.id} className="flex flex-wrap items-center justify-between gap-2 border-b pb-2 text-sm last:border-0">
+                <div>
+                  <span className="font-medium">{sprint.name}</span>
+                  <span className="ml-2 text-muted-foreground">{formatSprintDates(sprint)}</span>
+                </div>
+                {sprint.summary && (
+                  <span className="text-muted-foreground">
+                    {sprint.summary.completedTasks} completed
+                    {sprint.summary.completedEstimate > 0 &&
+                      ` (${formatEstimate(sprint.summary.completedEstimate, estimationUnit)})`}
+                    , {sprint.summary.carriedOverTasks} carried over
+                    {sprint.summary.carriedOverEstimate > 0 &&
+                      ` (${formatEstimate(sprint.summary.carriedOverEstimate, estimationUnit)})`}
+                    {sprint.summary.carriedOverTasks > 0 &&
+                      ` to ${sprint.summary.carriedOverTo?.name || "the backlog"}`}
+                  </span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <SprintDialog
+        isOpen={isSprintDialogOpen}
+        onClose={() => setIsSprintDialogOpen(false)}
+        projectId={projectId}
+        sprint={dialogSprint}
+        sprints={sprints}
+        onSaved={onSprintsChange}
+      />
+
+      {closingSprint && (
+        <CloseSprintDialog
+          isOpen={!!closingSprint}
+          onClose={() => setClosingSprint(null)}
+          projectId={projectId}
+          sprint={closingSprint}
+          sprints={sprints}
+          tasks={getSprintTasks(closingSprint.id)}
+          onClosed={onSprintTasksMoved}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { suggestNextSprint } from "@/lib/sprints";
+import { Sprint } from "@/types/sprints";
+
+interface SprintDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  // The sprint to edit; without one a new sprint is planned after the existing ones
+  sprint?: Sprint | null;
+  sprints: Sprint[];
+  onSaved: (sprint: Sprint) => void;
+}
+
+export function SprintDialog({ isOpen, onClose, projectId, sprint, sprints, onSaved }: SprintDialogProps) {
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState<Date | undefined>();
+  const [endDate, setEndDate] = useState<Date | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (sprint) {
+      setName(sprint.name);
+      setGoal(sprint.goal || "");
+      setStartDate(new Date(sprint.startDate));
+      setEndDate(new Date(sprint.endDate));
+    } else {
+      const suggestion = suggestNextSprint(sprints);
+      setName(suggestion.name);
+      setGoal("");
+      setStartDate(suggestion.startDate);
+      setEndDate(suggestion.endDate);
+    }
+  }, [isOpen, sprint, sprints]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!name.trim() || !startDate || !endDate) {
+      toast.error("Please enter a name and dates");
+      return;
+    }
+    if (endDate < startDate) {
+      toast.error("The sprint must end after it starts");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        sprint ? `/api/projects/${projectId}/sprints/${sprint.id}` : `/api/projects/${projectId}/sprints`,
+        {
+          method: sprint ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            goal: goal.trim() || (sprint ? null : undefined),
+            startDate: startDate.toISOString(),
+            endDate: endDate.toISOString(),
+          }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save sprint");
+      }
+
+      onSaved(result.sprint);
+      toast.success(sprint ? "Sprint updated" : "Sprint created");
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to save sprint";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{sprint ? "Edit Sprint" : "Plan Sprint"}</DialogTitle>
+          <DialogDescription>
+            Drag tasks from the backlog into the sprint, then start it to work from the sprint board.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sprint-name">Name</Label>
+            <Input
+              id="sprint-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sprint-goal">Goal</Label>
+            <Textarea
+              id="sprint-goal"
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+              placeholder="What should this sprint achieve? (optional)"
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start</Label>
+              <DatePicker date={startDate} onDateChange={setStartDate} />
+            </div>
+            <div className="space-y-2">
+              <Label>End</Label>
+              <DatePicker date={endDate} onDateChange={setEndDate} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {sprint ? "Save" : "Create Sprint"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
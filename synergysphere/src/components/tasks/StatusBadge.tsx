@@ -0,0 +1,23 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface StatusBadgeProps {
+  name: string;
+  // Hex color of the workflow state; statuses without a state render neutral
+  color?: string | null;
+  className?: string;
+}
+
+export function StatusBadge({ name, color, className }: StatusBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("text-xs py-0 px-2", !color && "bg-gray-100 text-gray-800", className)}
+      style={color ? { backgroundColor: `${color}1a`, borderColor: `${color}66`, color } : undefined}
+    >
+      {name}
+    </Badge>
+  );
+}
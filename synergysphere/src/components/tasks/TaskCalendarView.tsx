@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+// Shared by the project tasks page and My Tasks, whose task shapes differ
+export interface CalendarTaskItem {
+  id: string;
+  title: string;
+  dueDate?: Date | string | null;
+  // Hex color of the task's status
+  color?: string | null;
+  isDone?: boolean;
+}
+
+interface TaskCalendarViewProps<T extends CalendarTaskItem> {
+  tasks: T[];
+  onOpenTask: (task: T) => void;
+}
+
+const MAX_TASKS_PER_DAY = 3;
+
+// Month grid of tasks by due date
+export function TaskCalendarView<T extends CalendarTaskItem>({ tasks, onOpenTask }: TaskCalendarViewProps<T>) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const today = new Date();
+
+  const gridStart = startOfWeek(month);
+  const gridEnd = endOfWeek(endOfMonth(month));
+  const days: Date[] = [];
+  for (let day = gridStart; day <= gridEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const unscheduledCount = tasks.filter((task) => !task.dueDate).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{format(month, "MMMM yyyy")}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {unscheduledCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {unscheduledCount} {unscheduledCount === 1 ? "task has" : "tasks have"} no due date
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1 mb-1">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="p-2 text-center text-sm font-medium text-muted-foreground">
+              {format(day, "EEE")}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {days.map((day) => {
+            const dayTasks = tasks.filter((task) => task.dueDate && isSameDay(new Date(task.dueDate), day));
+            return (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  "min-h-[96px] rounded border p-1",
+                  isSameMonth(day, month) ? "bg-background" : "bg-muted/50 text-muted-foreground",
+                  isSameDay(day, today) && "ring-2 ring-primary"
+                )}
+              >
+                <div className="mb-1 text-sm font-medium">{format(day, "d")}</div>
+                <div className="space-y-1">
+                  {dayTasks.slice(0, MAX_TASKS_PER_DAY).map((task) => (
+                    <button
+                      key={task.id}
+                      type="button"
+                      className={cn(
+                        "block w-full truncate rounded px-1 py-0.5 text-left text-xs hover:opacity-80",
+                        !task.color && "bg-gray-100 text-gray-800",
+                        task.isDone && "line-through opacity-60"
+                      )}
+                      style={task.color ? { backgroundColor: `${task.color}1a`, color: task.color } : undefined}
+                      title={task.title}
+                      onClick={() => onOpenTask(task)}
+                    >
+                      {task.title}
+                    </button>
+                  ))}
+                  {dayTasks.length > MAX_TASKS_PER_DAY && (
+                    <div className="text-xs text-muted-foreground">
+                      +{dayTasks.length - MAX_TASKS_PER_DAY} more
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
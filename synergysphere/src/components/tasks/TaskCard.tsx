@@ -6,19 +6,20 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Calendar, Clock, MoreVertical, User, AlertCircle, Tag } from "lucide-react";
-import { Task } from "@/stores/taskStore";
+import { Calendar, Clock, MoreVertical, User, AlertCircle, Lock, ListChecks, Repeat } from "lucide-react";
+import { Task, getUnresolvedBlockers, useTaskStore } from "@/stores/taskStore";
 import { cn } from "@/lib/utils";
+import { findWorkflowState } from "@/lib/workflow";
+import { formatEstimate } from "@/lib/estimates";
+import { formatTaskKey } from "@/lib/taskKeys";
+import { describeRecurrence, parseRecurrenceRule } from "@/lib/recurrence";
+import { StatusBadge } from "./StatusBadge";
+import { LabelChip } from "./LabelChip";
+import { TaskKeyText } from "./TaskKeyText";
 import { format, isAfter, isBefore, subDays } from "date-fns";
 
 interface TaskCardProps {
-  task: Task & {
-    tags?: {
-      category: string;
-      type: string;
-      color?: string;
-    }[];
-  };
+  task: Task;
   onEdit?: (task: Task) => void;
   onDelete?: (task: Task) => void;
   onAssign?: (task: Task) => void;
@@ -34,12 +35,6 @@ const priorityConfig = {
   URGENT: { label: "Urgent", className: "bg-red-100 text-red-800 hover:bg-red-200" },
 };
 
-const statusConfig = {
-  TODO: { label: "To Do", className: "bg-gray-100 text-gray-800" },
-  IN_PROGRESS: { label: "In Progress", className: "bg-blue-100 text-blue-800" },
-  DONE: { label: "Done", className: "bg-green-100 text-green-800" },
-};
-
 export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
   task,
   onEdit,
@@ -51,7 +46,13 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
   ...props
 }, ref) => {
   const priorityInfo = priorityConfig[task.priority];
-  const statusInfo = statusConfig[task.status];
+  const workflowStates = useTaskStore((state) => state.workflowStates);
+  const estimationUnit = useTaskStore((state) => state.estimationUnit);
+  const projectKey = useTaskStore((state) => state.projectKey);
+  const taskKey = formatTaskKey(projectKey, task.number);
+  const workflowState = findWorkflowState(workflowStates, task.status);
+  const openBlockers = getUnresolvedBlockers(task, workflowStates);
+  const recurrence = task.recurrenceRule ? parseRecurrenceRule(task.recurrenceRule) : null;
 
   const isOverdue = task.dueDate && isBefore(new Date(task.dueDate), new Date());
   const isDueSoon = task.dueDate && isAfter(new Date(task.dueDate), new Date()) && 
@@ -89,23 +90,14 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
             </div>
             {task.description && (
               <p className="text-xs text-muted-foreground line-clamp-2 mb-1">
-                {task.description}
+                <TaskKeyText text={task.description} />
               </p>
             )}
             
-            {/* Enhanced Tags */}
-            {task.tags && task.tags.length > 0 && (
+            {task.labels && task.labels.length > 0 && (
               <div className="flex flex-wrap gap-1 mb-1">
-                {task.tags.map((tag, index) => (
-                  <Badge 
-                    key={index}
-                    variant="outline" 
-                    className="text-xs py-0 px-1"
-                    style={{ borderColor: tag.color, color: tag.color }}
-                  >
-                    <Tag className="h-2 w-2 mr-1" />
-                    {tag.category}/{tag.type}
-                  </Badge>
+                {task.labels.map((label) => (
+                  <LabelChip key={label.id} name={label.name} color={label.color} />
                 ))}
               </div>
             )}
@@ -149,12 +141,25 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
             >
               {priorityInfo.label}
             </Badge>
-            <Badge 
-              variant="outline" 
-              className={cn("text-xs py-0 px-2", statusInfo.className)}
-            >
-              {statusInfo.label}
-            </Badge>
+            <StatusBadge
+              name={workflowState?.name || task.status}
+              color={workflowState?.color}
+            />
+            {task.estimate != null && (
+              <Badge variant="outline" className="text-xs py-0 px-2" title="Estimate">
+                {formatEstimate(task.estimate, estimationUnit)}
+              </Badge>
+            )}
+            {openBlockers.length > 0 && (
+              <Badge
+                variant="outline"
+                className="text-xs py-0 px-2 border-red-300 bg-red-50 text-red-700"
+                title={`Blocked by: ${openBlockers.map((blocker) => blocker.title).join(", ")}`}
+              >
+                <Lock className="h-2 w-2 mr-1" />
+                Blocked
+              </Badge>
+            )}
           </div>
           
           {(isOverdue || isDueSoon) && (
@@ -171,6 +176,10 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
 
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center gap-2 flex-1 min-w-0">
+            {taskKey && (
+              <span className="font-mono">{taskKey}</span>
+            )}
+
             {task.dueDate && (
               <div className="flex items-center gap-1">
                 <Calendar className="h-3 w-3" />
@@ -182,11 +191,29 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(({
                 </span>
               </div>
             )}
+
+            {recurrence && (
+              <div className="flex items-center" title={describeRecurrence(recurrence)}>
+                <Repeat className="h-3 w-3" />
+              </div>
+            )}
             
             <div className="flex items-center gap-1">
               <Clock className="h-3 w-3" />
               <span className="truncate">{format(new Date(task.createdAt), "MMM d")}</span>
             </div>
+
+            {task.progress && task.progress.total > 0 && (
+              <div
+                className={cn(
+                  "flex items-center gap-1",
+                  task.progress.completed === task.progress.total && "text-green-600"
+                )}
+              >
+                <ListChecks className="h-3 w-3" />
+                <span>{task.progress.completed}/{task.progress.total}</span>
+              </div>
+            )}
           </div>
 
           {!task.assignee && (
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ListChecks, Loader2, Plus, X } from "lucide-react";
+import { Task, TaskProgress, useTaskStore } from "@/stores/taskStore";
+import { cn } from "@/lib/utils";
+
+interface ChecklistItem {
+  id: string;
+  content: string;
+  isCompleted: boolean;
+}
+
+interface TaskChecklistProps {
+  task: Task;
+}
+
+export function TaskChecklist({ task }: TaskChecklistProps) {
+  const { updateTask } = useTaskStore();
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadChecklist = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/tasks/${task.id}/checklist`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch checklist: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        setItems(result.items || []);
+      } catch (err) {
+        console.error("Failed to load checklist:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadChecklist();
+  }, [task.id]);
+
+  const applyProgress = (progress: TaskProgress) => {
+    updateTask(task.id, { progress });
+  };
+
+  const handleAddItem = async () => {
+    const content = newItem.trim();
+    if (!content) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/checklist`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add checklist item");
+      }
+
+      setItems((current) => [...current, result.item]);
+      setNewItem("");
+      applyProgress(result.progress);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add checklist item";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleItem = async (item: ChecklistItem) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/checklist/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isCompleted: !item.isCompleted }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update checklist item");
+      }
+
+      setItems((current) => current.map((existing) => (existing.id === item.id ? result.item : existing)));
+      applyProgress(result.progress);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update checklist item";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/checklist/${itemId}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove checklist item");
+      }
+
+      setItems((current) => current.filter((existing) => existing.id !== itemId));
+      applyProgress(result.progress);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove checklist item";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const completedCount = items.filter((item) => item.isCompleted).length;
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <ListChecks className="h-3 w-3" />
+        Checklist
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground font-normal">
+            {completedCount}/{items.length}
+          </span>
+        )}
+      </Label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading checklist...
+        </div>
+      ) : (
+        <>
+          {items.length > 0 && (
+            <ul className="space-y-1">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                  <label className="flex items-center gap-2 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 flex-shrink-0"
+                      checked={item.isCompleted}
+                      disabled={isSaving}
+                      onChange={() => handleToggleItem(item)}
+                    />
+                    <span className={cn("truncate", item.isCompleted && "line-through text-muted-foreground")}>
+                      {item.content}
+                    </span>
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 flex-shrink-0"
+                    disabled={isSaving}
+                    onClick={() => handleRemoveItem(item.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Add an item"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAddItem();
+                }
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isSaving || !newItem.trim()}
+              onClick={handleAddItem}
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MentionAutocomplete } from "@/components/messages/MentionAutocomplete";
+import { Check, Edit2, Loader2, MessageSquare, Send, Smile, Trash2 } from "lucide-react";
+import { Task } from "@/stores/taskStore";
+import { useAuth } from "@/hooks/useAuth";
+import { useSocket } from "@/hooks/useSocket";
+import { canEditComment, groupReactions } from "@/lib/comments";
+import { cn } from "@/lib/utils";
+import { TaskComment } from "@/types/taskComments";
+
+interface TaskCommentsProps {
+  task: Task;
+}
+
+const popularEmojis = ['👍', '❤️', '😊', '🎉', '👏', '🔥'];
+
+// Matches an @mention being typed right before the cursor - names can contain spaces
+const MENTION_QUERY = /@([\w\s]*)$/;
+
+export function TaskComments({ task }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [content, setContent] = useState("");
+  // Members picked from the autocomplete; the server also resolves "@Name" in the text
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
+  const [showMentions, setShowMentions] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState("");
+  const [cursorPosition, setCursorPosition] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [reactingId, setReactingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const loadComments = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/tasks/${task.id}/comments`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch comments");
+        }
+
+        const result = await response.json();
+        setComments(result.comments || []);
+      } catch (err) {
+        console.error("Failed to load comments:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [task.id]);
+
+  const replaceComment = useCallback((comment: TaskComment) => {
+    setComments((current) =>
+      current.some((existing) => existing.id === comment.id)
+        ? current.map((existing) => (existing.id === comment.id ? comment : existing))
+        : [...current, comment]
+    );
+  }, []);
+
+  // Comments from other project members; updates may only carry the changed fields
+  const handleCommentCreate = useCallback((comment: TaskComment) => {
+    if (comment.taskId === task.id) {
+      replaceComment(comment);
+    }
+  }, [task.id, replaceComment]);
+
+  const handleCommentUpdate = useCallback((update: Partial<TaskComment> & { id: string; taskId: string }) => {
+    if (update.taskId !== task.id) return;
+    setComments((current) =>
+      current.map((existing) => (existing.id === update.id ? { ...existing, ...update } : existing))
+    );
+  }, [task.id]);
+
+  useSocket({
+    projectId: task.projectId,
+    onCommentCreate: handleCommentCreate,
+    onCommentUpdate: handleCommentUpdate,
+  });
+
+  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const newContent = e.target.value;
+    const cursorPos = e.target.selectionStart;
+
+    setContent(newContent);
+    setCursorPosition(cursorPos);
+
+    const mentionMatch = newContent.slice(0, cursorPos).match(MENTION_QUERY);
+    setShowMentions(!!mentionMatch);
+    setMentionQuery(mentionMatch ? mentionMatch[1] : "");
+  };
+
+  const handleMentionSelect = (member: { id: string; name: string }) => {
+    const beforeCursor = content.slice(0, cursorPosition);
+    const mentionMatch = beforeCursor.match(MENTION_QUERY);
+    if (!mentionMatch) return;
+
+    const beforeMention = beforeCursor.slice(0, mentionMatch.index);
+    setContent(`${beforeMention}@${member.name} ${content.slice(cursorPosition)}`);
+    setMentionIds((current) => (current.includes(member.id) ? current : [...current, member.id]));
+    setShowMentions(false);
+    setMentionQuery("");
+
+    // Focus back to textarea
+    setTimeout(() => {
+      if (textareaRef.current) {
+        const newCursorPos = beforeMention.length + member.name.length + 2;
+        textareaRef.current.focus();
+        textareaRef.current.setSelectionRange(newCursorPos, newCursorPos);
+      }
+    }, 0);
+  };
+
+  const handleSubmit = async () => {
+    if (!content.trim() || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: content.trim(), mentions: mentionIds }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add comment");
+      }
+
+      replaceComment(result.comment);
+      setContent("");
+      setMentionIds([]);
+      setShowMentions(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add comment";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async (comment: TaskComment) => {
+    if (!editContent.trim() || editContent.trim() === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/comments/${comment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: editContent.trim() }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update comment");
+      }
+
+      replaceComment(result.comment);
+      setEditingId(null);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update comment";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm("Delete this comment?")) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/comments/${comment.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete comment");
+      }
+
+      replaceComment(result.comment);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete comment";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReaction = async (comment: TaskComment, emoji: string) => {
+    setReactingId(null);
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/comments/${comment.id}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emoji }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to react");
+      }
+
+      setComments((current) =>
+        current.map((existing) => {
+          if (existing.id !== comment.id) return existing;
+          const reactions = result.removed
+            ? existing.reactions.filter((reaction) => !(reaction.userId === user?.id && reaction.emoji === emoji))
+            : [...existing.reactions, result.reaction];
+          return { ...existing, reactions };
+        })
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to react";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading comments...
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+          <MessageSquare className="h-5 w-5" />
+          No comments yet
+        </div>
+      ) : (
+        <ul className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {comments.map((comment) => (
+            <li key={comment.id} className="flex gap-2 group">
+              <Avatar className="h-7 w-7 flex-shrink-0">
+                <AvatarImage src={comment.author.avatarUrl} alt={comment.author.name} />
+                <AvatarFallback className="text-xs">
+                  {comment.author.name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-medium text-sm">{comment.author.name}</span>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                  </span>
+                  {comment.isEdited && !comment.deletedAt && (
+                    <Badge variant="outline" className="text-xs">edited</Badge>
+                  )}
+
+                  {!comment.deletedAt && (
+                    <div className="ml-auto flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Add reaction"
+                        onClick={() => setReactingId(reactingId === comment.id ? null : comment.id)}
+                      >
+                        <Smile className="h-3 w-3" />
+                      </Button>
+                      {canEditComment(comment, user?.id) && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Edit"
+                          onClick={() => {
+                            setEditingId(comment.id);
+                            setEditContent(comment.content);
+                          }}
+                        >
+                          <Edit2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {comment.authorId === user?.id && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-destructive"
+                          title="Delete"
+                          disabled={isSaving}
+                          onClick={() => handleDelete(comment)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      className="min-h-[60px]"
+                    />
+                    <div className="flex gap-2">
+                      <Button type="button" size="sm" disabled={isSaving} onClick={() => handleSaveEdit(comment)}>
+                        <Check className="h-3 w-3 mr-1" />
+                        Save
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className={cn(
+                    "text-sm whitespace-pre-wrap break-words",
+                    comment.deletedAt && "italic text-muted-foreground"
+                  )}>
+                    {comment.content}
+                  </p>
+                )}
+
+                {comment.reactions.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {groupReactions(comment, user?.id).map((group) => (
+                      <Badge
+                        key={group.emoji}
+                        variant={group.reacted ? "secondary" : "outline"}
+                        className="text-xs cursor-pointer hover:bg-accent"
+                        title={group.users.join(", ")}
+                        onClick={() => !comment.deletedAt && handleReaction(comment, group.emoji)}
+                      >
+                        {group.emoji} {group.count}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {reactingId === comment.id && (
+                  <div className="flex gap-1">
+                    {popularEmojis.map((emoji) => (
+                      <Button
+                        key={emoji}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleReaction(comment, emoji)}
+                      >
+                        {emoji}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative space-y-2">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={handleContentChange}
+          onKeyDown={(e) => {
+            // Post on Ctrl/Cmd + Enter
+            if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+              e.preventDefault();
+              handleSubmit();
+            }
+            if (e.key === "Escape" && showMentions) {
+              e.stopPropagation();
+              setShowMentions(false);
+            }
+          }}
+          placeholder="Write a comment... Use @ to mention someone"
+          className="min-h-[60px]"
+          maxLength={2000}
+        />
+
+        {showMentions && (
+          <div className="absolute bottom-full left-0 right-0 z-10 mb-1">
+            <MentionAutocomplete
+              query={mentionQuery}
+              projectId={task.projectId}
+              onSelect={handleMentionSelect}
+              onClose={() => setShowMentions(false)}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="button" size="sm" disabled={isSaving || !content.trim()} onClick={handleSubmit}>
+            {isSaving ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Send className="h-3 w-3 mr-1" />
+            )}
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
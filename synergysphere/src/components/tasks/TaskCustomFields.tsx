@@ -0,0 +1,104 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CustomField, CustomFieldValue } from "@/types/customFields";
+
+interface TaskCustomFieldsProps {
+  fields: CustomField[];
+  // Values keyed by field id; null marks a value cleared in the form
+  values: Record<string, CustomFieldValue | null>;
+  onChange: (fieldId: string, value: CustomFieldValue | null) => void;
+  projectMembers?: Array<{
+    id: string;
+    name: string;
+  }>;
+}
+
+const NONE = "__none__";
+
+export function TaskCustomFields({ fields, values, onChange, projectMembers = [] }: TaskCustomFieldsProps) {
+  if (fields.length === 0) return null;
+
+  const renderInput = (field: CustomField) => {
+    const value = values[field.id] ?? null;
+
+    switch (field.type) {
+      case "number":
+        return (
+          <Input
+            id={`field-${field.id}`}
+            type="number"
+            placeholder="Optional"
+            value={value ?? ""}
+            onChange={(e) => onChange(field.id, e.target.value === "" ? null : parseFloat(e.target.value))}
+          />
+        );
+      case "date":
+        return (
+          <DatePicker
+            date={value ? parseISO(String(value)) : undefined}
+            onDateChange={(date) => onChange(field.id, date ? format(date, "yyyy-MM-dd") : null)}
+            placeholder="Optional"
+          />
+        );
+      case "select":
+      case "user":
+        return (
+          <Select
+            value={value === null ? NONE : String(value)}
+            onValueChange={(selected) => onChange(field.id, selected === NONE ? null : selected)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>
+                <span className="text-muted-foreground">None</span>
+              </SelectItem>
+              {field.type === "select"
+                ? field.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))
+                : projectMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            id={`field-${field.id}`}
+            placeholder="Optional"
+            value={value ?? ""}
+            onChange={(e) => onChange(field.id, e.target.value === "" ? null : e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`field-${field.id}`}>{field.name}</Label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+}
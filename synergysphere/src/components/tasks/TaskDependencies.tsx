@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, X } from "lucide-react";
+import { Task, TaskBlocker, useTaskStore } from "@/stores/taskStore";
+import { cn } from "@/lib/utils";
+import { findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { StatusBadge } from "./StatusBadge";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+export function TaskDependencies({ task }: TaskDependenciesProps) {
+  const { tasks, workflowStates, updateTask } = useTaskStore();
+  const [blockedBy, setBlockedBy] = useState<TaskBlocker[]>(task.blockedBy || []);
+  const [blocking, setBlocking] = useState<TaskBlocker[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadDependencies = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/tasks/${task.id}/dependencies`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch dependencies: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        setBlockedBy(result.blockedBy || []);
+        setBlocking(result.blocking || []);
+      } catch (err) {
+        console.error("Failed to load task dependencies:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDependencies();
+  }, [task.id]);
+
+  const applyBlockers = (blockers: TaskBlocker[]) => {
+    setBlockedBy(blockers);
+    updateTask(task.id, { blockedBy: blockers });
+  };
+
+  const handleAddBlocker = async (blockedById: string) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/dependencies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blockedById }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add blocker");
+      }
+
+      applyBlockers(result.blockedBy);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add blocker";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveBlocker = async (blockerId: string) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/dependencies/${blockerId}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove blocker");
+      }
+
+      applyBlockers(result.blockedBy);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove blocker";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Cycles are rejected by the API; here we only hide tasks that obviously can't be added
+  const candidates = tasks.filter(
+    (candidate) =>
+      candidate.projectId === task.projectId &&
+      candidate.id !== task.id &&
+      !blockedBy.some((blocker) => blocker.id === candidate.id)
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Lock className="h-3 w-3" />
+        Blocked by
+      </Label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading dependencies...
+        </div>
+      ) : (
+        <>
+          {blockedBy.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No blockers</p>
+          ) : (
+            <ul className="space-y-1">
+              {blockedBy.map((blocker) => {
+                const workflowState = findWorkflowState(workflowStates, blocker.status);
+                return (
+                  <li key={blocker.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className={cn("truncate", isDoneStatus(workflowStates, blocker.status) && "line-through text-muted-foreground")}>
+                      {blocker.title}
+                    </span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <StatusBadge
+                        name={workflowState?.name || blocker.status}
+                        color={workflowState?.color}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        disabled={isSaving}
+                        onClick={() => handleRemoveBlocker(blocker.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {candidates.length > 0 && (
+            <Select value="" onValueChange={handleAddBlocker} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a blocking task" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {blocking.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Blocks: {blocking.map((blocked) => blocked.title).join(", ")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
   Select,
@@ -18,14 +17,21 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Search, Filter, X, User } from "lucide-react";
+import { Filter, X, User } from "lucide-react";
 import { Task, TaskFilters as TaskFiltersType } from "@/stores/taskStore";
 import { cn } from "@/lib/utils";
+import { TaskLabel } from "@/types/labels";
+import { WorkflowState } from "@/types/workflow";
+import { StatusBadge } from "./StatusBadge";
+import { LabelPicker } from "./LabelPicker";
+import { TaskQueryInput } from "./TaskQueryInput";
 
 interface TaskFiltersProps {
   filters: TaskFiltersType;
   onFiltersChange: (filters: Partial<TaskFiltersType>) => void;
   onClearFilters: () => void;
+  workflowStates: WorkflowState[];
+  labels?: TaskLabel[];
   projectMembers?: Array<{
     id: string;
     name: string;
@@ -42,21 +48,22 @@ const priorityConfig = {
   URGENT: { label: "Urgent", className: "bg-red-100 text-red-800" },
 };
 
-const statusConfig = {
-  TODO: { label: "To Do", className: "bg-gray-100 text-gray-800" },
-  IN_PROGRESS: { label: "In Progress", className: "bg-blue-100 text-blue-800" },
-  DONE: { label: "Done", className: "bg-green-100 text-green-800" },
-};
-
 export function TaskFilters({
   filters,
   onFiltersChange,
   onClearFilters,
+  workflowStates,
+  labels = [],
   projectMembers = [],
   className,
 }: TaskFiltersProps) {
   const [searchQuery, setSearchQuery] = useState(filters.search || "");
 
+  // Filters can also change from outside, e.g. when a saved view is opened
+  useEffect(() => {
+    setSearchQuery(filters.search || "");
+  }, [filters.search]);
+
   const handleSearchChange = (value: string) => {
     setSearchQuery(value);
     onFiltersChange({ search: value || undefined });
@@ -80,11 +87,18 @@ export function TaskFilters({
     });
   };
 
+  const handleLabelsChange = (labelIds: string[]) => {
+    onFiltersChange({
+      labelIds: labelIds.length > 0 ? labelIds : undefined
+    });
+  };
+
   const getActiveFiltersCount = () => {
     let count = 0;
     if (filters.status) count++;
     if (filters.priority) count++;
     if (filters.assigneeId) count++;
+    if (filters.labelIds?.length) count++;
     if (filters.search) count++;
     return count;
   };
@@ -94,15 +108,17 @@ export function TaskFilters({
 
   return (
     <div className={cn("flex items-center gap-4", className)}>
-      <div className="flex-1 relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-        <Input
-          placeholder="Search tasks..."
-          value={searchQuery}
-          onChange={(e) => handleSearchChange(e.target.value)}
-          className="pl-9"
-        />
-      </div>
+      <TaskQueryInput
+        className="flex-1"
+        value={searchQuery}
+        onChange={handleSearchChange}
+        values={{
+          assignee: projectMembers.map(member => member.name),
+          creator: projectMembers.map(member => member.name),
+          status: workflowStates.map(state => state.key),
+          label: labels.map(label => label.name),
+        }}
+      />
 
       <div className="flex items-center gap-2">
         <Popover>
@@ -143,15 +159,10 @@ export function TaskFilters({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="ALL">All Statuses</SelectItem>
-                    {Object.entries(statusConfig).map(([key, config]) => (
-                      <SelectItem key={key} value={key}>
+                    {workflowStates.map((state) => (
+                      <SelectItem key={state.key} value={state.key}>
                         <div className="flex items-center gap-2">
-                          <Badge 
-                            variant="outline" 
-                            className={cn("text-xs", config.className)}
-                          >
-                            {config.label}
-                          </Badge>
+                          <StatusBadge name={state.name} color={state.color} />
                         </div>
                       </SelectItem>
                     ))}
@@ -241,6 +252,15 @@ export function TaskFilters({
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label>Labels</Label>
+                <LabelPicker
+                  labels={labels}
+                  selectedIds={filters.labelIds || []}
+                  onChange={handleLabelsChange}
+                />
+              </div>
             </div>
           </PopoverContent>
         </Popover>
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { History, Loader2 } from "lucide-react";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { formatCustomFieldValue } from "@/lib/customFields";
+import { formatEstimate } from "@/lib/estimates";
+import { describeRecurrence, parseRecurrenceRule } from "@/lib/recurrence";
+import { findWorkflowState } from "@/lib/workflow";
+import { TaskHistoryEntry } from "@/types/taskHistory";
+import { WorkflowState } from "@/types/workflow";
+
+interface TaskHistoryProps {
+  task: Task;
+  workflowStates: WorkflowState[];
+  projectMembers: Array<{ id: string; name: string }>;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  assigneeId: "assignee",
+  startDate: "start date",
+  dueDate: "due date",
+  estimate: "estimate",
+  recurrenceRule: "repeat",
+  sprintId: "sprint",
+  milestoneId: "milestone",
+  labels: "labels",
+  project: "project",
+};
+
+export function TaskHistory({ task, workflowStates, projectMembers }: TaskHistoryProps) {
+  const estimationUnit = useTaskStore((state) => state.estimationUnit);
+  const customFields = useTaskStore((state) => state.customFields);
+  const sprints = useTaskStore((state) => state.sprints);
+  const milestones = useTaskStore((state) => state.milestones);
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/tasks/${task.id}/history`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch task history");
+        }
+
+        const result = await response.json();
+        setHistory(result.history || []);
+      } catch (err) {
+        console.error("Failed to load task history:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    // Reload after the task is saved
+  }, [task.id, task.updatedAt]);
+
+  const getCustomField = (field: string) =>
+    field.startsWith("customField:")
+      ? customFields.find((customField) => customField.id === field.slice("customField:".length))
+      : undefined;
+
+  const getFieldLabel = (field: string) =>
+    fieldLabels[field] || getCustomField(field)?.name || "a custom field";
+
+  const formatValue = (field: string, value: string) => {
+    switch (field) {
+      case "status":
+        return findWorkflowState(workflowStates, value)?.name || value;
+      case "priority":
+        return value.charAt(0) + value.slice(1).toLowerCase();
+      case "assigneeId":
+        return projectMembers.find((member) => member.id === value)?.name || "a former member";
+      case "startDate":
+      case "dueDate":
+        return format(new Date(value), "MMM d, yyyy");
+      case "estimate":
+        return formatEstimate(parseFloat(value), estimationUnit);
+      case "recurrenceRule": {
+        const rule = parseRecurrenceRule(value);
+        return rule ? describeRecurrence(rule) : value;
+      }
+      case "sprintId":
+        return sprints.find((sprint) => sprint.id === value)?.name || "a deleted sprint";
+      case "milestoneId":
+        return milestones.find((milestone) => milestone.id === value)?.title || "a deleted milestone";
+    }
+
+    const customField = getCustomField(field);
+    if (customField) {
+      return formatCustomFieldValue(
+        customField,
+        customField.type === "number" ? parseFloat(value) : value,
+        projectMembers
+      );
+    }
+    return value;
+  };
+
+  // "changed the due date from Mar 3, 2025 to Mar 10, 2025"
+  const describeChange = (entry: TaskHistoryEntry) => {
+    const label = getFieldLabel(entry.field);
+
+    // Long text is not worth repeating in the timeline
+    if (entry.field === "description") {
+      return entry.newValue ? "updated the description" : "removed the description";
+    }
+    if (entry.field === "sprintId" && entry.newValue === null) {
+      return `moved it to the backlog from ${formatValue(entry.field, entry.oldValue!)}`;
+    }
+    if (entry.newValue === null) {
+      return `cleared the ${label} (was ${formatValue(entry.field, entry.oldValue!)})`;
+    }
+    if (entry.oldValue === null) {
+      return `set the ${label} to ${formatValue(entry.field, entry.newValue)}`;
+    }
+    return `changed the ${label} from ${formatValue(entry.field, entry.oldValue)} to ${formatValue(entry.field, entry.newValue)}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading activity...
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+        <History className="h-5 w-5" />
+        No changes yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-4 ml-3 max-h-[60vh] overflow-y-auto">
+      {history.map((entry) => (
+        <li key={entry.id} className="relative">
+          <Avatar className="absolute -left-[27px] h-5 w-5 ring-2 ring-background">
+            <AvatarImage src={entry.actor?.avatarUrl || undefined} alt={entry.actor?.name} />
+            <AvatarFallback className="text-[10px]">
+              {entry.actor?.name.charAt(0).toUpperCase() || "?"}
+            </AvatarFallback>
+          </Avatar>
+          <p className="text-sm">
+            <span className="font-medium">{entry.actor?.name || "Someone"}</span>{" "}
+            {describeChange(entry)}
+          </p>
+          <p
+            className="text-xs text-muted-foreground"
+            title={format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}
+          >
+            {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDownUp, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Task } from "@/stores/taskStore";
+import { WorkflowState } from "@/types/workflow";
+import { TaskImportWizard } from "./TaskImportWizard";
+
+interface TaskImportExportMenuProps {
+  projectId: string;
+  workflowStates: WorkflowState[];
+  onImported: (tasks: Task[]) => void;
+}
+
+export function TaskImportExportMenu({ projectId, workflowStates, onImported }: TaskImportExportMenuProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const exportUrl = `/api/projects/${projectId}/tasks/export`;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" title="Import and export">
+            <ArrowDownUp className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setIsImporting(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <a href={`${exportUrl}?format=csv`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <a href={`${exportUrl}?format=json`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export JSON
+            </a>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <TaskImportWizard
+        projectId={projectId}
+        workflowStates={workflowStates}
+        isOpen={isImporting}
+        onClose={() => setIsImporting(false)}
+        onImported={onImported}
+      />
+    </>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { parseCsv } from "@/lib/csv";
+import { MAX_IMPORT_ROWS, TASK_IMPORT_FIELDS, guessColumnMapping, toTaskImportRows } from "@/lib/taskImport";
+import { findWorkflowState } from "@/lib/workflow";
+import { Task } from "@/stores/taskStore";
+import { TaskImportField, TaskImportRowResult } from "@/types/taskImport";
+import { WorkflowState } from "@/types/workflow";
+
+interface TaskImportWizardProps {
+  projectId: string;
+  workflowStates: WorkflowState[];
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (tasks: Task[]) => void;
+}
+
+type ImportStep = "upload" | "map" | "preview";
+
+const SKIP_COLUMN = "skip";
+
+// Upload a CSV, map its columns to task fields, check every row, then import
+export function TaskImportWizard({ projectId, workflowStates, isOpen, onClose, onImported }: TaskImportWizardProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(TaskImportField | null)[]>([]);
+  const [results, setResults] = useState<TaskImportRowResult[]>([]);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const invalidCount = results.filter((result) => result.errors.length > 0).length;
+  const validCount = results.length - invalidCount;
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setResults([]);
+    setSkipInvalidRows(false);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error("The file needs a header row and at least one task");
+      return;
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      toast.error(`Import at most ${MAX_IMPORT_ROWS} tasks at a time; this file has ${dataRows.length}`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessColumnMapping(headerRow));
+    setStep("map");
+  };
+
+  const setColumnField = (index: number, value: string) => {
+    const field = value === SKIP_COLUMN ? null : (value as TaskImportField);
+    // A field goes to one column, so taking it clears it elsewhere
+    setMapping((current) =>
+      current.map((existing, i) => (i === index ? field : existing === field ? null : existing))
+    );
+  };
+
+  const postRows = async (importRows: ReturnType<typeof toTaskImportRows>, dryRun: boolean) => {
+    const response = await fetch(`/api/projects/${projectId}/tasks/import`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rows: importRows, dryRun }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to import tasks");
+    }
+    return result;
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsChecking(true);
+      const result = await postRows(toTaskImportRows(rows, mapping), true);
+      setResults(result.results);
+      setStep("preview");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to check tasks";
+      toast.error(errorMessage);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const importRows = toTaskImportRows(rows, mapping).filter(
+      (_, index) => !skipInvalidRows || results[index]?.errors.length === 0
+    );
+
+    try {
+      setIsImporting(true);
+      const result = await postRows(importRows, false);
+      toast.success(`Imported ${result.tasks.length} ${result.tasks.length === 1 ? "task" : "tasks"}`);
+      onImported(result.tasks);
+      reset();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to import tasks";
+      toast.error(errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport = validCount > 0 && (invalidCount === 0 || skipInvalidRows);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import tasks</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file with a header row, such as a task export."}
+            {step === "map" && `Choose the task field for each column of ${fileName} (${rows.length} ${rows.length === 1 ? "row" : "rows"}).`}
+            {step === "preview" && "Nothing is imported until you confirm. Assignees are matched by email against project members."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="taskImportFile">CSV file</Label>
+            <Input
+              id="taskImportFile"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {headers.map((header, index) => (
+              <div key={index} className="grid grid-cols-2 items-center gap-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{header || `Column ${index + 1}`}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {rows.slice(0, 3).map((row) => row[index]).filter(Boolean).join(", ") || "Empty"}
+                  </p>
+                </div>
+                <Select value={mapping[index] ?? SKIP_COLUMN} onValueChange={(value) => setColumnField(index, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP_COLUMN}>Don&apos;t import</SelectItem>
+                    {TASK_IMPORT_FIELDS.map((field) => (
+                      <SelectItem key={field.value} value={field.value}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {!mapping.includes("title") && (
+              <p className="text-sm text-destructive">Map a column to Title to continue.</p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {validCount} {validCount === 1 ? "task is" : "tasks are"} ready to import
+              {invalidCount > 0 && `, ${invalidCount} ${invalidCount === 1 ? "row has" : "rows have"} errors`}.
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted text-left">
+                  <tr>
+                    <th className="p-2 font-medium">Row</th>
+                    <th className="p-2 font-medium">Task</th>
+                    <th className="p-2 font-medium">Status</th>
+                    <th className="p-2 font-medium">Assignee</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr key={result.row} className="border-t align-top">
+                      <td className="p-2 text-muted-foreground">{result.row}</td>
+                      {result.task ? (
+                        <>
+                          <td className="p-2">{result.task.title}</td>
+                          <td className="p-2">
+                            {findWorkflowState(workflowStates, result.task.status)?.name ?? result.task.status}
+                          </td>
+                          <td className="p-2">{result.task.assignee?.name ?? "Unassigned"}</td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="p-2 text-destructive">
+                          {result.errors.join(". ")}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {invalidCount > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="skipInvalidRows" checked={skipInvalidRows} onCheckedChange={setSkipInvalidRows} />
+                <Label htmlFor="skipInvalidRows">Skip rows with errors</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="ghost"
+              onClick={() => setStep(step === "preview" ? "map" : "upload")}
+              disabled={isChecking || isImporting}
+            >
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={handlePreview} disabled={isChecking || !mapping.includes("title")}>
+              {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button onClick={handleImport} disabled={isImporting || !canImport}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import {skipInvalidRows ? validCount : results.length} {(skipInvalidRows ? validCount : results.length) === 1 ? "task" : "tasks"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
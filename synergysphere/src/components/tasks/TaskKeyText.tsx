@@ -0,0 +1,35 @@
+"use client";
+
+import Link from "next/link";
+import { useProjectKeys } from "@/hooks/useProjectKeys";
+import { getTaskKeyUrl, splitTaskKeys } from "@/lib/taskKeys";
+
+interface TaskKeyTextProps {
+  text: string;
+}
+
+// Plain text with task keys of the user's projects (e.g. WEB-142) linked to the task
+export function TaskKeyText({ text }: TaskKeyTextProps) {
+  const projectKeys = useProjectKeys();
+
+  return (
+    <>
+      {splitTaskKeys(text, projectKeys).map((segment, index) =>
+        typeof segment === "string" ? (
+          segment
+        ) : (
+          <Link
+            key={index}
+            href={getTaskKeyUrl(segment.key)}
+            className="font-mono text-primary hover:underline"
+            // Keep the click from also dragging or opening the card around the text
+            onClick={(event) => event.stopPropagation()}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            {segment.key}
+          </Link>
+        )
+      )}
+    </>
+  );
+}
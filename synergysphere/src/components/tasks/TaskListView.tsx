@@ -0,0 +1,169 @@
+"use client";
+
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { TaskSelection } from "@/hooks/useTaskSelection";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { formatTaskKey } from "@/lib/taskKeys";
+import { SwimlaneField, getSwimlanes } from "@/lib/swimlanes";
+import { cn } from "@/lib/utils";
+import { findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { WorkflowState } from "@/types/workflow";
+import { StatusBadge } from "./StatusBadge";
+
+export const TASK_LIST_SORTS = [
+  { value: "position", label: "Board order" },
+  { value: "dueDate", label: "Due date" },
+  { value: "priority", label: "Priority" },
+  { value: "updatedAt", label: "Recently updated" },
+  { value: "title", label: "Title" },
+];
+
+const priorityOrder = { LOW: 0, MEDIUM: 1, HIGH: 2, URGENT: 3 };
+
+const priorityColors = {
+  LOW: "bg-blue-100 text-blue-800",
+  MEDIUM: "bg-yellow-100 text-yellow-800",
+  HIGH: "bg-orange-100 text-orange-800",
+  URGENT: "bg-red-100 text-red-800",
+};
+
+interface TaskListViewProps {
+  tasks: Task[];
+  workflowStates: WorkflowState[];
+  sort: string;
+  // Splits the list into sections, like swimlanes on the board
+  groupBy?: SwimlaneField | null;
+  projectMembers?: Array<{ id: string; name: string }>;
+  // Shows checkboxes for bulk actions
+  selection?: TaskSelection;
+  onOpenTask: (task: Task) => void;
+}
+
+export function TaskListView({
+  tasks,
+  workflowStates,
+  sort,
+  groupBy = null,
+  projectMembers,
+  selection,
+  onOpenTask,
+}: TaskListViewProps) {
+  const projectKey = useTaskStore((state) => state.projectKey);
+
+  const compareTasks = (a: Task, b: Task) => {
+    switch (sort) {
+      case "dueDate":
+        if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+      case "priority":
+        return priorityOrder[b.priority] - priorityOrder[a.priority];
+      case "updatedAt":
+        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      case "title":
+        return a.title.localeCompare(b.title);
+      default: {
+        // Board order: by column, then by rank within the column
+        const columnA = workflowStates.findIndex((state) => state.key === a.status);
+        const columnB = workflowStates.findIndex((state) => state.key === b.status);
+        return columnA - columnB || (a.position ?? 0) - (b.position ?? 0);
+      }
+    }
+  };
+
+  const sortedTasks = [...tasks].sort(compareTasks);
+  const sections = groupBy
+    ? getSwimlanes(sortedTasks, groupBy, projectMembers).filter((lane) => lane.tasks.length > 0)
+    : [{ id: "all", label: "", tasks: sortedTasks }];
+  // Display order, for shift-click ranges
+  const orderedIds = sections.flatMap((section) => section.tasks.map((task) => task.id));
+
+  if (tasks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-muted-foreground">
+          No tasks found matching your criteria.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {selection && (
+        <label className="flex w-fit cursor-pointer items-center gap-2 px-4 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={selection.isAllSelected}
+            onChange={selection.toggleAll}
+          />
+          Select all
+        </label>
+      )}
+      {sections.map((section) => (
+        <div key={section.id} className="space-y-2">
+          {groupBy && (
+            <h3 className="text-sm font-medium">
+              {section.label}{" "}
+              <span className="text-xs text-muted-foreground">{section.tasks.length}</span>
+            </h3>
+          )}
+          <div className="divide-y rounded-lg border">
+            {section.tasks.map((task) => {
+              const state = findWorkflowState(workflowStates, task.status);
+              const taskKey = formatTaskKey(projectKey, task.number);
+              return (
+                <div
+                  key={task.id}
+                  className={cn(
+                    "flex items-center gap-3 px-4 hover:bg-muted/50",
+                    selection?.isSelected(task.id) && "bg-muted/50"
+                  )}
+                >
+                  {selection && (
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 shrink-0"
+                      aria-label={`Select ${task.title}`}
+                      checked={selection.isSelected(task.id)}
+                      onChange={(e) =>
+                        selection.toggle(task.id, (e.nativeEvent as MouseEvent).shiftKey ? orderedIds : undefined)
+                      }
+                    />
+                  )}
+                  <button
+                    type="button"
+                    className="flex min-w-0 flex-1 items-center gap-3 py-2 text-left text-sm"
+                    onClick={() => onOpenTask(task)}
+                  >
+                    {taskKey && <span className="w-20 shrink-0 font-mono text-xs text-muted-foreground">{taskKey}</span>}
+                    <span
+                      className={cn(
+                        "flex-1 truncate",
+                        isDoneStatus(workflowStates, task.status) && "text-muted-foreground line-through"
+                      )}
+                    >
+                      {task.title}
+                    </span>
+                    <StatusBadge name={state?.name || task.status} color={state?.color} />
+                    <Badge variant="secondary" className={cn("text-xs", priorityColors[task.priority])}>
+                      {task.priority}
+                    </Badge>
+                    <span className="hidden w-32 truncate text-xs text-muted-foreground sm:block">
+                      {task.assignee?.name || "Unassigned"}
+                    </span>
+                    <span className="w-16 text-right text-xs text-muted-foreground">
+                      {task.dueDate ? format(task.dueDate, "MMM d") : ""}
+                    </span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
 import { z } from "zod";
 import {
   Dialog,
@@ -25,17 +26,42 @@ import {
 import { DatePicker } from "@/components/ui/date-picker";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, User } from "lucide-react";
-import { Task } from "@/stores/taskStore";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { TaskDependencies } from "./TaskDependencies";
+import { TaskSubtasks } from "./TaskSubtasks";
+import { TaskChecklist } from "./TaskChecklist";
+import { TaskTimeTracking } from "./TaskTimeTracking";
+import { formatTaskKey } from "@/lib/taskKeys";
 import { cn } from "@/lib/utils";
+import { WorkflowState } from "@/types/workflow";
+import { StatusBadge } from "./StatusBadge";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { LabelPicker } from "./LabelPicker";
+import { TaskCustomFields } from "./TaskCustomFields";
+import { TaskComments } from "./TaskComments";
+import { TaskHistory } from "./TaskHistory";
+import { TaskWatchButton } from "./TaskWatchButton";
+import { TaskProjectActions } from "./TaskProjectActions";
 
 const taskFormSchema = z.object({
   title: z.string().min(1, "Task title is required"),
   description: z.string().optional(),
   assigneeId: z.string().optional(),
-  status: z.enum(["TODO", "IN_PROGRESS", "DONE"]),
+  status: z.string().min(1, "Status is required"),
   priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]),
+  startDate: z.date().optional(),
   dueDate: z.date().optional(),
+  recurrenceRule: z.string().nullable().optional(),
+  estimate: z.number().positive("Estimate must be positive").nullable().optional(),
+  milestoneId: z.string().nullable().optional(),
+  labelIds: z.array(z.string()).optional(),
+  // Keyed by field id; null clears a value
+  customFields: z.record(z.string(), z.union([z.string(), z.number()]).nullable()).optional(),
+}).refine((data) => !data.startDate || !data.dueDate || data.startDate <= data.dueDate, {
+  message: "Start date must be on or before the due date",
+  path: ["startDate"],
 });
 
 type TaskFormData = z.infer<typeof taskFormSchema>;
@@ -45,6 +71,9 @@ interface TaskModalProps {
   onClose: () => void;
   onSubmit: (data: TaskFormData) => Promise<void>;
   task?: Task;
+  workflowStates: WorkflowState[];
+  // Status for new tasks; defaults to the first workflow state
+  defaultStatus?: Task["status"];
   projectMembers?: Array<{
     id: string;
     name: string;
@@ -52,8 +81,16 @@ interface TaskModalProps {
     avatarUrl?: string;
   }>;
   isLoading?: boolean;
+  // Projects an existing task can be moved or duplicated to, including its own
+  projects?: Array<{ id: string; name: string }>;
+  onTaskMoved?: (task: Task) => void;
+  onTaskDuplicated?: (task: Task) => void;
+  // "New from template" controls, shown above the form for new tasks
+  templatePicker?: React.ReactNode;
 }
 
+const NO_MILESTONE = "none";
+
 const priorityConfig = {
   LOW: { label: "Low", className: "bg-blue-100 text-blue-800" },
   MEDIUM: { label: "Medium", className: "bg-yellow-100 text-yellow-800" },
@@ -61,21 +98,29 @@ const priorityConfig = {
   URGENT: { label: "Urgent", className: "bg-red-100 text-red-800" },
 };
 
-const statusConfig = {
-  TODO: { label: "To Do", className: "bg-gray-100 text-gray-800" },
-  IN_PROGRESS: { label: "In Progress", className: "bg-blue-100 text-blue-800" },
-  DONE: { label: "Done", className: "bg-green-100 text-green-800" },
-};
-
 export function TaskModal({
   isOpen,
   onClose,
   onSubmit,
   task,
+  workflowStates,
+  defaultStatus,
   projectMembers = [],
   isLoading = false,
+  projects,
+  onTaskMoved,
+  onTaskDuplicated,
+  templatePicker,
 }: TaskModalProps) {
+  const [selectedStartDate, setSelectedStartDate] = useState<Date | undefined>();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const estimationUnit = useTaskStore((state) => state.estimationUnit);
+  const labels = useTaskStore((state) => state.labels);
+  const customFields = useTaskStore((state) => state.customFields);
+  const milestones = useTaskStore((state) => state.milestones);
+  const projectKey = useTaskStore((state) => state.projectKey);
+  const taskKey = task ? formatTaskKey(projectKey, task.number) : null;
+  const initialStatus = defaultStatus || workflowStates[0]?.key || "";
 
   const {
     register,
@@ -89,7 +134,7 @@ export function TaskModal({
     defaultValues: {
       title: "",
       description: "",
-      status: "TODO",
+      status: initialStatus,
       priority: "MEDIUM",
     },
   });
@@ -97,6 +142,11 @@ export function TaskModal({
   const watchedAssigneeId = watch("assigneeId");
   const watchedStatus = watch("status");
   const watchedPriority = watch("priority");
+  const watchedRecurrenceRule = watch("recurrenceRule");
+  const watchedEstimate = watch("estimate");
+  const watchedLabelIds = watch("labelIds");
+  const watchedMilestoneId = watch("milestoneId");
+  const watchedCustomFields = watch("customFields");
 
   useEffect(() => {
     if (task) {
@@ -106,18 +156,34 @@ export function TaskModal({
         assigneeId: task.assigneeId || "",
         status: task.status,
         priority: task.priority,
+        recurrenceRule: task.recurrenceRule ?? null,
+        estimate: task.estimate ?? null,
+        milestoneId: task.milestoneId ?? null,
+        labelIds: task.labels?.map((label) => label.id) || [],
+        customFields: { ...task.customFields },
       });
+      setSelectedStartDate(task.startDate ? new Date(task.startDate) : undefined);
       setSelectedDate(task.dueDate ? new Date(task.dueDate) : undefined);
     } else {
       reset({
         title: "",
         description: "",
-        status: "TODO",
+        status: initialStatus,
         priority: "MEDIUM",
+        recurrenceRule: null,
+        estimate: null,
+        milestoneId: null,
+        labelIds: [],
+        customFields: {},
       });
+      setSelectedStartDate(undefined);
       setSelectedDate(undefined);
     }
-  }, [task, reset]);
+  }, [task, initialStatus, reset]);
+
+  useEffect(() => {
+    setValue("startDate", selectedStartDate);
+  }, [selectedStartDate, setValue]);
 
   useEffect(() => {
     setValue("dueDate", selectedDate);
@@ -134,169 +200,296 @@ export function TaskModal({
 
   const selectedAssignee = projectMembers.find(member => member.id === watchedAssigneeId);
 
-  return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>{task ? "Edit Task" : "Create New Task"}</DialogTitle>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Title *</Label>
-            <Input
-              id="title"
-              placeholder="Enter task title"
-              {...register("title")}
-              className={errors.title ? "border-destructive" : ""}
-            />
-            {errors.title && (
-              <p className="text-sm text-destructive">{errors.title.message}</p>
-            )}
-          </div>
+  // Comments and activity live outside the form; new tasks have neither yet
+  const detailsForm = (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          placeholder="Enter task title"
+          {...register("title")}
+          className={errors.title ? "border-destructive" : ""}
+        />
+        {errors.title && (
+          <p className="text-sm text-destructive">{errors.title.message}</p>
+        )}
+      </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              placeholder="Enter task description (optional)"
-              className="min-h-20"
-              {...register("description")}
-            />
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Enter task description (optional)"
+          className="min-h-20"
+          {...register("description")}
+        />
+      </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Status</Label>
-              <Select
-                value={watchedStatus}
-                onValueChange={(value: Task["status"]) => setValue("status", value)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.entries(statusConfig).map(([key, config]) => (
-                    <SelectItem key={key} value={key}>
-                      <div className="flex items-center gap-2">
-                        <Badge 
-                          variant="outline" 
-                          className={cn("text-xs", config.className)}
-                        >
-                          {config.label}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={watchedStatus}
+            onValueChange={(value: Task["status"]) => setValue("status", value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workflowStates.map((state) => (
+                <SelectItem key={state.key} value={state.key}>
+                  <div className="flex items-center gap-2">
+                    <StatusBadge name={state.name} color={state.color} />
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-            <div className="space-y-2">
-              <Label>Priority</Label>
-              <Select
-                value={watchedPriority}
-                onValueChange={(value: Task["priority"]) => setValue("priority", value)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.entries(priorityConfig).map(([key, config]) => (
-                    <SelectItem key={key} value={key}>
-                      <div className="flex items-center gap-2">
-                        <Badge 
-                          variant="secondary" 
-                          className={cn("text-xs", config.className)}
-                        >
-                          {config.label}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select
+            value={watchedPriority}
+            onValueChange={(value: Task["priority"]) => setValue("priority", value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(priorityConfig).map(([key, config]) => (
+                <SelectItem key={key} value={key}>
+                  <div className="flex items-center gap-2">
+                    <Badge 
+                      variant="secondary" 
+                      className={cn("text-xs", config.className)}
+                    >
+                      {config.label}
+                    </Badge>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
 
-          <div className="space-y-2">
-            <Label>Assignee</Label>
-            <Select
-              value={watchedAssigneeId || "unassigned"}
-              onValueChange={(value) => setValue("assigneeId", value === "unassigned" ? undefined : value)}
-            >
-              <SelectTrigger>
-                <SelectValue>
-                  {selectedAssignee ? (
-                    <div className="flex items-center gap-2">
-                      <Avatar className="h-5 w-5">
-                        <AvatarImage src={selectedAssignee.avatarUrl} alt={selectedAssignee.name} />
-                        <AvatarFallback className="text-xs">
-                          {selectedAssignee.name.charAt(0)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <span className="truncate">{selectedAssignee.name}</span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-2 text-muted-foreground">
-                      <User className="h-4 w-4" />
-                      <span>Unassigned</span>
-                    </div>
-                  )}
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="unassigned">
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <User className="h-4 w-4" />
-                    <span>Unassigned</span>
+      <div className="space-y-2">
+        <Label>Assignee</Label>
+        <Select
+          value={watchedAssigneeId || "unassigned"}
+          onValueChange={(value) => setValue("assigneeId", value === "unassigned" ? undefined : value)}
+        >
+          <SelectTrigger>
+            <SelectValue>
+              {selectedAssignee ? (
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-5 w-5">
+                    <AvatarImage src={selectedAssignee.avatarUrl} alt={selectedAssignee.name} />
+                    <AvatarFallback className="text-xs">
+                      {selectedAssignee.name.charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="truncate">{selectedAssignee.name}</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <User className="h-4 w-4" />
+                  <span>Unassigned</span>
+                </div>
+              )}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <User className="h-4 w-4" />
+                <span>Unassigned</span>
+              </div>
+            </SelectItem>
+            {projectMembers.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-5 w-5">
+                    <AvatarImage src={member.avatarUrl} alt={member.name} />
+                    <AvatarFallback className="text-xs">
+                      {member.name.charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="text-sm font-medium">{member.name}</p>
+                    <p className="text-xs text-muted-foreground">{member.email}</p>
                   </div>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Labels</Label>
+        <LabelPicker
+          labels={labels}
+          selectedIds={watchedLabelIds || []}
+          onChange={(labelIds) => setValue("labelIds", labelIds)}
+        />
+      </div>
+
+      {milestones.length > 0 && (
+        <div className="space-y-2">
+          <Label>Milestone</Label>
+          <Select
+            value={watchedMilestoneId || NO_MILESTONE}
+            onValueChange={(value) => setValue("milestoneId", value === NO_MILESTONE ? null : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_MILESTONE}>
+                <span className="text-muted-foreground">No milestone</span>
+              </SelectItem>
+              {milestones.map((milestone) => (
+                <SelectItem key={milestone.id} value={milestone.id}>
+                  {milestone.title} · {format(new Date(milestone.targetDate), "MMM d")}
                 </SelectItem>
-                {projectMembers.map((member) => (
-                  <SelectItem key={member.id} value={member.id}>
-                    <div className="flex items-center gap-2">
-                      <Avatar className="h-5 w-5">
-                        <AvatarImage src={member.avatarUrl} alt={member.name} />
-                        <AvatarFallback className="text-xs">
-                          {member.name.charAt(0)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <p className="text-sm font-medium">{member.name}</p>
-                        <p className="text-xs text-muted-foreground">{member.email}</p>
-                      </div>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
 
-          <div className="space-y-2">
-            <Label>Due Date</Label>
-            <DatePicker
-              date={selectedDate}
-              onDateChange={setSelectedDate}
-              placeholder="Select due date (optional)"
-            />
-          </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Start Date</Label>
+          <DatePicker
+            date={selectedStartDate}
+            onDateChange={setSelectedStartDate}
+            placeholder="Select start date (optional)"
+          />
+          {errors.startDate && (
+            <p className="text-sm text-destructive">{errors.startDate.message}</p>
+          )}
+        </div>
 
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isSubmitting || isLoading}>
-              {isSubmitting || isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {task ? "Updating..." : "Creating..."}
-                </>
-              ) : (
-                task ? "Update Task" : "Create Task"
+        <div className="space-y-2">
+          <Label>Due Date</Label>
+          <DatePicker
+            date={selectedDate}
+            onDateChange={setSelectedDate}
+            placeholder="Select due date (optional)"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="estimate">
+            Estimate ({estimationUnit === "hours" ? "hours" : "story points"})
+          </Label>
+          <Input
+            id="estimate"
+            type="number"
+            min={0}
+            step={estimationUnit === "hours" ? 0.5 : 1}
+            placeholder="Optional"
+            value={watchedEstimate ?? ""}
+            onChange={(e) => setValue("estimate", e.target.value === "" ? null : parseFloat(e.target.value))}
+          />
+          {errors.estimate && (
+            <p className="text-sm text-destructive">{errors.estimate.message}</p>
+          )}
+        </div>
+      </div>
+
+      <TaskCustomFields
+        fields={customFields}
+        values={watchedCustomFields || {}}
+        onChange={(fieldId, value) => setValue("customFields", { ...watchedCustomFields, [fieldId]: value })}
+        projectMembers={projectMembers}
+      />
+
+      <RecurrenceEditor
+        value={watchedRecurrenceRule}
+        onChange={(value) => setValue("recurrenceRule", value)}
+        anchorDate={selectedDate}
+      />
+
+      {task && (
+        <>
+          <TaskSubtasks task={task} />
+          <TaskChecklist task={task} />
+          <TaskDependencies task={task} />
+          <TaskTimeTracking task={task} />
+        </>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting || isLoading}>
+          {isSubmitting || isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {task ? "Updating..." : "Creating..."}
+            </>
+          ) : (
+            task ? "Update Task" : "Create Task"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="flex-row items-center justify-between gap-2 pr-6">
+          <DialogTitle>
+            {task ? "Edit Task" : "Create New Task"}
+            {taskKey && (
+              <span className="ml-2 font-mono text-sm font-normal text-muted-foreground">{taskKey}</span>
+            )}
+          </DialogTitle>
+          {task && (
+            <div className="flex items-center gap-2">
+              <TaskWatchButton task={task} />
+              {projects && projects.length > 0 && onTaskMoved && onTaskDuplicated && (
+                <TaskProjectActions
+                  task={task}
+                  projects={projects}
+                  onMoved={onTaskMoved}
+                  onDuplicated={onTaskDuplicated}
+                />
               )}
-            </Button>
-          </DialogFooter>
-        </form>
+            </div>
+          )}
+        </DialogHeader>
+
+        {task ? (
+          <Tabs defaultValue="details">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">{detailsForm}</TabsContent>
+            <TabsContent value="comments">
+              <TaskComments task={task} />
+            </TabsContent>
+            <TabsContent value="activity">
+              <TaskHistory task={task} workflowStates={workflowStates} projectMembers={projectMembers} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <div className="space-y-4">
+            {templatePicker}
+            {detailsForm}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
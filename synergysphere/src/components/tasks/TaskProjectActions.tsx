@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Copy, FileStack, FolderInput, Loader2, MoreHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Task } from "@/stores/taskStore";
+import { getTaskUrl } from "@/lib/taskKeys";
+import { describeWipLimitViolations } from "@/lib/workflow";
+import { SaveTaskTemplateDialog } from "./SaveTaskTemplateDialog";
+
+interface TaskProjectActionsProps {
+  task: Task;
+  // Projects the task can be moved or copied to, including its own
+  projects: Array<{ id: string; name: string }>;
+  onMoved: (task: Task) => void;
+  onDuplicated: (task: Task) => void;
+}
+
+type ProjectAction = "move" | "duplicate";
+
+export function TaskProjectActions({ task, projects, onMoved, onDuplicated }: TaskProjectActionsProps) {
+  const router = useRouter();
+  const [action, setAction] = useState<ProjectAction | null>(null);
+  const [projectId, setProjectId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  const otherProjects = projects.filter((project) => project.id !== task.projectId);
+  const projectOptions = action === "move" ? otherProjects : projects;
+
+  const open = (nextAction: ProjectAction) => {
+    setAction(nextAction);
+    setProjectId(nextAction === "duplicate" ? task.projectId : "");
+  };
+
+  const handleSubmit = async () => {
+    if (!action || !projectId) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/${action === "move" ? "move-to-project" : "duplicate"}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} task`);
+      }
+
+      const projectName = projects.find((project) => project.id === projectId)?.name;
+      toast.success(action === "move" ? `Task moved to ${projectName}` : `Task duplicated in ${projectName}`, {
+        action: {
+          label: "Open",
+          onClick: () => router.push(getTaskUrl(result.task.projectId, result.task.id)),
+        },
+      });
+      if (result.assigneeCleared) {
+        toast.info("The task was unassigned; the assignee isn't a member of that project");
+      }
+      if (result.wipLimitWarnings?.length > 0) {
+        toast.warning(describeWipLimitViolations(result.wipLimitWarnings));
+      }
+
+      setAction(null);
+      if (action === "move") {
+        onMoved(result.task);
+      } else {
+        onDuplicated(result.task);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `Failed to ${action} task`;
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2" title="More actions">
+            <MoreHorizontal className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => open("duplicate")}>
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          {otherProjects.length > 0 && (
+            <DropdownMenuItem onClick={() => open("move")}>
+              <FolderInput className="mr-2 h-4 w-4" />
+              Move to project
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsSavingTemplate(true)}>
+            <FileStack className="mr-2 h-4 w-4" />
+            Save as template
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(isOpen) => !isOpen && setAction(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{action === "move" ? "Move to project" : "Duplicate task"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projectOptions.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {action === "move"
+                ? "Comments, checklist and history move with the task, and its old key keeps working. Sprints and milestones stay behind."
+                : "The copy gets the description, priority, dates, checklist, labels and custom fields, but not comments or history."}
+              {projectId !== task.projectId &&
+                " Labels and custom fields only carry over where that project has them, and assignees who aren't members are cleared."}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setAction(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={isSaving || !projectId}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action === "move" ? "Move" : "Duplicate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isSavingTemplate && (
+        <SaveTaskTemplateDialog task={task} isOpen={isSavingTemplate} onClose={() => setIsSavingTemplate(false)} />
+      )}
+    </>
+  );
+}
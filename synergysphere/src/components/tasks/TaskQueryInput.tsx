@@ -0,0 +1,124 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  QuerySuggestion,
+  TaskQueryField,
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  parseTaskQuery,
+} from "@/lib/taskQuery";
+
+interface TaskQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Values to suggest per field on top of the built-in ones, e.g. member names
+  values?: Partial<Record<TaskQueryField, string[]>>;
+  placeholder?: string;
+  className?: string;
+}
+
+// Search box for the task query syntax, with autocomplete for field names and values
+export function TaskQueryInput({
+  value,
+  onChange,
+  values,
+  placeholder = "Search tasks, or try assignee:me priority:>=HIGH due:<7d",
+  className,
+}: TaskQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = isFocused ? getQuerySuggestions(value, cursor, values) : [];
+  const { errors } = parseTaskQuery(value);
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+    setHighlighted(0);
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = applyQuerySuggestion(value, cursor, suggestion);
+    onChange(next.query);
+    setCursor(next.cursor);
+    setHighlighted(0);
+    // Wait for the new value to render before moving the caret
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (event.key === "Escape") {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      <Input
+        ref={inputRef}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsFocused(true);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") updateCursor();
+        }}
+        onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className="pl-9"
+        aria-invalid={errors.length > 0}
+      />
+
+      {suggestions.length > 0 ? (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.text}
+              type="button"
+              className={cn(
+                "flex w-full items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-left text-sm",
+                index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              // Keeps the focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applySuggestion(suggestion)}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        errors.length > 0 && (
+          <p className="absolute left-0 top-full mt-1 text-xs text-red-600">{errors[0]}</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GitBranch, Plus } from "lucide-react";
+import { Task, useTaskStore } from "@/stores/taskStore";
+import { cn } from "@/lib/utils";
+import { findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { StatusBadge } from "./StatusBadge";
+
+interface TaskSubtasksProps {
+  task: Task;
+}
+
+export function TaskSubtasks({ task }: TaskSubtasksProps) {
+  const { tasks, workflowStates, addTask } = useTaskStore();
+  const [newSubtask, setNewSubtask] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const subtasks = tasks.filter((subtask) => subtask.parentTaskId === task.id);
+
+  const handleAddSubtask = async () => {
+    const title = newSubtask.trim();
+    if (!title) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/projects/${task.projectId}/tasks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, parentTaskId: task.id }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create subtask");
+      }
+
+      addTask({
+        ...result.task,
+        createdAt: new Date(result.task.createdAt),
+        updatedAt: new Date(result.task.updatedAt),
+      });
+      setNewSubtask("");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create subtask";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <GitBranch className="h-3 w-3" />
+        Subtasks
+      </Label>
+
+      {subtasks.length > 0 && (
+        <ul className="space-y-1">
+          {subtasks.map((subtask) => {
+            const workflowState = findWorkflowState(workflowStates, subtask.status);
+            return (
+              <li key={subtask.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className={cn("truncate", isDoneStatus(workflowStates, subtask.status) && "line-through text-muted-foreground")}>
+                  {subtask.title}
+                </span>
+                <StatusBadge
+                  name={workflowState?.name || subtask.status}
+                  color={workflowState?.color}
+                  className="flex-shrink-0"
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Add a subtask"
+          value={newSubtask}
+          onChange={(e) => setNewSubtask(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAddSubtask();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isSaving || !newSubtask.trim()}
+          onClick={handleAddSubtask}
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
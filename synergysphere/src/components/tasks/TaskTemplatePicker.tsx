@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FileStack, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTemplates } from "@/hooks/useTemplates";
+import { describeDayOffset } from "@/lib/templates";
+import { Task } from "@/stores/taskStore";
+
+interface TaskTemplatePickerProps {
+  projectId: string;
+  // The template's task first, then its subtasks
+  onCreated: (tasks: Task[]) => void;
+}
+
+// "New from template" on the create task form
+export function TaskTemplatePicker({ projectId, onCreated }: TaskTemplatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { templates, isLoading, deleteTemplate } = useTemplates("task", isOpen);
+  const [templateId, setTemplateId] = useState("");
+  const [startDate, setStartDate] = useState<Date | undefined>(() => new Date());
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
+  const handleCreate = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      setIsCreating(true);
+      const response = await fetch(`/api/projects/${projectId}/tasks/from-template`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId, startDate: startDate?.toISOString() }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create task from template");
+      }
+
+      toast.success(`Created "${result.tasks[0]?.title}" from ${selectedTemplate.name}`);
+      onCreated(result.tasks);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create task from template";
+      toast.error(errorMessage);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedTemplate || !confirm(`Delete the template "${selectedTemplate.name}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteTemplate(selectedTemplate);
+      setTemplateId("");
+      toast.success("Template deleted");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete template";
+      toast.error(errorMessage);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => setIsOpen(true)}>
+        <FileStack className="mr-2 h-4 w-4" />
+        New from template
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <div className="flex gap-2">
+          <Select value={templateId} onValueChange={setTemplateId} disabled={isLoading || templates.length === 0}>
+            <SelectTrigger className="flex-1">
+              <SelectValue
+                placeholder={isLoading ? "Loading templates..." : templates.length === 0 ? "No task templates yet" : "Select a template"}
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedTemplate && (
+            <Button type="button" variant="outline" size="icon" onClick={handleDelete} title="Delete template">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {selectedTemplate && (
+          <p className="text-sm text-muted-foreground">
+            {selectedTemplate.taskCount > 1 &&
+              `With ${selectedTemplate.taskCount - 1} ${selectedTemplate.taskCount === 2 ? "subtask" : "subtasks"}. `}
+            {selectedTemplate.dueOffsetDays !== null && `Due ${describeDayOffset(selectedTemplate.dueOffsetDays)}. `}
+            Assignees are picked by project role.
+          </p>
+        )}
+        {templates.length === 0 && !isLoading && (
+          <p className="text-sm text-muted-foreground">Save a task as a template from its menu when editing it.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Start date</Label>
+        <DatePicker date={startDate} onDateChange={setStartDate} placeholder="Dates count from today" />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)} disabled={isCreating}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={handleCreate} disabled={isCreating || !selectedTemplate}>
+          {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create from template
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Loader2, Play, Plus, Square, Timer, X } from "lucide-react";
+import { Task } from "@/stores/taskStore";
+import { useAuth } from "@/hooks/useAuth";
+import { formatDuration, getElapsedSeconds, parseDuration } from "@/lib/timeTracking";
+import { TimeEntry } from "@/types/timeTracking";
+
+interface TaskTimeTrackingProps {
+  task: Task;
+}
+
+export function TaskTimeTracking({ task }: TaskTimeTrackingProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  // The user's running timer, which may be on another task
+  const [runningTimer, setRunningTimer] = useState<TimeEntry | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [manualDuration, setManualDuration] = useState("");
+  const [manualDate, setManualDate] = useState<Date | undefined>(new Date());
+  const [manualNote, setManualNote] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isRunningHere = runningTimer?.taskId === task.id;
+
+  useEffect(() => {
+    const loadTimeTracking = async () => {
+      try {
+        setIsLoading(true);
+        const [entriesResponse, runningResponse] = await Promise.all([
+          fetch(`/api/tasks/${task.id}/time-entries`),
+          fetch("/api/time-entries/running"),
+        ]);
+        if (!entriesResponse.ok || !runningResponse.ok) {
+          throw new Error("Failed to fetch time entries");
+        }
+
+        const entriesResult = await entriesResponse.json();
+        const runningResult = await runningResponse.json();
+        setEntries(entriesResult.entries || []);
+        setRunningTimer(runningResult.entry);
+      } catch (err) {
+        console.error("Failed to load time entries:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTimeTracking();
+  }, [task.id]);
+
+  // The timer runs on the server; this only keeps the display ticking
+  useEffect(() => {
+    if (!isRunningHere || !runningTimer) return;
+
+    setElapsed(getElapsedSeconds(runningTimer.startedAt));
+    const interval = setInterval(() => setElapsed(getElapsedSeconds(runningTimer.startedAt)), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere, runningTimer]);
+
+  const replaceEntry = (entry: TimeEntry) => {
+    setEntries((current) =>
+      current.some((existing) => existing.id === entry.id)
+        ? current.map((existing) => (existing.id === entry.id ? entry : existing))
+        : [entry, ...current]
+    );
+  };
+
+  const handleStartTimer = async (stopRunning = false) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/timer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stopRunning }),
+      });
+
+      const result = await response.json();
+
+      // Only one timer per user: offer to stop the one on the other task
+      if (response.status === 409) {
+        if (confirm(`Your timer is running on "${result.runningTimer.task.title}". Stop it and start here?`)) {
+          await handleStartTimer(true);
+        }
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start timer");
+      }
+
+      if (result.stoppedEntry) {
+        toast.success(`Logged ${formatDuration(result.stoppedEntry.duration)} on "${result.stoppedEntry.task.title}"`);
+      }
+      setRunningTimer(result.entry);
+      replaceEntry(result.entry);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to start timer";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStopTimer = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/timer`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to stop timer");
+      }
+
+      setRunningTimer(null);
+      replaceEntry(result.entry);
+      toast.success(`Logged ${formatDuration(result.entry.duration)}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to stop timer";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogTime = async () => {
+    const duration = parseDuration(manualDuration);
+    if (!duration) {
+      toast.error("Enter a duration like 1h 30m, 45m or 1.5");
+      return;
+    }
+
+    // Logged as ending at the current time of day on the chosen date
+    const endedAt = new Date();
+    if (manualDate) {
+      endedAt.setFullYear(manualDate.getFullYear(), manualDate.getMonth(), manualDate.getDate());
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/time-entries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          endedAt: endedAt.toISOString(),
+          duration,
+          note: manualNote.trim() || undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to log time");
+      }
+
+      replaceEntry(result.entry);
+      setManualDuration("");
+      setManualNote("");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to log time";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveEntry = async (entry: TimeEntry) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/time-entries/${entry.id}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove time entry");
+      }
+
+      setEntries((current) => current.filter((existing) => existing.id !== entry.id));
+      if (runningTimer?.id === entry.id) {
+        setRunningTimer(null);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove time entry";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalSeconds = entries.reduce((sum, entry) => sum + (entry.duration || 0), 0);
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Timer className="h-3 w-3" />
+        Time Tracking
+        {totalSeconds > 0 && (
+          <span className="text-xs text-muted-foreground font-normal">
+            {formatDuration(totalSeconds)} logged
+          </span>
+        )}
+      </Label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading time entries...
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2">
+            {isRunningHere ? (
+              <Button type="button" variant="destructive" size="sm" disabled={isSaving} onClick={handleStopTimer}>
+                <Square className="mr-2 h-3 w-3" />
+                Stop
+              </Button>
+            ) : (
+              <Button type="button" variant="outline" size="sm" disabled={isSaving} onClick={() => handleStartTimer()}>
+                <Play className="mr-2 h-3 w-3" />
+                Start timer
+              </Button>
+            )}
+            {isRunningHere && (
+              <span className="font-mono text-sm tabular-nums">{formatDuration(elapsed, true)}</span>
+            )}
+            {runningTimer && !isRunningHere && (
+              <span className="text-xs text-muted-foreground truncate">
+                Timer running on &quot;{runningTimer.task.title}&quot;
+              </span>
+            )}
+          </div>
+
+          {entries.length > 0 && (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">
+                      {entry.duration !== null ? formatDuration(entry.duration) : "Running"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {" "}· {entry.user.name} · {format(new Date(entry.startedAt), "MMM d")}
+                    </span>
+                    {entry.note && (
+                      <p className="text-xs text-muted-foreground truncate">{entry.note}</p>
+                    )}
+                  </div>
+                  {entry.userId === user?.id && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 flex-shrink-0"
+                      disabled={isSaving}
+                      onClick={() => handleRemoveEntry(entry)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="1h 30m"
+              value={manualDuration}
+              onChange={(e) => setManualDuration(e.target.value)}
+              className="w-24"
+            />
+            <DatePicker
+              date={manualDate}
+              onDateChange={setManualDate}
+              placeholder="Date"
+              className="w-36"
+            />
+            <Input
+              placeholder="Note (optional)"
+              value={manualNote}
+              onChange={(e) => setManualNote(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleLogTime();
+                }
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isSaving || !manualDuration.trim()}
+              onClick={handleLogTime}
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
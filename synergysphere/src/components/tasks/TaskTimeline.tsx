@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { addDays, format, isSameDay, isWeekend } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Task } from "@/stores/taskStore";
+import { formatTaskKey } from "@/lib/taskKeys";
+import {
+  TaskSpan,
+  TimelineDragMode,
+  getSpanPosition,
+  getTaskSpan,
+  getTimelineRange,
+  shiftSpan,
+} from "@/lib/timeline";
+import { findWorkflowState, isDoneStatus } from "@/lib/workflow";
+import { cn } from "@/lib/utils";
+import { WorkflowState } from "@/types/workflow";
+
+export type TimelineGroupBy = "assignee" | "status";
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  workflowStates: WorkflowState[];
+  groupBy: TimelineGroupBy;
+  projectKey?: string | null;
+  projectMembers?: Array<{ id: string; name: string }>;
+  onReschedule: (task: Task, span: TaskSpan) => void;
+  onOpenTask: (task: Task) => void;
+}
+
+interface DragState {
+  taskId: string;
+  mode: TimelineDragMode;
+  originX: number;
+  dayDelta: number;
+}
+
+const DAY_WIDTH = 32;
+const ROW_HEIGHT = 36;
+const LABEL_WIDTH = 200;
+const DEFAULT_BAR_COLOR = "#64748b";
+
+export function TaskTimeline({
+  tasks,
+  workflowStates,
+  groupBy,
+  projectKey = null,
+  projectMembers = [],
+  onReschedule,
+  onOpenTask,
+}: TaskTimelineProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const scheduledTasks = tasks.filter((task) => task.dueDate);
+  const unscheduledTasks = tasks.filter((task) => !task.dueDate);
+
+  // Computed from the saved dates only, so the range stays put while a bar is dragged
+  const range = getTimelineRange(scheduledTasks.map((task) => getTaskSpan(task)!));
+  const days = Array.from({ length: range.days }, (_, index) => addDays(range.start, index));
+  const today = new Date();
+
+  const getGroups = () => {
+    if (groupBy === "status") {
+      return workflowStates.map((state) => ({
+        id: state.key,
+        label: state.name,
+        color: state.color,
+        tasks: scheduledTasks.filter((task) => task.status === state.key),
+      })).filter((group) => group.tasks.length > 0);
+    }
+
+    const assigneeIds = [...new Set(scheduledTasks.map((task) => task.assigneeId || ""))];
+    return assigneeIds
+      .map((assigneeId) => ({
+        id: assigneeId || "unassigned",
+        label: assigneeId
+          ? projectMembers.find((member) => member.id === assigneeId)?.name ||
+            scheduledTasks.find((task) => task.assigneeId === assigneeId)?.assignee?.name ||
+            "Former member"
+          : "Unassigned",
+        color: null as string | null,
+        tasks: scheduledTasks.filter((task) => (task.assigneeId || "") === assigneeId),
+      }))
+      // Unassigned work goes last
+      .sort((a, b) => (a.id === "unassigned" ? 1 : b.id === "unassigned" ? -1 : a.label.localeCompare(b.label)));
+  };
+
+  const getDisplaySpan = (task: Task) => {
+    const span = getTaskSpan(task)!;
+    return drag?.taskId === task.id ? shiftSpan(span, drag.mode, drag.dayDelta) : span;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, task: Task, mode: TimelineDragMode) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ taskId: task.id, mode, originX: event.clientX, dayDelta: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const dayDelta = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+    if (dayDelta !== drag.dayDelta) {
+      setDrag({ ...drag, dayDelta });
+    }
+  };
+
+  const handlePointerUp = (task: Task) => {
+    if (!drag) return;
+    const { mode, dayDelta } = drag;
+    setDrag(null);
+
+    if (dayDelta !== 0) {
+      onReschedule(task, shiftSpan(getTaskSpan(task)!, mode, dayDelta));
+    } else if (mode === "move") {
+      // A bar that was clicked rather than dragged opens the task
+      onOpenTask(task);
+    }
+  };
+
+  const renderBar = (task: Task) => {
+    const span = getDisplaySpan(task);
+    const { offset, length } = getSpanPosition(span, range.start);
+    const color = findWorkflowState(workflowStates, task.status)?.color || DEFAULT_BAR_COLOR;
+    const taskKey = formatTaskKey(projectKey, task.number);
+    const handleClassName = "absolute inset-y-0 w-2 cursor-ew-resize rounded hover:bg-black/20";
+
+    return (
+      <div
+        className={cn(
+          "absolute top-1.5 flex h-6 cursor-grab items-center rounded px-2 text-xs font-medium text-white shadow-sm select-none touch-none",
+          drag?.taskId === task.id && "cursor-grabbing ring-2 ring-primary",
+          isDoneStatus(workflowStates, task.status) && "opacity-60"
+        )}
+        style={{ left: offset * DAY_WIDTH, width: length * DAY_WIDTH - 2, backgroundColor: color }}
+        title={`${task.title}: ${format(span.start, "MMM d")} - ${format(span.end, "MMM d")}`}
+        onPointerDown={(event) => handlePointerDown(event, task, "move")}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => handlePointerUp(task)}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <div
+          className={cn(handleClassName, "left-0")}
+          onPointerDown={(event) => handlePointerDown(event, task, "start")}
+        />
+        <span className="truncate">{taskKey ? `${taskKey} ${task.title}` : task.title}</span>
+        <div
+          className={cn(handleClassName, "right-0")}
+          onPointerDown={(event) => handlePointerDown(event, task, "end")}
+        />
+      </div>
+    );
+  };
+
+  const todayOffset = days.findIndex((day) => isSameDay(day, today));
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border">
+        <div style={{ width: LABEL_WIDTH + range.days * DAY_WIDTH }}>
+          {/* Header: months over days */}
+          <div className="sticky top-0 z-10 flex border-b bg-background">
+            <div className="sticky left-0 z-10 shrink-0 border-r bg-background" style={{ width: LABEL_WIDTH }} />
+            {days.map((day, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "shrink-0 border-r py-1 text-center text-[10px] text-muted-foreground",
+                  isWeekend(day) && "bg-muted/50",
+                  isSameDay(day, today) && "font-bold text-primary"
+                )}
+                style={{ width: DAY_WIDTH }}
+              >
+                <div className="h-3">{day.getDate() === 1 || index === 0 ? format(day, "MMM") : ""}</div>
+                <div>{format(day, "d")}</div>
+              </div>
+            ))}
+          </div>
+
+          {getGroups().map((group) => (
+            <div key={group.id} className="border-b last:border-b-0">
+              <div className="sticky left-0 flex items-center gap-2 bg-muted/30 px-3 py-1.5 text-sm font-medium" style={{ width: LABEL_WIDTH }}>
+                {group.color && <span className="h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />}
+                <span className="truncate">{group.label}</span>
+                <span className="text-xs text-muted-foreground">{group.tasks.length}</span>
+              </div>
+
+              {group.tasks.map((task) => (
+                <div key={task.id} className="flex" style={{ height: ROW_HEIGHT }}>
+                  <button
+                    type="button"
+                    className="sticky left-0 z-[5] shrink-0 truncate border-r bg-background px-3 text-left text-sm hover:underline"
+                    style={{ width: LABEL_WIDTH }}
+                    onClick={() => onOpenTask(task)}
+                  >
+                    {task.title}
+                  </button>
+                  <div className="relative flex-1">
+                    {/* Weekend shading and today's line */}
+                    {days.map((day, index) =>
+                      isWeekend(day) ? (
+                        <div
+                          key={index}
+                          className="absolute inset-y-0 bg-muted/50"
+                          style={{ left: index * DAY_WIDTH, width: DAY_WIDTH }}
+                        />
+                      ) : null
+                    )}
+                    {todayOffset >= 0 && (
+                      <div
+                        className="absolute inset-y-0 w-px bg-primary/60"
+                        style={{ left: todayOffset * DAY_WIDTH + DAY_WIDTH / 2 }}
+                      />
+                    )}
+                    {renderBar(task)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {scheduledTasks.length === 0 && (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              No tasks with a due date yet
+            </div>
+          )}
+        </div>
+      </div>
+
+      {unscheduledTasks.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              Unscheduled ({unscheduledTasks.length})
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">Give these tasks a due date to place them on the timeline.</p>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {unscheduledTasks.map((task) => (
+                <button
+                  key={task.id}
+                  type="button"
+                  className="rounded-md border px-2 py-1 text-xs hover:bg-muted"
+                  onClick={() => onOpenTask(task)}
+                >
+                  {task.title}
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff } from "lucide-react";
+import { Task } from "@/stores/taskStore";
+
+interface TaskWatchButtonProps {
+  task: Task;
+}
+
+interface Watcher {
+  id: string;
+  name: string;
+}
+
+export function TaskWatchButton({ task }: TaskWatchButtonProps) {
+  const [watchers, setWatchers] = useState<Watcher[]>([]);
+  const [isWatching, setIsWatching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadWatchers = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${task.id}/watchers`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch watchers");
+        }
+
+        const result = await response.json();
+        setWatchers(result.watchers);
+        setIsWatching(result.isWatching);
+      } catch (err) {
+        console.error("Failed to load watchers:", err);
+      }
+    };
+
+    loadWatchers();
+  }, [task.id]);
+
+  const handleToggle = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/tasks/${task.id}/watchers`, {
+        method: isWatching ? "DELETE" : "POST",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update watching");
+      }
+
+      setWatchers(result.watchers);
+      setIsWatching(result.isWatching);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update watching";
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={isWatching ? "secondary" : "outline"}
+      size="sm"
+      className="h-7 gap-1"
+      disabled={isSaving}
+      onClick={handleToggle}
+      title={watchers.length > 0 ? `Watching: ${watchers.map((watcher) => watcher.name).join(", ")}` : "Nobody is watching"}
+    >
+      {isWatching ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+      {isWatching ? "Unwatch" : "Watch"}
+      <span className="text-muted-foreground">{watchers.length}</span>
+    </Button>
+  );
+}
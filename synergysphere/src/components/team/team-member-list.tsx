@@ -23,6 +23,7 @@ import {
   Edit
 } from "lucide-react";
 import { toast } from "sonner";
+import { formatDuration } from "@/lib/timeTracking";
 
 type MemberRole = "OWNER" | "ADMIN" | "MEMBER";
 
@@ -46,6 +47,8 @@ interface TeamMemberListProps {
   members: TeamMember[];
   currentUserId?: string;
   onMemberUpdate?: () => void;
+  // Seconds tracked per member id over the last 30 days
+  timeByMember?: Record<string, number>;
 }
 
 const roleConfig = {
@@ -72,7 +75,8 @@ const roleConfig = {
 export function TeamMemberList({ 
   members, 
   currentUserId, 
-  onMemberUpdate 
+  onMemberUpdate,
+  timeByMember = {}
 }: TeamMemberListProps) {
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
@@ -340,6 +344,11 @@ export function TeamMemberList({
                   <p className="text-xs text-muted-foreground">
                     Joined {new Date(member.joinedAt).toLocaleDateString()}
                   </p>
+                  {timeByMember[member.id] > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDuration(timeByMember[member.id])} logged in the last 30 days
+                    </p>
+                  )}
                   {member.projects && member.projects.length > 0 && (
                     <div className="pt-2 border-t">
                       <p className="text-xs font-medium text-muted-foreground mb-1">Projects:</p>
@@ -127,6 +127,9 @@ export function useBreadcrumbs() {
         case "messages":
           items.push({ label: "Messages", isActive: true });
           break;
+        case "timeline":
+          items.push({ label: "Timeline", isActive: true });
+          break;
         case "settings":
           items.push({ label: "Settings", isActive: true });
           break;
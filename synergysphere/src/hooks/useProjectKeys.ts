@@ -0,0 +1,49 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+// Shared by every component on the page, so the projects are only fetched once
+let projectKeysRequest: Promise<string[]> | null = null;
+
+const loadProjectKeys = () => {
+  if (!projectKeysRequest) {
+    projectKeysRequest = fetch("/api/projects?limit=100")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error("Failed to fetch projects");
+        }
+        return response.json();
+      })
+      .then((result) =>
+        (result.projects || [])
+          .map((project: { key?: string | null }) => project.key)
+          .filter((key: string | null | undefined): key is string => !!key)
+      )
+      .catch((err) => {
+        console.error("Failed to load project keys:", err);
+        // Try again next time instead of caching the failure
+        projectKeysRequest = null;
+        return [];
+      });
+  }
+  return projectKeysRequest;
+};
+
+// Keys of the user's projects, for turning task keys in text into links
+export function useProjectKeys() {
+  const [projectKeys, setProjectKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadProjectKeys().then((keys) => {
+      if (!cancelled) setProjectKeys(keys);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return projectKeys;
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  getViewIdFromQuery,
+  isSameViewConfig,
+  viewConfigFromQuery,
+  viewConfigToQuery,
+  withViewQuery,
+} from "@/lib/savedViews";
+import { SavedView, SavedViewConfig } from "@/types/savedViews";
+
+interface UseSavedViewsOptions {
+  // Null for My Tasks
+  projectId: string | null;
+  // What the page currently shows
+  config: SavedViewConfig;
+  // What the page shows without a view; settings equal to these stay out of the URL
+  defaults: SavedViewConfig;
+  // Query parameter names of the page's filters
+  filterKeys: string[];
+  onApply: (config: SavedViewConfig) => void;
+}
+
+export interface SaveViewInput {
+  name: string;
+  isShared: boolean;
+  isDefault: boolean;
+}
+
+const sendViewRequest = async (url: string, method: string, body?: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save view");
+  }
+  return result;
+};
+
+// Saved views for a task page, kept in sync with the URL so the page can be linked.
+// On load the URL's settings win, then the view it names, then the user's default view.
+export function useSavedViews({ projectId, config, defaults, filterKeys, onApply }: UseSavedViewsOptions) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  // Views load once per project, with the URL and callbacks as they are when they arrive;
+  // later URL changes come from this hook itself
+  const loadContext = useRef({ searchParams, filterKeys, defaults, onApply });
+  useEffect(() => {
+    loadContext.current = { searchParams, filterKeys, defaults, onApply };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadViews = async () => {
+      let loadedViews: SavedView[] = [];
+      try {
+        const response = await fetch(projectId ? `/api/tasks/views?projectId=${projectId}` : "/api/tasks/views");
+        if (!response.ok) {
+          throw new Error(`Failed to fetch views: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        loadedViews = result.views || [];
+      } catch (err) {
+        console.error("Failed to load saved views:", err);
+        // Don't show error for saved views - the page still works from the URL
+      }
+
+      if (cancelled) return;
+
+      const { searchParams, filterKeys, defaults, onApply } = loadContext.current;
+      const viewId = getViewIdFromQuery(searchParams);
+      const urlConfig = viewConfigFromQuery(searchParams, filterKeys, defaults);
+      const view = viewId
+        ? loadedViews.find((v) => v.id === viewId)
+        : urlConfig
+          ? undefined
+          : loadedViews.find((v) => v.isDefault);
+
+      const initialConfig = urlConfig || view?.config;
+      if (initialConfig) {
+        onApply(initialConfig);
+      }
+      setViews(loadedViews);
+      setActiveViewId(view?.id ?? null);
+      setIsReady(true);
+    };
+
+    loadViews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const viewQuery = viewConfigToQuery(config, defaults, activeViewId);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const query = withViewQuery(searchParams, viewQuery, filterKeys);
+    if (query !== searchParams.toString()) {
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    }
+  }, [isReady, viewQuery, searchParams, filterKeys, pathname, router]);
+
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+
+  const selectView = (view: SavedView | null) => {
+    onApply(view ? view.config : defaults);
+    setActiveViewId(view?.id ?? null);
+  };
+
+  const replaceView = (updated: SavedView) => {
+    setViews((current) =>
+      current.map((view) =>
+        view.id === updated.id
+          ? updated
+          // Only one view can be the default
+          : updated.isDefault ? { ...view, isDefault: false } : view
+      )
+    );
+  };
+
+  const saveView = async (input: SaveViewInput) => {
+    const { view } = await sendViewRequest("/api/tasks/views", "POST", { ...input, projectId, config });
+    setViews((current) => [
+      ...current.map((v) => (view.isDefault ? { ...v, isDefault: false } : v)),
+      view,
+    ]);
+    setActiveViewId(view.id);
+    return view as SavedView;
+  };
+
+  // Overwrites the view with what the page shows now
+  const updateView = async (view: SavedView) => {
+    const result = await sendViewRequest(`/api/tasks/views/${view.id}`, "PATCH", { config });
+    replaceView(result.view);
+  };
+
+  const setDefaultView = async (view: SavedView, isDefault: boolean) => {
+    const result = await sendViewRequest(`/api/tasks/views/${view.id}`, "PATCH", { isDefault });
+    replaceView(result.view);
+  };
+
+  const deleteView = async (view: SavedView) => {
+    await sendViewRequest(`/api/tasks/views/${view.id}`, "DELETE");
+    setViews((current) => current.filter((v) => v.id !== view.id));
+    if (activeViewId === view.id) {
+      setActiveViewId(null);
+    }
+  };
+
+  return {
+    views,
+    activeView,
+    isModified: !!activeView && !isSameViewConfig(activeView.config, config),
+    isReady,
+    selectView,
+    saveView,
+    updateView,
+    setDefaultView,
+    deleteView,
+  };
+}
@@ -1,16 +1,21 @@
 import { useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { Task } from '@/stores/taskStore';
+import type { TaskComment } from '@/types/taskComments';
 
 interface UseSocketOptions {
   projectId?: string;
   onTaskUpdate?: (task: any) => void;
   onTaskCreate?: (task: any) => void;
   onTaskDelete?: (taskId: string) => void;
-  onTaskMove?: (taskId: string, newStatus: string) => void;
+  onTaskMove?: (taskId: string, newStatus: Task['status'], position?: number) => void;
   // Message events
   onMessageCreate?: (message: any) => void;
   onMessageUpdate?: (message: any) => void;
   onMessageDelete?: (messageId: string) => void;
+  // Task comment events; deleted comments arrive as updates
+  onCommentCreate?: (comment: TaskComment) => void;
+  onCommentUpdate?: (comment: Partial<TaskComment> & { id: string; taskId: string }) => void;
   // Notification events  
   onNotificationCreate?: (notification: any) => void;
   onNotificationUpdate?: (notification: any) => void;
@@ -25,6 +30,8 @@ export function useSocket({
   onMessageCreate,
   onMessageUpdate, 
   onMessageDelete,
+  onCommentCreate,
+  onCommentUpdate,
   onNotificationCreate,
   onNotificationUpdate,
 }: UseSocketOptions) {
@@ -32,16 +39,15 @@ export function useSocket({
 
   useEffect(() => {
     // Initialize socket connection only if WebSocket server is configured
-    if (typeof window !== 'undefined' && projectId && process.env.NEXT_PUBLIC_SOCKET_URL) {
+    if (typeof window !== 'undefined' && process.env.NEXT_PUBLIC_SOCKET_URL) {
       socketRef.current = io(process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3001', {
         transports: ['websocket'],
+        // Send the auth-token cookie so the server can authenticate the handshake
+        withCredentials: true,
       });
 
       const socket = socketRef.current;
 
-      // Join project room
-      socket.emit('join-project', projectId);
-
       // Listen for task events
       if (onTaskUpdate) {
         socket.on('task:updated', onTaskUpdate);
@@ -56,8 +62,8 @@ export function useSocket({
       }
       
       if (onTaskMove) {
-        socket.on('task:moved', ({ taskId, newStatus }) => {
-          onTaskMove(taskId, newStatus);
+        socket.on('task:moved', ({ taskId, newStatus, position }) => {
+          onTaskMove(taskId, newStatus, position);
         });
       }
       
@@ -74,6 +80,15 @@ export function useSocket({
         socket.on('message:deleted', onMessageDelete);
       }
       
+      // Listen for task comment events
+      if (onCommentCreate) {
+        socket.on('comment:created', onCommentCreate);
+      }
+
+      if (onCommentUpdate) {
+        socket.on('comment:updated', onCommentUpdate);
+      }
+      
       // Listen for notification events
       if (onNotificationCreate) {
         socket.on('notification:created', onNotificationCreate);
@@ -86,6 +101,12 @@ export function useSocket({
       // Handle connection events
       socket.on('connect', () => {
         console.log('Connected to WebSocket server');
+
+        // (Re)join the project room on every connect; the server only admits project members.
+        // Notifications arrive on the user's own room without joining anything.
+        if (projectId) {
+          socket.emit('join-project', projectId);
+        }
       });
 
       socket.on('disconnect', () => {
@@ -106,57 +127,8 @@ export function useSocket({
         socketRef.current.disconnect();
       }
     };
-  }, [projectId, onTaskUpdate, onTaskCreate, onTaskDelete, onTaskMove, onMessageCreate, onMessageUpdate, onMessageDelete, onNotificationCreate, onNotificationUpdate]);
-
-  // Emit task events
-  const emitTaskUpdate = (taskId: string, updates: any) => {
-    if (socketRef.current) {
-      socketRef.current.emit('task:update', { taskId, updates, projectId });
-    }
-  };
-
-  const emitTaskCreate = (task: any) => {
-    if (socketRef.current) {
-      socketRef.current.emit('task:create', { task, projectId });
-    }
-  };
-
-  const emitTaskDelete = (taskId: string) => {
-    if (socketRef.current) {
-      socketRef.current.emit('task:delete', { taskId, projectId });
-    }
-  };
+  }, [projectId, onTaskUpdate, onTaskCreate, onTaskDelete, onTaskMove, onMessageCreate, onMessageUpdate, onMessageDelete, onCommentCreate, onCommentUpdate, onNotificationCreate, onNotificationUpdate]);
 
-  const emitTaskMove = (taskId: string, newStatus: string, oldStatus: string) => {
-    if (socketRef.current) {
-      socketRef.current.emit('task:move', { 
-        taskId, 
-        newStatus, 
-        oldStatus, 
-        projectId 
-      });
-    }
-  };
-  
-  // Emit message events
-  const emitMessageCreate = (message: any) => {
-    if (socketRef.current) {
-      socketRef.current.emit('message:create', { message, projectId });
-    }
-  };
-  
-  const emitMessageUpdate = (messageId: string, updates: any) => {
-    if (socketRef.current) {
-      socketRef.current.emit('message:update', { messageId, updates, projectId });
-    }
-  };
-  
-  const emitMessageDelete = (messageId: string) => {
-    if (socketRef.current) {
-      socketRef.current.emit('message:delete', { messageId, projectId });
-    }
-  };
-  
   // Emit notification events
   const emitNotificationUpdate = (notificationId: string, updates: any) => {
     if (socketRef.current) {
@@ -166,13 +138,6 @@ export function useSocket({
 
   return {
     socket: socketRef.current,
-    emitTaskUpdate,
-    emitTaskCreate,
-    emitTaskDelete,
-    emitTaskMove,
-    emitMessageCreate,
-    emitMessageUpdate,
-    emitMessageDelete,
     emitNotificationUpdate,
   };
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+
+// Multi-select for task lists. Tasks that leave `taskIds` (filtered out, deleted) drop
+// out of the selection.
+export function useTaskSelection(taskIds: string[]) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  const selectedIds = taskIds.filter((id) => selected.includes(id));
+
+  // Shift-clicks pass the list's display order to select the range from the last clicked task
+  const toggle = (id: string, orderedIds?: string[]) => {
+    const anchorIndex = orderedIds && anchorId ? orderedIds.indexOf(anchorId) : -1;
+    const index = orderedIds ? orderedIds.indexOf(id) : -1;
+
+    if (orderedIds && anchorIndex !== -1 && index !== -1) {
+      // The range takes the clicked task's new state
+      const range = orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      const select = !selected.includes(id);
+      setSelected((current) =>
+        select ? [...new Set([...current, ...range])] : current.filter((selectedId) => !range.includes(selectedId))
+      );
+    } else {
+      setSelected((current) =>
+        current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id]
+      );
+    }
+    setAnchorId(id);
+  };
+
+  const isAllSelected = taskIds.length > 0 && selectedIds.length === taskIds.length;
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selected.includes(id),
+    toggle,
+    isAllSelected,
+    toggleAll: () => setSelected(isAllSelected ? [] : taskIds),
+    clear: () => {
+      setSelected([]);
+      setAnchorId(null);
+    },
+  };
+}
+
+export type TaskSelection = ReturnType<typeof useTaskSelection>;
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Template, TemplateKind } from "@/types/templates";
+
+export type SaveTemplateInput =
+  | { kind: "task"; name: string; taskId: string; dueOffsetDays?: number }
+  | { kind: "project"; name: string; projectId: string };
+
+const sendTemplateRequest = async (url: string, method: string, body?: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save template");
+  }
+  return result;
+};
+
+// The user's templates of one kind. `enabled` defers loading until they're needed.
+export function useTemplates(kind: TemplateKind, enabled = true) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const loadTemplates = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/templates?kind=${kind}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch templates: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        if (!cancelled) setTemplates(result.templates || []);
+      } catch (err) {
+        console.error("Failed to load templates:", err);
+        // Don't show error for templates - creating from scratch still works
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, enabled]);
+
+  const saveTemplate = async (input: SaveTemplateInput) => {
+    const { template } = await sendTemplateRequest("/api/templates", "POST", input);
+    if (template.kind === kind) {
+      setTemplates((current) => [...current, template].sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    return template as Template;
+  };
+
+  const deleteTemplate = async (template: Template) => {
+    await sendTemplateRequest(`/api/templates/${template.id}`, "DELETE");
+    setTemplates((current) => current.filter((t) => t.id !== template.id));
+  };
+
+  return { templates, isLoading, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,31 @@
+// Client-safe helpers for task comments; database access lives in taskComments.ts
+import { TaskComment } from '@/types/taskComments';
+
+// Comments can be edited for this long after they are posted, as with project messages
+export const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export function canEditComment(comment: TaskComment, userId?: string, now = Date.now()) {
+  return (
+    comment.authorId === userId &&
+    !comment.deletedAt &&
+    now - new Date(comment.createdAt).getTime() <= COMMENT_EDIT_WINDOW_MS
+  );
+}
+
+// Reactions grouped by emoji, in the order each emoji was first used
+export function groupReactions(comment: TaskComment, userId?: string) {
+  const groups: Array<{ emoji: string; count: number; users: string[]; reacted: boolean }> = [];
+
+  for (const reaction of comment.reactions) {
+    let group = groups.find((existing) => existing.emoji === reaction.emoji);
+    if (!group) {
+      group = { emoji: reaction.emoji, count: 0, users: [], reacted: false };
+      groups.push(group);
+    }
+    group.count += 1;
+    group.users.push(reaction.userName);
+    group.reacted = group.reacted || reaction.userId === userId;
+  }
+
+  return groups;
+}
@@ -0,0 +1,67 @@
+// CSV reading and writing (RFC 4180): quoted fields may hold commas, doubled quotes and line breaks
+
+// Rows of cells; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Spreadsheet apps run text starting with these as a formula, so it's written with a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: string | number | null | undefined) {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Undoes the leading quote toCsv puts before formula-like text
+export function fromCsvCell(cell: string) {
+  return cell.replace(/^'(?=[=+\-@\t\r])/, '');
+}
+
+export function toCsv(rows: Array<Array<string | number | null | undefined>>) {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n');
+}
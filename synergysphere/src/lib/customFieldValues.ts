@@ -0,0 +1,175 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { CustomField, CustomFieldType, CustomFieldValue, CustomFieldValues } from '@/types/customFields';
+
+// Include on task queries, then flatten with toCustomFieldValues
+export const customFieldValuesInclude = {
+  customFieldValues: {
+    select: {
+      fieldId: true,
+      textValue: true,
+      numberValue: true,
+      dateValue: true,
+    },
+  },
+} as const;
+
+type StoredValue = {
+  fieldId: string;
+  textValue: string | null;
+  numberValue: number | null;
+  dateValue: Date | null;
+};
+
+export function toCustomFieldValues(values: StoredValue[]): CustomFieldValues {
+  const result: CustomFieldValues = {};
+  for (const value of values) {
+    if (value.numberValue !== null) {
+      result[value.fieldId] = value.numberValue;
+    } else if (value.dateValue !== null) {
+      result[value.fieldId] = value.dateValue.toISOString().slice(0, 10);
+    } else if (value.textValue !== null) {
+      result[value.fieldId] = value.textValue;
+    }
+  }
+  return result;
+}
+
+function toCustomField(field: {
+  id: string;
+  projectId: string;
+  name: string;
+  type: string;
+  options: unknown;
+  position: number;
+}): CustomField {
+  return {
+    id: field.id,
+    projectId: field.projectId,
+    name: field.name,
+    type: field.type as CustomFieldType,
+    options: Array.isArray(field.options) ? field.options.map(String) : [],
+    position: field.position,
+  };
+}
+
+export async function getCustomFields(projectId: string) {
+  const fields = await prisma.customField.findMany({
+    where: { projectId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return fields.map(toCustomField);
+}
+
+export async function getCustomField(projectId: string, fieldId: string) {
+  const field = await prisma.customField.findFirst({
+    where: { id: fieldId, projectId },
+  });
+
+  return field ? toCustomField(field) : null;
+}
+
+function valueSchema(field: CustomField) {
+  switch (field.type) {
+    case 'number':
+      return z.number();
+    case 'date':
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+        .refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+    case 'select':
+      return z.string().refine(value => field.options.includes(value), `Must be one of the options of "${field.name}"`);
+    case 'user':
+      return z.string().min(1);
+    default:
+      return z.string().trim().max(500, `"${field.name}" is too long`);
+  }
+}
+
+// Zod schema for a `customFields` payload: values keyed by field id, null clears a value.
+// Keys that aren't one of the project's fields are rejected.
+export function buildCustomFieldValuesSchema(fields: CustomField[]) {
+  return z.strictObject(
+    Object.fromEntries(fields.map(field => [field.id, valueSchema(field).nullable().optional()]))
+  );
+}
+
+// Parses a `customFields` payload; throws a ZodError for invalid values or users
+// who aren't members of the project
+export async function parseCustomFieldValues(projectId: string, input: unknown) {
+  const fields = await getCustomFields(projectId);
+  const values = buildCustomFieldValuesSchema(fields).parse(input) as Record<string, CustomFieldValue | null | undefined>;
+
+  const userIds = fields
+    .filter(field => field.type === 'user' && typeof values[field.id] === 'string')
+    .map(field => values[field.id] as string);
+
+  if (userIds.length > 0) {
+    const memberships = await prisma.membership.findMany({
+      where: { projectId, userId: { in: userIds } },
+      select: { userId: true },
+    });
+    const memberIds = new Set(memberships.map(membership => membership.userId));
+    const invalidField = fields.find(
+      field => field.type === 'user' && typeof values[field.id] === 'string' && !memberIds.has(values[field.id] as string)
+    );
+
+    if (invalidField) {
+      throw new z.ZodError([{
+        code: 'custom',
+        path: [invalidField.id],
+        message: `"${invalidField.name}" must be a member of this project`,
+        input: values[invalidField.id],
+      }]);
+    }
+  }
+
+  return { fields, values };
+}
+
+function toStoredValue(field: CustomField, value: CustomFieldValue) {
+  return {
+    textValue: field.type === 'text' || field.type === 'select' || field.type === 'user' ? String(value) : null,
+    numberValue: field.type === 'number' ? Number(value) : null,
+    dateValue: field.type === 'date' ? new Date(`${value}T00:00:00.000Z`) : null,
+  };
+}
+
+// Rows for a new task's parsed values, for a nested create
+export function buildCustomFieldValueRows(
+  fields: CustomField[],
+  values: Record<string, CustomFieldValue | null | undefined>
+) {
+  return fields.flatMap(field => {
+    const value = values[field.id];
+    return value === null || value === undefined ? [] : [{ fieldId: field.id, ...toStoredValue(field, value) }];
+  });
+}
+
+// Writes parsed values; fields missing from `values` are left unchanged
+export async function saveCustomFieldValues(
+  taskId: string,
+  fields: CustomField[],
+  values: Record<string, CustomFieldValue | null | undefined>,
+  db: Prisma.TransactionClient = prisma
+) {
+  for (const field of fields) {
+    const value = values[field.id];
+    if (value === undefined) continue;
+
+    if (value === null) {
+      await db.customFieldValue.deleteMany({
+        where: { taskId, fieldId: field.id },
+      });
+      continue;
+    }
+
+    const data = toStoredValue(field, value);
+    await db.customFieldValue.upsert({
+      where: { taskId_fieldId: { taskId, fieldId: field.id } },
+      create: { taskId, fieldId: field.id, ...data },
+      update: data,
+    });
+  }
+}
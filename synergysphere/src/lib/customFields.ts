@@ -0,0 +1,51 @@
+// Custom field helpers shared by API routes and client components; database access lives in customFieldValues.ts
+import { format, parseISO } from 'date-fns';
+import { CustomField, CustomFieldType, CustomFieldValue } from '@/types/customFields';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Select' },
+  { value: 'user', label: 'User' },
+];
+
+// Display text for a value; user values are shown by name when the user is in `members`
+export function formatCustomFieldValue(
+  field: Pick<CustomField, 'type'>,
+  value: CustomFieldValue | undefined,
+  members: { id: string; name: string }[] = []
+) {
+  if (value === undefined) return '';
+
+  switch (field.type) {
+    case 'date':
+      return format(parseISO(String(value)), 'MMM d, yyyy');
+    case 'user':
+      return members.find(member => member.id === value)?.name || 'Unknown user';
+    default:
+      return String(value);
+  }
+}
+
+// Sort comparator for one field's values; tasks without a value sort last
+export function compareCustomFieldValues(
+  field: Pick<CustomField, 'type' | 'options'>,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined
+) {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  switch (field.type) {
+    case 'number':
+      return Number(a) - Number(b);
+    case 'select':
+      // Options sort in the order the field defines them, e.g. Low, Medium, High
+      return field.options.indexOf(String(a)) - field.options.indexOf(String(b));
+    default:
+      // Dates are YYYY-MM-DD, so they sort as strings
+      return String(a).localeCompare(String(b));
+  }
+}
@@ -0,0 +1,14 @@
+// Task estimates, shared by API routes and client components
+import { EstimationUnit } from '@/types/analytics';
+
+export const ESTIMATION_UNITS: { value: EstimationUnit; label: string }[] = [
+  { value: 'points', label: 'Story points' },
+  { value: 'hours', label: 'Hours' },
+];
+
+// 3 -> "3 pts", 1.5 -> "1.5h"
+export function formatEstimate(value: number, unit: EstimationUnit = 'points') {
+  const rounded = Math.round(value * 10) / 10;
+  if (unit === 'hours') return `${rounded}h`;
+  return `${rounded} ${rounded === 1 ? 'pt' : 'pts'}`;
+}
@@ -0,0 +1,54 @@
+import { prisma } from '@/lib/prisma';
+
+export const labelSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  color: true,
+} as const;
+
+// Include on task queries, then flatten with toTaskLabels
+export const taskLabelsInclude = {
+  labels: {
+    select: { label: { select: labelSelect } },
+    orderBy: { label: { name: 'asc' } },
+  },
+} as const;
+
+export function toTaskLabels<T>(labels: { label: T }[]) {
+  return labels.map((taskLabel) => taskLabel.label);
+}
+
+export async function getLabels(projectId: string) {
+  return prisma.label.findMany({
+    where: { projectId },
+    select: labelSelect,
+    orderBy: { name: 'asc' },
+  });
+}
+
+// Whether every id belongs to one of the project's labels
+export async function areProjectLabels(projectId: string, labelIds: string[]) {
+  const uniqueIds = [...new Set(labelIds)];
+  const count = await prisma.label.count({
+    where: { projectId, id: { in: uniqueIds } },
+  });
+  return count === uniqueIds.length;
+}
+
+// `labels` query parameter: comma-separated label ids or names. Tasks match when they
+// carry any of them; names let the cross-project task list filter by e.g. "backend".
+export function buildLabelsWhere(labels: string | null) {
+  const values = (labels || '').split(',').map((value) => value.trim()).filter(Boolean);
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  return {
+    some: {
+      label: {
+        OR: [{ id: { in: values } }, { name: { in: values } }],
+      },
+    },
+  };
+}
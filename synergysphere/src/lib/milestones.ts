@@ -0,0 +1,37 @@
+// Milestone helpers shared by API routes and client components; database access lives in projectMilestones.ts
+import { differenceInCalendarDays } from 'date-fns';
+import { MilestoneStatus } from '@/types/milestones';
+
+// A milestone due within this many days needs to be mostly done to count as on track
+export const MILESTONE_RISK_WINDOW_DAYS = 7;
+const ON_TRACK_PROGRESS = 75;
+
+export const MILESTONE_STATUS_CONFIG: Record<MilestoneStatus, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  at_risk: { label: 'At risk', className: 'bg-yellow-100 text-yellow-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  completed: { label: 'Completed', className: 'bg-blue-100 text-blue-800' },
+};
+
+// Completed once every task is done; at risk when one of its tasks is overdue, or when the
+// target date is close and less than three quarters of the work is done
+export function getMilestoneStatus(
+  milestone: { targetDate: Date | string; totalTasks: number; completedTasks: number; overdueTasks: number },
+  now = new Date()
+): MilestoneStatus {
+  if (milestone.totalTasks > 0 && milestone.completedTasks === milestone.totalTasks) {
+    return 'completed';
+  }
+
+  const daysLeft = differenceInCalendarDays(new Date(milestone.targetDate), now);
+  if (daysLeft < 0) {
+    return 'overdue';
+  }
+
+  const progress = milestone.totalTasks > 0 ? (milestone.completedTasks / milestone.totalTasks) * 100 : 0;
+  if (milestone.overdueTasks > 0 || (daysLeft <= MILESTONE_RISK_WINDOW_DAYS && progress < ON_TRACK_PROGRESS)) {
+    return 'at_risk';
+  }
+
+  return 'on_track';
+}
@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { broadcastToUser } from '@/lib/realtime';
+import { CreateNotificationRequest, NotificationPreferences, NotificationType } from '@/types/notifications';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailNotifications: true,
+  pushNotifications: true,
+  taskAssignments: true,
+  taskUpdates: true,
+  taskComments: true,
+  projectUpdates: true,
+  deadlineReminders: true,
+  teamInvitations: true,
+  weeklyDigest: false,
+};
+
+// The preference that turns each notification type off; mentions and replies always arrive
+const PREFERENCE_BY_TYPE: Partial<Record<NotificationType, keyof NotificationPreferences>> = {
+  task_assigned: 'taskAssignments',
+  task_completed: 'taskUpdates',
+  task_updated: 'taskUpdates',
+  task_comment: 'taskComments',
+  project_update: 'projectUpdates',
+  project_invite: 'teamInvitations',
+  deadline_reminder: 'deadlineReminders',
+};
+
+export const notificationPreferenceSelect = {
+  emailNotifications: true,
+  pushNotifications: true,
+  taskAssignments: true,
+  taskUpdates: true,
+  taskComments: true,
+  projectUpdates: true,
+  deadlineReminders: true,
+  teamInvitations: true,
+  weeklyDigest: true,
+} as const;
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const preferences = await prisma.notificationPreference.findUnique({
+    where: { userId },
+    select: notificationPreferenceSelect,
+  });
+  return preferences || DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+// Recipients who have not turned this type of notification off
+async function filterByPreferences(type: NotificationType, userIds: string[]) {
+  const preferenceKey = PREFERENCE_BY_TYPE[type];
+  if (!preferenceKey || userIds.length === 0) {
+    return userIds;
+  }
+
+  const optedOut = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, [preferenceKey]: false },
+    select: { userId: true },
+  });
+  return userIds.filter((userId) => !optedOut.some((preference) => preference.userId === userId));
+}
+
+// Create one notification per recipient and push each to the recipient's open sessions
+export async function createNotifications(request: CreateNotificationRequest) {
+  const notifications = [];
+  const userIds = await filterByPreferences(request.type, [...new Set(request.userIds)]);
+
+  for (const userId of userIds) {
+    const notification = await prisma.notification.create({
+      data: {
+        type: request.type,
+        title: request.title,
+        message: request.message,
+        data: request.data as Prisma.InputJsonValue,
+        userId,
+        fromUserId: request.fromUserId,
+        projectId: request.projectId,
+      },
+      include: {
+        fromUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            avatarUrl: true,
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    // Transform to match our interface
+    notifications.push({
+      id: notification.id,
+      type: notification.type as NotificationType,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      userId: notification.userId,
+      fromUserId: notification.fromUserId,
+      projectId: notification.projectId,
+      isRead: notification.isRead,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+      fromUser: notification.fromUser,
+      project: notification.project ? {
+        id: notification.project.id,
+        name: notification.project.name,
+        color: undefined,
+      } : undefined,
+    });
+  }
+
+  await Promise.all(
+    notifications.map(notification =>
+      broadcastToUser(notification.userId, 'notification:created', notification)
+    )
+  );
+
+  // TODO: Send email/push notifications based on user preferences
+
+  return notifications;
+}
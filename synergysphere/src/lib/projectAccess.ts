@@ -0,0 +1,22 @@
+import { prisma } from '@/lib/prisma';
+
+// Project settings and the workflow affect everyone on the project, so changing them
+// is limited to the project's owner and admins
+export async function findManageableProject(projectId: string, userId?: string) {
+  return prisma.project.findFirst({
+    where: {
+      id: projectId,
+      OR: [
+        { ownerId: userId },
+        {
+          memberships: {
+            some: {
+              userId,
+              role: { in: ['OWNER', 'ADMIN'] },
+            },
+          },
+        },
+      ],
+    },
+  });
+}
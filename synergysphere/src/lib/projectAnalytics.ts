@@ -0,0 +1,172 @@
+import {
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { getStatusKeys } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import {
+  AnalyticsTimeRange,
+  EstimationUnit,
+  ProjectAnalyticsData,
+  VelocityWeek,
+} from '@/types/analytics';
+
+const RANGE_DAYS: Record<AnalyticsTimeRange, number> = { week: 7, month: 30, quarter: 90 };
+
+// Weeks shown in the velocity history; a single week is not a trend, so even the
+// "week" range looks back a month
+const VELOCITY_WEEKS: Record<AnalyticsTimeRange, number> = { week: 4, month: 5, quarter: 13 };
+
+// Change in velocity (recent half of the history against the older half) that counts as a trend
+const TREND_THRESHOLD = 0.1;
+
+const round = (value: number, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const percentage = (part: number, total: number) => (total === 0 ? 0 : Math.round((part / total) * 100));
+
+export async function getProjectAnalytics(
+  project: { id: string; name: string; estimationUnit: string },
+  timeRange: AnalyticsTimeRange
+): Promise<ProjectAnalyticsData> {
+  const now = new Date();
+  const periodStart = subDays(now, RANGE_DAYS[timeRange]);
+
+  const [states, tasks, memberships] = await Promise.all([
+    getWorkflowStates(project.id),
+    prisma.task.findMany({
+      where: { projectId: project.id },
+      select: {
+        id: true,
+        status: true,
+        assigneeId: true,
+        estimate: true,
+        dueDate: true,
+        createdAt: true,
+        updatedAt: true,
+        statusChanges: {
+          select: { toStatus: true, changedById: true, changedAt: true },
+          orderBy: { changedAt: 'asc' },
+        },
+      },
+    }),
+    prisma.membership.findMany({
+      where: { projectId: project.id },
+      include: {
+        user: { select: { id: true, name: true } },
+      },
+    }),
+  ]);
+
+  const doneKeys = getStatusKeys(states, 'done');
+
+  // A done task was completed when it last entered a done state. Tasks without such a
+  // change (e.g. their state was recategorized as done) fall back to their last update.
+  const completedTasks = tasks
+    .filter((task) => doneKeys.includes(task.status))
+    .map((task) => {
+      const completion = [...task.statusChanges].reverse().find((change) => doneKeys.includes(change.toStatus));
+      return { ...task, completedAt: completion?.changedAt ?? task.updatedAt };
+    });
+
+  const completedInPeriod = completedTasks.filter((task) => task.completedAt >= periodStart);
+  const openTasks = tasks.filter((task) => !doneKeys.includes(task.status));
+  const daysToComplete = (task: (typeof completedTasks)[number]) =>
+    differenceInCalendarDays(task.completedAt, task.createdAt);
+
+  // Velocity: completions per calendar week (Monday start), oldest first
+  const firstWeek = addWeeks(startOfWeek(now, { weekStartsOn: 1 }), -(VELOCITY_WEEKS[timeRange] - 1));
+  const velocityHistory: VelocityWeek[] = Array.from({ length: VELOCITY_WEEKS[timeRange] }, (_, index) => {
+    const weekStart = addWeeks(firstWeek, index);
+    const weekEnd = addWeeks(weekStart, 1);
+    const completed = completedTasks.filter(
+      (task) => task.completedAt >= weekStart && task.completedAt < weekEnd
+    );
+
+    return {
+      weekStart: format(weekStart, 'yyyy-MM-dd'),
+      tasksCompleted: completed.length,
+      estimateCompleted: round(completed.reduce((sum, task) => sum + (task.estimate || 0), 0), 1),
+    };
+  });
+
+  // Without any estimates, velocity and its trend fall back to task counts
+  const hasEstimates = tasks.some((task) => task.estimate);
+  const weeklyValues = velocityHistory.map((week) => (hasEstimates ? week.estimateCompleted : week.tasksCompleted));
+  const half = Math.floor(weeklyValues.length / 2);
+  const olderVelocity = average(weeklyValues.slice(0, half));
+  const recentVelocity = average(weeklyValues.slice(half));
+  const velocityTrend =
+    recentVelocity > olderVelocity * (1 + TREND_THRESHOLD) ? 'up' :
+    recentVelocity < olderVelocity * (1 - TREND_THRESHOLD) ? 'down' : 'stable';
+
+  const onTime = completedInPeriod.filter((task) => !task.dueDate || task.completedAt <= endOfDay(task.dueDate));
+  const activeMemberIds = new Set(
+    tasks.flatMap((task) =>
+      task.statusChanges
+        .filter((change) => change.changedAt >= periodStart && change.changedById)
+        .map((change) => change.changedById)
+    )
+  );
+  const openDueDates = openTasks
+    .filter((task) => task.dueDate)
+    .map((task) => task.dueDate!.getTime());
+
+  const teamProductivity = memberships.map((membership) => {
+    const assigned = tasks.filter((task) => task.assigneeId === membership.userId);
+    const completed = completedTasks.filter((task) => task.assigneeId === membership.userId);
+
+    return {
+      memberId: membership.user.id,
+      memberName: membership.user.name,
+      tasksCompleted: completed.length,
+      tasksAssigned: assigned.length,
+      completionRate: percentage(completed.length, assigned.length),
+      avgCompletionTime: round(average(completed.map(daysToComplete)), 1),
+    };
+  });
+
+  const taskDistribution = states.map((state) => {
+    const count = tasks.filter((task) => task.status === state.key).length;
+    return {
+      status: state.name,
+      count,
+      percentage: percentage(count, tasks.length),
+      color: state.color,
+    };
+  });
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    estimationUnit: project.estimationUnit as EstimationUnit,
+    metrics: {
+      completionRate: percentage(completedTasks.length, tasks.length),
+      totalTasks: tasks.length,
+      completedTasks: completedTasks.length,
+      overdueTasks: openTasks.filter((task) => task.dueDate && task.dueDate < now).length,
+      activeMembers: activeMemberIds.size,
+      avgTaskCompletionTime: round(average(completedInPeriod.map(daysToComplete)), 1),
+      velocity: round(average(velocityHistory.map((week) => week.estimateCompleted)), 1),
+      tasksPerWeek: round(average(velocityHistory.map((week) => week.tasksCompleted)), 1),
+      velocityTrend,
+      onTimeRate: percentage(onTime.length, completedInPeriod.length),
+      timeToDeadline: openDueDates.length > 0
+        ? differenceInCalendarDays(new Date(Math.max(...openDueDates)), now)
+        : null,
+    },
+    velocityHistory,
+    teamProductivity,
+    taskDistribution,
+  };
+}
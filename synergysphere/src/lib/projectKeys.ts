@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { suggestProjectKey } from '@/lib/taskKeys';
+
+export async function isProjectKeyTaken(key: string, excludeProjectId?: string, db: Prisma.TransactionClient = prisma) {
+  const existing = await db.project.findFirst({
+    where: { key, id: excludeProjectId ? { not: excludeProjectId } : undefined },
+    select: { id: true },
+  });
+  return !!existing;
+}
+
+// A project create or update that lost a race for its key: another request took the key
+// between the isProjectKeyTaken check and the write
+export function isProjectKeyConflict(error: unknown) {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+    return false;
+  }
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.includes('key') : String(target).includes('key');
+}
+
+// The suggested key for the name, with a number appended while it is taken: WR, WR2, WR3...
+export async function generateProjectKey(name: string, db: Prisma.TransactionClient = prisma) {
+  const base = suggestProjectKey(name);
+
+  for (let suffix = 1; ; suffix++) {
+    const key = suffix === 1 ? base : `${base.slice(0, 10 - String(suffix).length)}${suffix}`;
+    if (!(await isProjectKeyTaken(key, undefined, db))) return key;
+  }
+}
+
+// Tasks created before task keys existed have no number; they get the next ones, oldest
+// first, so every task has a key
+export async function numberExistingTasks(projectId: string, db: Prisma.TransactionClient = prisma) {
+  const tasks = await db.task.findMany({
+    where: { projectId, number: null },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (tasks.length === 0) return;
+
+  const project = await db.project.update({
+    where: { id: projectId },
+    data: { taskSequence: { increment: tasks.length } },
+    select: { taskSequence: true },
+  });
+
+  const firstNumber = project.taskSequence - tasks.length + 1;
+  for (const [index, task] of tasks.entries()) {
+    await db.task.update({
+      where: { id: task.id },
+      data: { number: firstNumber + index },
+    });
+  }
+}
+
+// Gives a project created before task keys existed its key and numbers its tasks. Run it
+// in a transaction so the key and the numbers are set together; when two requests race,
+// only the one that sets the key numbers the tasks. Returns the project's key.
+export async function ensureProjectKey(projectId: string, db: Prisma.TransactionClient = prisma) {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { key: true, name: true },
+  });
+  if (!project || project.key) return project?.key ?? null;
+
+  const key = await generateProjectKey(project.name, db);
+  const { count } = await db.project.updateMany({
+    where: { id: projectId, key: null },
+    data: { key },
+  });
+  if (count === 0) {
+    const current = await db.project.findUnique({ where: { id: projectId }, select: { key: true } });
+    return current?.key ?? null;
+  }
+
+  await numberExistingTasks(projectId, db);
+  return key;
+}
+
+// Hands out the project's next task number. Projects created before task keys existed
+// get a key, and their tasks numbers, the first time one of their tasks is numbered.
+// Pass `db` to number tasks inside a transaction.
+export async function allocateTaskNumber(projectId: string, db: Prisma.TransactionClient = prisma) {
+  await ensureProjectKey(projectId, db);
+
+  const project = await db.project.update({
+    where: { id: projectId },
+    data: { taskSequence: { increment: 1 } },
+    select: { taskSequence: true },
+  });
+
+  return project.taskSequence;
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getMilestoneStatus } from '@/lib/milestones';
+import { isDoneStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { Milestone } from '@/types/milestones';
+import { WorkflowState } from '@/types/workflow';
+
+// Include on milestone queries, then summarize with toMilestone
+export const milestoneInclude = {
+  tasks: {
+    select: { status: true, dueDate: true },
+  },
+} as const;
+
+type MilestoneRow = Prisma.MilestoneGetPayload<{ include: typeof milestoneInclude }>;
+
+export function toMilestone(milestone: MilestoneRow, states: WorkflowState[], now = new Date()): Milestone {
+  const openTasks = milestone.tasks.filter((task) => !isDoneStatus(states, task.status));
+  const totalTasks = milestone.tasks.length;
+  const completedTasks = totalTasks - openTasks.length;
+  const overdueTasks = openTasks.filter((task) => task.dueDate && task.dueDate < now).length;
+
+  return {
+    id: milestone.id,
+    projectId: milestone.projectId,
+    title: milestone.title,
+    description: milestone.description,
+    targetDate: milestone.targetDate.toISOString(),
+    totalTasks,
+    completedTasks,
+    overdueTasks,
+    progress: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+    status: getMilestoneStatus(
+      { targetDate: milestone.targetDate, totalTasks, completedTasks, overdueTasks },
+      now
+    ),
+    createdAt: milestone.createdAt.toISOString(),
+  };
+}
+
+// The project's milestones by target date
+export async function getMilestones(projectId: string) {
+  const [milestones, states] = await Promise.all([
+    prisma.milestone.findMany({
+      where: { projectId },
+      include: milestoneInclude,
+      orderBy: { targetDate: 'asc' },
+    }),
+    getWorkflowStates(projectId),
+  ]);
+
+  return milestones.map((milestone) => toMilestone(milestone, states));
+}
+
+export async function getMilestoneById(milestoneId: string) {
+  const milestone = await prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    include: milestoneInclude,
+  });
+  return milestone ? toMilestone(milestone, await getWorkflowStates(milestone.projectId)) : null;
+}
+
+export async function isProjectMilestone(projectId: string, milestoneId: string) {
+  const count = await prisma.milestone.count({
+    where: { id: milestoneId, projectId },
+  });
+  return count > 0;
+}
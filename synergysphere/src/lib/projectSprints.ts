@@ -0,0 +1,111 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordTaskHistory } from '@/lib/taskHistory';
+import { isDoneStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { Sprint, SprintState, SprintSummary } from '@/types/sprints';
+
+export const sprintInclude = {
+  _count: { select: { tasks: true } },
+} as const;
+
+type SprintRow = Prisma.SprintGetPayload<{ include: typeof sprintInclude }>;
+
+export function toSprint(sprint: SprintRow): Sprint {
+  return {
+    id: sprint.id,
+    projectId: sprint.projectId,
+    name: sprint.name,
+    goal: sprint.goal,
+    startDate: sprint.startDate.toISOString(),
+    endDate: sprint.endDate.toISOString(),
+    state: sprint.state as SprintState,
+    summary: sprint.summary as SprintSummary | null,
+    closedAt: sprint.closedAt?.toISOString() ?? null,
+    createdAt: sprint.createdAt.toISOString(),
+    taskCount: sprint._count.tasks,
+  };
+}
+
+// Planned and active sprints in the order they run, then closed ones, latest first
+export async function getSprints(projectId: string) {
+  const sprints = await prisma.sprint.findMany({
+    where: { projectId },
+    include: sprintInclude,
+    orderBy: { startDate: 'asc' },
+  });
+
+  return [
+    ...sprints.filter((sprint) => sprint.state !== 'closed'),
+    ...sprints.filter((sprint) => sprint.state === 'closed').reverse(),
+  ].map(toSprint);
+}
+
+// Tasks can only be planned into sprints of their own project that haven't closed
+export async function isOpenProjectSprint(projectId: string, sprintId: string) {
+  const count = await prisma.sprint.count({
+    where: { id: sprintId, projectId, state: { not: 'closed' } },
+  });
+  return count > 0;
+}
+
+// Completed tasks stay in the sprint; the rest move to `targetSprintId` (null for the
+// backlog). The counts are saved on the sprint as its summary.
+export async function closeSprint(
+  sprint: { id: string; projectId: string },
+  targetSprintId: string | null,
+  actorId?: string
+) {
+  const states = await getWorkflowStates(sprint.projectId);
+  const target = targetSprintId
+    ? await prisma.sprint.findUnique({ where: { id: targetSprintId }, select: { id: true, name: true } })
+    : null;
+
+  // The tasks are read in the transaction, so each lands on the side its saved status says
+  const { closedSprint, carriedOver } = await prisma.$transaction(async (tx) => {
+    const tasks = await tx.task.findMany({
+      where: { sprintId: sprint.id },
+      select: { id: true, status: true, estimate: true },
+    });
+
+    const completed = tasks.filter((task) => isDoneStatus(states, task.status));
+    const carriedOver = tasks.filter((task) => !isDoneStatus(states, task.status));
+    const sumEstimates = (list: typeof tasks) => list.reduce((sum, task) => sum + (task.estimate ?? 0), 0);
+
+    const summary: SprintSummary = {
+      completedTasks: completed.length,
+      carriedOverTasks: carriedOver.length,
+      completedEstimate: sumEstimates(completed),
+      carriedOverEstimate: sumEstimates(carriedOver),
+      carriedOverTo: target,
+    };
+
+    await tx.task.updateMany({
+      where: { id: { in: carriedOver.map((task) => task.id) } },
+      data: { sprintId: target?.id ?? null },
+    });
+    const closedSprint = await tx.sprint.update({
+      where: { id: sprint.id },
+      data: {
+        state: 'closed',
+        closedAt: new Date(),
+        summary: summary satisfies Prisma.InputJsonValue,
+      },
+      include: sprintInclude,
+    });
+
+    return { closedSprint, carriedOver };
+  });
+
+  await recordTaskHistory(
+    carriedOver.map((task) => ({
+      taskId: task.id,
+      field: 'sprintId',
+      oldValue: sprint.id,
+      newValue: target?.id ?? null,
+    })),
+    actorId
+  );
+
+  return { sprint: toSprint(closedSprint), carriedOverTaskIds: carriedOver.map((task) => task.id) };
+}
@@ -0,0 +1,85 @@
+// Real-time broadcasting from API routes to the Socket.IO server (server/socket-server.ts).
+// API routes run in the Next.js process, so they hand events to the socket server over
+// its internal HTTP endpoint. Broadcasting is a no-op when SOCKET_SERVER_URL is not set.
+
+export const projectRoom = (projectId: string) => `project:${projectId}`;
+export const userRoom = (userId: string) => `user:${userId}`;
+
+export const BROADCAST_PATH = '/internal/broadcast';
+export const LEAVE_PROJECT_PATH = '/internal/leave-project';
+export const BROADCAST_SECRET_HEADER = 'x-socket-secret';
+
+// API routes await their broadcasts, so a hung socket server can only hold them up this long
+const BROADCAST_TIMEOUT_MS = 3000;
+
+export type RealtimeEvent =
+  | 'task:created'
+  | 'task:updated'
+  | 'task:deleted'
+  | 'task:moved'
+  | 'message:created'
+  | 'message:updated'
+  | 'message:deleted'
+  | 'comment:created'
+  | 'comment:updated'
+  | 'notification:created'
+  | 'notification:updated';
+
+export interface BroadcastRequest {
+  room: string;
+  event: RealtimeEvent;
+  payload: unknown;
+}
+
+// A removed member's open sockets leave the project room, so they stop receiving its events
+export interface LeaveProjectRequest {
+  projectId: string;
+  userId: string;
+}
+
+async function postToSocketServer(path: string, body: BroadcastRequest | LeaveProjectRequest, description: string) {
+  const serverUrl = process.env.SOCKET_SERVER_URL;
+  if (!serverUrl) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`${serverUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [BROADCAST_SECRET_HEADER]: process.env.SOCKET_SERVER_SECRET || '',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(BROADCAST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(`${description} failed: ${response.status}`);
+    }
+  } catch (error) {
+    // The socket server being down or slow must never fail the API request that triggered the event
+    console.error(`${description} failed:`, error);
+  }
+}
+
+function broadcast(request: BroadcastRequest) {
+  return postToSocketServer(BROADCAST_PATH, request, `Realtime broadcast of ${request.event}`);
+}
+
+export function broadcastToProject(projectId: string, event: RealtimeEvent, payload: unknown) {
+  return broadcast({ room: projectRoom(projectId), event, payload });
+}
+
+export function broadcastToUser(userId: string, event: RealtimeEvent, payload: unknown) {
+  return broadcast({ room: userRoom(userId), event, payload });
+}
+
+// Call after deleting memberships
+export function removeUserFromProject(projectId: string, userId: string) {
+  return postToSocketServer(
+    LEAVE_PROJECT_PATH,
+    { projectId, userId },
+    `Removing user ${userId} from project ${projectId} room`
+  );
+}
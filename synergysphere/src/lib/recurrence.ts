@@ -0,0 +1,244 @@
+// Recurrence rules for repeating tasks, shared by API routes and client components.
+// Rules are stored as a subset of RFC 5545 RRULE strings; occurrences are computed
+// from the previous occurrence's due date, plus the day of the month the series started
+// on for monthly rules without BYMONTHDAY.
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth,
+} from 'date-fns';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/types/recurrence';
+
+// Indexed by Date.getDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+export const ORDINAL_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+// Upper bound on generated occurrences, e.g. for a daily rule shown on a yearly calendar
+const MAX_OCCURRENCES = 400;
+
+function isWeekday(value: string): value is Weekday {
+  return (WEEKDAYS as string[]).includes(value);
+}
+
+function parsePositiveInt(value: string) {
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : null;
+}
+
+// "FREQ=WEEKLY;BYDAY=MO,WE" -> rule; null for anything outside the supported subset
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/, '').split(';')) {
+    const [name, val] = part.split('=');
+    const key = name?.toUpperCase();
+    if (!key || val === undefined || parts.has(key)) return null;
+    parts.set(key, val.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ') as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return null;
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = parsePositiveInt(val);
+        if (!interval) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        if (frequency === 'WEEKLY') {
+          const days = val.split(',');
+          if (!days.every(isWeekday)) return null;
+          rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+        } else if (frequency === 'MONTHLY') {
+          const match = val.match(/^(-1|[1-4])(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) return null;
+          rule.byWeekdayOfMonth = { ordinal: parseInt(match[1], 10), weekday: match[2] as Weekday };
+        } else {
+          return null;
+        }
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const day = parsePositiveInt(val);
+        if (frequency !== 'MONTHLY' || !day || day > 31) return null;
+        rule.byMonthDay = day;
+        break;
+      }
+      case 'UNTIL': {
+        const match = val.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'COUNT': {
+        const count = parsePositiveInt(val);
+        if (!count) return null;
+        rule.count = count;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // As in RFC 5545, a series ends on a date or after a number of occurrences, not both
+  if ((rule.until && rule.count) || (rule.byMonthDay && rule.byWeekdayOfMonth)) {
+    return null;
+  }
+
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'WEEKLY' && rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.frequency === 'MONTHLY' && rule.byWeekdayOfMonth) {
+    parts.push(`BYDAY=${rule.byWeekdayOfMonth.ordinal}${rule.byWeekdayOfMonth.weekday}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+export function isValidRecurrenceRule(value: string) {
+  return parseRecurrenceRule(value) !== null;
+}
+
+// The nth (or last, for -1) given weekday of the month containing `month`, if it exists
+function getWeekdayOfMonth(month: Date, ordinal: number, weekday: Weekday) {
+  const first = startOfMonth(month);
+  const daysInMonth = getDaysInMonth(first);
+  const target = WEEKDAYS.indexOf(weekday);
+
+  const matches: Date[] = [];
+  for (let day = 0; day < daysInMonth; day++) {
+    const date = addDays(first, day);
+    if (date.getDay() === target) matches.push(date);
+  }
+
+  return ordinal === -1 ? matches[matches.length - 1] : matches[ordinal - 1];
+}
+
+function withTimeOf(date: Date, time: Date) {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+}
+
+// The first date after `current` that matches the rule, ignoring UNTIL and COUNT.
+// `current` is itself an occurrence, so intervals are counted from it. `monthDay` is the
+// day the series started on, so a task due on the 31st stays on the last day of shorter
+// months rather than moving to the 28th for good; it defaults to `current`'s day.
+export function getNextOccurrence(rule: RecurrenceRule, current: Date, monthDay = current.getDate()): Date {
+  if (rule.frequency === 'DAILY') {
+    return addDays(current, rule.interval);
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[current.getDay()]];
+    for (let offset = 1; ; offset++) {
+      const candidate = addDays(current, offset);
+      const weeks = differenceInCalendarWeeks(candidate, current, { weekStartsOn: 1 });
+      if (weeks % rule.interval === 0 && days.includes(WEEKDAYS[candidate.getDay()])) {
+        return candidate;
+      }
+    }
+  }
+
+  // MONTHLY: the current month counts too, e.g. from the 5th to the 20th of the same month
+  for (let months = 0; ; months += rule.interval) {
+    const month = addMonths(startOfMonth(current), months);
+    let candidate: Date | undefined;
+
+    if (rule.byWeekdayOfMonth) {
+      candidate = getWeekdayOfMonth(month, rule.byWeekdayOfMonth.ordinal, rule.byWeekdayOfMonth.weekday);
+    } else {
+      const day = rule.byMonthDay ?? monthDay;
+      candidate = addDays(month, Math.min(day, getDaysInMonth(month)) - 1);
+    }
+
+    if (candidate) {
+      candidate = withTimeOf(candidate, current);
+      if (candidate > current) return candidate;
+    }
+  }
+}
+
+// Whether occurrence number `index` (1-based) on `date` is still part of the series
+export function isWithinSeries(rule: RecurrenceRule, date: Date, index: number) {
+  if (rule.count && index > rule.count) return false;
+  if (rule.until && date > endOfDay(parseISO(rule.until))) return false;
+  return true;
+}
+
+// Occurrences after `current` (occurrence number `currentIndex`) that fall within [from, to]
+export function getOccurrencesBetween(
+  rule: RecurrenceRule,
+  current: Date,
+  currentIndex: number,
+  from: Date,
+  to: Date,
+  monthDay = current.getDate()
+) {
+  const occurrences: { date: Date; index: number }[] = [];
+  let date = current;
+  let index = currentIndex;
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    date = getNextOccurrence(rule, date, monthDay);
+    index += 1;
+    if (date > to || !isWithinSeries(rule, date, index)) break;
+    if (date >= from) occurrences.push({ date, index });
+  }
+
+  return occurrences;
+}
+
+// "Every 2 weeks on Mon, Wed, 6 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.frequency];
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === 'WEEKLY' && rule.byDay?.length) {
+    description += ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.byMonthDay) {
+    description += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.byWeekdayOfMonth) {
+    const { ordinal, weekday } = rule.byWeekdayOfMonth;
+    description += ` on the ${ORDINAL_LABELS[ordinal]} ${WEEKDAY_LABELS[weekday]}`;
+  }
+  if (rule.until) {
+    description += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+}
@@ -0,0 +1,139 @@
+import { Prisma, Task } from '@prisma/client';
+import { customFieldValuesInclude, toCustomFieldValues } from '@/lib/customFieldValues';
+import { taskLabelsInclude, toTaskLabels } from '@/lib/labels';
+import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { broadcastToProject } from '@/lib/realtime';
+import { getNextOccurrence, isWithinSeries, parseRecurrenceRule } from '@/lib/recurrence';
+import { recordStatusChange } from '@/lib/statusHistory';
+import { createColumnAppender } from '@/lib/taskRanking';
+import { getTaskWatcherIds } from '@/lib/taskWatchers';
+import { getInitialStatus, isDoneStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { WorkflowState } from '@/types/workflow';
+
+// Another request created the occurrence between the check and the create; each task
+// has at most one next occurrence
+function isNextOccurrenceConflict(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// Creates the occurrence after `task`, unless the series has ended or it already exists
+// (e.g. the task was reopened and completed again, or completed twice at once)
+export async function createNextOccurrence(task: Task) {
+  const rule = task.recurrenceRule ? parseRecurrenceRule(task.recurrenceRule) : null;
+  if (!rule) return null;
+
+  const existing = await prisma.task.findFirst({
+    where: { recurrenceSourceId: task.id },
+  });
+  if (existing) return null;
+
+  // Tasks without a due date repeat from the day they were completed
+  const current = task.dueDate ?? new Date();
+  const recurrenceMonthDay = task.recurrenceMonthDay ?? current.getDate();
+  const dueDate = getNextOccurrence(rule, current, recurrenceMonthDay);
+  const recurrenceIndex = task.recurrenceIndex + 1;
+  if (!isWithinSeries(rule, dueDate, recurrenceIndex)) return null;
+
+  const status = getInitialStatus(await getWorkflowStates(task.projectId));
+  const taskLabels = await prisma.taskLabel.findMany({
+    where: { taskId: task.id },
+    select: { labelId: true },
+  });
+  const fieldValues = await prisma.customFieldValue.findMany({
+    where: { taskId: task.id },
+    select: { fieldId: true, textValue: true, numberValue: true, dateValue: true },
+  });
+  const watcherIds = await getTaskWatcherIds(task.id);
+
+  let nextTask;
+  try {
+    // The task number is only taken if the occurrence is created
+    nextTask = await prisma.$transaction(async (tx) => tx.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        status,
+        position: await createColumnAppender(tx, task.projectId)(status),
+        number: await allocateTaskNumber(task.projectId, tx),
+        priority: task.priority,
+        estimate: task.estimate,
+        assigneeId: task.assigneeId,
+        // The occurrence keeps the task's duration on the timeline
+        startDate: task.startDate && task.dueDate
+          ? new Date(dueDate.getTime() - (task.dueDate.getTime() - task.startDate.getTime()))
+          : null,
+        dueDate,
+        parentTaskId: task.parentTaskId,
+        // Closing the sprint carries the occurrence over if it's still open by then
+        sprintId: task.sprintId,
+        milestoneId: task.milestoneId,
+        projectId: task.projectId,
+        creatorId: task.creatorId,
+        recurrenceRule: task.recurrenceRule,
+        recurrenceIndex,
+        recurrenceSourceId: task.id,
+        recurrenceMonthDay,
+        labels: {
+          create: taskLabels.map(({ labelId }) => ({ labelId })),
+        },
+        customFieldValues: {
+          create: fieldValues,
+        },
+        watchers: {
+          create: watcherIds.map((userId) => ({ userId })),
+        },
+      },
+      include: {
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        ...taskLabelsInclude,
+        ...customFieldValuesInclude,
+      },
+    }));
+  } catch (error) {
+    if (isNextOccurrenceConflict(error)) return null;
+    throw error;
+  }
+
+  await recordStatusChange({ taskId: nextTask.id, fromStatus: null, toStatus: status });
+
+  const { customFieldValues, ...taskData } = nextTask;
+  const transformedTask = {
+    ...taskData,
+    labels: toTaskLabels(nextTask.labels),
+    customFields: toCustomFieldValues(customFieldValues),
+    blockedBy: [],
+    progress: { completed: 0, total: 0 },
+  };
+
+  await broadcastToProject(task.projectId, 'task:created', transformedTask);
+
+  return transformedTask;
+}
+
+// Call after a status change: moving an occurrence into a done state generates the next one
+export async function handleRecurringTaskStatusChange(
+  previousStatus: string,
+  task: Task,
+  states: WorkflowState[]
+) {
+  if (isDoneStatus(states, previousStatus) || !isDoneStatus(states, task.status)) {
+    return null;
+  }
+
+  return createNextOccurrence(task);
+}
@@ -0,0 +1,87 @@
+// Saved task views and their URL encoding
+import { SavedViewConfig, ViewLayout } from '@/types/savedViews';
+
+export const VIEW_LAYOUTS: { value: ViewLayout; label: string }[] = [
+  { value: 'board', label: 'Board' },
+  { value: 'list', label: 'List' },
+  { value: 'calendar', label: 'Calendar' },
+];
+
+// Query parameters that aren't filters: the saved view's id and the rest of its config
+const VIEW_PARAM = 'view';
+const LAYOUT_PARAM = 'layout';
+const SORT_PARAM = 'sort';
+const GROUP_PARAM = 'group';
+
+function isViewLayout(value: string | null): value is ViewLayout {
+  return VIEW_LAYOUTS.some((layout) => layout.value === value);
+}
+
+// Settings left at their defaults are left out, so a plain page keeps a clean URL
+export function viewConfigToQuery(
+  config: SavedViewConfig,
+  defaults: SavedViewConfig,
+  viewId?: string | null
+): string {
+  const params = new URLSearchParams();
+  if (viewId) params.set(VIEW_PARAM, viewId);
+  if (config.layout !== defaults.layout) params.set(LAYOUT_PARAM, config.layout);
+  if (config.sort && config.sort !== defaults.sort) params.set(SORT_PARAM, config.sort);
+  if (config.groupBy && config.groupBy !== defaults.groupBy) params.set(GROUP_PARAM, config.groupBy);
+  Object.entries(config.filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return params.toString();
+}
+
+// Null when the URL doesn't carry any view settings, so the caller can fall back to
+// the user's default view
+export function viewConfigFromQuery(
+  params: URLSearchParams,
+  filterKeys: string[],
+  defaults: SavedViewConfig
+): SavedViewConfig | null {
+  const layout = params.get(LAYOUT_PARAM);
+  const filters: Record<string, string> = {};
+  filterKeys.forEach((key) => {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  });
+
+  const hasSettings =
+    isViewLayout(layout) ||
+    params.has(SORT_PARAM) ||
+    params.has(GROUP_PARAM) ||
+    Object.keys(filters).length > 0;
+  if (!hasSettings) return null;
+
+  return {
+    layout: isViewLayout(layout) ? layout : defaults.layout,
+    filters,
+    sort: params.get(SORT_PARAM) || defaults.sort,
+    groupBy: params.get(GROUP_PARAM) || defaults.groupBy,
+  };
+}
+
+export function getViewIdFromQuery(params: URLSearchParams): string | null {
+  return params.get(VIEW_PARAM);
+}
+
+// Replaces the view settings in a URL's query, keeping unrelated parameters such as ?task=
+export function withViewQuery(current: URLSearchParams, viewQuery: string, filterKeys: string[]): string {
+  const params = new URLSearchParams(current.toString());
+  [VIEW_PARAM, LAYOUT_PARAM, SORT_PARAM, GROUP_PARAM, ...filterKeys].forEach((key) => params.delete(key));
+  new URLSearchParams(viewQuery).forEach((value, key) => params.set(key, value));
+  return params.toString();
+}
+
+// Whether the page still shows a view as saved, to mark it as modified otherwise
+export function isSameViewConfig(a: SavedViewConfig, b: SavedViewConfig): boolean {
+  const filterKeys = new Set([...Object.keys(a.filters), ...Object.keys(b.filters)]);
+  return (
+    a.layout === b.layout &&
+    (a.sort || '') === (b.sort || '') &&
+    (a.groupBy || '') === (b.groupBy || '') &&
+    [...filterKeys].every((key) => (a.filters[key] || '') === (b.filters[key] || ''))
+  );
+}
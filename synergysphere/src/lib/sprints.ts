@@ -0,0 +1,44 @@
+// Sprint helpers shared by API routes and client components; database access lives in projectSprints.ts
+import { addDays, format } from 'date-fns';
+import { Sprint, SprintState } from '@/types/sprints';
+
+export const SPRINT_STATES: { value: SprintState; label: string }[] = [
+  { value: 'planned', label: 'Planned' },
+  { value: 'active', label: 'Active' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export const SPRINT_LENGTH_DAYS = 14;
+
+export function getActiveSprint<T extends Pick<Sprint, 'state'>>(sprints: T[]) {
+  return sprints.find((sprint) => sprint.state === 'active') || null;
+}
+
+// Where unfinished work goes by default when a sprint closes: the earliest planned sprint
+export function getNextSprint<T extends Pick<Sprint, 'id' | 'state' | 'startDate'>>(sprints: T[], currentId?: string) {
+  return (
+    sprints
+      .filter((sprint) => sprint.state === 'planned' && sprint.id !== currentId)
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())[0] || null
+  );
+}
+
+// "Sprint 4", starting the day after the latest sprint ends (or today) and lasting two weeks
+export function suggestNextSprint(sprints: Pick<Sprint, 'endDate'>[], today = new Date()) {
+  const lastEnd = sprints.reduce<Date | null>((latest, sprint) => {
+    const end = new Date(sprint.endDate);
+    return !latest || end > latest ? end : latest;
+  }, null);
+  const startDate = lastEnd && lastEnd >= today ? addDays(lastEnd, 1) : today;
+
+  return {
+    name: `Sprint ${sprints.length + 1}`,
+    startDate,
+    endDate: addDays(startDate, SPRINT_LENGTH_DAYS - 1),
+  };
+}
+
+// "Mar 3 - Mar 16"
+export function formatSprintDates(sprint: Pick<Sprint, 'startDate' | 'endDate'>) {
+  return `${format(new Date(sprint.startDate), 'MMM d')} - ${format(new Date(sprint.endDate), 'MMM d')}`;
+}
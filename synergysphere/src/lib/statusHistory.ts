@@ -0,0 +1,22 @@
+import { prisma } from '@/lib/prisma';
+
+interface StatusChange {
+  taskId: string;
+  fromStatus: string | null; // null when the task was just created
+  toStatus: string;
+}
+
+// Call after a task's status is saved; changes to the same status are ignored
+export async function recordStatusChange(change: StatusChange, changedById?: string) {
+  return recordStatusChanges([change], changedById);
+}
+
+export async function recordStatusChanges(changes: StatusChange[], changedById?: string) {
+  const data = changes
+    .filter((change) => change.fromStatus !== change.toStatus)
+    .map((change) => ({ ...change, changedById }));
+
+  if (data.length === 0) return;
+
+  await prisma.taskStatusChange.createMany({ data });
+}
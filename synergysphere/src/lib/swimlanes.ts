@@ -0,0 +1,108 @@
+// Swimlane grouping for the Kanban board
+export type SwimlaneField = 'assignee' | 'priority' | 'creator';
+
+export type TaskPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export const SWIMLANE_OPTIONS: { value: SwimlaneField | 'none'; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'assignee', label: 'By assignee' },
+  { value: 'priority', label: 'By priority' },
+  { value: 'creator', label: 'By creator' },
+];
+
+// Most urgent work on top
+const PRIORITY_LANES: { id: TaskPriority; label: string }[] = [
+  { id: 'URGENT', label: 'Urgent' },
+  { id: 'HIGH', label: 'High' },
+  { id: 'MEDIUM', label: 'Medium' },
+  { id: 'LOW', label: 'Low' },
+];
+
+// Field a card's new lane sets, sent along with the move
+export type SwimlaneUpdate = { assigneeId: string | null } | { priority: TaskPriority };
+
+export const UNASSIGNED_LANE = 'unassigned';
+
+interface LaneTask {
+  assigneeId?: string | null;
+  assignee?: { name: string } | null;
+  creatorId: string;
+  creator: { name: string };
+  priority: TaskPriority;
+}
+
+export interface Swimlane<T extends LaneTask> {
+  id: string;
+  label: string;
+  tasks: T[];
+}
+
+export function getLaneId(task: LaneTask, field: SwimlaneField): string {
+  switch (field) {
+    case 'assignee':
+      return task.assigneeId || UNASSIGNED_LANE;
+    case 'priority':
+      return task.priority;
+    case 'creator':
+      return task.creatorId;
+  }
+}
+
+// Assignee and priority lanes include empty ones, so a card can be dropped on a member
+// without any tasks yet; creator lanes only list people who created one of the tasks
+export function getSwimlanes<T extends LaneTask>(
+  tasks: T[],
+  field: SwimlaneField,
+  members: { id: string; name: string }[] = []
+): Swimlane<T>[] {
+  const lanes = new Map<string, string>();
+
+  if (field === 'priority') {
+    PRIORITY_LANES.forEach((lane) => lanes.set(lane.id, lane.label));
+  } else if (field === 'assignee') {
+    members.forEach((member) => lanes.set(member.id, member.name));
+    tasks.forEach((task) => {
+      if (task.assigneeId && !lanes.has(task.assigneeId)) {
+        lanes.set(task.assigneeId, task.assignee?.name || 'Former member');
+      }
+    });
+  } else {
+    tasks.forEach((task) => lanes.set(task.creatorId, task.creator.name));
+  }
+
+  const result = [...lanes.entries()].map(([id, label]) => ({
+    id,
+    label,
+    tasks: tasks.filter((task) => getLaneId(task, field) === id),
+  }));
+
+  if (field !== 'priority') {
+    result.sort((a, b) => a.label.localeCompare(b.label));
+  }
+  if (field === 'assignee') {
+    // Unassigned work goes last
+    result.push({
+      id: UNASSIGNED_LANE,
+      label: 'Unassigned',
+      tasks: tasks.filter((task) => !task.assigneeId),
+    });
+  }
+
+  return result;
+}
+
+// Field change for a card dropped into another lane. Who created a task can't be changed,
+// so creator lanes return null and the card only changes column.
+export function getLaneUpdate(
+  field: SwimlaneField,
+  laneId: string
+): SwimlaneUpdate | null {
+  switch (field) {
+    case 'assignee':
+      return { assigneeId: laneId === UNASSIGNED_LANE ? null : laneId };
+    case 'priority':
+      return { priority: laneId as TaskPriority };
+    case 'creator':
+      return null;
+  }
+}
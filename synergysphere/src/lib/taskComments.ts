@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { getTaskUrl } from '@/lib/taskKeys';
+import { getTaskWatcherIds } from '@/lib/taskWatchers';
+import { TaskComment, TaskCommentReaction } from '@/types/taskComments';
+
+export const taskCommentReactionInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} as const;
+
+// Include for comment queries returned to the client (see TaskComment in types/taskComments)
+export const taskCommentInclude = {
+  author: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+  reactions: {
+    include: taskCommentReactionInclude,
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+type TaskCommentRecord = Prisma.TaskCommentGetPayload<{ include: typeof taskCommentInclude }>;
+type TaskCommentReactionRecord = Prisma.TaskCommentReactionGetPayload<{ include: typeof taskCommentReactionInclude }>;
+
+export function toTaskCommentReaction(reaction: TaskCommentReactionRecord): TaskCommentReaction {
+  return {
+    id: reaction.id,
+    emoji: reaction.emoji,
+    userId: reaction.userId,
+    userName: reaction.user.name,
+    createdAt: reaction.createdAt.toISOString(),
+  };
+}
+
+export function toTaskComment(comment: TaskCommentRecord): TaskComment {
+  return {
+    id: comment.id,
+    taskId: comment.taskId,
+    authorId: comment.authorId,
+    content: comment.content,
+    mentions: (comment.mentions as string[]) || [],
+    isEdited: comment.isEdited,
+    editedAt: comment.editedAt?.toISOString() ?? null,
+    deletedAt: comment.deletedAt?.toISOString() ?? null,
+    createdAt: comment.createdAt.toISOString(),
+    updatedAt: comment.updatedAt.toISOString(),
+    author: {
+      ...comment.author,
+      avatarUrl: comment.author.avatarUrl ?? undefined,
+    },
+    reactions: comment.reactions.map(toTaskCommentReaction),
+  };
+}
+
+// Mentioned project members: "@Full Name" in the content, plus ids picked in the composer.
+// Only members of the task's project can be mentioned, so they can open the task.
+export async function resolveCommentMentions(projectId: string, content: string, mentionIds: string[] = []) {
+  const members = await prisma.membership.findMany({
+    where: { projectId },
+    select: { user: { select: { id: true, name: true } } },
+  });
+
+  return members
+    .map((membership) => membership.user)
+    .filter((user) => mentionIds.includes(user.id) || content.includes(`@${user.name}`))
+    .map((user) => user.id);
+}
+
+// Tell mentioned users, watchers, the assignee and the creator about a new comment. Edits
+// only notify the mentioned users passed in, so the others hear once per comment.
+export async function notifyTaskComment(options: {
+  task: { id: string; title: string; projectId: string; assigneeId: string | null; creatorId: string };
+  comment: { content: string; authorId: string; authorName: string };
+  mentionedUserIds: string[];
+  isEdit?: boolean;
+}) {
+  const { task, comment, mentionedUserIds, isEdit = false } = options;
+  const data = {
+    taskId: task.id,
+    taskTitle: task.title,
+    projectId: task.projectId,
+    messageContent: comment.content.slice(0, 100),
+    url: getTaskUrl(task.projectId, task.id),
+  };
+
+  const mentioned = mentionedUserIds.filter((userId) => userId !== comment.authorId); // Don't notify yourself
+  if (mentioned.length > 0) {
+    await createNotifications({
+      userIds: mentioned,
+      fromUserId: comment.authorId,
+      projectId: task.projectId,
+      type: 'task_comment',
+      title: 'You were mentioned',
+      message: `${comment.authorName} mentioned you in a comment on "${task.title}"`,
+      data,
+    });
+  }
+
+  if (isEdit) {
+    return;
+  }
+
+  const watcherIds = await getTaskWatcherIds(task.id);
+  const followers = [...new Set([task.assigneeId, task.creatorId, ...watcherIds])].filter(
+    (userId): userId is string => !!userId && userId !== comment.authorId && !mentioned.includes(userId)
+  );
+  if (followers.length > 0) {
+    await createNotifications({
+      userIds: followers,
+      fromUserId: comment.authorId,
+      projectId: task.projectId,
+      type: 'task_comment',
+      title: 'New comment',
+      message: `${comment.authorName} commented on "${task.title}"`,
+      data,
+    });
+  }
+}
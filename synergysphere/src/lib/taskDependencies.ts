@@ -0,0 +1,93 @@
+import { prisma } from '@/lib/prisma';
+import { getStatusCategory, getStatusKeys } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+
+export const blockerSelect = {
+  id: true,
+  title: true,
+  status: true,
+} as const;
+
+export async function getBlockers(taskId: string) {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { taskId },
+    include: {
+      blockedBy: { select: blockerSelect },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return dependencies.map((dependency) => dependency.blockedBy);
+}
+
+// Blockers that aren't in one of the project's done states
+export async function getOpenBlockers(task: { id: string; projectId: string }) {
+  const states = await getWorkflowStates(task.projectId);
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      taskId: task.id,
+      blockedBy: {
+        status: { notIn: getStatusKeys(states, 'done') },
+      },
+    },
+    include: {
+      blockedBy: { select: blockerSelect },
+    },
+  });
+
+  return dependencies.map((dependency) => dependency.blockedBy);
+}
+
+// Open blockers that prevent a task from moving to `status`; empty when the move is allowed.
+// Only todo-category states can be entered while blockers are open.
+export async function getBlockersForStatusChange(task: { id: string; projectId: string }, status: string) {
+  const states = await getWorkflowStates(task.projectId);
+  if (getStatusCategory(states, status) === 'todo') {
+    return [];
+  }
+
+  return getOpenBlockers(task);
+}
+
+// Linking "taskId is blocked by blockedById" closes a cycle if blockedById
+// already depends on taskId, directly or through other tasks in the project
+export async function wouldCreateCycle(projectId: string, taskId: string, blockedById: string) {
+  if (taskId === blockedById) {
+    return true;
+  }
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      task: { projectId },
+    },
+    select: {
+      taskId: true,
+      blockedById: true,
+    },
+  });
+
+  const blockersByTask = new Map<string, string[]>();
+  for (const dependency of dependencies) {
+    const blockers = blockersByTask.get(dependency.taskId) || [];
+    blockers.push(dependency.blockedById);
+    blockersByTask.set(dependency.taskId, blockers);
+  }
+
+  const visited = new Set<string>();
+  const queue = [blockedById];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === taskId) {
+      return true;
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+    queue.push(...(blockersByTask.get(current) || []));
+  }
+
+  return false;
+}
@@ -0,0 +1,77 @@
+import { prisma } from '@/lib/prisma';
+import { recordStatusChanges } from '@/lib/statusHistory';
+import { CustomFieldValues } from '@/types/customFields';
+
+// Task columns whose changes are kept in the history
+const HISTORY_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assigneeId',
+  'startDate',
+  'dueDate',
+  'estimate',
+  'recurrenceRule',
+  'sprintId',
+  'milestoneId',
+] as const;
+
+type TaskFieldValues = Partial<Record<(typeof HISTORY_FIELDS)[number], unknown>>;
+
+export interface TaskHistoryChange {
+  taskId: string;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Values are stored as text: dates as ISO timestamps, ids and numbers as they are
+function toHistoryValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function change(taskId: string, field: string, oldValue: unknown, newValue: unknown): TaskHistoryChange {
+  return { taskId, field, oldValue: toHistoryValue(oldValue), newValue: toHistoryValue(newValue) };
+}
+
+// Field-by-field changes between two versions of a task
+export function diffTaskFields(taskId: string, before: TaskFieldValues, after: TaskFieldValues) {
+  return HISTORY_FIELDS.map((field) => change(taskId, field, before[field], after[field]));
+}
+
+// Labels are recorded by name, so the history still reads after a label is deleted
+export function diffTaskLabels(taskId: string, before: { name: string }[], after: { name: string }[]) {
+  const names = (labels: { name: string }[]) => labels.map((label) => label.name).sort().join(', ');
+  return [change(taskId, 'labels', names(before), names(after))];
+}
+
+// Projects are recorded by name too, since the old project may be gone or out of reach
+export function diffTaskProject(taskId: string, before: { name: string }, after: { name: string }) {
+  return [change(taskId, 'project', before.name, after.name)];
+}
+
+export function diffCustomFieldValues(taskId: string, before: CustomFieldValues, after: CustomFieldValues) {
+  const fieldIds = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fieldIds.map((fieldId) => change(taskId, `customField:${fieldId}`, before[fieldId], after[fieldId]));
+}
+
+// History entries are only ever created, never updated or deleted. Status changes are
+// also added to the TaskStatusChange log that analytics reads.
+export async function recordTaskHistory(changes: TaskHistoryChange[], actorId?: string) {
+  const data = changes
+    .filter((entry) => entry.oldValue !== entry.newValue)
+    .map((entry) => ({ ...entry, actorId }));
+
+  if (data.length === 0) return;
+
+  await prisma.taskHistoryEntry.createMany({ data });
+  await recordStatusChanges(
+    data
+      .filter((entry) => entry.field === 'status' && entry.newValue)
+      .map((entry) => ({ taskId: entry.taskId, fromStatus: entry.oldValue, toStatus: entry.newValue! })),
+    actorId
+  );
+}
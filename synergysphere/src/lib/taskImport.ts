@@ -0,0 +1,86 @@
+// Task CSV import and export, shared by API routes and client components
+import { fromCsvCell } from '@/lib/csv';
+import { TaskImportField, TaskImportRow } from '@/types/taskImport';
+
+// Header names each field is recognised by when columns are mapped automatically
+export const TASK_IMPORT_FIELDS: { value: TaskImportField; label: string; headers: string[] }[] = [
+  { value: 'title', label: 'Title', headers: ['title', 'name', 'summary', 'task'] },
+  { value: 'description', label: 'Description', headers: ['description', 'details', 'notes'] },
+  { value: 'status', label: 'Status', headers: ['status', 'state', 'column'] },
+  { value: 'priority', label: 'Priority', headers: ['priority'] },
+  { value: 'assigneeEmail', label: 'Assignee email', headers: ['assignee email', 'assignee', 'assigned to', 'email'] },
+  { value: 'startDate', label: 'Start date', headers: ['start date', 'start'] },
+  { value: 'dueDate', label: 'Due date', headers: ['due date', 'due', 'deadline'] },
+  { value: 'estimate', label: 'Estimate', headers: ['estimate', 'points', 'story points', 'hours'] },
+  { value: 'labels', label: 'Labels', headers: ['labels', 'tags'] },
+];
+
+// Columns of a CSV export, in order; the ones named like import fields map back on import
+export const TASK_EXPORT_HEADERS = [
+  'Key',
+  'Title',
+  'Description',
+  'Status',
+  'Priority',
+  'Assignee email',
+  'Start date',
+  'Due date',
+  'Estimate',
+  'Labels',
+  'Parent',
+  'Created at',
+];
+
+export const MAX_IMPORT_ROWS = 500;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// The field for each column, or null to leave it out; each field goes to one column at most
+export function guessColumnMapping(headers: string[]): (TaskImportField | null)[] {
+  const used = new Set<TaskImportField>();
+  return headers.map((header) => {
+    const field = TASK_IMPORT_FIELDS.find(
+      (candidate) => !used.has(candidate.value) && candidate.headers.includes(normalizeHeader(header))
+    );
+    if (!field) return null;
+    used.add(field.value);
+    return field.value;
+  });
+}
+
+export function toTaskImportRows(rows: string[][], mapping: (TaskImportField | null)[]): TaskImportRow[] {
+  return rows.map((cells) => {
+    const row: TaskImportRow = {};
+    mapping.forEach((field, index) => {
+      if (field && cells[index] !== undefined) {
+        row[field] = fromCsvCell(cells[index]).trim();
+      }
+    });
+    return row;
+  });
+}
+
+// Labels share one cell as "design; backend"; a semicolon or backslash inside a name is
+// escaped with a backslash, so every name survives an export and re-import
+export function joinLabelNames(names: string[]) {
+  return names.map((name) => name.replace(/[\\;]/g, '\\$&')).join('; ');
+}
+
+export function splitLabelNames(value: string) {
+  const names: string[] = [];
+  let name = '';
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      name += value[++i];
+    } else if (value[i] === ';') {
+      names.push(name);
+      name = '';
+    } else {
+      name += value[i];
+    }
+  }
+  names.push(name);
+
+  return [...new Set(names.map((label) => label.trim()).filter(Boolean))];
+}
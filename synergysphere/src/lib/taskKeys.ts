@@ -0,0 +1,70 @@
+// Task keys like WEB-142 (project key + per-project number), shared by API routes and
+// client components; numbering lives in projectKeys.ts
+
+// Two to ten characters, starting with a letter
+export const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+// Task keys inside free text, preceded by the start or a separator so "aWEB-1" and
+// "WEB-1x" are not matched
+const TASK_KEY_IN_TEXT = /(^|[^A-Za-z0-9-])([A-Z][A-Z0-9]{1,9})-(\d+)(?![A-Za-z0-9-])/g;
+
+export function formatTaskKey(projectKey: string | null | undefined, number: number | null | undefined) {
+  if (!projectKey || !number) return null;
+  return `${projectKey}-${number}`;
+}
+
+// "web-142" -> { projectKey: "WEB", number: 142 }
+export function parseTaskKey(key: string) {
+  const match = /^([A-Za-z][A-Za-z0-9]{1,9})-(\d+)$/.exec(key.trim());
+  if (!match) return null;
+
+  const number = parseInt(match[2], 10);
+  if (number < 1) return null;
+
+  return { projectKey: match[1].toUpperCase(), number };
+}
+
+// "Website Redesign" -> "WR", "Marketing" -> "MAR"
+export function suggestProjectKey(name: string) {
+  const words = name.toUpperCase().match(/[A-Z0-9]+/g) || [];
+  const initials = words.map((word) => word[0]).join('');
+  const key = (initials.length >= 2 ? initials : words.join('').slice(0, 3)).slice(0, 10);
+
+  if (!/^[A-Z]/.test(key)) return `P${key}`.slice(0, 10).padEnd(2, 'X');
+  return key.padEnd(2, 'X');
+}
+
+export type TaskKeySegment = string | { key: string; projectKey: string; number: number };
+
+// Splits text into plain strings and task keys. Only keys of known projects are matched,
+// so text like "UTF-8" or "ISO-9001" stays as it is.
+export function splitTaskKeys(text: string, projectKeys: string[]): TaskKeySegment[] {
+  if (projectKeys.length === 0) return [text];
+
+  const segments: TaskKeySegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TASK_KEY_IN_TEXT)) {
+    const [, prefix, projectKey, number] = match;
+    if (!projectKeys.includes(projectKey)) continue;
+
+    const start = match.index! + prefix.length;
+    if (start > lastIndex) {
+      segments.push(text.slice(lastIndex, start));
+    }
+    segments.push({ key: `${projectKey}-${number}`, projectKey, number: parseInt(number, 10) });
+    lastIndex = start + projectKey.length + number.length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push(text.slice(lastIndex));
+  }
+  return segments;
+}
+
+// Opens the task on its project's board
+export const getTaskUrl = (projectId: string, taskId: string) =>
+  `/dashboard/projects/${projectId}/tasks?task=${taskId}`;
+
+// Resolves the key and then opens the task
+export const getTaskKeyUrl = (key: string) => `/dashboard/tasks/${key}`;
@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { mapStatusToWorkflow } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { WorkflowState } from '@/types/workflow';
+
+// Moving and duplicating tasks across projects. Labels and custom field values carry over
+// to the target project's labels and fields of the same name; the sprint, the milestone and
+// links to tasks that stay behind belong to the old project and are dropped.
+
+export interface ProjectMoveTarget {
+  projectId: string;
+  states: WorkflowState[];
+  memberIds: string[];
+  // Tasks moving to the same project in the same operation, whose links are kept
+  movingTaskIds: string[];
+}
+
+type MovingTask = {
+  id: string;
+  projectId: string;
+  number: number | null;
+  status: string;
+  assigneeId: string | null;
+  parentTaskId: string | null;
+};
+
+// The target project's workflow and members, or null when the user isn't a member of it
+export async function getProjectMoveTarget(
+  projectId: string,
+  userId: string,
+  movingTaskIds: string[]
+): Promise<ProjectMoveTarget | null> {
+  const memberships = await prisma.membership.findMany({
+    where: { projectId },
+    select: { userId: true },
+  });
+  const memberIds = memberships.map((membership) => membership.userId);
+  if (!memberIds.includes(userId)) return null;
+
+  return { projectId, states: await getWorkflowStates(projectId), memberIds, movingTaskIds };
+}
+
+// Status and assignee the task ends up with when nothing else is asked for; assignees who
+// aren't members of the target project are cleared
+export function getProjectMoveDefaults(
+  task: Pick<MovingTask, 'status' | 'assigneeId'>,
+  fromStates: WorkflowState[],
+  target: Pick<ProjectMoveTarget, 'states' | 'memberIds'>
+) {
+  return {
+    status: mapStatusToWorkflow(fromStates, target.states, task.status),
+    assigneeId: task.assigneeId && target.memberIds.includes(task.assigneeId) ? task.assigneeId : null,
+  };
+}
+
+// The task's label ids and custom field value rows as they apply in the target project.
+// Values the target field can't hold (an unknown option, a user who isn't a member) are dropped.
+export async function getCarriedOverMetadata(
+  taskId: string,
+  targetProjectId: string,
+  targetMemberIds: string[],
+  db: Prisma.TransactionClient = prisma
+) {
+  const task = await db.task.findUniqueOrThrow({
+    where: { id: taskId },
+    select: {
+      projectId: true,
+      labels: { select: { label: { select: { id: true, name: true } } } },
+      customFieldValues: {
+        select: {
+          fieldId: true,
+          textValue: true,
+          numberValue: true,
+          dateValue: true,
+          field: { select: { name: true, type: true } },
+        },
+      },
+    },
+  });
+
+  const toRow = ({ fieldId, textValue, numberValue, dateValue }: (typeof task.customFieldValues)[number]) =>
+    ({ fieldId, textValue, numberValue, dateValue });
+
+  if (task.projectId === targetProjectId) {
+    return {
+      labelIds: task.labels.map(({ label }) => label.id),
+      customFieldValues: task.customFieldValues.map(toRow),
+    };
+  }
+
+  const targetLabels = await db.label.findMany({
+    where: { projectId: targetProjectId, name: { in: task.labels.map(({ label }) => label.name) } },
+    select: { id: true },
+  });
+  const targetFields = await db.customField.findMany({
+    where: { projectId: targetProjectId, name: { in: task.customFieldValues.map((value) => value.field.name) } },
+  });
+
+  const customFieldValues = task.customFieldValues.flatMap((value) => {
+    const field = targetFields.find((f) => f.name === value.field.name && f.type === value.field.type);
+    if (!field) return [];
+
+    const options = Array.isArray(field.options) ? field.options.map(String) : [];
+    if (field.type === 'select' && !options.includes(value.textValue ?? '')) return [];
+    if (field.type === 'user' && !targetMemberIds.includes(value.textValue ?? '')) return [];
+
+    return [{ ...toRow(value), fieldId: field.id }];
+  });
+
+  return { labelIds: targetLabels.map((label) => label.id), customFieldValues };
+}
+
+// Moves the task's labels, custom field values, links and watchers over to the target
+// project and leaves a redirect for its old key. Returns the fields that put the task in the
+// target project; runs inside the caller's transaction, and the caller updates the task itself.
+export async function detachTaskForMove(
+  tx: Prisma.TransactionClient,
+  task: MovingTask,
+  target: ProjectMoveTarget
+): Promise<Prisma.TaskUncheckedUpdateInput> {
+  const stayingBehind = { notIn: target.movingTaskIds };
+  const metadata = await getCarriedOverMetadata(task.id, target.projectId, target.memberIds, tx);
+
+  await tx.taskLabel.deleteMany({ where: { taskId: task.id } });
+  await tx.taskLabel.createMany({
+    data: metadata.labelIds.map((labelId) => ({ taskId: task.id, labelId })),
+  });
+  await tx.customFieldValue.deleteMany({ where: { taskId: task.id } });
+  await tx.customFieldValue.createMany({
+    data: metadata.customFieldValues.map((value) => ({ ...value, taskId: task.id })),
+  });
+
+  await tx.taskDependency.deleteMany({
+    where: {
+      OR: [
+        { taskId: task.id, blockedById: stayingBehind },
+        { blockedById: task.id, taskId: stayingBehind },
+      ],
+    },
+  });
+  await tx.task.updateMany({
+    where: { parentTaskId: task.id, id: stayingBehind },
+    data: { parentTaskId: null },
+  });
+  // Only members of the target project can follow the task there
+  await tx.taskWatcher.deleteMany({
+    where: { taskId: task.id, userId: { notIn: target.memberIds } },
+  });
+
+  if (task.number) {
+    await tx.taskRedirect.create({
+      data: { projectId: task.projectId, number: task.number, taskId: task.id },
+    });
+  }
+
+  return {
+    projectId: target.projectId,
+    number: await allocateTaskNumber(target.projectId, tx),
+    sprintId: null,
+    milestoneId: null,
+    parentTaskId: task.parentTaskId && target.movingTaskIds.includes(task.parentTaskId) ? task.parentTaskId : null,
+  };
+}
@@ -0,0 +1,71 @@
+import { prisma } from '@/lib/prisma';
+import { isDoneStatus } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { WorkflowState } from '@/types/workflow';
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+// Include for task queries whose results are passed to getTaskProgress
+export const progressInclude = {
+  subtasks: {
+    select: { status: true },
+  },
+  checklistItems: {
+    select: { isCompleted: true },
+  },
+} as const;
+
+// Select for task queries whose results are passed to summarizeCompletion
+export const completionSelect = {
+  status: true,
+  _count: {
+    select: { subtasks: true },
+  },
+} as const;
+
+// Card progress ("3/7"): direct subtasks and checklist items each count as one step
+export function getTaskProgress(
+  task: {
+    subtasks: { status: string }[];
+    checklistItems: { isCompleted: boolean }[];
+  },
+  states: WorkflowState[]
+): TaskProgress {
+  const completedSubtasks = task.subtasks.filter(subtask => isDoneStatus(states, subtask.status)).length;
+  const completedItems = task.checklistItems.filter(item => item.isCompleted).length;
+
+  return {
+    completed: completedSubtasks + completedItems,
+    total: task.subtasks.length + task.checklistItems.length,
+  };
+}
+
+export async function getTaskProgressById(taskId: string): Promise<TaskProgress> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: progressInclude,
+  });
+
+  if (!task) {
+    return { completed: 0, total: 0 };
+  }
+
+  return getTaskProgress(task, await getWorkflowStates(task.projectId));
+}
+
+// Project completion counts leaf tasks only: a parent task is represented by its
+// subtasks, so splitting a card into subtasks doesn't change the project's numbers
+export function summarizeCompletion(
+  tasks: { status: string; _count: { subtasks: number } }[],
+  states: WorkflowState[]
+) {
+  const leafTasks = tasks.filter(task => task._count.subtasks === 0);
+  const totalTasks = leafTasks.length;
+  const completedTasks = leafTasks.filter(task => isDoneStatus(states, task.status)).length;
+  const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+  return { totalTasks, completedTasks, progress };
+}
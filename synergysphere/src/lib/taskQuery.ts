@@ -0,0 +1,326 @@
+// Task search syntax, shared by the search boxes and /api/tasks, e.g.
+//   assignee:me priority:>=HIGH due:<7d creator:alex -status:DONE "login page"
+// Terms are ANDed; a leading "-" negates a term; anything that isn't field:value is
+// matched against the title and description.
+import { addDays, addWeeks, isValid, parseISO, startOfDay } from 'date-fns';
+import { TaskPriority } from '@/lib/swimlanes';
+import { formatTaskKey } from '@/lib/taskKeys';
+import { toStatusKey } from '@/lib/workflow';
+
+export type TaskQueryField = 'assignee' | 'creator' | 'priority' | 'status' | 'due' | 'created' | 'label' | 'project';
+
+export type QueryComparison = '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  // Null for free text
+  field: TaskQueryField | null;
+  comparison: QueryComparison;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedTaskQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+export const PRIORITY_ORDER: TaskPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+// Fields for autocomplete; `values` are offered for every project, more come from the page
+export const QUERY_FIELDS: { name: TaskQueryField; description: string; values: string[]; comparable?: boolean }[] = [
+  { name: 'assignee', description: 'me, none or a name', values: ['me', 'none'] },
+  { name: 'creator', description: 'me or a name', values: ['me'] },
+  { name: 'priority', description: 'LOW to URGENT, e.g. >=HIGH', values: PRIORITY_ORDER, comparable: true },
+  { name: 'status', description: 'Workflow state, e.g. IN_PROGRESS', values: [] },
+  { name: 'due', description: 'Date, today, 7d or none, e.g. <7d', values: ['today', 'tomorrow', '7d', '-7d', 'none'], comparable: true },
+  { name: 'created', description: 'Date, today or -7d, e.g. >-7d', values: ['today', '-7d', '-30d'], comparable: true },
+  { name: 'label', description: 'Label name', values: [] },
+  { name: 'project', description: 'Project name or key', values: [] },
+];
+
+const COMPARISONS: QueryComparison[] = ['>=', '<=', '>', '<', '='];
+const RELATIVE_DATE = /^(-?\d+)([dw])$/;
+
+const findField = (name: string) => QUERY_FIELDS.find((field) => field.name === name.toLowerCase());
+
+// Start of the day a date value names: YYYY-MM-DD, today, tomorrow, yesterday, or days
+// or weeks from today such as 7d, -2w
+export function resolveQueryDate(value: string, now = new Date()): Date | null {
+  const today = startOfDay(now);
+  const lower = value.toLowerCase();
+  if (lower === 'today') return today;
+  if (lower === 'tomorrow') return addDays(today, 1);
+  if (lower === 'yesterday') return addDays(today, -1);
+
+  const relative = RELATIVE_DATE.exec(lower);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    return relative[2] === 'w' ? addWeeks(today, amount) : addDays(today, amount);
+  }
+
+  const date = parseISO(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(date) ? startOfDay(date) : null;
+}
+
+// Bounds for a date compared with a whole day, e.g. due:<=today means before tomorrow
+export function getDateRange(comparison: QueryComparison, day: Date): { gte?: Date; lt?: Date } {
+  const nextDay = addDays(day, 1);
+  switch (comparison) {
+    case '=':
+      return { gte: day, lt: nextDay };
+    case '<':
+      return { lt: day };
+    case '<=':
+      return { lt: nextDay };
+    case '>':
+      return { gte: nextDay };
+    case '>=':
+      return { gte: day };
+  }
+}
+
+export function getPriorityRange(comparison: QueryComparison, priority: TaskPriority): TaskPriority[] {
+  const index = PRIORITY_ORDER.indexOf(priority);
+  return PRIORITY_ORDER.filter((_, i) => {
+    switch (comparison) {
+      case '=':
+        return i === index;
+      case '<':
+        return i < index;
+      case '<=':
+        return i <= index;
+      case '>':
+        return i > index;
+      case '>=':
+        return i >= index;
+    }
+  });
+}
+
+// Splits the query into raw tokens, keeping quoted phrases (also as values: label:"needs review") whole
+function tokenize(query: string) {
+  const tokens: string[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+
+    let token = '';
+    let inQuotes = false;
+    while (index < query.length && (inQuotes || !/\s/.test(query[index]))) {
+      if (query[index] === '"') inQuotes = !inQuotes;
+      token += query[index];
+      index++;
+    }
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+function validateTerm(term: QueryTerm): string | null {
+  const field = term.field && findField(term.field);
+  if (!field) return null;
+
+  if (term.comparison !== '=' && !field.comparable) {
+    return `"${field.name}" can't be compared with ${term.comparison}`;
+  }
+  if (!term.value) {
+    return `"${field.name}" needs a value`;
+  }
+  if (field.name === 'priority' && !PRIORITY_ORDER.includes(term.value.toUpperCase() as TaskPriority)) {
+    return `Unknown priority "${term.value}"`;
+  }
+  if ((field.name === 'due' || field.name === 'created') && !resolveQueryDate(term.value)) {
+    const allowsNone = field.name === 'due' && term.comparison === '=';
+    if (!(allowsNone && term.value.toLowerCase() === 'none')) {
+      return `Invalid date "${term.value}"`;
+    }
+  }
+  return null;
+}
+
+export function parseTaskQuery(query: string): ParsedTaskQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  tokenize(query).forEach((token) => {
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+
+    const colon = body.indexOf(':');
+    const field = colon > 0 ? findField(body.slice(0, colon)) : undefined;
+    if (!field) {
+      // Not a known field, so "re:" or "http://..." are just searched for
+      const value = unquote(body);
+      if (value) terms.push({ field: null, comparison: '=', value, negated });
+      return;
+    }
+
+    let rest = body.slice(colon + 1);
+    const comparison = COMPARISONS.find((c) => rest.startsWith(c)) || '=';
+    if (rest.startsWith(comparison)) rest = rest.slice(comparison.length);
+
+    const term = { field: field.name, comparison, value: unquote(rest), negated };
+    const error = validateTerm(term);
+    if (error) {
+      errors.push(error);
+    } else {
+      terms.push(term);
+    }
+  });
+
+  return { terms, errors };
+}
+
+// What a task needs for matching on the client, where the board filters loaded tasks
+export interface QueryableTask {
+  title: string;
+  description?: string | null;
+  status: string;
+  priority: TaskPriority;
+  number?: number | null;
+  assigneeId?: string | null;
+  assignee?: { name: string; email: string } | null;
+  creatorId: string;
+  creator: { name: string; email: string };
+  dueDate?: Date | string | null;
+  createdAt: Date | string;
+  labels?: { name: string }[];
+}
+
+export interface TaskQueryContext {
+  userId?: string | null;
+  projectKey?: string | null;
+  projectName?: string;
+  now?: Date;
+}
+
+const includesText = (text: string | null | undefined, search: string) =>
+  !!text && text.toLowerCase().includes(search.toLowerCase());
+
+const matchesPerson = (
+  person: { name: string; email: string } | null | undefined,
+  personId: string | null | undefined,
+  value: string,
+  userId?: string | null
+) => {
+  if (value.toLowerCase() === 'me') return !!userId && personId === userId;
+  if (value.toLowerCase() === 'none') return !personId;
+  return includesText(person?.name, value) || !!person?.email.toLowerCase().startsWith(value.toLowerCase());
+};
+
+const inDateRange = (date: Date | string | null | undefined, range: { gte?: Date; lt?: Date }) => {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  return (!range.gte || time >= range.gte.getTime()) && (!range.lt || time < range.lt.getTime());
+};
+
+function matchesTerm(task: QueryableTask, term: QueryTerm, context: TaskQueryContext): boolean {
+  const now = context.now || new Date();
+
+  switch (term.field) {
+    case null:
+      return (
+        includesText(task.title, term.value) ||
+        includesText(task.description, term.value) ||
+        includesText(task.assignee?.name, term.value) ||
+        formatTaskKey(context.projectKey, task.number)?.toLowerCase() === term.value.toLowerCase()
+      );
+    case 'assignee':
+      return matchesPerson(task.assignee, task.assigneeId, term.value, context.userId);
+    case 'creator':
+      return matchesPerson(task.creator, task.creatorId, term.value, context.userId);
+    case 'priority':
+      return getPriorityRange(term.comparison, term.value.toUpperCase() as TaskPriority).includes(task.priority);
+    case 'status':
+      return task.status === toStatusKey(term.value);
+    case 'due':
+      if (term.value.toLowerCase() === 'none') return !task.dueDate;
+      return inDateRange(task.dueDate, getDateRange(term.comparison, resolveQueryDate(term.value, now)!));
+    case 'created':
+      return inDateRange(task.createdAt, getDateRange(term.comparison, resolveQueryDate(term.value, now)!));
+    case 'label':
+      return !!task.labels?.some((label) => label.name.toLowerCase() === term.value.toLowerCase());
+    case 'project':
+      return (
+        includesText(context.projectName, term.value) ||
+        context.projectKey?.toLowerCase() === term.value.toLowerCase()
+      );
+  }
+}
+
+// A task missing the value a term reads (no due date, no assignee) doesn't match the term,
+// so it matches the negated term; buildTaskQueryWhere does the same on the server
+export function matchesTaskQuery(task: QueryableTask, terms: QueryTerm[], context: TaskQueryContext = {}) {
+  return terms.every((term) => matchesTerm(task, term, context) !== term.negated);
+}
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Replaces the token being typed
+  text: string;
+}
+
+// The token the cursor is in, as [start, end) offsets into the query
+function getTokenAt(query: string, cursor: number) {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(query[start - 1])) start--;
+  let end = cursor;
+  while (end < query.length && !/\s/.test(query[end])) end++;
+  return { start, end, token: query.slice(start, cursor) };
+}
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Field names while typing a bare word, then values once the field is complete.
+// `values` adds the page's own values per field, e.g. member names or states.
+export function getQuerySuggestions(
+  query: string,
+  cursor: number,
+  values: Partial<Record<TaskQueryField, string[]>> = {}
+): QuerySuggestion[] {
+  const { token } = getTokenAt(query, cursor);
+  const negation = token.startsWith('-') ? '-' : '';
+  const body = token.slice(negation.length);
+  const colon = body.indexOf(':');
+
+  if (colon === -1) {
+    if (!body) return [];
+    return QUERY_FIELDS
+      .filter((field) => field.name.startsWith(body.toLowerCase()) && field.name !== body.toLowerCase())
+      .map((field) => ({ label: `${field.name}:`, description: field.description, text: `${negation}${field.name}:` }));
+  }
+
+  const field = findField(body.slice(0, colon));
+  if (!field) return [];
+
+  const rest = body.slice(colon + 1);
+  const comparison = COMPARISONS.find((c) => rest.startsWith(c) && c !== '=') || '';
+  const partial = unquote(rest.slice(comparison.length)).toLowerCase();
+
+  const options = [...new Set([...field.values, ...(values[field.name] || [])])];
+  return options
+    .filter((value) => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+    .slice(0, 8)
+    .map((value) => ({
+      label: value,
+      text: `${negation}${field.name}:${comparison}${quoteIfNeeded(value)}`,
+    }));
+}
+
+// Puts the suggestion in place of the token at the cursor; returns the new query and cursor
+export function applyQuerySuggestion(query: string, cursor: number, suggestion: QuerySuggestion) {
+  const { start, end } = getTokenAt(query, cursor);
+  // Field names keep the cursor after the colon; finished values get a trailing space
+  const suffix = suggestion.text.endsWith(':') ? '' : ' ';
+  const before = query.slice(0, start) + suggestion.text + suffix;
+  const after = query.slice(end).replace(/^\s+/, '');
+  return { query: before + after, cursor: before.length };
+}
@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import { TaskPriority } from '@/lib/swimlanes';
+import { parseTaskKey } from '@/lib/taskKeys';
+import { QueryTerm, getDateRange, getPriorityRange, resolveQueryDate } from '@/lib/taskQuery';
+import { toStatusKey } from '@/lib/workflow';
+
+// "me", "none", or part of a name or the start of an email address
+function buildPersonWhere(
+  field: 'assignee' | 'creator',
+  value: string,
+  userId: string
+): Prisma.TaskWhereInput {
+  const idField = field === 'assignee' ? 'assigneeId' : 'creatorId';
+  const lower = value.toLowerCase();
+  if (lower === 'me') return { [idField]: userId };
+  if (lower === 'none') return { [idField]: null };
+
+  return {
+    [field]: {
+      OR: [{ name: { contains: value } }, { email: { startsWith: value } }],
+    },
+  };
+}
+
+// Free text matches any of these; `missing` is set where the column can be null
+function buildTextWheres(value: string): { where: Prisma.TaskWhereInput; missing?: Prisma.TaskWhereInput }[] {
+  const key = parseTaskKey(value);
+  return [
+    { where: { title: { contains: value } } },
+    { where: { description: { contains: value } }, missing: { description: null } },
+    { where: { assignee: { name: { contains: value } } }, missing: { assigneeId: null } },
+    ...(key ? [{ where: { number: key.number, project: { key: key.projectKey } }, missing: { number: null } }] : []),
+  ];
+}
+
+// Labels the query can refer to by name, e.g. those of the projects being searched
+export type QueryLabel = { id: string; name: string };
+
+function buildTermWhere(term: QueryTerm, userId: string, labels: QueryLabel[], now: Date): Prisma.TaskWhereInput {
+  switch (term.field) {
+    case null:
+      return { OR: buildTextWheres(term.value).map(({ where }) => where) };
+    case 'assignee':
+    case 'creator':
+      return buildPersonWhere(term.field, term.value, userId);
+    case 'priority':
+      return { priority: { in: getPriorityRange(term.comparison, term.value.toUpperCase() as TaskPriority) } };
+    case 'status':
+      return { status: toStatusKey(term.value) };
+    case 'due':
+      if (term.value.toLowerCase() === 'none') return { dueDate: null };
+      return { dueDate: getDateRange(term.comparison, resolveQueryDate(term.value, now)!) };
+    case 'created':
+      return { createdAt: getDateRange(term.comparison, resolveQueryDate(term.value, now)!) };
+    case 'label': {
+      // Names are compared case-insensitively, as in matchesTaskQuery
+      const name = term.value.toLowerCase();
+      const labelIds = labels.filter((label) => label.name.toLowerCase() === name).map((label) => label.id);
+      return { labels: { some: { labelId: { in: labelIds } } } };
+    }
+    case 'project':
+      return {
+        project: {
+          OR: [{ name: { contains: term.value } }, { key: term.value.toUpperCase() }],
+        },
+      };
+  }
+}
+
+// A task missing the value a term reads doesn't match the term, so it matches the negated
+// term, as in matchesTaskQuery. SQL's NOT alone would leave it out: "-due:<today" has to
+// include tasks without a due date.
+function excludeWhere(where: Prisma.TaskWhereInput, missing?: Prisma.TaskWhereInput): Prisma.TaskWhereInput {
+  return missing ? { OR: [missing, { NOT: where }] } : { NOT: where };
+}
+
+function buildNegatedWhere(term: QueryTerm, userId: string, labels: QueryLabel[], now: Date): Prisma.TaskWhereInput {
+  const isNone = term.value.toLowerCase() === 'none';
+  switch (term.field) {
+    case null:
+      // None of the alternatives may match
+      return { AND: buildTextWheres(term.value).map(({ where, missing }) => excludeWhere(where, missing)) };
+    case 'assignee':
+      return excludeWhere(buildTermWhere(term, userId, labels, now), isNone ? undefined : { assigneeId: null });
+    case 'due':
+      return excludeWhere(buildTermWhere(term, userId, labels, now), isNone ? undefined : { dueDate: null });
+    default:
+      return excludeWhere(buildTermWhere(term, userId, labels, now));
+  }
+}
+
+// Where clause for parsed query terms (see parseTaskQuery); all terms must match
+export function buildTaskQueryWhere(
+  terms: QueryTerm[],
+  userId: string,
+  labels: QueryLabel[],
+  now = new Date()
+): Prisma.TaskWhereInput {
+  return {
+    AND: terms.map((term) =>
+      term.negated ? buildNegatedWhere(term, userId, labels, now) : buildTermWhere(term, userId, labels, now)
+    ),
+  };
+}
@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// Cards are ordered by a fractional `position` within their status column. Moving a card
+// only rewrites that card: it gets the midpoint of its new neighbours' positions.
+const POSITION_STEP = 1024;
+// Below this gap midpoints lose float precision, so the column is renumbered first
+const MIN_POSITION_GAP = 1e-6;
+
+export function getPositionBetween(before?: number, after?: number) {
+  if (before !== undefined && after !== undefined) return (before + after) / 2;
+  if (before !== undefined) return before + POSITION_STEP;
+  if (after !== undefined) return after - POSITION_STEP;
+  return POSITION_STEP;
+}
+
+async function getColumnPositions(projectId: string, status: string, excludeTaskId?: string) {
+  const tasks = await prisma.task.findMany({
+    where: {
+      projectId,
+      status,
+      ...(excludeTaskId && { id: { not: excludeTaskId } }),
+    },
+    select: { id: true, position: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return tasks;
+}
+
+async function renumberColumn(tasks: { id: string }[]) {
+  await prisma.$transaction(
+    tasks.map((task, index) =>
+      prisma.task.update({
+        where: { id: task.id },
+        data: { position: (index + 1) * POSITION_STEP },
+      })
+    )
+  );
+
+  return tasks.map((task, index) => ({ id: task.id, position: (index + 1) * POSITION_STEP }));
+}
+
+// Position for a card appended to the end of a column
+export async function getEndOfColumnPosition(projectId: string, status: string) {
+  const last = await prisma.task.findFirst({
+    where: { projectId, status },
+    select: { position: true },
+    orderBy: { position: 'desc' },
+  });
+
+  return getPositionBetween(last?.position);
+}
+
+// For tasks created in one go inside a transaction: each call returns the position after
+// the last task of the column, including the ones placed by earlier calls
+export function createColumnAppender(tx: Prisma.TransactionClient, projectId: string) {
+  const lastPositions = new Map<string, number | undefined>();
+
+  return async (status: string) => {
+    if (!lastPositions.has(status)) {
+      const last = await tx.task.findFirst({
+        where: { projectId, status },
+        select: { position: true },
+        orderBy: { position: 'desc' },
+      });
+      lastPositions.set(status, last?.position);
+    }
+
+    const position = getPositionBetween(lastPositions.get(status));
+    lastPositions.set(status, position);
+    return position;
+  };
+}
+
+// Position that places `taskId` at `index` of the column, counted without the task itself
+export async function getPositionAtIndex(
+  projectId: string,
+  status: string,
+  index: number,
+  taskId: string
+) {
+  let column = await getColumnPositions(projectId, status, taskId);
+  const targetIndex = Math.max(0, Math.min(index, column.length));
+
+  const before = column[targetIndex - 1];
+  const after = column[targetIndex];
+  const hasDuplicatePositions = before && after && after.position - before.position < MIN_POSITION_GAP;
+
+  if (hasDuplicatePositions) {
+    column = await renumberColumn(column);
+  }
+
+  return getPositionBetween(column[targetIndex - 1]?.position, column[targetIndex]?.position);
+}
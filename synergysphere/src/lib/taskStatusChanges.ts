@@ -0,0 +1,22 @@
+import { Task } from '@prisma/client';
+import { handleRecurringTaskStatusChange } from '@/lib/recurringTasks';
+import { TaskHistoryChange, recordTaskHistory } from '@/lib/taskHistory';
+import { addTaskWatchers, notifyTaskWatchers } from '@/lib/taskWatchers';
+import { WorkflowState } from '@/types/workflow';
+
+// Call once a task update that may change its status is saved, from every route that does
+// so: records the history, tells the watchers, and returns the next occurrence when a
+// recurring task is completed
+export async function finishTaskStatusChange(
+  previousStatus: string,
+  task: Task,
+  changes: TaskHistoryChange[],
+  states: WorkflowState[],
+  actorId?: string
+) {
+  await recordTaskHistory(changes, actorId);
+  await addTaskWatchers(task.id, [task.assigneeId]);
+  await notifyTaskWatchers(changes, actorId);
+
+  return handleRecurringTaskStatusChange(previousStatus, task, states);
+}
@@ -0,0 +1,267 @@
+import { Prisma, Template as TemplateRow } from '@prisma/client';
+import { min, startOfDay } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { allocateTaskNumber } from '@/lib/projectKeys';
+import { recordTaskHistory } from '@/lib/taskHistory';
+import { createColumnAppender } from '@/lib/taskRanking';
+import { addTaskWatchers, notifyTaskWatchers } from '@/lib/taskWatchers';
+import { fromDayOffset, resolveTemplateAssignee, toDayOffset } from '@/lib/templates';
+import { getInitialStatus, getStatusCategory, mapStatusToWorkflow } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+import { EstimationUnit } from '@/types/analytics';
+import {
+  ProjectTemplateContent,
+  TaskTemplateContent,
+  Template,
+  TemplateKind,
+  TemplateRole,
+  TemplateTask,
+} from '@/types/templates';
+import { WipLimitMode, WorkflowState } from '@/types/workflow';
+
+const templateTaskSelect = {
+  id: true,
+  parentTaskId: true,
+  title: true,
+  description: true,
+  status: true,
+  priority: true,
+  estimate: true,
+  recurrenceRule: true,
+  startDate: true,
+  dueDate: true,
+  assigneeId: true,
+  labels: { select: { label: { select: { name: true } } } },
+  checklistItems: { select: { content: true }, orderBy: { position: 'asc' } },
+} as const;
+
+type TemplateSourceTask = Prisma.TaskGetPayload<{ select: typeof templateTaskSelect }>;
+
+type CreatedTemplateTask = { id: string; status: string; creatorId: string; assigneeId: string | null };
+
+export function toTemplate(template: TemplateRow): Template {
+  const content = template.content as unknown as TaskTemplateContent | ProjectTemplateContent;
+  return {
+    id: template.id,
+    kind: template.kind as TemplateKind,
+    name: template.name,
+    taskCount: content.tasks.length,
+    dueOffsetDays: template.kind === 'task' ? content.tasks[0]?.dueOffsetDays ?? null : null,
+    createdAt: template.createdAt.toISOString(),
+  };
+}
+
+export async function findOwnTemplate(templateId: string, kind: TemplateKind, userId?: string) {
+  return prisma.template.findFirst({
+    where: { id: templateId, kind, ownerId: userId },
+  });
+}
+
+// In join order, which decides who fills a role when the user using the template doesn't
+async function getMemberRoles(projectId: string, db: Prisma.TransactionClient = prisma) {
+  return db.membership.findMany({
+    where: { projectId },
+    select: { userId: true, role: true },
+    orderBy: { joinedAt: 'asc' },
+  });
+}
+
+// `tasks` must list each parent before its subtasks. Dates count from the earlier of
+// `startDate` and the tasks' own first date, so offsets don't go negative.
+function toTemplateTasks(
+  tasks: TemplateSourceTask[],
+  states: WorkflowState[],
+  members: Array<{ userId: string; role: string }>,
+  startDate: Date
+): TemplateTask[] {
+  const dates = tasks.flatMap((task) => [task.startDate, task.dueDate]).filter((date): date is Date => !!date);
+  const start = startOfDay(min([startDate, ...dates]));
+  const indexById = new Map(tasks.map((task, index) => [task.id, index]));
+
+  return tasks.map((task) => {
+    // Finished work starts over when the template is used
+    const status = getStatusCategory(states, task.status) === 'done' ? getInitialStatus(states) : task.status;
+    const assigneeRole = members.find((member) => member.userId === task.assigneeId)?.role;
+
+    return {
+      title: task.title,
+      description: task.description,
+      status,
+      statusCategory: getStatusCategory(states, status),
+      priority: task.priority.toUpperCase() as TemplateTask['priority'],
+      estimate: task.estimate,
+      recurrenceRule: task.recurrenceRule,
+      startOffsetDays: task.startDate ? toDayOffset(task.startDate, start) : null,
+      dueOffsetDays: task.dueDate ? toDayOffset(task.dueDate, start) : null,
+      assigneeRole: (assigneeRole as TemplateRole | undefined) ?? null,
+      labels: task.labels.map(({ label }) => label.name),
+      checklist: task.checklistItems.map((item) => item.content),
+      parentIndex: task.parentTaskId ? indexById.get(task.parentTaskId) ?? null : null,
+    };
+  });
+}
+
+// The task and its subtasks, at every depth. `dueOffsetDays` replaces the due date the
+// task's own dates give it; its start date is kept on or before it.
+export async function buildTaskTemplateContent(taskId: string, dueOffsetDays?: number): Promise<TaskTemplateContent> {
+  const task = await prisma.task.findUniqueOrThrow({
+    where: { id: taskId },
+    select: { ...templateTaskSelect, projectId: true, createdAt: true },
+  });
+
+  // One level of subtasks at a time, so parents come first
+  const tasks: TemplateSourceTask[] = [task];
+  let level: TemplateSourceTask[] = [task];
+  while (level.length > 0) {
+    level = await prisma.task.findMany({
+      where: { parentTaskId: { in: level.map((parent) => parent.id) } },
+      select: templateTaskSelect,
+      orderBy: { position: 'asc' },
+    });
+    tasks.push(...level);
+  }
+
+  const [states, members] = await Promise.all([getWorkflowStates(task.projectId), getMemberRoles(task.projectId)]);
+  const [root, ...subtasks] = toTemplateTasks(tasks, states, members, task.createdAt);
+
+  if (dueOffsetDays === undefined) {
+    return { tasks: [root, ...subtasks] };
+  }
+
+  const startOffsetDays = root.startOffsetDays === null ? null : Math.min(root.startOffsetDays, dueOffsetDays);
+  return { tasks: [{ ...root, startOffsetDays, dueOffsetDays }, ...subtasks] };
+}
+
+// Settings, workflow, labels, custom fields, members and tasks; dates count from the day
+// the project was created
+export async function buildProjectTemplateContent(projectId: string): Promise<ProjectTemplateContent> {
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    include: {
+      labels: { orderBy: { name: 'asc' } },
+      customFields: { orderBy: { position: 'asc' } },
+    },
+  });
+
+  const [states, members, tasks] = await Promise.all([
+    getWorkflowStates(projectId),
+    getMemberRoles(projectId),
+    prisma.task.findMany({
+      where: { projectId },
+      select: templateTaskSelect,
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+
+  // Top-level tasks, each followed (eventually) by its subtasks
+  const orderedTasks = tasks.filter((task) => !task.parentTaskId);
+  for (let i = 0; i < orderedTasks.length; i++) {
+    orderedTasks.push(...tasks.filter((task) => task.parentTaskId === orderedTasks[i].id));
+  }
+
+  return {
+    description: project.description,
+    color: project.color,
+    estimationUnit: project.estimationUnit as EstimationUnit,
+    wipLimitMode: project.wipLimitMode as WipLimitMode,
+    workflowStates: states.map(({ key, name, color, position, category, wipLimit }) => ({
+      key,
+      name,
+      color,
+      position,
+      category,
+      wipLimit,
+    })),
+    labels: project.labels.map(({ name, color }) => ({ name, color })),
+    customFields: project.customFields.map(({ name, type, options, position }) => ({
+      name,
+      type,
+      options: Array.isArray(options) ? options.map(String) : [],
+      position,
+    })),
+    members: members.map(({ userId, role }) => ({ userId, role: role as TemplateRole })),
+    tasks: toTemplateTasks(orderedTasks, states, members, project.createdAt),
+  };
+}
+
+// Creates the template's tasks at the end of their columns, inside the caller's transaction.
+// Statuses the project's workflow lacks fall back to their category, and labels it lacks are left off.
+export async function createTemplateTasks(
+  tx: Prisma.TransactionClient,
+  templateTasks: TemplateTask[],
+  {
+    projectId,
+    states,
+    startDate,
+    userId,
+  }: {
+    projectId: string;
+    states: Pick<WorkflowState, 'key' | 'category'>[];
+    startDate: Date;
+    userId: string;
+  }
+) {
+  const members = await getMemberRoles(projectId, tx);
+  const labels = await tx.label.findMany({
+    where: { projectId, name: { in: templateTasks.flatMap((task) => task.labels) } },
+    select: { id: true, name: true },
+  });
+
+  const getPosition = createColumnAppender(tx, projectId);
+  const created: CreatedTemplateTask[] = [];
+
+  for (const templateTask of templateTasks) {
+    const status = mapStatusToWorkflow(
+      [{ key: templateTask.status, category: templateTask.statusCategory }],
+      states,
+      templateTask.status
+    );
+
+    const task = await tx.task.create({
+      data: {
+        title: templateTask.title,
+        description: templateTask.description,
+        status,
+        position: await getPosition(status),
+        number: await allocateTaskNumber(projectId, tx),
+        priority: templateTask.priority,
+        estimate: templateTask.estimate,
+        recurrenceRule: templateTask.recurrenceRule,
+        startDate: templateTask.startOffsetDays === null ? null : fromDayOffset(startDate, templateTask.startOffsetDays),
+        dueDate: templateTask.dueOffsetDays === null ? null : fromDayOffset(startDate, templateTask.dueOffsetDays),
+        assigneeId: resolveTemplateAssignee(members, templateTask.assigneeRole, userId),
+        parentTaskId: templateTask.parentIndex === null ? null : created[templateTask.parentIndex]?.id ?? null,
+        projectId,
+        creatorId: userId,
+        labels: {
+          create: labels
+            .filter((label) => templateTask.labels.includes(label.name))
+            .map((label) => ({ labelId: label.id })),
+        },
+        checklistItems: {
+          create: templateTask.checklist.map((content, position) => ({ content, position })),
+        },
+      },
+      select: { id: true, status: true, creatorId: true, assigneeId: true },
+    });
+    created.push(task);
+  }
+
+  return created;
+}
+
+// Task history, watchers and assignment notifications for tasks from a template; call
+// once the transaction that created them has committed
+export async function recordTemplateTasks(tasks: CreatedTemplateTask[], userId: string) {
+  await recordTaskHistory(
+    tasks.map((task) => ({ taskId: task.id, field: 'status', oldValue: null, newValue: task.status })),
+    userId
+  );
+  for (const task of tasks) {
+    await addTaskWatchers(task.id, [task.creatorId, task.assigneeId]);
+  }
+  await notifyTaskWatchers(
+    tasks.map((task) => ({ taskId: task.id, field: 'assigneeId', oldValue: null, newValue: task.assigneeId })),
+    userId
+  );
+}
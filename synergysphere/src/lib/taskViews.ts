@@ -0,0 +1,103 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { SavedView, SavedViewConfig } from '@/types/savedViews';
+
+export const savedViewConfigSchema = z.object({
+  layout: z.enum(['board', 'list', 'calendar']),
+  filters: z.record(z.string().max(50), z.string().max(500)),
+  sort: z.string().max(100).optional(),
+  groupBy: z.string().max(100).optional(),
+});
+
+// Include on saved view queries, then convert with toSavedView
+export const savedViewInclude = {
+  owner: {
+    select: { id: true, name: true },
+  },
+} as const;
+
+type SavedViewRow = Prisma.SavedViewGetPayload<{ include: typeof savedViewInclude }>;
+
+export function toSavedView(view: SavedViewRow, defaultViewId: string | null): SavedView {
+  return {
+    id: view.id,
+    projectId: view.projectId,
+    name: view.name,
+    isShared: view.isShared,
+    isDefault: view.id === defaultViewId,
+    config: view.config as unknown as SavedViewConfig,
+    owner: view.owner,
+    createdAt: view.createdAt.toISOString(),
+  };
+}
+
+// The user's default for a project's tasks page, or for My Tasks without a project
+export async function getDefaultViewId(userId: string, projectId: string | null) {
+  if (!projectId) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { defaultTaskViewId: true },
+    });
+    return user?.defaultTaskViewId ?? null;
+  }
+
+  const membership = await prisma.membership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+    select: { defaultViewId: true },
+  });
+  return membership?.defaultViewId ?? null;
+}
+
+export async function setDefaultViewId(userId: string, projectId: string | null, viewId: string | null) {
+  if (!projectId) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { defaultTaskViewId: viewId },
+    });
+    return;
+  }
+
+  await prisma.membership.update({
+    where: { projectId_userId: { projectId, userId } },
+    data: { defaultViewId: viewId },
+  });
+}
+
+// The user's own views plus, on a project, the ones shared with it; shared first, then by name
+export async function getSavedViews(userId: string, projectId: string | null) {
+  const [views, defaultViewId] = await Promise.all([
+    prisma.savedView.findMany({
+      where: {
+        projectId,
+        OR: [{ ownerId: userId }, ...(projectId ? [{ isShared: true }] : [])],
+      },
+      include: savedViewInclude,
+      orderBy: [{ isShared: 'desc' }, { name: 'asc' }],
+    }),
+    getDefaultViewId(userId, projectId),
+  ]);
+
+  return views.map((view) => toSavedView(view, defaultViewId));
+}
+
+// A view the user can open: their own, or one shared with a project they're a member of
+export async function findAccessibleView(viewId: string, userId: string) {
+  return prisma.savedView.findFirst({
+    where: {
+      id: viewId,
+      OR: [
+        { ownerId: userId },
+        {
+          isShared: true,
+          project: {
+            memberships: {
+              some: { userId },
+            },
+          },
+        },
+      ],
+    },
+    include: savedViewInclude,
+  });
+}
@@ -0,0 +1,125 @@
+import { format } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { getTaskUrl } from '@/lib/taskKeys';
+import { TaskHistoryChange } from '@/lib/taskHistory';
+import { findWorkflowState } from '@/lib/workflow';
+import { getWorkflowStates } from '@/lib/workflowStates';
+
+// Changes that watchers are notified about
+const WATCHED_FIELDS = ['status', 'dueDate', 'assigneeId'];
+
+export const taskWatcherInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+} as const;
+
+// Users already watching the task are skipped
+export async function addTaskWatchers(taskId: string, userIds: (string | null | undefined)[]) {
+  const candidates = [...new Set(userIds.filter((userId): userId is string => !!userId))];
+  if (candidates.length === 0) return;
+
+  const existing = await prisma.taskWatcher.findMany({
+    where: { taskId, userId: { in: candidates } },
+    select: { userId: true },
+  });
+  const newUserIds = candidates.filter((userId) => !existing.some((watcher) => watcher.userId === userId));
+  if (newUserIds.length === 0) return;
+
+  await prisma.taskWatcher.createMany({
+    data: newUserIds.map((userId) => ({ taskId, userId })),
+  });
+}
+
+export async function getTaskWatcherIds(taskId: string) {
+  const watchers = await prisma.taskWatcher.findMany({
+    where: { taskId },
+    select: { userId: true },
+  });
+  return watchers.map((watcher) => watcher.userId);
+}
+
+// Tell watchers about status, due date and assignment changes (see TaskHistoryChange).
+// A new assignee is told they were assigned instead; the actor is never notified.
+export async function notifyTaskWatchers(changes: TaskHistoryChange[], actorId?: string) {
+  const watchedChanges = changes.filter(
+    (change) => WATCHED_FIELDS.includes(change.field) && change.oldValue !== change.newValue
+  );
+  if (watchedChanges.length === 0) return;
+
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { name: true } })
+    : null;
+  const actorName = actor?.name || 'Someone';
+
+  for (const taskId of new Set(watchedChanges.map((change) => change.taskId))) {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        assignee: { select: { id: true, name: true } },
+        watchers: { select: { userId: true } },
+      },
+    });
+    if (!task) continue;
+
+    const taskChanges = watchedChanges.filter((change) => change.taskId === taskId);
+    const states = taskChanges.some((change) => change.field === 'status')
+      ? await getWorkflowStates(task.projectId)
+      : [];
+
+    // "status: Done, due date: Mar 3, 2025"
+    const summary = taskChanges
+      .map((change) => {
+        switch (change.field) {
+          case 'status':
+            return `status: ${findWorkflowState(states, change.newValue!)?.name || change.newValue}`;
+          case 'dueDate':
+            return `due date: ${change.newValue ? format(new Date(change.newValue), 'MMM d, yyyy') : 'none'}`;
+          default:
+            return `assignee: ${task.assignee?.name || 'unassigned'}`;
+        }
+      })
+      .join(', ');
+
+    const data = {
+      taskId,
+      taskTitle: task.title,
+      projectId: task.projectId,
+      url: getTaskUrl(task.projectId, taskId),
+    };
+    const newAssigneeId = taskChanges.some((change) => change.field === 'assigneeId') ? task.assigneeId : null;
+
+    if (newAssigneeId && newAssigneeId !== actorId) {
+      await createNotifications({
+        userIds: [newAssigneeId],
+        fromUserId: actorId,
+        projectId: task.projectId,
+        type: 'task_assigned',
+        title: 'Task assigned',
+        message: `${actorName} assigned you to "${task.title}"`,
+        data,
+      });
+    }
+
+    const watcherIds = task.watchers
+      .map((watcher) => watcher.userId)
+      .filter((userId) => userId !== actorId && userId !== newAssigneeId);
+    if (watcherIds.length > 0) {
+      await createNotifications({
+        userIds: watcherIds,
+        fromUserId: actorId,
+        projectId: task.projectId,
+        type: 'task_updated',
+        title: 'Task updated',
+        message: `${actorName} updated "${task.title}" (${summary})`,
+        data,
+      });
+    }
+  }
+}
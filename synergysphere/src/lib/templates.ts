@@ -0,0 +1,37 @@
+// Task and project templates, shared by API routes and client components; reading and
+// applying templates lives in taskTemplates.ts
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { TemplateRole } from '@/types/templates';
+
+export const TEMPLATE_ROLES: { value: TemplateRole; label: string }[] = [
+  { value: 'OWNER', label: 'Owner' },
+  { value: 'ADMIN', label: 'Admin' },
+  { value: 'MEMBER', label: 'Member' },
+];
+
+export function toDayOffset(date: Date, startDate: Date) {
+  return differenceInCalendarDays(date, startDate);
+}
+
+export function fromDayOffset(startDate: Date, days: number) {
+  return addDays(startOfDay(startDate), days);
+}
+
+// 3 -> "+3 days from start", 0 -> "on the start date"
+export function describeDayOffset(days: number) {
+  if (days === 0) return 'on the start date';
+  const count = `${Math.abs(days)} ${Math.abs(days) === 1 ? 'day' : 'days'}`;
+  return days > 0 ? `+${count} from start` : `${count} before start`;
+}
+
+// The user using the template fills a role they hold; otherwise its longest-standing holder does.
+// `members` is in join order.
+export function resolveTemplateAssignee(
+  members: Array<{ userId: string; role: string }>,
+  role: TemplateRole | null,
+  userId: string
+) {
+  if (!role) return null;
+  const holders = members.filter((member) => member.role === role);
+  return (holders.find((member) => member.userId === userId) ?? holders[0])?.userId ?? null;
+}
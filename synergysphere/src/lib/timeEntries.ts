@@ -0,0 +1,143 @@
+import { Prisma } from '@prisma/client';
+import { format } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { getElapsedSeconds } from '@/lib/timeTracking';
+import { TimeSummary, TimeSummaryGroup } from '@/types/timeTracking';
+
+// Include for time entry queries returned to the client (see TimeEntry in types/timeTracking)
+export const timeEntryInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      avatarUrl: true,
+    },
+  },
+  task: {
+    select: {
+      id: true,
+      title: true,
+      projectId: true,
+    },
+  },
+} as const;
+
+// A user has at most one running timer
+export async function getRunningTimer(userId: string) {
+  return prisma.timeEntry.findFirst({
+    where: { userId, endedAt: null },
+    include: timeEntryInclude,
+  });
+}
+
+export async function stopTimer(entryId: string, startedAt: Date, db: Prisma.TransactionClient = prisma) {
+  const endedAt = new Date();
+
+  return db.timeEntry.update({
+    where: { id: entryId },
+    data: {
+      endedAt,
+      duration: getElapsedSeconds(startedAt, endedAt),
+    },
+    include: timeEntryInclude,
+  });
+}
+
+// Starts the user's timer on the task. A timer running on another task is stopped when
+// `stopRunning` is set and returned as `runningTimer` otherwise. Checking for a running
+// timer and starting the new one share a transaction, so two quick starts can't both
+// leave a timer running.
+export async function startTimer(userId: string, taskId: string, note: string | undefined, stopRunning: boolean) {
+  return prisma.$transaction(async (tx) => {
+    const runningTimer = await tx.timeEntry.findFirst({
+      where: { userId, endedAt: null },
+      include: timeEntryInclude,
+    });
+
+    if (runningTimer?.taskId === taskId) {
+      return { entry: runningTimer, stoppedEntry: null, created: false };
+    }
+    if (runningTimer && !stopRunning) {
+      return { runningTimer };
+    }
+
+    const stoppedEntry = runningTimer ? await stopTimer(runningTimer.id, runningTimer.startedAt, tx) : null;
+    const entry = await tx.timeEntry.create({
+      data: {
+        taskId,
+        userId,
+        startedAt: new Date(),
+        note,
+      },
+      include: timeEntryInclude,
+    });
+
+    return { entry, stoppedEntry, created: true };
+  });
+}
+
+interface SummaryFilters {
+  projectIds: string[];
+  taskId?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+function addToGroup(groups: Map<string, TimeSummaryGroup>, id: string, name: string, seconds: number) {
+  const group = groups.get(id) || { id, name, seconds: 0 };
+  group.seconds += seconds;
+  groups.set(id, group);
+}
+
+function sortGroups(groups: Map<string, TimeSummaryGroup>) {
+  return [...groups.values()].sort((a, b) => b.seconds - a.seconds);
+}
+
+// Sums finished entries that started within the range; running timers are not counted
+export async function getTimeSummary({ projectIds, taskId, userId, from, to }: SummaryFilters): Promise<TimeSummary> {
+  const entries = await prisma.timeEntry.findMany({
+    where: {
+      endedAt: { not: null },
+      taskId,
+      userId,
+      task: { projectId: { in: projectIds } },
+      startedAt: { gte: from, lte: to },
+    },
+    include: {
+      user: { select: { id: true, name: true } },
+      task: {
+        select: {
+          id: true,
+          title: true,
+          project: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+
+  const byTask = new Map<string, TimeSummaryGroup>();
+  const byUser = new Map<string, TimeSummaryGroup>();
+  const byProject = new Map<string, TimeSummaryGroup>();
+  const byDate = new Map<string, TimeSummaryGroup>();
+  let totalSeconds = 0;
+
+  for (const entry of entries) {
+    const seconds = entry.duration || 0;
+    const day = format(entry.startedAt, 'yyyy-MM-dd');
+
+    totalSeconds += seconds;
+    addToGroup(byTask, entry.task.id, entry.task.title, seconds);
+    addToGroup(byUser, entry.user.id, entry.user.name, seconds);
+    addToGroup(byProject, entry.task.project.id, entry.task.project.name, seconds);
+    addToGroup(byDate, day, day, seconds);
+  }
+
+  return {
+    totalSeconds,
+    byTask: sortGroups(byTask),
+    byUser: sortGroups(byUser),
+    byProject: sortGroups(byProject),
+    byDate: [...byDate.values()].sort((a, b) => a.id.localeCompare(b.id)),
+  };
+}
@@ -0,0 +1,40 @@
+// Duration helpers for time entries, shared by API routes and client components
+
+// 5400 -> "1h 30m"; running timers pass withSeconds for a ticking display
+export function formatDuration(seconds: number, withSeconds = false): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (withSeconds) {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${hours}:${pad(minutes)}:${pad(Math.floor(seconds % 60))}`;
+  }
+
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+// Accepts "1h 30m", "45m", "2h", "1:30" and decimal hours ("1.5"); returns seconds or null
+export function parseDuration(value: string): number | null {
+  const input = value.trim().toLowerCase();
+  if (!input) return null;
+
+  let seconds: number | null = null;
+
+  const clock = input.match(/^(\d+):([0-5]\d)$/);
+  const units = input.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+
+  if (clock) {
+    seconds = parseInt(clock[1], 10) * 3600 + parseInt(clock[2], 10) * 60;
+  } else if (/^\d+(\.\d+)?$/.test(input)) {
+    seconds = Math.round(parseFloat(input) * 3600);
+  } else if (units && (units[1] || units[2])) {
+    seconds = Math.round(parseFloat(units[1] || '0') * 3600) + parseInt(units[2] || '0', 10) * 60;
+  }
+
+  return seconds && seconds > 0 ? seconds : null;
+}
+
+export function getElapsedSeconds(startedAt: Date | string, endedAt: Date | string = new Date()) {
+  return Math.max(0, Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000));
+}
@@ -0,0 +1,52 @@
+// Date math for the project timeline (Gantt) view
+import { addDays, differenceInCalendarDays, max, min, startOfWeek } from 'date-fns';
+
+// Days shown before the earliest and after the latest bar
+const RANGE_PADDING_DAYS = 7;
+const MIN_RANGE_DAYS = 42;
+
+export interface TaskSpan {
+  start: Date;
+  end: Date;
+}
+
+// What a drag changes: the whole bar, or one of its ends
+export type TimelineDragMode = 'move' | 'start' | 'end';
+
+// Tasks need a due date to be placed; without a start date they take up their due day
+export function getTaskSpan(task: { startDate?: Date | null; dueDate?: Date | null }): TaskSpan | null {
+  if (!task.dueDate) return null;
+  return { start: task.startDate ?? task.dueDate, end: task.dueDate };
+}
+
+// Whole weeks around today and every bar, so the view doesn't shift while dragging
+export function getTimelineRange(spans: TaskSpan[], today = new Date()) {
+  const start = startOfWeek(addDays(min([today, ...spans.map((span) => span.start)]), -RANGE_PADDING_DAYS));
+  const end = max([
+    addDays(start, MIN_RANGE_DAYS - 1),
+    addDays(max([today, ...spans.map((span) => span.end)]), RANGE_PADDING_DAYS),
+  ]);
+  return { start, days: differenceInCalendarDays(end, start) + 1 };
+}
+
+// Day offset of the bar's first day and its length in days, both relative to `rangeStart`
+export function getSpanPosition(span: TaskSpan, rangeStart: Date) {
+  const offset = differenceInCalendarDays(span.start, rangeStart);
+  return { offset, length: differenceInCalendarDays(span.end, span.start) + 1 };
+}
+
+// Moving keeps the duration; resizing never lets an end pass the other one
+export function shiftSpan(span: TaskSpan, mode: TimelineDragMode, dayDelta: number): TaskSpan {
+  switch (mode) {
+    case 'move':
+      return { start: addDays(span.start, dayDelta), end: addDays(span.end, dayDelta) };
+    case 'start': {
+      const start = addDays(span.start, dayDelta);
+      return { start: start > span.end ? span.end : start, end: span.end };
+    }
+    case 'end': {
+      const end = addDays(span.end, dayDelta);
+      return { start: span.start, end: end < span.start ? span.start : end };
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { prisma } from '@/lib/prisma';
+import { getWipLimitViolations } from '@/lib/workflow';
+import { WipLimitMode, WipLimitViolation, WorkflowState } from '@/types/workflow';
+
+export interface WipLimitCheck {
+  mode: WipLimitMode;
+  violations: WipLimitViolation[];
+}
+
+// Checks status changes within one project against its columns' WIP limits. In soft
+// mode the violations are returned as warnings; in hard mode the caller rejects the move.
+export async function checkWipLimits(
+  projectId: string,
+  states: WorkflowState[],
+  moves: { from: string; to: string }[]
+): Promise<WipLimitCheck> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { wipLimitMode: true },
+  });
+  const mode = (project?.wipLimitMode || 'soft') as WipLimitMode;
+
+  const limitedStatuses = states.filter(state => state.wipLimit !== null).map(state => state.key);
+  if (!moves.some(move => move.from !== move.to && limitedStatuses.includes(move.to))) {
+    return { mode, violations: [] };
+  }
+
+  const columns = await prisma.task.groupBy({
+    by: ['status'],
+    where: { projectId, status: { in: limitedStatuses } },
+    _count: { _all: true },
+  });
+  const counts = Object.fromEntries(columns.map(column => [column.status, column._count._all]));
+
+  return { mode, violations: getWipLimitViolations(states, counts, moves) };
+}
@@ -0,0 +1,100 @@
+// Workflow helpers shared by API routes and client components; database access lives in workflowStates.ts
+import { WipLimitMode, WipLimitViolation, WorkflowCategory, WorkflowState } from '@/types/workflow';
+
+export const WORKFLOW_CATEGORIES: { value: WorkflowCategory; label: string }[] = [
+  { value: 'todo', label: 'To Do' },
+  { value: 'active', label: 'In Progress' },
+  { value: 'done', label: 'Done' },
+];
+
+export const WIP_LIMIT_MODES: { value: WipLimitMode; label: string }[] = [
+  { value: 'soft', label: 'Warn when a column goes over its limit' },
+  { value: 'hard', label: 'Block moves into a full column' },
+];
+
+// States every project starts with; they match the statuses used before workflows were configurable
+export const DEFAULT_WORKFLOW_STATES: Pick<WorkflowState, 'key' | 'name' | 'color' | 'position' | 'category'>[] = [
+  { key: 'TODO', name: 'To Do', color: '#64748b', position: 0, category: 'todo' },
+  { key: 'IN_PROGRESS', name: 'In Progress', color: '#3b82f6', position: 1, category: 'active' },
+  { key: 'DONE', name: 'Done', color: '#22c55e', position: 2, category: 'done' },
+];
+
+// "In Review" -> "IN_REVIEW"
+export function toStatusKey(name: string) {
+  return name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function findWorkflowState<T extends Pick<WorkflowState, 'key'>>(states: T[], status: string) {
+  return states.find(state => state.key === status);
+}
+
+// Unknown statuses (e.g. a state deleted in another tab) fall back to the default states' categories
+export function getStatusCategory(
+  states: Pick<WorkflowState, 'key' | 'category'>[],
+  status: string
+): WorkflowCategory {
+  const state = findWorkflowState(states, status) || findWorkflowState(DEFAULT_WORKFLOW_STATES, status);
+  return state ? state.category : 'todo';
+}
+
+// New tasks start in the first to-do state
+export function getInitialStatus(states: Pick<WorkflowState, 'key' | 'category'>[]) {
+  return (states.find(state => state.category === 'todo') || states[0]).key;
+}
+
+// First state of `category`, or the initial state when the workflow has none in it
+export function getStatusForCategory(states: Pick<WorkflowState, 'key' | 'category'>[], category: WorkflowCategory) {
+  return states.find(state => state.category === category)?.key ?? getInitialStatus(states);
+}
+
+// Status of a task moving to another project's workflow: the same state if that workflow
+// has it, otherwise the first state of the same category
+export function mapStatusToWorkflow(
+  fromStates: Pick<WorkflowState, 'key' | 'category'>[],
+  toStates: Pick<WorkflowState, 'key' | 'category'>[],
+  status: string
+) {
+  return findWorkflowState(toStates, status)?.key ?? getStatusForCategory(toStates, getStatusCategory(fromStates, status));
+}
+
+export function isDoneStatus(states: Pick<WorkflowState, 'key' | 'category'>[], status: string) {
+  return getStatusCategory(states, status) === 'done';
+}
+
+export function getStatusKeys(states: Pick<WorkflowState, 'key' | 'category'>[], category: WorkflowCategory) {
+  return states.filter(state => state.category === category).map(state => state.key);
+}
+
+// Columns that would hold more tasks than their WIP limit once `moves` are applied.
+// Only columns that tasks move into count, so tasks can always leave a full column.
+export function getWipLimitViolations(
+  states: Pick<WorkflowState, 'key' | 'name' | 'wipLimit'>[],
+  counts: Record<string, number>,
+  moves: { from: string; to: string }[]
+): WipLimitViolation[] {
+  const changedMoves = moves.filter(move => move.from !== move.to);
+  const after = { ...counts };
+  for (const move of changedMoves) {
+    after[move.from] = (after[move.from] ?? 0) - 1;
+    after[move.to] = (after[move.to] ?? 0) + 1;
+  }
+
+  return states
+    .filter(state =>
+      state.wipLimit !== null &&
+      changedMoves.some(move => move.to === state.key) &&
+      (after[state.key] ?? 0) > state.wipLimit
+    )
+    .map(state => ({ status: state.key, name: state.name, limit: state.wipLimit!, count: after[state.key] }));
+}
+
+// "WIP limit exceeded: In Progress (6/5)"
+export function describeWipLimitViolations(violations: WipLimitViolation[]) {
+  return `WIP limit exceeded: ${violations
+    .map(violation => `${violation.name} (${violation.count}/${violation.limit})`)
+    .join(', ')}`;
+}
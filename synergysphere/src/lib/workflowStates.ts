@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_WORKFLOW_STATES, getStatusKeys } from '@/lib/workflow';
+import { WorkflowCategory, WorkflowState } from '@/types/workflow';
+
+export async function createDefaultWorkflowStates(projectId: string) {
+  await prisma.workflowState.createMany({
+    data: DEFAULT_WORKFLOW_STATES.map(state => ({ ...state, projectId })),
+  });
+}
+
+// Projects created before workflows were configurable get the default states on first use
+export async function getWorkflowStates(projectId: string): Promise<WorkflowState[]> {
+  let states = await prisma.workflowState.findMany({
+    where: { projectId },
+    orderBy: { position: 'asc' },
+  });
+
+  if (states.length === 0) {
+    await createDefaultWorkflowStates(projectId);
+    states = await prisma.workflowState.findMany({
+      where: { projectId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  return states as WorkflowState[];
+}
+
+export async function getWorkflowStatesByProject(projectIds: string[]) {
+  const uniqueIds = [...new Set(projectIds)];
+  const states = await prisma.workflowState.findMany({
+    where: { projectId: { in: uniqueIds } },
+    orderBy: { position: 'asc' },
+  });
+
+  const statesByProject = new Map<string, WorkflowState[]>();
+  for (const state of states as WorkflowState[]) {
+    const projectStates = statesByProject.get(state.projectId) || [];
+    projectStates.push(state);
+    statesByProject.set(state.projectId, projectStates);
+  }
+
+  for (const projectId of uniqueIds) {
+    if (!statesByProject.has(projectId)) {
+      statesByProject.set(projectId, await getWorkflowStates(projectId));
+    }
+  }
+
+  return statesByProject;
+}
+
+// Matches tasks whose status is in `category` in their own project's workflow
+export async function buildStatusCategoryWhere(
+  projectIds: string[],
+  category: WorkflowCategory
+): Promise<Prisma.TaskWhereInput> {
+  const statesByProject = await getWorkflowStatesByProject(projectIds);
+
+  return {
+    OR: [...statesByProject.entries()].map(([projectId, states]) => ({
+      projectId,
+      status: { in: getStatusKeys(states, category) },
+    })),
+  };
+}
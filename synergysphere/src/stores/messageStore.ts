@@ -44,7 +44,7 @@ interface MessageStore extends MessageState {
   
   // Real-time Updates
   handleRealTimeMessage: (message: Message) => void;
-  handleRealTimeMessageUpdate: (message: Message) => void;
+  handleRealTimeMessageUpdate: (message: Partial<Message> & Pick<Message, 'id'>) => void;
   handleRealTimeMessageDelete: (messageId: string) => void;
   handleRealTimeTyping: (indicator: TypingIndicator) => void;
   handleRealTimeStopTyping: (userId: string, threadId?: string) => void;
@@ -361,7 +361,8 @@ export const useMessageStore = create<MessageStore>()(
         set((state) => {
           const messageIndex = state.messages.findIndex(msg => msg.id === message.id);
           if (messageIndex !== -1) {
-            state.messages[messageIndex] = message;
+            // Updates may be partial (e.g. only reactions), so merge into the existing message
+            state.messages[messageIndex] = { ...state.messages[messageIndex], ...message };
             state.threads = buildMessageThreads(state.messages);
           }
         }),
@@ -372,15 +373,13 @@ export const useMessageStore = create<MessageStore>()(
           state.threads = buildMessageThreads(state.messages);
         }),
 
-      handleRealTimeTyping: (indicator) =>
-        set((state) => {
-          get().addTypingUser(indicator);
-        }),
+      handleRealTimeTyping: (indicator) => {
+        get().addTypingUser(indicator);
+      },
 
-      handleRealTimeStopTyping: (userId, threadId) =>
-        set((state) => {
-          get().removeTypingUser(userId, threadId);
-        }),
+      handleRealTimeStopTyping: (userId, threadId) => {
+        get().removeTypingUser(userId, threadId);
+      },
 
       // Pagination
       setHasMoreMessages: (hasMore) =>
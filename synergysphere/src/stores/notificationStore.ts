@@ -40,7 +40,7 @@ interface NotificationStore extends NotificationState {
   
   // Real-time Updates
   handleRealTimeNotification: (notification: Notification) => void;
-  handleRealTimeNotificationUpdate: (notification: Notification) => void;
+  handleRealTimeNotificationUpdate: (notification: Partial<Notification> & Pick<Notification, 'id'>) => void;
   handleRealTimeNotificationDelete: (notificationId: string) => void;
   
   // Utility Actions
@@ -276,23 +276,18 @@ export const useNotificationStore = create<NotificationStore>()(
         }),
 
       // Real-time Updates
-      handleRealTimeNotification: (notification) =>
-        set((state) => {
-          get().addNotification(notification);
-        }),
+      // Delegate to the regular actions so unread counts stay in sync
+      handleRealTimeNotification: (notification) => {
+        get().addNotification(notification);
+      },
 
-      handleRealTimeNotificationUpdate: (notification) =>
-        set((state) => {
-          const existingIndex = state.notifications.findIndex(n => n.id === notification.id);
-          if (existingIndex !== -1) {
-            state.notifications[existingIndex] = notification;
-          }
-        }),
+      handleRealTimeNotificationUpdate: (notification) => {
+        get().updateNotification(notification.id, notification);
+      },
 
-      handleRealTimeNotificationDelete: (notificationId) =>
-        set((state) => {
-          get().removeNotification(notificationId);
-        }),
+      handleRealTimeNotificationDelete: (notificationId) => {
+        get().removeNotification(notificationId);
+      },
 
       // Utility Actions
       getNotificationById: (notificationId) => {
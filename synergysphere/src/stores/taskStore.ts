@@ -1,17 +1,57 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
 import { subscribeWithSelector } from "zustand/middleware";
+import { matchesTaskQuery, parseTaskQuery } from "@/lib/taskQuery";
+import { isDoneStatus } from "@/lib/workflow";
+import { EstimationUnit } from "@/types/analytics";
+import { CustomField, CustomFieldValues } from "@/types/customFields";
+import { TaskLabel } from "@/types/labels";
+import { Milestone } from "@/types/milestones";
+import { Sprint } from "@/types/sprints";
+import { WipLimitMode, WorkflowState } from "@/types/workflow";
+import { useAuthStore } from "./authStore";
+
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
 
 export interface Task {
   id: string;
   title: string;
   description?: string;
-  status: "TODO" | "IN_PROGRESS" | "DONE";
+  // Key of one of the project's workflow states
+  status: string;
+  // Fractional rank within the status column; lower comes first
+  position?: number;
   priority: "LOW" | "MEDIUM" | "HIGH" | "URGENT";
   assigneeId?: string;
   creatorId: string;
   projectId: string;
+  // Per-project sequence number; with the project key it makes the task key, e.g. WEB-142
+  number?: number | null;
+  parentTaskId?: string | null;
+  // Sprint the task is planned into; null while it's in the backlog
+  sprintId?: string | null;
+  // Milestone the task counts towards
+  milestoneId?: string | null;
+  // Start of the task's bar on the timeline
+  startDate?: Date | null;
   dueDate?: Date | null;
+  // Story points or hours, per the project's estimation unit
+  estimate?: number | null;
+  // RRULE-style schedule; completing the task creates the next occurrence
+  recurrenceRule?: string | null;
+  recurrenceIndex?: number;
+  labels?: TaskLabel[];
+  // Values of the project's custom fields, keyed by field id
+  customFields?: CustomFieldValues;
   createdAt: Date;
   updatedAt: Date;
   assignee?: {
@@ -24,12 +64,17 @@ export interface Task {
     name: string;
     email: string;
   };
+  blockedBy?: TaskBlocker[];
+  // Completed vs total subtasks and checklist items
+  progress?: TaskProgress;
 }
 
 export interface TaskFilters {
-  status?: "TODO" | "IN_PROGRESS" | "DONE" | "ALL";
+  status?: string | "ALL";
   priority?: "LOW" | "MEDIUM" | "HIGH" | "URGENT" | "ALL";
   assigneeId?: string | "ALL";
+  // Tasks with any of these labels
+  labelIds?: string[];
   search?: string;
 }
 
@@ -43,11 +88,18 @@ export interface DragState {
 interface TaskStore {
   // State
   tasks: Task[];
-  tasksByStatus: {
-    TODO: Task[];
-    IN_PROGRESS: Task[];
-    DONE: Task[];
-  };
+  workflowStates: WorkflowState[];
+  estimationUnit: EstimationUnit;
+  // Prefix of the project's task keys
+  projectKey: string | null;
+  // Whether the board blocks drops into columns at their WIP limit
+  wipLimitMode: WipLimitMode;
+  // The project's labels, for pickers and filters
+  labels: TaskLabel[];
+  customFields: CustomField[];
+  sprints: Sprint[];
+  milestones: Milestone[];
+  tasksByStatus: Record<string, Task[]>;
   filters: TaskFilters;
   dragState: DragState;
   isLoading: boolean;
@@ -56,10 +108,18 @@ interface TaskStore {
 
   // Actions
   setTasks: (tasks: Task[]) => void;
+  setWorkflowStates: (states: WorkflowState[]) => void;
+  setEstimationUnit: (unit: EstimationUnit) => void;
+  setProjectKey: (key: string | null) => void;
+  setWipLimitMode: (mode: WipLimitMode) => void;
+  setLabels: (labels: TaskLabel[]) => void;
+  setCustomFields: (fields: CustomField[]) => void;
+  setSprints: (sprints: Sprint[]) => void;
+  setMilestones: (milestones: Milestone[]) => void;
   addTask: (task: Task) => void;
   updateTask: (taskId: string, updates: Partial<Task>) => void;
   removeTask: (taskId: string) => void;
-  moveTask: (taskId: string, newStatus: Task["status"]) => void;
+  moveTask: (taskId: string, newStatus: Task["status"], position?: number) => void;
   
   // Drag and Drop
   startDrag: (taskId: string, fromStatus: string) => void;
@@ -77,36 +137,87 @@ interface TaskStore {
   
   // Real-time updates
   setRealTimeEnabled: (enabled: boolean) => void;
-  handleRealTimeTaskUpdate: (task: Task) => void;
+  handleRealTimeTaskUpdate: (task: Partial<Task> & Pick<Task, "id">) => void;
   handleRealTimeTaskCreate: (task: Task) => void;
   handleRealTimeTaskDelete: (taskId: string) => void;
-  handleRealTimeTaskMove: (taskId: string, newStatus: Task["status"]) => void;
+  handleRealTimeTaskMove: (taskId: string, newStatus: Task["status"], position?: number) => void;
   
   // Batch operations
   batchUpdateTasks: (updates: Array<{ id: string; updates: Partial<Task> }>) => void;
 }
 
-const groupTasksByStatus = (tasks: Task[]) => {
-  return tasks.reduce(
-    (acc, task) => {
-      // Ensure the status exists in the accumulator
-      if (acc[task.status]) {
-        acc[task.status].push(task);
-      } else {
-        // Log warning for unexpected status values
-        console.warn(`Unexpected task status: ${task.status}`, task);
-      }
-      return acc;
-    },
-    {
-      TODO: [] as Task[],
-      IN_PROGRESS: [] as Task[],
-      DONE: [] as Task[],
+// Every workflow state gets a (possibly empty) column; tasks whose state was deleted
+// elsewhere are still grouped under their status until the states are reloaded
+const groupTasksByStatus = (tasks: Task[], states: WorkflowState[]) => {
+  const initial: Record<string, Task[]> = {};
+  states.forEach((workflowState) => {
+    initial[workflowState.key] = [];
+  });
+
+  // Stable sort: tasks with equal positions keep the order the API returned them in
+  const sortedTasks = [...tasks].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+  return sortedTasks.reduce((acc, task) => {
+    if (!acc[task.status]) {
+      acc[task.status] = [];
     }
-  );
+    acc[task.status].push(task);
+    return acc;
+  }, initial);
+};
+
+// Keep the blocker summaries embedded in other tasks in step with a task's status
+const syncBlockerStatus = (tasks: Task[], taskId: string, status: string) => {
+  tasks.forEach((task) => {
+    task.blockedBy?.forEach((blocker) => {
+      if (blocker.id === taskId) {
+        blocker.status = status;
+      }
+    });
+  });
 };
 
-const filterTasks = (tasks: Task[], filters: TaskFilters): Task[] => {
+// Adjust the parent's progress when a subtask is added (from null), removed (to null) or changes status
+const syncParentProgress = (
+  tasks: Task[],
+  states: WorkflowState[],
+  subtask: Pick<Task, "parentTaskId">,
+  fromStatus: string | null,
+  toStatus: string | null
+) => {
+  const parent = subtask.parentTaskId && tasks.find((task) => task.id === subtask.parentTaskId);
+  if (!parent || !parent.progress || fromStatus === toStatus) return;
+
+  if (fromStatus === null) parent.progress.total += 1;
+  if (toStatus === null) parent.progress.total -= 1;
+  if (fromStatus !== null && isDoneStatus(states, fromStatus)) parent.progress.completed -= 1;
+  if (toStatus !== null && isDoneStatus(states, toStatus)) parent.progress.completed += 1;
+};
+
+// Subtasks are deleted along with their parent
+const removeWithSubtasks = (tasks: Task[], taskId: string) => {
+  const removedIds = new Set([taskId]);
+  let previousSize = 0;
+  while (removedIds.size !== previousSize) {
+    previousSize = removedIds.size;
+    tasks.forEach((task) => {
+      if (task.parentTaskId && removedIds.has(task.parentTaskId)) {
+        removedIds.add(task.id);
+      }
+    });
+  }
+  return tasks.filter((task) => !removedIds.has(task.id));
+};
+
+export const getUnresolvedBlockers = (task: Task, states: WorkflowState[]) =>
+  (task.blockedBy || []).filter((blocker) => !isDoneStatus(states, blocker.status));
+
+const filterTasks = (tasks: Task[], filters: TaskFilters, projectKey: string | null): Task[] => {
+  // Search uses the query syntax, e.g. `assignee:me priority:>=HIGH` (see taskQuery.ts);
+  // terms that don't parse yet are ignored while they're being typed
+  const searchTerms = filters.search ? parseTaskQuery(filters.search).terms : [];
+  const searchContext = { userId: useAuthStore.getState().user?.id, projectKey };
+
   return tasks.filter((task) => {
     // Status filter
     if (filters.status && filters.status !== "ALL" && task.status !== filters.status) {
@@ -128,18 +239,18 @@ const filterTasks = (tasks: Task[], filters: TaskFilters): Task[] => {
       }
     }
 
-    // Search filter
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      const titleMatch = task.title.toLowerCase().includes(searchTerm);
-      const descriptionMatch = task.description?.toLowerCase().includes(searchTerm);
-      const assigneeMatch = task.assignee?.name.toLowerCase().includes(searchTerm);
-      
-      if (!titleMatch && !descriptionMatch && !assigneeMatch) {
+    // Label filter
+    if (filters.labelIds && filters.labelIds.length > 0) {
+      if (!task.labels?.some((label) => filters.labelIds!.includes(label.id))) {
         return false;
       }
     }
 
+    // Search filter
+    if (!matchesTaskQuery(task, searchTerms, searchContext)) {
+      return false;
+    }
+
     return true;
   });
 };
@@ -149,11 +260,15 @@ export const useTaskStore = create<TaskStore>()(
     immer((set, get) => ({
       // Initial state
       tasks: [],
-      tasksByStatus: {
-        TODO: [],
-        IN_PROGRESS: [],
-        DONE: [],
-      },
+      workflowStates: [],
+      estimationUnit: "points",
+      projectKey: null,
+      wipLimitMode: "soft",
+      labels: [],
+      customFields: [],
+      sprints: [],
+      milestones: [],
+      tasksByStatus: {},
       filters: {},
       dragState: {
         isDragging: false,
@@ -166,37 +281,93 @@ export const useTaskStore = create<TaskStore>()(
     setTasks: (tasks) => 
       set((state) => {
         state.tasks = tasks;
-        state.tasksByStatus = groupTasksByStatus(tasks);
+        state.tasksByStatus = groupTasksByStatus(tasks, state.workflowStates);
+      }),
+
+    setWorkflowStates: (workflowStates) =>
+      set((state) => {
+        state.workflowStates = workflowStates;
+        state.tasksByStatus = groupTasksByStatus(state.tasks, workflowStates);
+      }),
+
+    setEstimationUnit: (estimationUnit) =>
+      set((state) => {
+        state.estimationUnit = estimationUnit;
+      }),
+
+    setProjectKey: (projectKey) =>
+      set((state) => {
+        state.projectKey = projectKey;
+      }),
+
+    setWipLimitMode: (wipLimitMode) =>
+      set((state) => {
+        state.wipLimitMode = wipLimitMode;
+      }),
+
+    setLabels: (labels) =>
+      set((state) => {
+        state.labels = labels;
+      }),
+
+    setCustomFields: (customFields) =>
+      set((state) => {
+        state.customFields = customFields;
+      }),
+
+    setSprints: (sprints) =>
+      set((state) => {
+        state.sprints = sprints;
+      }),
+
+    setMilestones: (milestones) =>
+      set((state) => {
+        state.milestones = milestones;
       }),
 
     addTask: (task) =>
       set((state) => {
         state.tasks.push(task);
-        state.tasksByStatus = groupTasksByStatus(state.tasks);
+        syncParentProgress(state.tasks, state.workflowStates, task, null, task.status);
+        state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
       }),
 
     updateTask: (taskId, updates) =>
       set((state) => {
         const taskIndex = state.tasks.findIndex((task) => task.id === taskId);
         if (taskIndex !== -1) {
+          const previousStatus = state.tasks[taskIndex].status;
           Object.assign(state.tasks[taskIndex], updates);
-          state.tasksByStatus = groupTasksByStatus(state.tasks);
+          if (updates.status) {
+            syncBlockerStatus(state.tasks, taskId, updates.status);
+            syncParentProgress(state.tasks, state.workflowStates, state.tasks[taskIndex], previousStatus, updates.status);
+          }
+          state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
         }
       }),
 
     removeTask: (taskId) =>
       set((state) => {
-        state.tasks = state.tasks.filter((task) => task.id !== taskId);
-        state.tasksByStatus = groupTasksByStatus(state.tasks);
+        const task = state.tasks.find((t) => t.id === taskId);
+        if (task) {
+          syncParentProgress(state.tasks, state.workflowStates, task, task.status, null);
+        }
+        state.tasks = removeWithSubtasks(state.tasks, taskId);
+        state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
       }),
 
-    moveTask: (taskId, newStatus) =>
+    moveTask: (taskId, newStatus, position) =>
       set((state) => {
         const taskIndex = state.tasks.findIndex((task) => task.id === taskId);
         if (taskIndex !== -1) {
+          syncParentProgress(state.tasks, state.workflowStates, state.tasks[taskIndex], state.tasks[taskIndex].status, newStatus);
           state.tasks[taskIndex].status = newStatus;
+          if (position !== undefined) {
+            state.tasks[taskIndex].position = position;
+          }
           state.tasks[taskIndex].updatedAt = new Date();
-          state.tasksByStatus = groupTasksByStatus(state.tasks);
+          syncBlockerStatus(state.tasks, taskId, newStatus);
+          state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
         }
       }),
 
@@ -236,8 +407,8 @@ export const useTaskStore = create<TaskStore>()(
       }),
 
     getFilteredTasks: (status) => {
-      const { tasks, filters } = get();
-      const filtered = filterTasks(tasks, filters);
+      const { tasks, filters, projectKey } = get();
+      const filtered = filterTasks(tasks, filters, projectKey);
       
       if (status) {
         return filtered.filter((task) => task.status === status);
@@ -269,8 +440,13 @@ export const useTaskStore = create<TaskStore>()(
         
         const taskIndex = state.tasks.findIndex((t) => t.id === task.id);
         if (taskIndex !== -1) {
+          const previousStatus = state.tasks[taskIndex].status;
           state.tasks[taskIndex] = { ...state.tasks[taskIndex], ...task };
-          state.tasksByStatus = groupTasksByStatus(state.tasks);
+          if (task.status) {
+            syncBlockerStatus(state.tasks, task.id, task.status);
+            syncParentProgress(state.tasks, state.workflowStates, state.tasks[taskIndex], previousStatus, task.status);
+          }
+          state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
         }
       }),
 
@@ -281,7 +457,8 @@ export const useTaskStore = create<TaskStore>()(
         const existingTaskIndex = state.tasks.findIndex((t) => t.id === task.id);
         if (existingTaskIndex === -1) {
           state.tasks.push(task);
-          state.tasksByStatus = groupTasksByStatus(state.tasks);
+          syncParentProgress(state.tasks, state.workflowStates, task, null, task.status);
+          state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
         }
       }),
 
@@ -289,19 +466,28 @@ export const useTaskStore = create<TaskStore>()(
       set((state) => {
         if (!state.realTimeEnabled) return;
         
-        state.tasks = state.tasks.filter((task) => task.id !== taskId);
-        state.tasksByStatus = groupTasksByStatus(state.tasks);
+        const task = state.tasks.find((t) => t.id === taskId);
+        if (task) {
+          syncParentProgress(state.tasks, state.workflowStates, task, task.status, null);
+        }
+        state.tasks = removeWithSubtasks(state.tasks, taskId);
+        state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
       }),
 
-    handleRealTimeTaskMove: (taskId, newStatus) =>
+    handleRealTimeTaskMove: (taskId, newStatus, position) =>
       set((state) => {
         if (!state.realTimeEnabled) return;
         
         const taskIndex = state.tasks.findIndex((task) => task.id === taskId);
         if (taskIndex !== -1) {
+          syncParentProgress(state.tasks, state.workflowStates, state.tasks[taskIndex], state.tasks[taskIndex].status, newStatus);
           state.tasks[taskIndex].status = newStatus;
+          if (position !== undefined) {
+            state.tasks[taskIndex].position = position;
+          }
           state.tasks[taskIndex].updatedAt = new Date();
-          state.tasksByStatus = groupTasksByStatus(state.tasks);
+          syncBlockerStatus(state.tasks, taskId, newStatus);
+          state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
         }
       }),
 
@@ -314,7 +500,7 @@ export const useTaskStore = create<TaskStore>()(
             Object.assign(state.tasks[taskIndex], taskUpdates);
           }
         });
-        state.tasksByStatus = groupTasksByStatus(state.tasks);
+        state.tasksByStatus = groupTasksByStatus(state.tasks, state.workflowStates);
       }),
     }))
   )
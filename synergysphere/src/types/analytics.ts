@@ -0,0 +1,51 @@
+// What Task.estimate counts, configured per project
+export type EstimationUnit = 'points' | 'hours';
+
+export type AnalyticsTimeRange = 'week' | 'month' | 'quarter';
+
+export interface ProjectMetrics {
+  completionRate: number;
+  totalTasks: number;
+  completedTasks: number;
+  overdueTasks: number;
+  activeMembers: number; // Members who changed a task's status in the period
+  avgTaskCompletionTime: number; // in days, from creation to completion
+  velocity: number; // Estimate completed per week, in the project's estimation unit
+  tasksPerWeek: number;
+  velocityTrend: "up" | "down" | "stable";
+  onTimeRate: number; // % of tasks completed in the period by their due date
+  timeToDeadline: number | null; // in days, until the latest due date of an open task
+}
+
+export interface VelocityWeek {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  tasksCompleted: number;
+  estimateCompleted: number;
+}
+
+export interface TeamProductivity {
+  memberId: string;
+  memberName: string;
+  tasksCompleted: number;
+  tasksAssigned: number;
+  completionRate: number;
+  avgCompletionTime: number; // in days
+}
+
+export interface TaskDistribution {
+  status: string;
+  count: number;
+  percentage: number;
+  color: string;
+}
+
+// Response of /api/projects/[id]/analytics
+export interface ProjectAnalyticsData {
+  projectId: string;
+  projectName: string;
+  estimationUnit: EstimationUnit;
+  metrics: ProjectMetrics;
+  velocityHistory: VelocityWeek[];
+  teamProductivity: TeamProductivity[];
+  taskDistribution: TaskDistribution[];
+}
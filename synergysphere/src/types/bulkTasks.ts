@@ -0,0 +1,30 @@
+import { WorkflowCategory } from '@/types/workflow';
+
+// One bulk action, applied to every selected task (PATCH /api/tasks/batch)
+export interface BulkTaskChanges {
+  status?: string;
+  // First state of the category in each task's own workflow, for tasks from several projects
+  statusCategory?: WorkflowCategory;
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  // null unassigns
+  assigneeId?: string | null;
+  // Moves the start and due dates by this many days
+  shiftDays?: number;
+  projectId?: string;
+  delete?: true;
+}
+
+export interface BatchTaskUpdate extends BulkTaskChanges {
+  id: string;
+}
+
+export type BatchTaskAction = 'updated' | 'moved' | 'deleted';
+
+export interface BatchTaskResult<T> {
+  id: string;
+  action: BatchTaskAction;
+  // The task after the change; not set for deleted tasks
+  task?: T;
+  // Set when a moved task's assignee isn't a member of the target project
+  assigneeCleared?: boolean;
+}
@@ -0,0 +1,16 @@
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'user';
+
+export interface CustomField {
+  id: string;
+  projectId: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Choices of a select field
+  position: number;
+}
+
+// Text and select: the string; number: the number; date: "YYYY-MM-DD"; user: the user's id
+export type CustomFieldValue = string | number;
+
+// A task's values keyed by field id; fields without a value are left out
+export type CustomFieldValues = Record<string, CustomFieldValue>;
@@ -0,0 +1,7 @@
+// Project-scoped tag; tasks can carry any number of their project's labels
+export interface TaskLabel {
+  id: string;
+  projectId: string;
+  name: string;
+  color: string;
+}
@@ -0,0 +1,26 @@
+// Derived from the milestone's tasks and target date, see getMilestoneStatus
+export type MilestoneStatus = 'on_track' | 'at_risk' | 'overdue' | 'completed';
+
+export interface Milestone {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string | null;
+  targetDate: string;
+  totalTasks: number;
+  completedTasks: number;
+  // Unfinished tasks past their own due date
+  overdueTasks: number;
+  progress: number; // 0-100
+  status: MilestoneStatus;
+  createdAt: string;
+}
+
+// Milestone on the cross-project calendar
+export interface CalendarMilestone extends Milestone {
+  project: {
+    id: string;
+    name: string;
+    color: string | null;
+  };
+}
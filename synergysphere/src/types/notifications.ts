@@ -10,6 +10,7 @@ export type NotificationType =
   | 'reply' 
   | 'task_assigned' 
   | 'task_completed'
+  | 'task_updated'
   | 'task_comment'
   | 'project_invite'
   | 'project_update'
@@ -69,6 +70,19 @@ export interface NotificationSettings {
   digestFrequency: 'realtime' | 'daily' | 'weekly' | 'never';
 }
 
+// Stored per user by /api/user/notifications; each toggle covers some notification types
+export interface NotificationPreferences {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  taskAssignments: boolean;
+  taskUpdates: boolean; // Status, due date and assignment changes on watched tasks
+  taskComments: boolean;
+  projectUpdates: boolean;
+  deadlineReminders: boolean;
+  teamInvitations: boolean;
+  weeklyDigest: boolean;
+}
+
 export interface NotificationState {
   notifications: Notification[];
   unreadCount: number;
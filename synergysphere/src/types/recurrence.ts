@@ -0,0 +1,20 @@
+// Parsed form of the RRULE-style string stored in Task.recurrenceRule, e.g.
+// "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE" or "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6"
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // WEEKLY: the days of the week to repeat on
+  byDay?: Weekday[];
+  // MONTHLY by day: the day of the month (1-31; shorter months use their last day)
+  byMonthDay?: number;
+  // MONTHLY by weekday: e.g. { ordinal: 2, weekday: 'TU' } is the second Tuesday, -1 the last
+  byWeekdayOfMonth?: { ordinal: number; weekday: Weekday };
+  // Last date (YYYY-MM-DD, inclusive) an occurrence may fall on
+  until?: string;
+  // Total number of occurrences in the series
+  count?: number;
+}
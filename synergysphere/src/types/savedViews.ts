@@ -0,0 +1,27 @@
+// How a saved view lays out its tasks
+export type ViewLayout = 'board' | 'list' | 'calendar';
+
+// Everything a view restores. Filters are kept by their URL query name, since the
+// project tasks page and My Tasks filter on different fields.
+export interface SavedViewConfig {
+  layout: ViewLayout;
+  filters: Record<string, string>;
+  sort?: string;
+  groupBy?: string;
+}
+
+export interface SavedView {
+  id: string;
+  // Null for My Tasks views
+  projectId: string | null;
+  name: string;
+  isShared: boolean;
+  // Whether this is the current user's default view
+  isDefault: boolean;
+  config: SavedViewConfig;
+  owner: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
@@ -0,0 +1,28 @@
+// Planned sprints can be started; at most one sprint per project is active at a time
+export type SprintState = 'planned' | 'active' | 'closed';
+
+// Saved when a sprint is closed, so later edits to its tasks don't rewrite the outcome.
+// A type rather than an interface so it can be stored as JSON as is.
+export type SprintSummary = {
+  completedTasks: number;
+  carriedOverTasks: number;
+  // Sums of Task.estimate, in the project's estimation unit
+  completedEstimate: number;
+  carriedOverEstimate: number;
+  // Where the unfinished tasks went; null for the backlog
+  carriedOverTo: { id: string; name: string } | null;
+};
+
+export interface Sprint {
+  id: string;
+  projectId: string;
+  name: string;
+  goal: string | null;
+  startDate: string;
+  endDate: string;
+  state: SprintState;
+  summary: SprintSummary | null;
+  closedAt: string | null;
+  createdAt: string;
+  taskCount: number;
+}
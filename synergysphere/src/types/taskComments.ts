@@ -0,0 +1,27 @@
+export interface TaskCommentReaction {
+  id: string;
+  emoji: string;
+  userId: string;
+  userName: string;
+  createdAt: string;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  content: string; // "[This comment was deleted]" once deleted
+  mentions: string[]; // Mentioned user IDs
+  isEdited: boolean;
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  author: {
+    id: string;
+    name: string;
+    email: string;
+    avatarUrl?: string;
+  };
+  reactions: TaskCommentReaction[];
+}
@@ -0,0 +1,17 @@
+// One field change, as returned by /api/tasks/[id]/history
+export interface TaskHistoryEntry {
+  id: string;
+  taskId: string;
+  // Task column (e.g. "dueDate"), "labels" or "customField:<fieldId>"
+  field: string;
+  // Stored as text: dates as ISO timestamps, users as ids, labels as comma-separated names
+  oldValue: string | null;
+  newValue: string | null;
+  actorId: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  } | null;
+}
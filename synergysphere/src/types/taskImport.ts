@@ -0,0 +1,38 @@
+import { TaskLabel } from '@/types/labels';
+
+// Task fields a CSV column can be imported into
+export type TaskImportField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'assigneeEmail'
+  | 'startDate'
+  | 'dueDate'
+  | 'estimate'
+  | 'labels';
+
+// One CSV row as text, keyed by the field its column is mapped to
+export type TaskImportRow = Partial<Record<TaskImportField, string>>;
+
+// The task a valid row becomes
+export interface TaskImportPreview {
+  title: string;
+  description: string | null;
+  // Key of one of the project's workflow states
+  status: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  assignee: { id: string; name: string; email: string } | null;
+  startDate: string | null;
+  dueDate: string | null;
+  estimate: number | null;
+  labels: TaskLabel[];
+}
+
+export interface TaskImportRowResult {
+  // 1-based position among the imported rows
+  row: number;
+  errors: string[];
+  // Null when the row has errors
+  task: TaskImportPreview | null;
+}
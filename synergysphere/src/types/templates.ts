@@ -0,0 +1,56 @@
+import { EstimationUnit } from '@/types/analytics';
+import { WipLimitMode, WorkflowCategory, WorkflowState } from '@/types/workflow';
+
+export type TemplateKind = 'task' | 'project';
+
+// Project role that fills a template task's assignee when the template is used
+export type TemplateRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+// A task as a template keeps it. Dates are days after the start date picked when the
+// template is used, and the assignee is a role rather than a person.
+export interface TemplateTask {
+  title: string;
+  description: string | null;
+  // Kept with its category, which places the task when the workflow has no such state
+  status: string;
+  statusCategory: WorkflowCategory;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  estimate: number | null;
+  recurrenceRule: string | null;
+  startOffsetDays: number | null;
+  dueOffsetDays: number | null;
+  assigneeRole: TemplateRole | null;
+  // Label names; labels the project doesn't have are left off
+  labels: string[];
+  checklist: string[];
+  // Index of the parent task in the template's task list; parents come first
+  parentIndex: number | null;
+}
+
+// A task with its subtasks; the first task is the one that was saved
+export interface TaskTemplateContent {
+  tasks: TemplateTask[];
+}
+
+export interface ProjectTemplateContent {
+  description: string | null;
+  color: string | null;
+  estimationUnit: EstimationUnit;
+  wipLimitMode: WipLimitMode;
+  workflowStates: Pick<WorkflowState, 'key' | 'name' | 'color' | 'position' | 'category' | 'wipLimit'>[];
+  labels: Array<{ name: string; color: string }>;
+  customFields: Array<{ name: string; type: string; options: string[]; position: number }>;
+  // Added to the new project with their roles, next to the user creating it
+  members: Array<{ userId: string; role: TemplateRole }>;
+  tasks: TemplateTask[];
+}
+
+export interface Template {
+  id: string;
+  kind: TemplateKind;
+  name: string;
+  taskCount: number;
+  // Due date of a task template's task, in days after the start date
+  dueOffsetDays: number | null;
+  createdAt: string;
+}
@@ -0,0 +1,35 @@
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: string;
+  endedAt: string | null; // null while the timer is running
+  duration: number | null; // Seconds
+  note: string | null;
+  user: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  };
+  task: {
+    id: string;
+    title: string;
+    projectId: string;
+  };
+}
+
+export interface TimeSummaryGroup {
+  id: string;
+  name: string;
+  seconds: number;
+}
+
+// Totals of finished entries, as returned by /api/time-entries/summary
+export interface TimeSummary {
+  totalSeconds: number;
+  byTask: TimeSummaryGroup[];
+  byUser: TimeSummaryGroup[];
+  byProject: TimeSummaryGroup[];
+  // id and name are the day, YYYY-MM-DD
+  byDate: TimeSummaryGroup[];
+}
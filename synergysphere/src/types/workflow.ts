@@ -0,0 +1,25 @@
+// Every workflow state belongs to one category; features that need to know whether
+// a task is "not started", "in flight" or "finished" read the category, never the state name
+export type WorkflowCategory = 'todo' | 'active' | 'done';
+
+export interface WorkflowState {
+  id: string;
+  projectId: string;
+  key: string; // Value stored in Task.status, e.g. "IN_REVIEW"
+  name: string;
+  color: string;
+  position: number;
+  category: WorkflowCategory;
+  // Most tasks the column should hold; null for no limit
+  wipLimit: number | null;
+}
+
+// How moves that take a column over its WIP limit are handled
+export type WipLimitMode = 'soft' | 'hard';
+
+export interface WipLimitViolation {
+  status: string;
+  name: string;
+  limit: number;
+  count: number; // Tasks in the column after the move
+}